@@ -7,13 +7,16 @@ import { redirect } from 'next/navigation';
 /**
  * Signs up a new user using their email and password.
  * 
- * @param formData - The form data containing the email and password.
+ * @param formData - The form data containing the name, email, password and
+ * whether the account is for a teacher.
  * @returns A redirect to the dashboard if email confirmation is disabled, 
  * or to a confirmation page if email confirmation is enabled.
  */
 export async function signup(formData: FormData) {
   const email = formData.get('email') as string;
   const password = formData.get('password') as string;
+  const fullName = ((formData.get('fullName') as string) || '').trim();
+  const role = formData.get('isTeacher') === 'on' ? 'teacher' : 'user';
   const origin = (await headers()).get('origin');
   const supabase = createClient();
 
@@ -24,6 +27,8 @@ export async function signup(formData: FormData) {
       // The user will be redirected to this URL after confirming their email
       // This is only used when email confirmation is enabled
       emailRedirectTo: `${origin}/auth/callback`,
+      // Copied to the public profile by the handle_new_user trigger
+      data: { full_name: fullName, role },
     },
   });
 
@@ -38,6 +38,17 @@ function SignupContent() {
             </CardDescription>
           </CardHeader>
           <CardContent className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="fullName">Full name</Label>
+              <Input
+                id="fullName"
+                name="fullName"
+                type="text"
+                placeholder="Jordan Lee"
+                required
+                autoComplete="name"
+              />
+            </div>
             <div className="grid gap-2">
               <Label htmlFor="email">Email</Label>
               <Input
@@ -60,6 +71,15 @@ function SignupContent() {
                 placeholder="••••••••"
               />
             </div>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                id="isTeacher"
+                name="isTeacher"
+                type="checkbox"
+                className="h-4 w-4 rounded border-input"
+              />
+              I&apos;m a teacher and want to create classes
+            </label>
             {message && (
               <p className="rounded-md border border-destructive bg-destructive/10 p-2 text-sm text-destructive">
                 {message}
@@ -0,0 +1,72 @@
+/**
+ * @file Route handler that renders a document to PDF on the server.
+ * Rendering server-side avoids the browser print dialog, works when popups
+ * are blocked, and produces identical output in every browser.
+ */
+import { createClient } from '@/lib/supabase/server';
+import { renderDocumentPdf } from '@/lib/pdf-export';
+import { type AcademicHeader, type PdfLayout } from '@/lib/types';
+import { type JSONContent } from '@tiptap/react';
+import { NextResponse, type NextRequest } from 'next/server';
+
+const LAYOUTS: PdfLayout[] = ['standard', 'mla', 'apa'];
+
+interface PdfExportRequest {
+  title?: string;
+  content?: JSONContent;
+  layout?: PdfLayout;
+  header?: Partial<AcademicHeader>;
+}
+
+/**
+ * Renders the posted document content as a PDF file.
+ *
+ * @param request - JSON body with the title, Tiptap content, layout and header details
+ * @returns The PDF file, or a JSON error response
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'You must be logged in to export a document.' }, { status: 401 });
+  }
+
+  let body: PdfExportRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 });
+  }
+
+  if (!body.content || typeof body.content !== 'object') {
+    return NextResponse.json({ error: 'No document content provided.' }, { status: 400 });
+  }
+
+  const layout = body.layout && LAYOUTS.includes(body.layout) ? body.layout : 'standard';
+  const title = body.title?.trim() || 'Untitled Document';
+  const header: AcademicHeader = {
+    studentName: body.header?.studentName?.trim() || '',
+    teacherName: body.header?.teacherName?.trim() || '',
+    className: body.header?.className?.trim() || '',
+    date: body.header?.date?.trim() || '',
+  };
+
+  try {
+    const pdfBytes = await renderDocumentPdf(title, body.content, { layout, header });
+
+    return new NextResponse(Buffer.from(pdfBytes), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering PDF:', error);
+    return NextResponse.json({ error: 'Could not generate the PDF.' }, { status: 500 });
+  }
+}
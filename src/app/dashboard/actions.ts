@@ -3,6 +3,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { revalidatePath } from 'next/cache';
+import { type DocumentMember, type DocumentShare, type SharePermission } from '@/lib/types';
 
 /**
  * Signs the user out and redirects to the login page.
@@ -21,8 +22,11 @@ export async function logout() {
 
 /**
  * Creates a new document for the current user and redirects to the editor page.
+ * When the form data has an `assignmentId`, the document is started from that
+ * assignment; if the student already started it, their existing document opens.
+ * @param formData Optional form data with the assignment to start.
  */
-export async function createDocument() {
+export async function createDocument(formData?: FormData) {
   const supabase = createClient();
 
   const {
@@ -34,11 +38,41 @@ export async function createDocument() {
     return redirect('/login');
   }
 
+  const assignmentId = (formData?.get('assignmentId') as string | null) || null;
+  let title = 'Untitled Document';
+
+  if (assignmentId) {
+    // RLS only returns assignments from classes the student is enrolled in
+    const { data: assignment } = await supabase
+      .from('assignments')
+      .select('title')
+      .eq('id', assignmentId)
+      .single();
+
+    if (!assignment) {
+      return redirect('/dashboard?message=Could not find that assignment');
+    }
+
+    const { data: existing } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('assignment_id', assignmentId)
+      .maybeSingle();
+
+    if (existing) {
+      return redirect(`/editor/${existing.id}`);
+    }
+
+    title = assignment.title;
+  }
+
   const { data, error } = await supabase
     .from('documents')
     .insert({
       user_id: user.id,
-      title: 'Untitled Document',
+      title,
+      assignment_id: assignmentId,
     })
     .select('id')
     .single();
@@ -51,6 +85,49 @@ export async function createDocument() {
   return redirect(`/editor/${data.id}`);
 }
 
+/**
+ * Creates a new document from imported content.
+ * The file is parsed in the browser; this action stores the resulting Tiptap JSON.
+ * @param title The title for the new document, usually the imported file's name.
+ * @param content The Tiptap JSON content parsed from the file.
+ */
+export async function importDocument(
+  title: string,
+  content: Record<string, unknown>,
+): Promise<{ error: string | null; newDocumentId?: string }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to import a document.' };
+  }
+
+  if (content?.type !== 'doc') {
+    return { error: 'The imported file could not be read.' };
+  }
+
+  const { data, error } = await supabase
+    .from('documents')
+    .insert({
+      user_id: user.id,
+      title: title.trim() || 'Imported Document',
+      content,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('Error importing document:', error);
+    return { error: 'Could not import document. Please try again.' };
+  }
+
+  revalidatePath('/dashboard');
+  return { error: null, newDocumentId: data.id };
+}
+
 /**
  * Deletes a document by its ID.
  * After deletion, it revalidates the dashboard path to refresh the list of documents.
@@ -173,4 +250,281 @@ export async function duplicateDocument(documentId: string): Promise<{ error: st
 
   revalidatePath('/dashboard');
   return { error: null, newDocumentId: newDoc.id };
-}
\ No newline at end of file
+}
+
+/**
+ * Submits a document to a class so the class teacher can read it.
+ * RLS rejects the update unless the user is enrolled in the class.
+ * @param documentId The ID of the document to submit.
+ * @param classId The ID of the class to submit it to.
+ */
+export async function submitDocumentToClass(
+  documentId: string,
+  classId: string,
+): Promise<{ error: string | null }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to submit a document.' };
+  }
+
+  const { error } = await supabase
+    .from('documents')
+    .update({ class_id: classId, submitted_at: new Date().toISOString() })
+    .eq('id', documentId)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error submitting document:', error);
+    return { error: 'Could not submit document. Make sure you are still enrolled in the class.' };
+  }
+
+  revalidatePath('/dashboard');
+  return { error: null };
+}
+
+/**
+ * Withdraws a submitted document so the teacher can no longer read it.
+ * @param documentId The ID of the document to withdraw.
+ */
+export async function withdrawSubmission(documentId: string): Promise<{ error: string | null }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to withdraw a submission.' };
+  }
+
+  const { error } = await supabase
+    .from('documents')
+    .update({ class_id: null, submitted_at: null })
+    .eq('id', documentId)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error withdrawing submission:', error);
+    return { error: 'Could not withdraw submission. Please try again.' };
+  }
+
+  revalidatePath('/dashboard');
+  return { error: null };
+}
+
+/**
+ * Submits a document for the assignment it was started from.
+ * The database stores a snapshot of the document with the submission, so
+ * later edits do not change what the teacher sees, and flags late submissions.
+ * @param documentId The ID of the document to submit.
+ */
+export async function submitAssignment(
+  documentId: string,
+): Promise<{ error: string | null; isLate?: boolean }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to submit an assignment.' };
+  }
+
+  const { data: document, error: fetchError } = await supabase
+    .from('documents')
+    .select('id, assignment_id')
+    .eq('id', documentId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (fetchError || !document) {
+    console.error('Error fetching document for submission:', fetchError);
+    return { error: 'Could not find document to submit.' };
+  }
+
+  if (!document.assignment_id) {
+    return { error: 'This document is not part of an assignment.' };
+  }
+
+  const { data: submission, error } = await supabase
+    .from('submissions')
+    .insert({
+      assignment_id: document.assignment_id,
+      document_id: document.id,
+      student_id: user.id,
+    })
+    .select('is_late')
+    .single();
+
+  // 23505 is a unique violation: the assignment was already submitted
+  if (error?.code === '23505') {
+    return { error: 'You have already submitted this assignment.' };
+  }
+
+  if (error || !submission) {
+    console.error('Error submitting assignment:', error);
+    return { error: 'Could not submit assignment. Please try again.' };
+  }
+
+  revalidatePath('/dashboard');
+  revalidatePath(`/editor/${documentId}`);
+  return { error: null, isLate: submission.is_late };
+}
+
+/**
+ * Creates a share link for one of the current user's documents. Anyone who
+ * opens the link while logged in gets the link's access to the document.
+ * @param documentId The ID of the document to share.
+ * @param permission Whether the link lets people view, comment or edit.
+ */
+export async function createShareLink(
+  documentId: string,
+  permission: SharePermission,
+): Promise<{ error: string | null; share?: DocumentShare }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to share a document.' };
+  }
+
+  // RLS only allows the owner to create shares
+  const { data, error } = await supabase
+    .from('document_shares')
+    .insert({
+      document_id: documentId,
+      permission,
+      token: crypto.randomUUID().replace(/-/g, ''),
+    })
+    .select('id, document_id, permission, token, created_at')
+    .single();
+
+  if (error || !data) {
+    console.error('Error creating share link:', error);
+    return { error: 'Could not create a share link. Please try again.' };
+  }
+
+  return { error: null, share: data as DocumentShare };
+}
+
+/**
+ * Invites another user to one of the current user's documents by email
+ * address. The invite becomes a share when they next open their dashboard; a
+ * user who already has access gets the new permission then.
+ * @param documentId The ID of the document to share.
+ * @param email The email address the other user signed up with.
+ * @param permission Whether the user can view, comment or edit.
+ */
+export async function shareDocumentWithUser(
+  documentId: string,
+  email: string,
+  permission: SharePermission,
+): Promise<{ error: string | null; member?: DocumentMember }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to share a document.' };
+  }
+
+  if (!email.trim()) {
+    return { error: 'Enter the email address of the person to share with.' };
+  }
+
+  if (email.trim().toLowerCase() === user.email?.toLowerCase()) {
+    return { error: 'You already own this document.' };
+  }
+
+  // RLS only allows the owner to invite people. Any address can be invited,
+  // so owners cannot tell which addresses have an account
+  const { data, error } = await supabase
+    .from('document_shares')
+    .upsert(
+      { document_id: documentId, permission, email: email.trim().toLowerCase() },
+      { onConflict: 'document_id,email' },
+    )
+    .select('id, document_id, user_id, email, permission, link_id, created_at')
+    .single();
+
+  if (error || !data) {
+    console.error('Error sharing document:', error);
+    return { error: 'Could not share the document. Please try again.' };
+  }
+
+  return { error: null, member: { ...data, full_name: null } as DocumentMember };
+}
+
+/**
+ * Changes the access a share gives. Changing the access of a user who joined
+ * through a link only affects that user.
+ * @param shareId The ID of the share.
+ * @param permission Whether the share lets people view, comment or edit.
+ */
+export async function updateSharePermission(
+  shareId: string,
+  permission: SharePermission,
+): Promise<{ error: string | null }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to manage sharing.' };
+  }
+
+  // RLS only allows the owner to change shares
+  const { error } = await supabase
+    .from('document_shares')
+    .update({ permission })
+    .eq('id', shareId);
+
+  if (error) {
+    console.error('Error updating share:', error);
+    return { error: 'Could not change access. Please try again.' };
+  }
+
+  return { error: null };
+}
+
+/**
+ * Removes a share. Removing a link also removes everyone who joined through
+ * it; removing a user only removes that user.
+ * @param shareId The ID of the share link or user share.
+ */
+export async function removeDocumentShare(shareId: string): Promise<{ error: string | null }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to manage sharing.' };
+  }
+
+  const { error } = await supabase
+    .from('document_shares')
+    .delete()
+    .eq('id', shareId);
+
+  if (error) {
+    console.error('Error removing share:', error);
+    return { error: 'Could not remove access. Please try again.' };
+  }
+
+  return { error: null };
+}
@@ -0,0 +1,248 @@
+/**
+ * @file The assignment overview for teachers. Shows the prompt, the rubric
+ * the assignment is graded against and each enrolled student's submission
+ * status, with links to submitted snapshots.
+ */
+import { createClient } from '@/lib/supabase/server';
+import { type Assignment, type Rubric, type Submission } from '@/lib/types';
+import { ESSAY_TYPE_LABELS, formatDueDate, formatWordRange } from '@/lib/assignments';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { RubricBuilderDialog, RubricPicker } from '../../../rubric-builder';
+
+interface AssignmentPageProps {
+  params: Promise<{ classId: string; assignmentId: string }>;
+}
+
+type SubmissionSummary = Pick<Submission, 'id' | 'student_id' | 'word_count' | 'submitted_at' | 'is_late'>;
+
+/**
+ * Renders an assignment and its submissions for the class teacher.
+ *
+ * @param {AssignmentPageProps} props - The component props, including the class and assignment IDs.
+ * @returns The rendered assignment overview or a redirect/404 page.
+ */
+export default async function AssignmentPage({ params }: AssignmentPageProps) {
+  const supabase = createClient();
+  const { classId, assignmentId } = await params;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect('/login?message=You must be logged in to view this page');
+  }
+
+  const { data: classData } = await supabase
+    .from('classes')
+    .select('id, name')
+    .eq('id', classId)
+    .eq('teacher_id', user.id)
+    .single();
+
+  const { data: assignmentRow } = await supabase
+    .from('assignments')
+    .select('*')
+    .eq('id', assignmentId)
+    .eq('class_id', classId)
+    .single();
+
+  if (!classData || !assignmentRow) {
+    return notFound();
+  }
+
+  const assignment = assignmentRow as Assignment;
+
+  const { data: enrollments } = await supabase
+    .from('class_enrollments')
+    .select('student_id')
+    .eq('class_id', classId);
+
+  const studentIds = (enrollments || []).map(e => e.student_id);
+  const { data: profiles } = studentIds.length > 0
+    ? await supabase.from('users').select('id, full_name').in('id', studentIds)
+    : { data: [] };
+
+  const { data: submissionRows } = await supabase
+    .from('submissions')
+    .select('id, student_id, word_count, submitted_at, is_late')
+    .eq('assignment_id', assignmentId);
+
+  const submissions = (submissionRows || []) as SubmissionSummary[];
+
+  const { data: reviews } = submissions.length > 0
+    ? await supabase
+      .from('submission_reviews')
+      .select('submission_id, grade, returned_at')
+      .in('submission_id', submissions.map(s => s.id))
+    : { data: [] };
+
+  const { data: rubricRows } = await supabase
+    .from('rubrics')
+    .select('*')
+    .eq('teacher_id', user.id)
+    .order('updated_at', { ascending: false });
+
+  const rubrics = (rubricRows || []) as Rubric[];
+  const rubric = rubrics.find(r => r.id === assignment.rubric_id) || null;
+  const isPastDue = new Date(assignment.due_at).getTime() < Date.now();
+  const wordRange = formatWordRange(assignment.min_words, assignment.max_words);
+
+  const students = studentIds
+    .map(id => ({
+      id,
+      name: (profiles || []).find(p => p.id === id)?.full_name || 'Unnamed student',
+      submission: submissions.find(s => s.student_id === id),
+    }))
+    .map(student => ({
+      ...student,
+      review: student.submission && (reviews || []).find(r => r.submission_id === student.submission!.id),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="flex-1 bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="px-8 py-6">
+          <Link href={`/dashboard/classes/${classId}`} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-900 mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to {classData.name}
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">{assignment.title}</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {ESSAY_TYPE_LABELS[assignment.essay_type]}
+            {wordRange && ` · ${wordRange}`}
+            {` · Due ${formatDueDate(assignment.due_at)}`}
+          </p>
+          <p className="text-gray-700 mt-4 max-w-3xl whitespace-pre-wrap">{assignment.prompt}</p>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className="px-8 py-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Rubric</h2>
+          <div className="flex items-center gap-2">
+            <RubricPicker
+              classId={classId}
+              assignmentId={assignmentId}
+              rubrics={rubrics}
+              currentRubricId={rubric?.id || null}
+            />
+            {rubric && <RubricBuilderDialog classId={classId} assignmentId={assignmentId} rubric={rubric} />}
+            <RubricBuilderDialog classId={classId} assignmentId={assignmentId} rubric={null} />
+          </div>
+        </div>
+
+        {rubric ? (
+          <div className="bg-white border border-gray-200 rounded-lg mb-8">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="pl-6 w-48">{rubric.name}</TableHead>
+                  <TableHead>Levels</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rubric.criteria.map(criterion => (
+                  <TableRow key={criterion.id}>
+                    <TableCell className="pl-6 align-top whitespace-normal">
+                      <p className="font-medium text-gray-900">{criterion.name}</p>
+                      <p className="text-xs text-gray-500">{criterion.description}</p>
+                    </TableCell>
+                    <TableCell className="whitespace-normal">
+                      <div className="grid gap-3 grid-cols-[repeat(auto-fit,minmax(10rem,1fr))]">
+                        {criterion.levels.map(level => (
+                          <div key={level.score} className="text-sm">
+                            <p className="font-medium text-gray-900">{level.label} ({level.score})</p>
+                            <p className="text-gray-600">{level.descriptor}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-gray-500 mb-8">
+            No rubric attached. With a rubric, students get AI score estimates for each criterion while they write.
+          </div>
+        )}
+
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+          Submissions ({submissions.length} / {students.length})
+        </h2>
+
+        {students.length === 0 ? (
+          <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-gray-500">
+            No students have joined this class yet.
+          </div>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="pl-6">Student</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead>Words</TableHead>
+                  <TableHead>Grade</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {students.map(({ id, name, submission, review }) => (
+                  <TableRow key={id}>
+                    <TableCell className="pl-6 font-medium text-gray-900">
+                      {submission ? (
+                        <Link
+                          href={`/dashboard/classes/${classId}/submissions/${submission.id}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {name}
+                        </Link>
+                      ) : name}
+                    </TableCell>
+                    <TableCell>
+                      {submission ? (
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          submission.is_late ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'
+                        }`}>
+                          {submission.is_late ? 'Late' : 'On time'}
+                        </span>
+                      ) : (
+                        <span className={isPastDue ? 'text-red-600' : 'text-gray-400'}>
+                          {isPastDue ? 'Missing' : 'Not submitted'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-gray-500">
+                      {submission ? formatDueDate(submission.submitted_at) : '—'}
+                    </TableCell>
+                    <TableCell className="text-gray-500">{submission ? submission.word_count : '—'}</TableCell>
+                    <TableCell className="text-gray-500">
+                      {review?.grade || '—'}
+                      {review?.returned_at && <span className="ml-2 text-xs text-teal-700">Returned</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
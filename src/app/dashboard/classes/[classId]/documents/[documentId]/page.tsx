@@ -0,0 +1,80 @@
+/**
+ * @file Read-only view of a document a student submitted to a class.
+ * Teachers reach it from the class dashboard; RLS only returns the document
+ * while it is submitted to one of their classes.
+ */
+import { createClient } from '@/lib/supabase/server';
+import { jsonToText } from '@/lib/export-utils';
+import { countWords } from '@/lib/document-text';
+import { DocumentViewer } from '@/components/feature/DocumentViewer';
+import { type JSONContent } from '@tiptap/react';
+import { ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+
+interface SubmittedDocumentPageProps {
+  params: Promise<{ classId: string; documentId: string }>;
+}
+
+/**
+ * Renders a submitted document for the class teacher.
+ *
+ * @param {SubmittedDocumentPageProps} props - The component props, including the class and document IDs.
+ * @returns The rendered document or a redirect/404 page.
+ */
+export default async function SubmittedDocumentPage({ params }: SubmittedDocumentPageProps) {
+  const supabase = createClient();
+  const { classId, documentId } = await params;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect('/login?message=You must be logged in to view this page');
+  }
+
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, user_id, title, content, submitted_at')
+    .eq('id', documentId)
+    .eq('class_id', classId)
+    .not('submitted_at', 'is', null)
+    .single();
+
+  if (error || !document) {
+    return notFound();
+  }
+
+  const { data: author } = await supabase
+    .from('users')
+    .select('full_name')
+    .eq('id', document.user_id)
+    .single();
+
+  const content = (document.content || { type: 'doc', content: [] }) as JSONContent;
+  const wordCount = countWords(jsonToText(content));
+
+  return (
+    <div className="flex-1 bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="px-8 py-6">
+          <Link href={`/dashboard/classes/${classId}`} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-900 mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to class
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">{document.title || 'Untitled Document'}</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {author?.full_name || 'Unnamed student'} · Submitted {new Date(document.submitted_at).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })} · {wordCount} words
+          </p>
+        </div>
+      </div>
+
+      {/* Document body */}
+      <div className="px-8 py-6">
+        <DocumentViewer content={content} />
+      </div>
+    </div>
+  );
+}
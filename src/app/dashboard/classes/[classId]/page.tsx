@@ -0,0 +1,242 @@
+/**
+ * @file The class dashboard for teachers. Shows the join code, the class
+ * assignments, the roster of enrolled students and the documents each student
+ * has submitted.
+ */
+import { createClient } from '@/lib/supabase/server';
+import { type Assignment, type ClassStudent } from '@/lib/types';
+import { ESSAY_TYPE_LABELS, formatDueDate } from '@/lib/assignments';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, ClipboardList, FileText, Users } from 'lucide-react';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { CreateAssignmentDialog, RemoveStudentDialog } from '../class-dialogs';
+
+interface ClassPageProps {
+  params: Promise<{ classId: string }>;
+}
+
+interface SubmittedDocument {
+  id: string;
+  user_id: string;
+  title: string;
+  submitted_at: string;
+}
+
+/**
+ * Formats a timestamp as a short date, e.g. "Jun 24".
+ */
+function formatShortDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Renders the class dashboard for the teacher who owns the class.
+ *
+ * @param {ClassPageProps} props - The component props, including the class ID.
+ * @returns The rendered class dashboard or a redirect/404 page.
+ */
+export default async function ClassPage({ params }: ClassPageProps) {
+  const supabase = createClient();
+  const { classId } = await params;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect('/login?message=You must be logged in to view this page');
+  }
+
+  const { data: classData, error } = await supabase
+    .from('classes')
+    .select('id, name, description, join_code')
+    .eq('id', classId)
+    .eq('teacher_id', user.id)
+    .single();
+
+  if (error || !classData) {
+    // Students can read classes they are enrolled in, but only the teacher sees the roster
+    return notFound();
+  }
+
+  const { data: enrollments } = await supabase
+    .from('class_enrollments')
+    .select('student_id, joined_at')
+    .eq('class_id', classId)
+    .order('joined_at');
+
+  const studentIds = (enrollments || []).map(e => e.student_id);
+  const { data: profiles } = studentIds.length > 0
+    ? await supabase.from('users').select('id, full_name').in('id', studentIds)
+    : { data: [] };
+
+  const students: ClassStudent[] = (enrollments || []).map(e => ({
+    id: e.student_id,
+    full_name: (profiles || []).find(p => p.id === e.student_id)?.full_name || null,
+    joined_at: e.joined_at,
+  }));
+
+  // RLS only returns documents that enrolled students have submitted
+  const { data: documents } = await supabase
+    .from('documents')
+    .select('id, user_id, title, submitted_at')
+    .eq('class_id', classId)
+    .not('submitted_at', 'is', null)
+    .order('submitted_at', { ascending: false });
+
+  const submissions = (documents || []) as SubmittedDocument[];
+
+  const { data: assignmentRows } = await supabase
+    .from('assignments')
+    .select('*')
+    .eq('class_id', classId)
+    .order('due_at');
+
+  const assignments = (assignmentRows || []) as Assignment[];
+
+  const { data: assignmentSubmissions } = assignments.length > 0
+    ? await supabase.from('submissions').select('assignment_id').in('assignment_id', assignments.map(a => a.id))
+    : { data: [] };
+
+  return (
+    <div className="flex-1 bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="px-8 py-6">
+          <Link href="/dashboard/classes" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-900 mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            All classes
+          </Link>
+          <div className="flex items-start justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{classData.name}</h1>
+              {classData.description && (
+                <p className="text-gray-500 mt-1">{classData.description}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Join code</p>
+              <p className="font-mono text-2xl font-semibold tracking-widest text-blue-600">{classData.join_code}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className="px-8 py-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center text-lg font-semibold text-gray-900">
+            <ClipboardList className="w-5 h-5 mr-2" />
+            Assignments ({assignments.length})
+          </h2>
+          <CreateAssignmentDialog classId={classId} />
+        </div>
+
+        {assignments.length === 0 ? (
+          <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-gray-500 mb-8">
+            No assignments yet. Students see new assignments on their dashboard.
+          </div>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg mb-8">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="pl-6">Assignment</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Submitted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assignments.map(assignment => (
+                  <TableRow key={assignment.id}>
+                    <TableCell className="pl-6">
+                      <Link
+                        href={`/dashboard/classes/${classId}/assignments/${assignment.id}`}
+                        className="font-medium text-blue-600 hover:underline"
+                      >
+                        {assignment.title}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-gray-500">{ESSAY_TYPE_LABELS[assignment.essay_type]}</TableCell>
+                    <TableCell className="text-gray-500">{formatDueDate(assignment.due_at)}</TableCell>
+                    <TableCell className="text-gray-500">
+                      {(assignmentSubmissions || []).filter(s => s.assignment_id === assignment.id).length} / {students.length}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <h2 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <Users className="w-5 h-5 mr-2" />
+          Students ({students.length})
+        </h2>
+
+        {students.length === 0 ? (
+          <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-gray-500">
+            No students have joined yet. Share the join code <span className="font-mono font-semibold">{classData.join_code}</span> with your class.
+          </div>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="pl-6">Student</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Submitted documents</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {students.map(student => {
+                  const studentName = student.full_name || 'Unnamed student';
+                  const studentDocuments = submissions.filter(d => d.user_id === student.id);
+                  return (
+                    <TableRow key={student.id}>
+                      <TableCell className="pl-6 font-medium text-gray-900">{studentName}</TableCell>
+                      <TableCell className="text-gray-500">{formatShortDate(student.joined_at)}</TableCell>
+                      <TableCell>
+                        {studentDocuments.length === 0 ? (
+                          <span className="text-gray-400">None yet</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {studentDocuments.map(doc => (
+                              <li key={doc.id}>
+                                <Link
+                                  href={`/dashboard/classes/${classId}/documents/${doc.id}`}
+                                  className="inline-flex items-center text-blue-600 hover:underline"
+                                >
+                                  <FileText className="w-3 h-3 mr-1" />
+                                  {doc.title || 'Untitled Document'}
+                                </Link>
+                                <span className="ml-2 text-xs text-gray-400">{formatShortDate(doc.submitted_at)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <RemoveStudentDialog classId={classId} studentId={student.id} studentName={studentName} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * @file The teacher's view of a student's assignment submission. The snapshot
+ * is the document as it was when submitted; later edits do not change it.
+ * Teachers comment on the text, grade it and return it here.
+ */
+import { createClient } from '@/lib/supabase/server';
+import { type Rubric, type SubmissionReview as Review } from '@/lib/types';
+import { type JSONContent } from '@tiptap/react';
+import { ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { SubmissionReview } from './submission-review';
+
+interface SubmissionPageProps {
+  params: Promise<{ classId: string; submissionId: string }>;
+}
+
+/**
+ * Renders a submission snapshot for the class teacher.
+ *
+ * @param {SubmissionPageProps} props - The component props, including the class and submission IDs.
+ * @returns The rendered submission or a redirect/404 page.
+ */
+export default async function SubmissionPage({ params }: SubmissionPageProps) {
+  const supabase = createClient();
+  const { classId, submissionId } = await params;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect('/login?message=You must be logged in to view this page');
+  }
+
+  // RLS only returns submissions to the teacher's classes (or the student's own)
+  const { data: submission, error } = await supabase
+    .from('submissions')
+    .select('id, student_id, title, content, word_count, submitted_at, is_late, assignments!inner(id, title, class_id, rubric_id)')
+    .eq('id', submissionId)
+    .eq('assignments.class_id', classId)
+    .single();
+
+  if (error || !submission) {
+    return notFound();
+  }
+
+  const assignment = submission.assignments as unknown as { id: string; title: string; rubric_id: string | null };
+
+  const { data: rubric } = assignment.rubric_id
+    ? await supabase.from('rubrics').select('name, criteria').eq('id', assignment.rubric_id).single()
+    : { data: null };
+
+  const { data: review } = await supabase
+    .from('submission_reviews')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .maybeSingle();
+
+  const { data: author } = await supabase
+    .from('users')
+    .select('full_name')
+    .eq('id', submission.student_id)
+    .single();
+
+  const content = (submission.content || { type: 'doc', content: [] }) as JSONContent;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="px-8 py-6">
+          <Link
+            href={`/dashboard/classes/${classId}/assignments/${assignment.id}`}
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-900 mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to {assignment.title}
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">{submission.title || 'Untitled Document'}</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {author?.full_name || 'Unnamed student'} · Submitted {new Date(submission.submitted_at).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })} · {submission.word_count} words
+            {submission.is_late && (
+              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Late</span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {/* Submitted snapshot with comments and grading */}
+      <SubmissionReview
+        classId={classId}
+        submissionId={submissionId}
+        teacherId={user.id}
+        content={content}
+        rubric={rubric as Pick<Rubric, 'name' | 'criteria'> | null}
+        review={review as Review | null}
+      />
+    </div>
+  );
+}
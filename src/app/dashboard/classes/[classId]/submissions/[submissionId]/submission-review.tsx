@@ -0,0 +1,211 @@
+/**
+ * @file The teacher's review workspace for a submission: the submitted text
+ * with comment highlights, a panel to comment on selected text, and rubric
+ * scoring, an overall grade and returning the essay to the student.
+ */
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CommentComposer, CommentThreads } from '@/components/feature/CommentThreads';
+import { createAnchor, getCommentAnchor } from '@/lib/comments';
+import { CommentHighlightExtension, getCommentHighlights, getSelectedCommentRange } from '@/lib/editor/comment-highlight-extension';
+import { Citation } from '@/lib/editor/citation-extension';
+import { Suggestion } from '@/lib/editor/suggestion-extension';
+import { createTextPositionMap } from '@/lib/editor/text-positions';
+import { useCommentThreads } from '@/lib/hooks/use-comment-threads';
+import { getMaxScore } from '@/lib/rubrics';
+import { type CommentThread, type Rubric, type SubmissionReview as Review } from '@/lib/types';
+import { EditorContent, useEditor, type JSONContent } from '@tiptap/react';
+import { StarterKit } from '@tiptap/starter-kit';
+import { Send } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { saveSubmissionReview } from '../../../actions';
+
+interface SubmissionReviewProps {
+  classId: string;
+  submissionId: string;
+  teacherId: string;
+  content: JSONContent;
+  rubric: Pick<Rubric, 'name' | 'criteria'> | null;
+  review: Review | null;
+}
+
+/**
+ * Renders the submitted text alongside the comment and grading panels.
+ * @param {SubmissionReviewProps} props - The component props.
+ * @returns The rendered review workspace.
+ */
+export function SubmissionReview({ classId, submissionId, teacherId, content, rubric, review }: SubmissionReviewProps) {
+  const { threads, error: commentsError, loadComments, addComment, replyToComment, setResolved } =
+    useCommentThreads({ type: 'submission', id: submissionId }, teacherId);
+  const [selection, setSelection] = useState<{ start: number; end: number; quote: string } | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [rubricScores, setRubricScores] = useState<Record<string, number>>(review?.rubric_scores || {});
+  const [grade, setGrade] = useState(review?.grade || '');
+  const [returnedAt, setReturnedAt] = useState(review?.returned_at || null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const editor = useEditor({
+    extensions: [StarterKit, Citation, Suggestion, CommentHighlightExtension],
+    content,
+    editable: false,
+    immediatelyRender: false,
+  });
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  // The submission never changes, so stored offsets always match the text
+  useEffect(() => {
+    if (!editor) return;
+    const positions = createTextPositionMap(editor.state.doc);
+    const highlights = threads.flatMap(({ comment }) => {
+      const anchor = getCommentAnchor(comment);
+      const range = anchor && !comment.resolved_at && positions.toDocRange(anchor.start, anchor.end);
+      return range ? [{ id: comment.id, ...range }] : [];
+    });
+    editor.commands.setCommentHighlights(highlights);
+  }, [editor, threads]);
+
+  useEffect(() => {
+    editor?.commands.setActiveCommentHighlight(activeThreadId);
+  }, [editor, activeThreadId]);
+
+  // The viewer is read-only, so read the selection from the DOM
+  const handleMouseUp = useCallback(() => {
+    const range = editor && getSelectedCommentRange(editor.view);
+    if (range) setSelection(range);
+  }, [editor]);
+
+  // Clicking highlighted text opens its thread
+  const handleClick = useCallback(() => {
+    if (!editor) return;
+    const domSelection = window.getSelection();
+    if (!domSelection?.isCollapsed || !domSelection.anchorNode || !editor.view.dom.contains(domSelection.anchorNode)) return;
+
+    const pos = editor.view.posAtDOM(domSelection.anchorNode, domSelection.anchorOffset);
+    const highlight = getCommentHighlights(editor.state).find(h => pos >= h.from && pos <= h.to);
+    if (highlight) setActiveThreadId(highlight.id);
+  }, [editor]);
+
+  const handleAddComment = async (body: string) => {
+    if (!editor || !selection) return false;
+    const { text } = createTextPositionMap(editor.state.doc);
+    const comment = await addComment(createAnchor(text, selection.start, selection.end), body);
+    if (!comment) return false;
+    setSelection(null);
+    setActiveThreadId(comment.id);
+    return true;
+  };
+
+  const handleSelectThread = (thread: CommentThread) => {
+    setActiveThreadId(thread.comment.id);
+    const highlight = editor && getCommentHighlights(editor.state).find(h => h.id === thread.comment.id);
+    if (highlight && editor) {
+      const element = editor.view.domAtPos(highlight.from).node;
+      (element instanceof HTMLElement ? element : element.parentElement)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  };
+
+  const handleSave = async (returnToStudent: boolean) => {
+    setIsSaving(true);
+    try {
+      const { error } = await saveSubmissionReview(classId, submissionId, rubricScores, grade, returnToStudent);
+      if (error) {
+        alert(error);
+        return;
+      }
+      if (returnToStudent) setReturnedAt(new Date().toISOString());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-1 min-h-0">
+      <div className="flex-1 overflow-auto px-8 py-6">
+        <div
+          className="mx-auto max-w-3xl bg-white border border-gray-200 rounded-lg p-10"
+          onMouseUp={handleMouseUp}
+          onClick={handleClick}
+        >
+          <EditorContent editor={editor} className="prose max-w-none" />
+        </div>
+      </div>
+
+      <aside className="w-96 border-l border-gray-200 bg-gray-50/50 overflow-y-auto p-4 space-y-4">
+        {/* Grading */}
+        <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+          <h2 className="text-sm font-semibold text-gray-900">Grade</h2>
+          {rubric && rubric.criteria.map(criterion => (
+            <div key={criterion.id} className="grid gap-1">
+              <Label htmlFor={`score-${criterion.id}`} className="text-xs">{criterion.name}</Label>
+              <select
+                id={`score-${criterion.id}`}
+                value={rubricScores[criterion.id] ?? ''}
+                onChange={e => setRubricScores(prev => {
+                  const next = { ...prev };
+                  if (e.target.value === '') delete next[criterion.id];
+                  else next[criterion.id] = Number(e.target.value);
+                  return next;
+                })}
+                className="h-8 rounded-md border border-input bg-white px-2 text-sm"
+              >
+                <option value="">Not scored</option>
+                {criterion.levels.map(level => (
+                  <option key={level.score} value={level.score}>
+                    {level.label} ({level.score}/{getMaxScore(criterion)})
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div className="grid gap-1">
+            <Label htmlFor="overall-grade" className="text-xs">Overall grade</Label>
+            <Input id="overall-grade" value={grade} onChange={e => setGrade(e.target.value)} placeholder="e.g. B+ or 88" />
+          </div>
+          <div className="flex items-center justify-between gap-2 pt-1">
+            <Button variant="outline" size="sm" onClick={() => handleSave(false)} disabled={isSaving}>
+              Save
+            </Button>
+            <Button
+              size="sm"
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              onClick={() => handleSave(true)}
+              disabled={isSaving}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {returnedAt ? 'Return again' : 'Return to student'}
+            </Button>
+          </div>
+          {returnedAt && (
+            <p className="text-xs text-gray-500">
+              Returned {new Date(returnedAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}.
+              The student can see your grade and comments.
+            </p>
+          )}
+        </div>
+
+        {/* New comment on the selected text */}
+        <CommentComposer
+          quote={selection?.quote || null}
+          hint="Select text in the essay to comment on it."
+          error={commentsError}
+          onSubmit={handleAddComment}
+          onCancel={() => setSelection(null)}
+        />
+
+        <CommentThreads
+          threads={threads}
+          activeThreadId={activeThreadId}
+          onSelectThread={handleSelectThread}
+          onReply={replyToComment}
+          onResolve={setResolved}
+        />
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getUserRole } from '@/lib/db';
+import { type EssayType, type RubricCriterion } from '@/lib/types';
+import { validateRubric } from '@/lib/rubrics';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Creates a new class for the current teacher.
+ * A join code is generated by the database; if it collides with an existing
+ * code the insert is retried once.
+ * @param name The name of the class.
+ * @param description An optional description shown to students.
+ */
+export async function createClass(
+  name: string,
+  description: string,
+): Promise<{ error: string | null; newClassId?: string }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to create a class.' };
+  }
+
+  if ((await getUserRole(supabase, user.id)) !== 'teacher') {
+    return { error: 'Only teachers can create classes.' };
+  }
+
+  if (!name.trim()) {
+    return { error: 'Class name cannot be empty.' };
+  }
+
+  const insertClass = () => supabase
+    .from('classes')
+    .insert({
+      teacher_id: user.id,
+      name: name.trim(),
+      description: description.trim() || null,
+    })
+    .select('id')
+    .single();
+
+  let { data, error } = await insertClass();
+
+  // 23505 is a unique violation, i.e. the generated join code is taken
+  if (error?.code === '23505') {
+    ({ data, error } = await insertClass());
+  }
+
+  if (error || !data) {
+    console.error('Error creating class:', error);
+    return { error: 'Could not create class. Please try again.' };
+  }
+
+  revalidatePath('/dashboard/classes');
+  return { error: null, newClassId: data.id };
+}
+
+/**
+ * Enrolls the current user in the class with the given join code.
+ * @param code The join code shared by the teacher.
+ */
+export async function joinClass(code: string): Promise<{ error: string | null; classId?: string }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to join a class.' };
+  }
+
+  if (!code.trim()) {
+    return { error: 'Enter the join code from your teacher.' };
+  }
+
+  const { data: classId, error } = await supabase.rpc('join_class', { code });
+
+  if (error) {
+    console.error('Error joining class:', error);
+    return { error: 'Could not join class. Please try again.' };
+  }
+
+  if (!classId) {
+    return { error: 'No class matches that join code.' };
+  }
+
+  revalidatePath('/dashboard');
+  revalidatePath('/dashboard/classes');
+  return { error: null, classId };
+}
+
+/**
+ * Removes the current user from a class. Documents they submitted to the
+ * class are detached from it.
+ * @param classId The ID of the class to leave.
+ */
+export async function leaveClass(classId: string): Promise<{ error: string | null }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to leave a class.' };
+  }
+
+  const { error } = await supabase
+    .from('class_enrollments')
+    .delete()
+    .eq('class_id', classId)
+    .eq('student_id', user.id);
+
+  if (error) {
+    console.error('Error leaving class:', error);
+    return { error: 'Could not leave class. Please try again.' };
+  }
+
+  revalidatePath('/dashboard');
+  revalidatePath('/dashboard/classes');
+  return { error: null };
+}
+
+/**
+ * Removes a student from one of the current teacher's classes.
+ * RLS only allows the class teacher to delete other students' enrollments.
+ * @param classId The ID of the class.
+ * @param studentId The ID of the student to remove.
+ */
+export async function removeStudent(classId: string, studentId: string): Promise<{ error: string | null }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to manage a class.' };
+  }
+
+  const { error } = await supabase
+    .from('class_enrollments')
+    .delete()
+    .eq('class_id', classId)
+    .eq('student_id', studentId);
+
+  if (error) {
+    console.error('Error removing student:', error);
+    return { error: 'Could not remove student. Please try again.' };
+  }
+
+  revalidatePath(`/dashboard/classes/${classId}`);
+  return { error: null };
+}
+
+/**
+ * The details a teacher enters for a new assignment.
+ */
+export interface AssignmentInput {
+  title: string;
+  prompt: string;
+  essayType: EssayType;
+  minWords: number | null;
+  maxWords: number | null;
+  dueAt: string; // ISO timestamp
+}
+
+/**
+ * Posts a new assignment to one of the current teacher's classes.
+ * RLS only allows the class teacher to insert assignments.
+ * @param classId The ID of the class.
+ * @param input The assignment details.
+ */
+export async function createAssignment(
+  classId: string,
+  input: AssignmentInput,
+): Promise<{ error: string | null; newAssignmentId?: string }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to create an assignment.' };
+  }
+
+  if (!input.title.trim() || !input.prompt.trim()) {
+    return { error: 'An assignment needs a title and a prompt.' };
+  }
+
+  if (Number.isNaN(new Date(input.dueAt).getTime())) {
+    return { error: 'Choose a due date.' };
+  }
+
+  if (input.minWords && input.maxWords && input.minWords > input.maxWords) {
+    return { error: 'The minimum word count cannot be more than the maximum.' };
+  }
+
+  const { data, error } = await supabase
+    .from('assignments')
+    .insert({
+      class_id: classId,
+      title: input.title.trim(),
+      prompt: input.prompt.trim(),
+      essay_type: input.essayType,
+      min_words: input.minWords || null,
+      max_words: input.maxWords || null,
+      due_at: input.dueAt,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('Error creating assignment:', error);
+    return { error: 'Could not create assignment. Please try again.' };
+  }
+
+  revalidatePath(`/dashboard/classes/${classId}`);
+  return { error: null, newAssignmentId: data.id };
+}
+
+/**
+ * Saves a rubric for the current teacher and attaches it to an assignment.
+ * An existing rubric is updated in place, so every assignment using it sees
+ * the change.
+ * @param classId The ID of the class the assignment belongs to.
+ * @param assignmentId The ID of the assignment to attach the rubric to.
+ * @param name The rubric name.
+ * @param criteria The rubric criteria and levels.
+ * @param rubricId The ID of the rubric to update, or null to create one.
+ */
+export async function saveRubric(
+  classId: string,
+  assignmentId: string,
+  name: string,
+  criteria: RubricCriterion[],
+  rubricId: string | null,
+): Promise<{ error: string | null; rubricId?: string }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to save a rubric.' };
+  }
+
+  const validationError = validateRubric(name, criteria);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const rubric = { name: name.trim(), criteria, updated_at: new Date().toISOString() };
+  const { data, error } = rubricId
+    ? await supabase.from('rubrics').update(rubric).eq('id', rubricId).select('id').single()
+    : await supabase.from('rubrics').insert({ ...rubric, teacher_id: user.id }).select('id').single();
+
+  if (error || !data) {
+    console.error('Error saving rubric:', error);
+    return { error: 'Could not save rubric. Please try again.' };
+  }
+
+  const { error: attachError } = await attachRubric(classId, assignmentId, data.id);
+  return { error: attachError, rubricId: data.id };
+}
+
+/**
+ * Attaches one of the current teacher's rubrics to an assignment, or detaches
+ * the rubric when `rubricId` is null.
+ * @param classId The ID of the class the assignment belongs to.
+ * @param assignmentId The ID of the assignment.
+ * @param rubricId The ID of the rubric, or null.
+ */
+export async function attachRubric(
+  classId: string,
+  assignmentId: string,
+  rubricId: string | null,
+): Promise<{ error: string | null }> {
+  const supabase = createClient();
+
+  const { error } = await supabase
+    .from('assignments')
+    .update({ rubric_id: rubricId })
+    .eq('id', assignmentId)
+    .eq('class_id', classId);
+
+  if (error) {
+    console.error('Error attaching rubric:', error);
+    return { error: 'Could not attach rubric. Please try again.' };
+  }
+
+  revalidatePath(`/dashboard/classes/${classId}/assignments/${assignmentId}`);
+  return { error: null };
+}
+
+/**
+ * Saves the teacher's rubric scores and grade for a submission, and returns
+ * it to the student when `returnToStudent` is set. Returning makes the
+ * review and comments visible to the student.
+ * @param classId The ID of the class the submission was made to.
+ * @param submissionId The ID of the submission.
+ * @param rubricScores The score for each rubric criterion, keyed by criterion ID.
+ * @param grade The overall grade, e.g. "B+" or "87".
+ * @param returnToStudent Whether to return the submission.
+ */
+export async function saveSubmissionReview(
+  classId: string,
+  submissionId: string,
+  rubricScores: Record<string, number>,
+  grade: string,
+  returnToStudent: boolean,
+): Promise<{ error: string | null }> {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'You must be logged in to grade a submission.' };
+  }
+
+  // RLS only allows the class teacher to write reviews
+  const { error } = await supabase
+    .from('submission_reviews')
+    .upsert({
+      submission_id: submissionId,
+      rubric_scores: rubricScores,
+      grade: grade.trim() || null,
+      updated_at: new Date().toISOString(),
+      ...(returnToStudent && { returned_at: new Date().toISOString() }),
+    });
+
+  if (error) {
+    console.error('Error saving review:', error);
+    return { error: 'Could not save the grade. Please try again.' };
+  }
+
+  revalidatePath(`/dashboard/classes/${classId}/submissions/${submissionId}`);
+  return { error: null };
+}
@@ -0,0 +1,389 @@
+/**
+ * @file Dialogs for managing classes: teachers create classes and
+ * assignments and remove students, students join with a code or leave a class.
+ */
+'use client';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ClipboardList, LogIn, LogOut, Plus, UserMinus } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { ESSAY_TYPE_LABELS } from '@/lib/assignments';
+import { type EssayType } from '@/lib/types';
+import { createAssignment, createClass, joinClass, leaveClass, removeStudent } from './actions';
+
+/**
+ * Renders the "New class" button and the dialog for naming the class.
+ * @returns The rendered dialog.
+ */
+export function CreateClassDialog() {
+  const router = useRouter();
+  const [isOpen, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const result = await createClass(name, description);
+      if (result.error || !result.newClassId) {
+        alert(result.error || 'Could not create class.');
+        return;
+      }
+      setOpen(false);
+      setName('');
+      setDescription('');
+      router.push(`/dashboard/classes/${result.newClassId}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="bg-blue-600 hover:bg-blue-700 text-white">
+          <Plus className="w-4 h-4 mr-2" />
+          New class
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create a class</DialogTitle>
+          <DialogDescription>
+            Students join with a code you share once the class is created.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="class-name">Name</Label>
+            <Input
+              id="class-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="English 9 – Period 3"
+              autoComplete="off"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="class-description">Description (optional)</Label>
+            <Input
+              id="class-description"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={handleCreate} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Creating...' : 'Create class'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Renders the "Join a class" button and the dialog for entering a join code.
+ * @returns The rendered dialog.
+ */
+export function JoinClassDialog() {
+  const [isOpen, setOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    try {
+      const result = await joinClass(code);
+      if (result.error) {
+        alert(result.error);
+        return;
+      }
+      setOpen(false);
+      setCode('');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <LogIn className="w-4 h-4 mr-2" />
+          Join a class
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Join a class</DialogTitle>
+          <DialogDescription>
+            Enter the six character code your teacher shared with you.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="join-code">Join code</Label>
+          <Input
+            id="join-code"
+            value={code}
+            onChange={e => setCode(e.target.value.toUpperCase())}
+            placeholder="ABC234"
+            maxLength={6}
+            className="font-mono tracking-widest uppercase"
+            autoComplete="off"
+          />
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={handleJoin} disabled={isJoining || !code.trim()}>
+            {isJoining ? 'Joining...' : 'Join class'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Renders a button that asks for confirmation before leaving a class.
+ * @param classId The ID of the class to leave.
+ * @param className The class name shown in the confirmation.
+ */
+export function LeaveClassDialog({ classId, className }: { classId: string; className: string }) {
+  const handleLeave = async () => {
+    const { error } = await leaveClass(classId);
+    if (error) alert(error);
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-gray-500">
+          <LogOut className="w-4 h-4 mr-2" />
+          Leave
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Leave {className}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Documents you submitted to this class will no longer be visible to your teacher.
+            You can rejoin later with the join code.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleLeave}>Leave class</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+/**
+ * Renders a button that asks for confirmation before removing a student.
+ * @param classId The ID of the class.
+ * @param studentId The ID of the student to remove.
+ * @param studentName The student's name shown in the confirmation.
+ */
+export function RemoveStudentDialog({
+  classId,
+  studentId,
+  studentName,
+}: {
+  classId: string;
+  studentId: string;
+  studentName: string;
+}) {
+  const handleRemove = async () => {
+    const { error } = await removeStudent(classId, studentId);
+    if (error) alert(error);
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-gray-500 hover:text-destructive">
+          <span className="sr-only">Remove {studentName}</span>
+          <UserMinus className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Remove {studentName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Their submitted documents will no longer be visible to you. They can rejoin with the join code.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleRemove}>Remove student</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+/**
+ * Renders the "New assignment" button and the dialog for describing the
+ * assignment: title, prompt, essay type, word range and due date.
+ * @param classId The ID of the class to post the assignment to.
+ */
+export function CreateAssignmentDialog({ classId }: { classId: string }) {
+  const [isOpen, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [essayType, setEssayType] = useState<EssayType>('argumentative');
+  const [minWords, setMinWords] = useState('');
+  const [maxWords, setMaxWords] = useState('');
+  const [dueAt, setDueAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const result = await createAssignment(classId, {
+        title,
+        prompt,
+        essayType,
+        minWords: minWords ? parseInt(minWords, 10) : null,
+        maxWords: maxWords ? parseInt(maxWords, 10) : null,
+        // datetime-local values are in the teacher's time zone
+        dueAt: dueAt ? new Date(dueAt).toISOString() : '',
+      });
+      if (result.error) {
+        alert(result.error);
+        return;
+      }
+      setOpen(false);
+      setTitle('');
+      setPrompt('');
+      setMinWords('');
+      setMaxWords('');
+      setDueAt('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="bg-blue-600 hover:bg-blue-700 text-white">
+          <ClipboardList className="w-4 h-4 mr-2" />
+          New assignment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create an assignment</DialogTitle>
+          <DialogDescription>
+            Students in this class can start a document from the assignment and submit it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="assignment-title">Title</Label>
+            <Input
+              id="assignment-title"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              placeholder="Should school start later?"
+              autoComplete="off"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="assignment-prompt">Prompt</Label>
+            <textarea
+              id="assignment-prompt"
+              value={prompt}
+              onChange={e => setPrompt(e.target.value)}
+              rows={4}
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-type">Essay type</Label>
+              <select
+                id="assignment-type"
+                value={essayType}
+                onChange={e => setEssayType(e.target.value as EssayType)}
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+              >
+                {(Object.keys(ESSAY_TYPE_LABELS) as EssayType[]).map(type => (
+                  <option key={type} value={type}>{ESSAY_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-due">Due</Label>
+              <Input
+                id="assignment-due"
+                type="datetime-local"
+                value={dueAt}
+                onChange={e => setDueAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-min-words">Minimum words</Label>
+              <Input
+                id="assignment-min-words"
+                type="number"
+                min={0}
+                value={minWords}
+                onChange={e => setMinWords(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-max-words">Maximum words</Label>
+              <Input
+                id="assignment-max-words"
+                type="number"
+                min={1}
+                value={maxWords}
+                onChange={e => setMaxWords(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={handleCreate}
+            disabled={isSaving || !title.trim() || !prompt.trim() || !dueAt}
+          >
+            {isSaving ? 'Creating...' : 'Create assignment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
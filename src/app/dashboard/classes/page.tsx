@@ -0,0 +1,157 @@
+/**
+ * @file The classes page. Teachers see the classes they run and can create
+ * new ones; students see the classes they have joined and can join more
+ * with a code from their teacher.
+ */
+import { createClient } from '@/lib/supabase/server';
+import { getUserRole } from '@/lib/db';
+import { GraduationCap, Users } from 'lucide-react';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { CreateClassDialog, JoinClassDialog, LeaveClassDialog } from './class-dialogs';
+
+interface ClassSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  detail: string;
+}
+
+/**
+ * Class card, linking to the class dashboard when `href` is set.
+ */
+function ClassCard({ summary, href, action }: { summary: ClassSummary; href?: string; action?: React.ReactNode }) {
+  const title = (
+    <h3 className="text-lg font-semibold text-gray-900 truncate group-hover:text-blue-600 transition-colors">
+      {summary.name}
+    </h3>
+  );
+
+  return (
+    <div className="group bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-all duration-200 hover:border-gray-300">
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex-1 min-w-0">
+          {href ? <Link href={href} className="block">{title}</Link> : title}
+          <div className="flex items-center text-sm text-gray-500 mt-1">
+            <Users className="w-4 h-4 mr-1" />
+            <span>{summary.detail}</span>
+          </div>
+        </div>
+        {action}
+      </div>
+      {summary.description && (
+        <p className="text-sm text-gray-600 line-clamp-3">{summary.description}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Renders the classes page for the current user's role.
+ */
+export default async function ClassesPage() {
+  const supabase = createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect('/login?message=You must be logged in to view this page');
+  }
+
+  const role = await getUserRole(supabase, user.id);
+  let summaries: ClassSummary[] = [];
+
+  if (role === 'teacher') {
+    const { data: classes, error } = await supabase
+      .from('classes')
+      .select('id, name, description, class_enrollments(count)')
+      .eq('teacher_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching classes:', error);
+    }
+
+    summaries = (classes || []).map(c => {
+      const count = (c.class_enrollments as unknown as { count: number }[])[0]?.count || 0;
+      return {
+        id: c.id,
+        name: c.name,
+        description: c.description,
+        detail: `${count} ${count === 1 ? 'student' : 'students'}`,
+      };
+    });
+  } else {
+    const { data: classes, error } = await supabase
+      .from('classes')
+      .select('id, name, description, teacher_id')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching classes:', error);
+    }
+
+    // Teacher names come from their public profiles
+    const teacherIds = Array.from(new Set((classes || []).map(c => c.teacher_id)));
+    const { data: teachers } = teacherIds.length > 0
+      ? await supabase.from('users').select('id, full_name').in('id', teacherIds)
+      : { data: [] };
+
+    summaries = (classes || []).map(c => {
+      const teacher = (teachers || []).find(t => t.id === c.teacher_id);
+      return {
+        id: c.id,
+        name: c.name,
+        description: c.description,
+        detail: teacher?.full_name ? `Taught by ${teacher.full_name}` : 'Enrolled',
+      };
+    });
+  }
+
+  return (
+    <div className="flex-1 bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="px-8 py-6">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-900">Classes</h1>
+            <div className="flex items-center space-x-4">
+              {role === 'teacher' ? <CreateClassDialog /> : <JoinClassDialog />}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className="px-8 py-6">
+        {summaries.length === 0 ? (
+          <div className="text-center py-12">
+            <GraduationCap className="mx-auto w-16 h-16 text-gray-300 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No classes yet</h3>
+            <p className="text-gray-500 mb-6 max-w-sm mx-auto">
+              {role === 'teacher'
+                ? 'Create a class and share its join code with your students.'
+                : 'Ask your teacher for a join code to add your first class.'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {summaries.map(summary => (
+              role === 'teacher' ? (
+                <ClassCard key={summary.id} summary={summary} href={`/dashboard/classes/${summary.id}`} />
+              ) : (
+                <ClassCard
+                  key={summary.id}
+                  summary={summary}
+                  action={<LeaveClassDialog classId={summary.id} className={summary.name} />}
+                />
+              )
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
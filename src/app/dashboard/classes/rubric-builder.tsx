@@ -0,0 +1,249 @@
+/**
+ * @file Rubric tools for teachers: a builder for a rubric's criteria and
+ * levels, and a picker that attaches one of their rubrics to an assignment.
+ */
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DEFAULT_RUBRIC_CRITERIA, createCriterion } from '@/lib/rubrics';
+import { type Rubric, type RubricCriterion, type RubricLevel } from '@/lib/types';
+import { Pencil, Plus, Table2, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { attachRubric, saveRubric } from './actions';
+
+/**
+ * Copies criteria so edits in the builder do not touch the originals.
+ */
+function cloneCriteria(criteria: RubricCriterion[]): RubricCriterion[] {
+  return criteria.map(criterion => ({ ...criterion, levels: criterion.levels.map(level => ({ ...level })) }));
+}
+
+/**
+ * Renders the button and dialog for creating or editing a rubric. Saving
+ * attaches the rubric to the assignment.
+ * @param classId The ID of the class the assignment belongs to.
+ * @param assignmentId The ID of the assignment.
+ * @param rubric The rubric to edit, or null to create one from the default criteria.
+ */
+export function RubricBuilderDialog({
+  classId,
+  assignmentId,
+  rubric,
+}: {
+  classId: string;
+  assignmentId: string;
+  rubric: Rubric | null;
+}) {
+  const [isOpen, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setName(rubric?.name || '');
+      setCriteria(cloneCriteria(rubric?.criteria || DEFAULT_RUBRIC_CRITERIA));
+    }
+    setOpen(open);
+  };
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    setCriteria(prev => prev.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<RubricLevel>) => {
+    const levels = criteria[criterionIndex].levels.map((level, i) => (i === levelIndex ? { ...level, ...changes } : level));
+    updateCriterion(criterionIndex, { levels });
+  };
+
+  const addLevel = (criterionIndex: number) => {
+    const { levels } = criteria[criterionIndex];
+    const lowest = levels.length > 0 ? Math.min(...levels.map(level => level.score)) : 1;
+    updateCriterion(criterionIndex, { levels: [...levels, { score: lowest - 1, label: '', descriptor: '' }] });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveRubric(classId, assignmentId, name, criteria, rubric?.id || null);
+      if (result.error) {
+        alert(result.error);
+        return;
+      }
+      setOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          {rubric ? <Pencil className="w-4 h-4 mr-2" /> : <Table2 className="w-4 h-4 mr-2" />}
+          {rubric ? 'Edit rubric' : 'New rubric'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rubric ? 'Edit rubric' : 'Build a rubric'}</DialogTitle>
+          <DialogDescription>
+            Describe each level so students know what to aim for. Students see AI score estimates against these
+            criteria while they write.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-6 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="rubric-name">Rubric name</Label>
+            <Input
+              id="rubric-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Argumentative essay rubric"
+              autoComplete="off"
+            />
+          </div>
+
+          {criteria.map((criterion, criterionIndex) => (
+            <div key={criterion.id} className="rounded-lg border border-gray-200 p-4">
+              <div className="flex items-start gap-3 mb-3">
+                <div className="grid flex-1 gap-2">
+                  <Input
+                    aria-label="Criterion name"
+                    value={criterion.name}
+                    onChange={e => updateCriterion(criterionIndex, { name: e.target.value })}
+                    placeholder="Criterion, e.g. Thesis"
+                    className="font-medium"
+                  />
+                  <Input
+                    aria-label="Criterion description"
+                    value={criterion.description}
+                    onChange={e => updateCriterion(criterionIndex, { description: e.target.value })}
+                    placeholder="What this criterion looks for"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-gray-500 hover:text-destructive"
+                  onClick={() => setCriteria(prev => prev.filter((_, i) => i !== criterionIndex))}
+                >
+                  <span className="sr-only">Remove criterion</span>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                {criterion.levels.map((level, levelIndex) => (
+                  <div key={levelIndex} className="flex items-start gap-2">
+                    <Input
+                      aria-label="Level score"
+                      type="number"
+                      value={Number.isFinite(level.score) ? level.score : ''}
+                      onChange={e => updateLevel(criterionIndex, levelIndex, { score: parseFloat(e.target.value) })}
+                      className="w-16"
+                    />
+                    <Input
+                      aria-label="Level label"
+                      value={level.label}
+                      onChange={e => updateLevel(criterionIndex, levelIndex, { label: e.target.value })}
+                      placeholder="Label"
+                      className="w-32"
+                    />
+                    <textarea
+                      aria-label="Level descriptor"
+                      value={level.descriptor}
+                      onChange={e => updateLevel(criterionIndex, levelIndex, { descriptor: e.target.value })}
+                      placeholder="What work at this level looks like"
+                      rows={2}
+                      className="flex-1 rounded-md border border-input bg-transparent px-3 py-1.5 text-sm shadow-xs outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-gray-400 hover:text-destructive"
+                      onClick={() => updateCriterion(criterionIndex, {
+                        levels: criterion.levels.filter((_, i) => i !== levelIndex),
+                      })}
+                    >
+                      <span className="sr-only">Remove level</span>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="ghost" size="sm" className="text-xs" onClick={() => addLevel(criterionIndex)}>
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add level
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            onClick={() => setCriteria(prev => [...prev, createCriterion(crypto.randomUUID())])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add criterion
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Saving...' : 'Save rubric'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Renders a select for attaching one of the teacher's rubrics to an assignment.
+ * @param classId The ID of the class the assignment belongs to.
+ * @param assignmentId The ID of the assignment.
+ * @param rubrics The teacher's rubrics.
+ * @param currentRubricId The ID of the attached rubric, if any.
+ */
+export function RubricPicker({
+  classId,
+  assignmentId,
+  rubrics,
+  currentRubricId,
+}: {
+  classId: string;
+  assignmentId: string;
+  rubrics: Pick<Rubric, 'id' | 'name'>[];
+  currentRubricId: string | null;
+}) {
+  const handleChange = async (rubricId: string) => {
+    const { error } = await attachRubric(classId, assignmentId, rubricId || null);
+    if (error) alert(error);
+  };
+
+  if (rubrics.length === 0) return null;
+
+  return (
+    <select
+      aria-label="Attached rubric"
+      value={currentRubricId || ''}
+      onChange={e => handleChange(e.target.value)}
+      className="h-8 rounded-md border border-input bg-white px-2 text-sm"
+    >
+      <option value="">No rubric</option>
+      {rubrics.map(rubric => (
+        <option key={rubric.id} value={rubric.id}>{rubric.name}</option>
+      ))}
+    </select>
+  );
+}
@@ -30,17 +30,22 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { MoreHorizontal, Edit, Copy, Trash2, ExternalLink } from 'lucide-react';
+import { MoreHorizontal, Edit, Copy, Trash2, ExternalLink, Send, Undo2 } from 'lucide-react';
 import Link from 'next/link';
 import { useState } from 'react';
-import { deleteDocument, renameDocument, duplicateDocument } from './actions';
+import { deleteDocument, renameDocument, duplicateDocument, submitDocumentToClass, withdrawSubmission } from './actions';
 
 interface DocumentActionsProps {
   documentId: string;
+  classes?: { id: string; name: string }[]; // Classes the student is enrolled in
+  submittedToClassId?: string | null;
 }
 
 function RenameDocumentDialog({
@@ -135,7 +140,7 @@ function DeleteDocumentDialog({
  * @param {DocumentActionsProps} props - The component props.
  * @returns The rendered document actions component.
  */
-export function DocumentActions({ documentId }: DocumentActionsProps) {
+export function DocumentActions({ documentId, classes = [], submittedToClassId = null }: DocumentActionsProps) {
   const [isDuplicating, setIsDuplicating] = useState(false);
 
   const handleDuplicate = async () => {
@@ -153,6 +158,15 @@ export function DocumentActions({ documentId }: DocumentActionsProps) {
     }
   };
 
+  const handleSubmit = async (classId: string) => {
+    const { error } = await submitDocumentToClass(documentId, classId);
+    if (error) alert(error);
+  };
+
+  const handleWithdraw = async () => {
+    const { error } = await withdrawSubmission(documentId);
+    if (error) alert(error);
+  };
 
 
   return (
@@ -191,6 +205,27 @@ export function DocumentActions({ documentId }: DocumentActionsProps) {
           <Copy className="w-4 h-4 mr-2" />
           {isDuplicating ? 'Duplicating...' : 'Duplicate'}
         </DropdownMenuItem>
+
+        {submittedToClassId ? (
+          <DropdownMenuItem onSelect={handleWithdraw} className="flex items-center">
+            <Undo2 className="w-4 h-4 mr-2" />
+            Withdraw submission
+          </DropdownMenuItem>
+        ) : classes.length > 0 && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="flex items-center">
+              <Send className="w-4 h-4 mr-2" />
+              Submit to class
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {classes.map(c => (
+                <DropdownMenuItem key={c.id} onSelect={() => handleSubmit(c.id)}>
+                  {c.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
         
         <DropdownMenuSeparator />
         
@@ -0,0 +1,66 @@
+/**
+ * @file Dashboard button for importing a .docx, Markdown or plain text file
+ * as a new document. The file is converted to Tiptap JSON in the browser and
+ * the new document is opened in the editor.
+ */
+'use client';
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Loader2, Upload } from 'lucide-react';
+import { IMPORT_ACCEPT, importFile } from '@/lib/document-import';
+import { importDocument } from './actions';
+
+/**
+ * Renders the import button and its hidden file picker.
+ * @returns The rendered import button.
+ */
+export function ImportDocumentButton() {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const { title, content } = await importFile(file);
+      const result = await importDocument(title, content);
+      if (result.error || !result.newDocumentId) {
+        alert(result.error || 'Could not import document.');
+        return;
+      }
+      router.push(`/editor/${result.newDocumentId}`);
+    } catch (error) {
+      console.error('Error importing document:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import document');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={IMPORT_ACCEPT}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <Button
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+      >
+        {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+        Import
+      </Button>
+    </>
+  );
+}
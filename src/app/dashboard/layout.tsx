@@ -3,8 +3,9 @@
  * Provides a professional, full-width layout with proper navigation structure.
  */
 import React from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { CircleUser, FileText, Settings, LogOut } from 'lucide-react';
+import { CircleUser, FileText, GraduationCap, Settings, LogOut } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -42,6 +43,15 @@ function DashboardLayout({ children }: { children: React.ReactNode }) {
                 Documents
               </a>
             </li>
+            <li>
+              <Link 
+                href="/dashboard/classes" 
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 rounded-md hover:bg-gray-100 transition-colors"
+              >
+                <GraduationCap className="w-4 h-4 mr-3" />
+                Classes
+              </Link>
+            </li>
           </ul>
         </nav>
 
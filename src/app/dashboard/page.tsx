@@ -1,17 +1,28 @@
 /**
  * @file The primary dashboard page with Grammarly-style design featuring
- * rich document cards, search functionality, and improved UX.
+ * rich document cards, search functionality, and improved UX. Students in a
+ * class also see their assignments and where they are with each one, and
+ * everyone sees the documents other users have shared with them.
  */
 import {
   createDocument,
 } from '@/app/dashboard/actions';
 import { Button } from '@/components/ui/button';
 import { createClient } from '@/lib/supabase/server';
-import { Plus, FileText, Calendar, Clock } from 'lucide-react';
+import {
+  ASSIGNMENT_STATUS_LABELS,
+  formatDueDate,
+  formatWordRange,
+  getAssignmentStatus,
+  type AssignmentStatus,
+} from '@/lib/assignments';
+import { type Assignment, type SharePermission } from '@/lib/types';
+import { Plus, FileText, Calendar, Clock, ClipboardList, Users } from 'lucide-react';
 import Link from 'next/link';
 import { redirect } from 'next/navigation';
 import { DocumentActions } from './document-actions';
 import { DashboardClient } from './dashboard-client';
+import { ImportDocumentButton } from './import-document-button';
 
 /**
  * Document interface for type safety
@@ -24,8 +35,52 @@ interface Document {
   preview_text?: string | null;
   word_count?: number;
   status?: string;
+  class_id?: string | null;
+  submitted_at?: string | null;
+  assignment_id?: string | null;
 }
 
+/**
+ * A class the student can submit documents to
+ */
+interface EnrolledClass {
+  id: string;
+  name: string;
+}
+
+/**
+ * An assignment with the student's progress on it
+ */
+interface AssignmentItem extends Assignment {
+  class_name: string;
+  status: AssignmentStatus;
+  document_id: string | null;
+}
+
+/**
+ * A document another user has shared with the current user
+ */
+interface SharedDocument {
+  id: string;
+  title: string;
+  owner_name: string;
+  permission: SharePermission;
+}
+
+const SHARE_PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can edit',
+};
+
+const ASSIGNMENT_STATUS_STYLES: Record<AssignmentStatus, string> = {
+  not_started: 'bg-gray-100 text-gray-700',
+  in_progress: 'bg-blue-100 text-blue-800',
+  submitted: 'bg-green-100 text-green-800',
+  submitted_late: 'bg-amber-100 text-amber-800',
+  missing: 'bg-red-100 text-red-800',
+};
+
 /**
  * Helper function to format dates in a user-friendly way
  */
@@ -79,7 +134,7 @@ function groupDocumentsByDate(documents: Document[]) {
 /**
  * Document card component with rich preview
  */
-function DocumentCard({ document }: { document: Document }) {
+function DocumentCard({ document, classes }: { document: Document; classes: EnrolledClass[] }) {
   return (
     <div className="group bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-all duration-200 hover:border-gray-300">
       <div className="flex items-start justify-between mb-3">
@@ -95,7 +150,11 @@ function DocumentCard({ document }: { document: Document }) {
           </div>
         </div>
         <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
-          <DocumentActions documentId={document.id} />
+          <DocumentActions
+            documentId={document.id}
+            classes={document.assignment_id ? [] : classes}
+            submittedToClassId={document.submitted_at ? document.class_id : null}
+          />
         </div>
       </div>
       
@@ -135,7 +194,7 @@ function DocumentCard({ document }: { document: Document }) {
 /**
  * Document group section
  */
-function DocumentGroup({ title, documents }: { title: string; documents: Document[] }) {
+function DocumentGroup({ title, documents, classes }: { title: string; documents: Document[]; classes: EnrolledClass[] }) {
   if (documents.length === 0) return null;
 
   return (
@@ -143,7 +202,89 @@ function DocumentGroup({ title, documents }: { title: string; documents: Documen
       <h2 className="text-lg font-semibold text-gray-900 mb-4">{title}</h2>
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         {documents.map(doc => (
-          <DocumentCard key={doc.id} document={doc} />
+          <DocumentCard key={doc.id} document={doc} classes={classes} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Assignment list with status badges and a start/continue button
+ */
+function AssignmentList({ assignments }: { assignments: AssignmentItem[] }) {
+  if (assignments.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+        <ClipboardList className="w-5 h-5 mr-2" />
+        Assignments
+      </h2>
+      <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {assignments.map(assignment => {
+          const wordRange = formatWordRange(assignment.min_words, assignment.max_words);
+          return (
+            <div key={assignment.id} className="flex items-center justify-between px-6 py-4">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-3">
+                  <h3 className="font-semibold text-gray-900 truncate">{assignment.title}</h3>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${ASSIGNMENT_STATUS_STYLES[assignment.status]}`}>
+                    {ASSIGNMENT_STATUS_LABELS[assignment.status]}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                  {assignment.class_name} · Due {formatDueDate(assignment.due_at)}
+                  {wordRange && ` · ${wordRange}`}
+                </p>
+              </div>
+              {assignment.document_id ? (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={`/editor/${assignment.document_id}`}>
+                    {assignment.status === 'submitted' || assignment.status === 'submitted_late' ? 'Open' : 'Continue'}
+                  </Link>
+                </Button>
+              ) : (
+                <form action={createDocument}>
+                  <input type="hidden" name="assignmentId" value={assignment.id} />
+                  <Button type="submit" size="sm" className="bg-blue-600 hover:bg-blue-700 text-white">
+                    Start
+                  </Button>
+                </form>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * List of documents shared with the user, with who shared them
+ */
+function SharedDocumentList({ documents }: { documents: SharedDocument[] }) {
+  if (documents.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+        <Users className="w-5 h-5 mr-2" />
+        Shared with you
+      </h2>
+      <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {documents.map(document => (
+          <div key={document.id} className="flex items-center justify-between px-6 py-4">
+            <div className="min-w-0 flex-1">
+              <h3 className="font-semibold text-gray-900 truncate">{document.title || 'Untitled Document'}</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {document.owner_name ? `Shared by ${document.owner_name}` : 'Shared with you'} · {SHARE_PERMISSION_LABELS[document.permission]}
+              </p>
+            </div>
+            <Button asChild variant="outline" size="sm">
+              <Link href={`/editor/${document.id}`}>Open</Link>
+            </Button>
+          </div>
         ))}
       </div>
     </div>
@@ -166,7 +307,7 @@ export default async function DashboardPage() {
 
   const { data: documents, error } = await supabase
     .from('documents')
-    .select('id, title, created_at, content')
+    .select('id, title, created_at, content, class_id, submitted_at, assignment_id')
     .eq('user_id', user.id)
     .order('created_at', { ascending: false });
 
@@ -174,6 +315,70 @@ export default async function DashboardPage() {
     console.error('Error fetching documents:', error);
   }
 
+  // Classes the user is enrolled in, offered as submission targets
+  const { data: enrollments } = await supabase
+    .from('class_enrollments')
+    .select('classes(id, name)')
+    .eq('student_id', user.id);
+
+  const classes = (enrollments || [])
+    .map(e => e.classes as unknown as EnrolledClass | null)
+    .filter((c): c is EnrolledClass => !!c);
+
+  // Assignments from those classes, with the student's documents and submissions
+  const { data: assignmentRows } = classes.length > 0
+    ? await supabase
+      .from('assignments')
+      .select('*')
+      .in('class_id', classes.map(c => c.id))
+      .order('due_at')
+    : { data: [] };
+
+  const { data: submissions } = await supabase
+    .from('submissions')
+    .select('assignment_id, is_late')
+    .eq('student_id', user.id);
+
+  const assignments: AssignmentItem[] = ((assignmentRows || []) as Assignment[]).map(assignment => {
+    const document = (documents || []).find(d => d.assignment_id === assignment.id);
+    const submission = (submissions || []).find(s => s.assignment_id === assignment.id);
+    return {
+      ...assignment,
+      class_name: classes.find(c => c.id === assignment.class_id)?.name || '',
+      status: getAssignmentStatus(assignment.due_at, !!document, submission),
+      document_id: document?.id || null,
+    };
+  });
+
+  // Invites sent to this user's email address become shares first
+  const { error: inviteError } = await supabase.rpc('accept_document_invites');
+  if (inviteError) {
+    console.error('Error accepting document invites:', inviteError);
+  }
+
+  // Documents other users have shared with this user, directly or through a link
+  const { data: shares } = await supabase
+    .from('document_shares')
+    .select('permission, documents(id, title, user_id)')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  const sharedRows = (shares || []).flatMap(share => {
+    const document = share.documents as unknown as { id: string; title: string; user_id: string } | null;
+    return document ? [{ ...document, permission: share.permission as SharePermission }] : [];
+  });
+
+  const { data: owners } = sharedRows.length > 0
+    ? await supabase.from('users').select('id, full_name').in('id', sharedRows.map(d => d.user_id))
+    : { data: [] };
+
+  const sharedDocuments: SharedDocument[] = sharedRows.map(({ id, title, user_id, permission }) => ({
+    id,
+    title,
+    permission,
+    owner_name: owners?.find(owner => owner.id === user_id)?.full_name || '',
+  }));
+
   // Process documents to add preview text and word count
   const processedDocuments = (documents || []).map(doc => {
     // Handle content which is stored as JSONB in the database
@@ -200,10 +405,13 @@ export default async function DashboardPage() {
       }
     }
 
+    const submittedTo = doc.submitted_at && classes.find(c => c.id === doc.class_id);
+
     return {
       ...doc,
       preview_text: textContent ? textContent.substring(0, 150) + '...' : null,
       word_count: textContent ? textContent.split(/\s+/).filter(word => word.length > 0).length : 0,
+      status: submittedTo ? `Submitted to ${submittedTo.name}` : undefined,
     };
   });
 
@@ -217,6 +425,7 @@ export default async function DashboardPage() {
           <div className="flex items-center justify-between mb-6">
             <h1 className="text-2xl font-bold text-gray-900">Documents</h1>
             <div className="flex items-center space-x-4">
+              <ImportDocumentButton />
               <form action={createDocument}>
                 <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white">
                   <Plus className="w-4 h-4 mr-2" />
@@ -233,6 +442,10 @@ export default async function DashboardPage() {
         {/* Tour Integration */}
         <DashboardClient hasDocuments={processedDocuments.length > 0} />
 
+        <AssignmentList assignments={assignments} />
+
+        <SharedDocumentList documents={sharedDocuments} />
+
         {processedDocuments.length === 0 ? (
           <div className="text-center py-12">
             <FileText className="mx-auto w-16 h-16 text-gray-300 mb-4" />
@@ -246,12 +459,15 @@ export default async function DashboardPage() {
                 Create your first document
               </Button>
             </form>
+            <p className="text-sm text-gray-500 mt-4">
+              Already started a draft? Import a Word, Markdown or text file.
+            </p>
           </div>
         ) : (
           <div>
-            <DocumentGroup title="Today" documents={groupedDocuments.today} />
-            <DocumentGroup title="Yesterday" documents={groupedDocuments.yesterday} />
-            <DocumentGroup title="Earlier" documents={groupedDocuments.earlier} />
+            <DocumentGroup title="Today" documents={groupedDocuments.today} classes={classes} />
+            <DocumentGroup title="Yesterday" documents={groupedDocuments.yesterday} classes={classes} />
+            <DocumentGroup title="Earlier" documents={groupedDocuments.earlier} classes={classes} />
           </div>
         )}
       </div>
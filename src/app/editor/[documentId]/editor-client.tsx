@@ -1,7 +1,8 @@
 /**
  * @file This file contains the client-side logic for the document editor,
  * powered by Tiptap. It handles real-time collaboration, writing suggestions,
- * and auto-saving.
+ * and auto-saving. Collaborators who opened a share link edit the same Yjs
+ * document, or only comment on it.
  */
 'use client';
 
@@ -9,63 +10,76 @@ import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useDebounce } from '@/lib/hooks/use-debounce';
 import { createClient } from '@/lib/supabase/client';
-import { type Document } from '@/lib/types';
-import { EditorContent, useEditor, BubbleMenu } from '@tiptap/react';
+import { type AcademicHeader, type Assignment, type Document, type Source, type DocumentVersion, type PdfLayout, type Rubric, type RubricCitation, type RubricScore, type Submission, type SubmissionReview, type CommentThread, type DocumentPermission } from '@/lib/types';
+import { EditorContent, useEditor, BubbleMenu, type JSONContent } from '@tiptap/react';
 import { StarterKit } from '@tiptap/starter-kit';
-import { useCallback, useEffect, useState, useRef } from 'react';
-import { Suggestion, SuggestionCategory } from '@/lib/editor/suggestion-extension';
+import { Collaboration } from '@tiptap/extension-collaboration';
+import { CollaborationCursor } from '@tiptap/extension-collaboration-cursor';
+import { ySyncPluginKey } from 'y-prosemirror';
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react';
+import { Suggestion, SuggestionCategory, type SuggestionRange } from '@/lib/editor/suggestion-extension';
 import { useSuggestionEngine } from '@/lib/hooks/use-suggestion-engine';
+import { useSuggestionPersistence } from '@/lib/hooks/use-suggestion-persistence';
+import { useDocumentVersions } from '@/lib/hooks/use-document-versions';
+import { VersionHistoryPanel } from '@/components/feature/VersionHistoryPanel';
+import { PdfExportDialog } from '@/components/feature/PdfExportDialog';
+import { AssignmentPanel } from '@/components/feature/AssignmentPanel';
+import { RubricFeedback } from '@/components/feature/RubricFeedback';
+import { TeacherFeedback } from '@/components/feature/TeacherFeedback';
+import { MarginComments, type MarginComment } from '@/components/feature/MarginComments';
+import { CommentComposer, CommentThreads } from '@/components/feature/CommentThreads';
+import { ShareDialog } from '@/components/feature/ShareDialog';
+import { ReadabilityPanel } from '@/components/feature/ReadabilityPanel';
+import { StructureMap } from '@/components/feature/StructureMap';
+import { ThesisAlignmentReport } from '@/components/feature/ThesisAlignmentReport';
+import { ArgumentSidebar } from '@/components/feature/ArgumentSidebar';
+import { SourceLibrary, WorksCited } from '@/components/feature/SourceLibrary';
+import { SuggestionPopover } from '@/components/feature/SuggestionPopover';
+import { CommentHighlightExtension, getCommentHighlights, getSelectedCommentRange } from '@/lib/editor/comment-highlight-extension';
+import { encodeCollaborationState, getCollaboratorColor, seedCollaborationDoc } from '@/lib/editor/collaboration';
+import { useCommentThreads } from '@/lib/hooks/use-comment-threads';
+import { useCollaboration } from '@/lib/hooks/use-collaboration';
+import { createAnchor, getCommentAnchor, resolveAnchor } from '@/lib/comments';
+import { checkGrammarRules, mergeRuleSuggestions } from '@/lib/grammar-rules';
+import { analyzeReadability, type SentenceStats } from '@/lib/readability';
+import { buildStructureMap, getBodyParagraphs, type BodyParagraph, type StructureMapEntry, type StructureSentence, type ThesisAlignment } from '@/lib/essay-structure';
+import { ReadabilityHighlightExtension, readabilityHighlightKey } from '@/lib/editor/readability-highlight-extension';
+import { Citation } from '@/lib/editor/citation-extension';
+import { appendWorksCited, findCitedSourceIds, formatInTextCitation } from '@/lib/citations';
+import { useDocumentSources } from '@/lib/hooks/use-document-sources';
+import { submitAssignment } from '@/app/dashboard/actions';
 
 
 
 import { EditorTourModal } from '@/components/onboarding/EditorTourModal';
 
 import { exportDocument, type ExportFormat } from '@/lib/export-utils';
-import { Lightbulb, MessageSquare, Zap, Target, Brain, Loader2, Download, FileText, Printer, ArrowLeft, PlayCircle } from 'lucide-react';
+import { countWords, findSuggestionRange, findTextParagraphs, offsetSuggestionRanges } from '@/lib/document-text';
+import { createTextPositionMap } from '@/lib/editor/text-positions';
+import { extractQuotes } from '@/lib/editor/quotes';
+import { Lightbulb, MessageSquare, Zap, Target, Brain, Loader2, Download, FileText, FileCode, FileType, Hash, Printer, ArrowLeft, PlayCircle, History, Share2, MessagesSquare, BookOpen } from 'lucide-react';
 import { DocumentAnalysis } from '@/lib/hooks/use-suggestion-engine';
 import Link from 'next/link';
 import './editor-styles.css';
 
-/**
- * Escapes special characters in a string for use in a regular expression.
- * @param {string} str - The string to escape.
- * @returns {string} The escaped string.
- */
-function escapeRegExp(str: string): string {
-  // $& means the whole matched string
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+interface EditorClientProps {
+  initialDocument: Document;
+  authorName: string;
+  userId: string;
+  userName: string; // Labels the user's cursor for collaborators
+  permission: DocumentPermission;
+  assignment?: Assignment | null; // The assignment the document was started from
+  submission?: Pick<Submission, 'id' | 'submitted_at' | 'is_late'> | null;
+  rubric?: Rubric | null; // The rubric attached to the assignment
+  review?: SubmissionReview | null; // Only set once the teacher has returned the submission
 }
 
 /**
- * Finds all occurrences of a needle in a haystack, ignoring whitespace differences.
- * @param {string} haystack - The text to search within.
- * @param {string} needle - The text to search for.
- * @returns {Array<{start: number, end: number}>} An array of found occurrences.
+ * Identifies a correction by its text rather than its offsets, which change
+ * as the student types.
  */
-function findOccurrences(haystack: string, needle: string) {
-  const results: { start: number; end: number }[] = [];
-  if (!needle) return results;
-
-  try {
-    const escapedNeedle = escapeRegExp(needle.trim());
-    const regex = new RegExp(escapedNeedle.replace(/\s+/g, '\\s+'), 'gu');
-    
-    let match;
-    while ((match = regex.exec(haystack)) !== null) {
-      results.push({
-        start: match.index,
-        end: match.index + match[0].length,
-      });
-    }
-  } catch (e) {
-    console.error(`Error creating regex for search: "${needle}"`, e);
-  }
-
-  return results;
-}
-
-interface EditorClientProps {
-  initialDocument: Document;
+function getRuleSuggestionKey(suggestion: { original: string; suggestion: string }) {
+  return `${suggestion.original}→${suggestion.suggestion}`;
 }
 
 /**
@@ -73,8 +87,22 @@ interface EditorClientProps {
  * @param {EditorClientProps} props - The properties for the component.
  * @returns The rendered editor component.
  */
-export function EditorClient({ initialDocument }: EditorClientProps) {
+export function EditorClient({
+  initialDocument,
+  authorName,
+  userId,
+  userName,
+  permission,
+  assignment = null,
+  submission = null,
+  rubric = null,
+  review = null,
+}: EditorClientProps) {
   const supabase = createClient();
+  const isOwner = permission === 'owner';
+  const canEdit = permission === 'owner' || permission === 'edit';
+  const canComment = permission !== 'view';
+  const { provider: collaboration, collaborators } = useCollaboration(initialDocument.id, initialDocument.collab_state, canEdit);
   const [title, setTitle] = useState<string>(initialDocument.title);
   const debouncedTitle = useDebounce(title, 500);
 
@@ -88,13 +116,18 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     JSON.stringify(initialDocument.content || '')
   );
   const [currentSuggestions, setCurrentSuggestions] = useState<Array<{
+    id?: string;
     suggestion: string;
     explanation: string;
     original: string;
     category: SuggestionCategory;
+    start?: number;
+    end?: number;
   }>>([]);
 
-
+  // Mechanical mistakes found by the local grammar rules, rechecked on every change
+  const [ruleSuggestions, setRuleSuggestions] = useState<typeof currentSuggestions>([]);
+  const dismissedRuleSuggestionsRef = useRef<Set<string>>(new Set());
 
   // State for Thesis Analysis (integrated into main sidebar)
   const [selectedThesisText, setSelectedThesisText] = useState('');
@@ -106,9 +139,50 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
   const [thesisError, setThesisError] = useState<string | null>(null);
   const [showThesisInstructions, setShowThesisInstructions] = useState(false);
 
+  // State for rubric score estimates
+  const [rubricScores, setRubricScores] = useState<RubricScore[] | null>(null);
+  const [isScoringRubric, setIsScoringRubric] = useState(false);
+  const [rubricError, setRubricError] = useState<string | null>(null);
+
+  // State for the essay structure map
+  const [structureMap, setStructureMap] = useState<StructureMapEntry[] | null>(null);
+  const [isMappingStructure, setIsMappingStructure] = useState(false);
+  const [structureError, setStructureError] = useState<string | null>(null);
+
+  // State for checking the body paragraphs against the thesis
+  const [thesisAlignment, setThesisAlignment] = useState<{ alignment: ThesisAlignment; paragraphs: BodyParagraph[] } | null>(null);
+  const [isCheckingAlignment, setIsCheckingAlignment] = useState(false);
+  const [alignmentError, setAlignmentError] = useState<string | null>(null);
+
+  // Teacher comments on the returned submission
+  const {
+    threads: commentThreads,
+    error: commentsError,
+    loadComments,
+    replyToComment,
+    setResolved: setCommentResolved,
+  } = useCommentThreads(review?.returned_at && submission ? { type: 'submission', id: submission.id } : null, userId);
+
+  // Comments from the owner and peer reviewers on the document itself
+  const {
+    threads: peerThreads,
+    error: peerCommentsError,
+    loadComments: loadPeerComments,
+    addComment: addPeerComment,
+    replyToComment: replyToPeerComment,
+    setResolved: setPeerCommentResolved,
+  } = useCommentThreads({ type: 'document', id: initialDocument.id }, userId);
+  const allCommentThreads = useMemo(() => [...commentThreads, ...peerThreads], [commentThreads, peerThreads]);
+  const [commentSelection, setCommentSelection] = useState<{ start: number; end: number; quote: string } | null>(null);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [marginComments, setMarginComments] = useState<MarginComment[]>([]);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const editorContainerRef = useRef<HTMLDivElement>(null);
+
   // State for Argument Analysis
   const [isAnalyzingArgument, setIsAnalyzingArgument] = useState(false);
   const [argumentSuggestions, setArgumentSuggestions] = useState<Array<{
+    id?: string;
     suggestion: string;
     explanation: string;
     original: string;
@@ -116,22 +190,28 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     severity?: 'high' | 'medium' | 'low';
     paragraphContext?: string;
   }>>([]);
-  const [, setDocumentAnalysis] = useState<DocumentAnalysis | null>(null);
+  const [documentAnalysis, setDocumentAnalysis] = useState<DocumentAnalysis | null>(null);
+  const [isArgumentSidebarOpen, setIsArgumentSidebarOpen] = useState(false);
 
   // State for on-demand Clarity and Evidence Analysis
   const [isAnalyzingClarity, setIsAnalyzingClarity] = useState(false);
   const [isAnalyzingEvidence, setIsAnalyzingEvidence] = useState(false);
   const [claritySuggestions, setClaritySuggestions] = useState<Array<{
+    id?: string;
     suggestion: string;
     explanation: string;
     original: string;
     category: SuggestionCategory;
   }>>([]);
   const [evidenceSuggestions, setEvidenceSuggestions] = useState<Array<{
+    id?: string;
     suggestion: string;
     explanation: string;
     original: string;
     category: SuggestionCategory;
+    start?: number;
+    end?: number;
+    sourceId?: string | null;
   }>>([]);
   
 
@@ -150,6 +230,34 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
   // Quick Tour modal state
   const [isTourOpen, setIsTourOpen] = useState(false);
 
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState(false);
+
+  // Version history state; the draft is captured when the panel opens so the diff stays stable
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyDraftContent, setHistoryDraftContent] = useState<JSONContent | null>(null);
+  const {
+    versions,
+    isLoading: isLoadingVersions,
+    error: versionsError,
+    loadVersions,
+    createSnapshot,
+    maybeCreateAutoSnapshot,
+    restoreVersion,
+  } = useDocumentVersions(initialDocument.id, initialDocument.user_id);
+
+  const {
+    sources,
+    citationStyle,
+    isLoading: isLoadingSources,
+    error: sourcesError,
+    loadSources,
+    addSource,
+    updateSource,
+    removeSource,
+    setCitationStyle,
+  } = useDocumentSources(initialDocument.id, initialDocument.citation_style);
+  const [citedSourceIds, setCitedSourceIds] = useState<string[]>([]);
+
 
 
   const toggleExplanation = useCallback((suggestionKey: string) => {
@@ -209,20 +317,50 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
   }, []);
 
   const { isChecking, error: engineError, checkText, checkEvidence, analyzeArgument, checkAcademicVoice } = useSuggestionEngine();
+  const { persistSuggestions, updateSuggestionStatus, loadPendingSuggestions } = useSuggestionPersistence(
+    initialDocument.id,
+    initialDocument.user_id,
+  );
+  const hasLoadedPendingSuggestionsRef = useRef(false);
+
+  // Stores suggestions with their current location in the document text
+  const savePositionedSuggestions = useCallback(<T extends {
+    suggestion: string;
+    explanation: string;
+    original: string;
+    category: SuggestionCategory;
+    start?: number;
+    end?: number;
+  }>(editorInstance: ReturnType<typeof useEditor>, suggestions: T[], replaceCategories: SuggestionCategory[]) => {
+    const docText = editorInstance?.getText() || '';
+    const positioned = suggestions.map(s => {
+      const range = findSuggestionRange(docText, s);
+      return {
+        ...s,
+        start: range ? range.start : 0,
+        end: range ? range.end : 0,
+      };
+    });
+    return persistSuggestions(positioned, replaceCategories);
+  }, [persistSuggestions]);
 
   const applySuggestionsToEditor = useCallback((editorInstance: ReturnType<typeof useEditor>, suggestions: Array<{
     suggestion: string;
     explanation: string;
     original: string;
     category: SuggestionCategory;
+    start?: number;
+    end?: number;
   }>, clearFirst = true) => {
-    if (!editorInstance) return;
+    // Read-only editors keep the document exactly as the collaborators left it
+    if (!editorInstance || !canEdit) return;
     
     isApplyingSuggestionsRef.current = true;
     
     const { tr } = editorInstance.state;
     const docSize = editorInstance.state.doc.content.size;
-    const docText = editorInstance.state.doc.textContent;
+    // Suggestion offsets refer to editor.getText(), which this map reproduces
+    const textPositions = createTextPositionMap(editorInstance.state.doc);
     
     console.log(`🎯 Applying ${suggestions.length} suggestions to editor (clearFirst: ${clearFirst})`);
     
@@ -269,14 +407,13 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
       const hasRequiredFields = s.original && s.explanation;
       
       if (hasRequiredFields) {
-        const occurrences = findOccurrences(docText, s.original);
+        const range = findSuggestionRange(textPositions.text, s);
+        const docRange = range && textPositions.toDocRange(range.start, range.end);
         
-        if (occurrences.length > 0) {
-          const { start, end } = occurrences[0];
-          const from = start + 1;
-          const to = end + 1;
+        if (docRange) {
+          const { from, to } = docRange;
 
-          if (from > 0 && to <= docSize + 1 && from < to) {
+          if (from > 0 && to <= docSize && from < to) {
             try {
               tr.addMark(from, to, editorInstance.schema.marks.suggestion.create({
                 suggestion: s.suggestion || '', // Handle empty suggestions
@@ -319,21 +456,43 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     setTimeout(() => {
       isApplyingSuggestionsRef.current = false;
     }, 100);
-  }, []);
+  }, [canEdit]);
+
+  const updateRuleSuggestions = useCallback((editorInstance: ReturnType<typeof useEditor>) => {
+    if (!editorInstance || !canEdit) return;
+    setRuleSuggestions(checkGrammarRules(editorInstance.getText())
+      .filter(s => !dismissedRuleSuggestionsRef.current.has(getRuleSuggestionKey(s)))
+      .map(s => ({ ...s, category: 'grammar' as const })));
+  }, [canEdit]);
 
   const editor = useEditor({
     extensions: [
-      StarterKit.configure({ heading: { levels: [1, 2, 3] } }),
+      // Undo history comes from the Collaboration extension, so it only undoes the user's own changes
+      StarterKit.configure({ heading: { levels: [1, 2, 3] }, history: false }),
       Suggestion.configure({
         HTMLAttributes: {
           class: 'suggestion-mark',
         },
       }),
+      Citation,
+      CommentHighlightExtension,
+      ReadabilityHighlightExtension,
+      Collaboration.configure({ document: collaboration.doc }),
+      CollaborationCursor.configure({
+        provider: collaboration,
+        user: { name: userName || 'Anonymous', color: getCollaboratorColor(userId) },
+      }),
     ],
-    content: initialDocument.content || '',
+    editable: canEdit,
     immediatelyRender: false,
-    onUpdate: ({ editor: editorInstance }) => {
+    onUpdate: ({ editor: editorInstance, transaction }) => {
       if (isApplyingSuggestionsRef.current) return;
+
+      // The local rules are instant, so they run on every change
+      updateRuleSuggestions(editorInstance);
+
+      // Collaborators' changes are checked on their side
+      if (transaction.getMeta(ySyncPluginKey)?.isChangeOrigin) return;
       
       // Clear existing timeout
       if (suggestionCheckTimeoutRef.current) {
@@ -375,7 +534,15 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
       // Trigger critical thinking analysis
     },
     onCreate: ({ editor: editorInstance }) => {
-      
+      // Documents that have never been opened for collaboration start from their saved JSON
+      if (!initialDocument.collab_state && initialDocument.content) {
+        seedCollaborationDoc(collaboration.doc, editorInstance.schema, initialDocument.content as JSONContent);
+      }
+
+      if (!canEdit) return;
+
+      updateRuleSuggestions(editorInstance);
+
       // Initial check after a delay to let user start typing
       setTimeout(() => {
         const text = editorInstance.getText();
@@ -441,17 +608,22 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     }
     
     // Extract the context text
-    let contextText = fullText.substring(contextStart, contextEnd).trim();
+    let rawContext = fullText.substring(contextStart, contextEnd);
+    let contextText = rawContext.trim();
     
     // Ensure we have meaningful content
     if (contextText.length < 50 && !isNearStart) {
       // Fallback: expand to word boundaries if context is too small
       const expandedStart = Math.max(0, cursorPosition - contextWindow);
       const expandedEnd = Math.min(fullText.length, cursorPosition + contextWindow);
-      contextText = fullText.substring(expandedStart, expandedEnd).trim();
+      rawContext = fullText.substring(expandedStart, expandedEnd);
+      contextText = rawContext.trim();
       contextStart = expandedStart;
       contextEnd = expandedEnd;
     }
+
+    // Suggestion offsets are relative to the trimmed context
+    const contextOffset = contextStart + rawContext.length - rawContext.trimStart().length;
     
     // Skip if context is still too small
     if (contextText.length < 20) {
@@ -489,22 +661,28 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
           });
         });
         
-        // Map suggestions back to full document positions
-        const mappedSuggestions = grammarSuggestions.map(suggestion => ({
-          ...suggestion,
-          original: suggestion.original, // Keep original for finding in full text
-          contextOffset: contextStart // Store where this context starts in full doc
-        }));
+        // Map suggestion offsets from the context back to the full document
+        // text, leaving out text the local rules already flag
+        const ruleHits = checkGrammarRules(fullText)
+          .filter(s => !dismissedRuleSuggestionsRef.current.has(getRuleSuggestionKey(s)));
+        const mappedSuggestions = offsetSuggestionRanges(grammarSuggestions, contextOffset).filter(s => (
+          s.start === undefined || s.end === undefined
+          || !ruleHits.some(rule => s.start! < rule.end && s.end! > rule.start)
+        ));
         
-        // Apply suggestions (they'll be mapped back to full document positions)
-        applySuggestionsToEditor(editorInstance, mappedSuggestions);
+        // The marks are applied with the rule suggestions, see correctnessSuggestions
         setCurrentSuggestions(mappedSuggestions);
+
+        // Persist in the background and attach the stored ids once available
+        savePositionedSuggestions(editorInstance, mappedSuggestions, ['grammar']).then(stored => {
+          setCurrentSuggestions(prev => prev.map(s => stored.find(st => st.original === s.original && st.category === s.category) || s));
+        });
       } else {
         console.log('✅ No grammar issues in current context');
         // Only clear suggestions that were in this context area
         setCurrentSuggestions(prev => prev.filter(s => {
-          const occurrences = findOccurrences(fullText, s.original);
-          return occurrences.length === 0 || occurrences[0].start < contextStart || occurrences[0].start > contextEnd;
+          const range = findSuggestionRange(fullText, s);
+          return !range || range.start < contextStart || range.start > contextEnd;
         }));
       }
       
@@ -513,25 +691,27 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     } catch (error) {
       console.error('Grammar check error:', error);
     }
-  }, [checkText, applySuggestionsToEditor, createSimpleHash]);
+  }, [checkText, createSimpleHash, savePositionedSuggestions]);
+
+  // Finds a suggestion in the current draft, preferring its own offsets
+  const findSuggestionDocRange = useCallback((suggestion: { original: string; start?: number; end?: number }) => {
+    if (!editor) return null;
+    const positions = createTextPositionMap(editor.state.doc);
+    const range = findSuggestionRange(positions.text, suggestion);
+    return range && positions.toDocRange(range.start, range.end);
+  }, [editor]);
 
   // Define all hooks before the early return
   const handleArgumentSuggestionClick = useCallback((suggestion: typeof argumentSuggestions[0]) => {
     if (!editor) return;
     
     // Find the text in the editor and highlight it
-    const text = editor.state.doc.textContent;
-    const occurrences = findOccurrences(text, suggestion.original);
-    
-    if (occurrences.length > 0) {
-      const { start, end } = occurrences[0];
-      const from = start + 1;
-      const to = end + 1;
-      
+    const range = findSuggestionDocRange(suggestion);
+    if (range) {
       // Set selection to the problematic text
-      editor.chain().focus().setTextSelection({ from, to }).run();
+      editor.chain().focus().setTextSelection(range).run();
     }
-  }, [editor]);
+  }, [editor, findSuggestionDocRange]);
 
   const handleAnalyzeArgument = useCallback(async () => {
     if (!editor) return;
@@ -541,7 +721,11 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     
     try {
       const { suggestions, documentAnalysis } = await analyzeArgument(text);
-      setArgumentSuggestions(suggestions);
+      setArgumentSuggestions(await savePositionedSuggestions(
+        editor,
+        suggestions,
+        ['argument', 'logical_flow', 'consistency', 'claim_support', 'fallacy', 'counterargument'],
+      ));
       setDocumentAnalysis(documentAnalysis);
       
       // Don't apply argument suggestions to editor marks to avoid conflicts with grammar suggestions
@@ -552,7 +736,7 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     } finally {
       setIsAnalyzingArgument(false);
     }
-  }, [editor, analyzeArgument]);
+  }, [editor, analyzeArgument, savePositionedSuggestions]);
 
   const handleAnalyzeClarity = useCallback(async () => {
     if (!editor) return;
@@ -563,7 +747,7 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     try {
       console.log('🔍 Analyzing clarity...');
       const suggestions = await checkAcademicVoice(text);
-      setClaritySuggestions(suggestions);
+      setClaritySuggestions(await savePositionedSuggestions(editor, suggestions, ['academic_voice']));
       
       // Don't apply clarity suggestions to editor marks to avoid conflicts with grammar suggestions
       console.log(`✅ Received ${suggestions.length} clarity suggestions`);
@@ -573,7 +757,7 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     } finally {
       setIsAnalyzingClarity(false);
     }
-  }, [editor, checkAcademicVoice]);
+  }, [editor, checkAcademicVoice, savePositionedSuggestions]);
 
   const handleAnalyzeEvidence = useCallback(async () => {
     if (!editor) return;
@@ -583,8 +767,8 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     
     try {
       console.log('🔍 Analyzing evidence...');
-      const suggestions = await checkEvidence(text);
-      setEvidenceSuggestions(suggestions);
+      const suggestions = await checkEvidence(text, extractQuotes(editor.state.doc), sources);
+      setEvidenceSuggestions(await savePositionedSuggestions(editor, suggestions, ['evidence']));
       
       // Don't apply evidence suggestions to editor marks to avoid conflicts with grammar suggestions
       console.log(`✅ Received ${suggestions.length} evidence suggestions`);
@@ -594,10 +778,10 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     } finally {
       setIsAnalyzingEvidence(false);
     }
-  }, [editor, checkEvidence]);
+  }, [editor, checkEvidence, savePositionedSuggestions, sources]);
 
   const saveDocument = useCallback(async () => {
-    if (!editor) return;
+    if (!editor || !canEdit) return;
 
     const contentJSON = editor.getJSON();
     const contentString = JSON.stringify(contentJSON);
@@ -610,16 +794,24 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
 
     const { error: updateError } = await supabase
       .from('documents')
-      .update({ title: debouncedTitle, content: contentJSON })
+      .update({ title: debouncedTitle, content: contentJSON, collab_state: encodeCollaborationState(collaboration.doc) })
       .eq('id', initialDocument.id);
 
     if (updateError) {
       console.error('Error saving document:', updateError);
     } else {
       setLastSavedContent(contentString);
+      // Version history belongs to the owner
+      if (isOwner) maybeCreateAutoSnapshot(debouncedTitle, contentJSON);
     }
     setIsSaving(false);
-  }, [editor, supabase, debouncedTitle, initialDocument.id, initialDocument.title, lastSavedContent]);
+  }, [editor, canEdit, isOwner, collaboration, supabase, debouncedTitle, initialDocument.id, initialDocument.title, lastSavedContent, maybeCreateAutoSnapshot]);
+
+  // Save first so the submitted snapshot includes the latest edits
+  const handleSubmitAssignment = useCallback(async () => {
+    await saveDocument();
+    return submitAssignment(initialDocument.id);
+  }, [saveDocument, initialDocument.id]);
 
   // Integrated thesis analysis functions
   const analyzeThesisText = useCallback(async (thesisText: string) => {
@@ -648,6 +840,199 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     setIsAnalyzingThesis(false);
   }, [supabase]);
 
+  const handleScoreRubric = useCallback(async () => {
+    if (!editor || !rubric) return;
+
+    const text = editor.getText();
+    if (!text.trim()) {
+      setRubricError('Write something first, then score it against the rubric.');
+      return;
+    }
+
+    setIsScoringRubric(true);
+    setRubricError(null);
+
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('rubric-scorer', {
+        body: { text, rubric: { criteria: rubric.criteria } },
+      });
+
+      if (invokeError || !data?.scores) {
+        setRubricError('Could not score your draft. Please try again.');
+        console.error(invokeError);
+      } else {
+        setRubricScores(data.scores);
+      }
+    } catch (error) {
+      setRubricError('An error occurred while scoring.');
+      console.error(error);
+    }
+
+    setIsScoringRubric(false);
+  }, [editor, rubric, supabase]);
+
+  const handleMapStructure = useCallback(async () => {
+    if (!editor) return;
+
+    const paragraphs = findTextParagraphs(editor.getText());
+    if (paragraphs.length === 0) {
+      setStructureError('Write a few paragraphs first, then map your essay.');
+      return;
+    }
+
+    setIsMappingStructure(true);
+    setStructureError(null);
+
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('essay-structure', {
+        body: { paragraphs: paragraphs.map(paragraph => paragraph.text) },
+      });
+
+      if (invokeError || !data?.paragraphs) {
+        setStructureError('Could not map your essay. Please try again.');
+        console.error(invokeError);
+      } else {
+        setStructureMap(buildStructureMap(paragraphs, data.paragraphs));
+      }
+    } catch (error) {
+      setStructureError('An error occurred while mapping your essay.');
+      console.error(error);
+    }
+
+    setIsMappingStructure(false);
+  }, [editor, supabase]);
+
+  // Rubric citations and structure map sentences refer to the text that was
+  // analyzed; fall back to a search if it changed
+  const handleSelectQuotedSentence = useCallback((target: RubricCitation | StructureSentence) => {
+    if (!editor) return;
+
+    const positions = createTextPositionMap(editor.state.doc);
+    const range = findSuggestionRange(positions.text, { original: target.sentence, start: target.start, end: target.end });
+    const docRange = range && positions.toDocRange(range.start, range.end);
+    if (docRange) {
+      editor.chain().focus().setTextSelection(docRange).scrollIntoView().run();
+    }
+  }, [editor]);
+
+  useEffect(() => {
+    loadComments();
+    loadPeerComments();
+  }, [loadComments, loadPeerComments]);
+
+  // Anchors refer to the text when the comment was made; find them again in
+  // the current draft. Threads already highlighted keep their range, which
+  // follows every edit.
+  useEffect(() => {
+    if (!editor) return;
+
+    const existing = getCommentHighlights(editor.state);
+    const positions = createTextPositionMap(editor.state.doc);
+    const highlights = allCommentThreads.flatMap(({ comment }) => {
+      if (comment.resolved_at) return [];
+      const current = existing.find(highlight => highlight.id === comment.id);
+      if (current) return [current];
+
+      const anchor = getCommentAnchor(comment);
+      const range = anchor && resolveAnchor(positions.text, anchor);
+      const docRange = range && positions.toDocRange(range.start, range.end);
+      return docRange ? [{ id: comment.id, ...docRange }] : [];
+    });
+    editor.commands.setCommentHighlights(highlights);
+  }, [editor, allCommentThreads]);
+
+  // Place a margin marker next to each highlighted comment
+  const [detachedCommentIds, setDetachedCommentIds] = useState<Set<string>>(new Set());
+  useEffect(() => {
+    if (!editor || allCommentThreads.length === 0) return;
+
+    const updateMarginComments = () => {
+      const container = editorContainerRef.current;
+      if (!container) return;
+
+      const containerTop = container.getBoundingClientRect().top;
+      const highlights = getCommentHighlights(editor.state);
+      setMarginComments(highlights.flatMap(highlight => {
+        const thread = allCommentThreads.find(t => t.comment.id === highlight.id);
+        if (!thread) return [];
+        const isTeacherComment = commentThreads.includes(thread);
+        return [{
+          id: highlight.id,
+          content: thread.comment.body,
+          category: isTeacherComment ? 'teacher' as const : 'peer' as const,
+          author: thread.comment.author_name || (isTeacherComment ? 'Teacher' : 'Reviewer'),
+          position: editor.view.coordsAtPos(highlight.from).top - containerTop,
+        }];
+      }));
+      setDetachedCommentIds(new Set(allCommentThreads
+        .filter(t => !t.comment.resolved_at && !highlights.some(h => h.id === t.comment.id))
+        .map(t => t.comment.id)));
+    };
+
+    updateMarginComments();
+    editor.on('update', updateMarginComments);
+    return () => {
+      editor.off('update', updateMarginComments);
+    };
+  }, [editor, allCommentThreads, commentThreads]);
+
+  // Placing the cursor in commented text opens its thread
+  useEffect(() => {
+    if (!editor) return;
+
+    const handleSelectionUpdate = () => {
+      const { from, empty } = editor.state.selection;
+      if (!empty) return;
+      const highlight = getCommentHighlights(editor.state).find(h => from >= h.from && from <= h.to);
+      if (highlight) setActiveCommentId(highlight.id);
+    };
+
+    editor.on('selectionUpdate', handleSelectionUpdate);
+    return () => {
+      editor.off('selectionUpdate', handleSelectionUpdate);
+    };
+  }, [editor]);
+
+  useEffect(() => {
+    editor?.commands.setActiveCommentHighlight(activeCommentId);
+  }, [editor, activeCommentId]);
+
+  const handleSelectCommentThread = useCallback((thread: CommentThread) => {
+    setActiveCommentId(thread.comment.id);
+    if (!editor) return;
+
+    const highlight = getCommentHighlights(editor.state).find(h => h.id === thread.comment.id);
+    if (!highlight) return;
+
+    if (canEdit) {
+      editor.chain().focus().setTextSelection({ from: highlight.from, to: highlight.to }).scrollIntoView().run();
+    } else {
+      const element = editor.view.domAtPos(highlight.from).node;
+      (element instanceof HTMLElement ? element : element.parentElement)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [editor, canEdit]);
+
+  // Editors start a comment from the selection menu; the read-only view has
+  // no menu, so any text selected there is offered for commenting
+  const handleCommentOnSelection = useCallback(() => {
+    if (editor) setCommentSelection(getSelectedCommentRange(editor.view));
+  }, [editor]);
+
+  const handleReadOnlyMouseUp = useCallback(() => {
+    const range = !canEdit && canComment && editor && getSelectedCommentRange(editor.view);
+    if (range) setCommentSelection(range);
+  }, [editor, canEdit, canComment]);
+
+  const handleAddPeerComment = useCallback(async (body: string) => {
+    if (!editor || !commentSelection) return false;
+    const { text } = createTextPositionMap(editor.state.doc);
+    const comment = await addPeerComment(createAnchor(text, commentSelection.start, commentSelection.end), body);
+    if (!comment) return false;
+    setCommentSelection(null);
+    setActiveCommentId(comment.id);
+    return true;
+  }, [editor, commentSelection, addPeerComment]);
+
   const handleAnalyzeSelectedThesis = useCallback(() => {
     if (editor) {
       const { from, to } = editor.state.selection;
@@ -658,15 +1043,54 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     }
   }, [editor, analyzeThesisText]);
 
+  // The thesis the student selected, or the one the structure map found
+  const currentThesis = selectedThesisText
+    || structureMap?.find(entry => entry.role === 'introduction')?.keySentence?.sentence
+    || '';
+
+  const handleCheckThesisAlignment = useCallback(async () => {
+    if (!editor || !currentThesis) return;
+
+    const paragraphs = getBodyParagraphs(findTextParagraphs(editor.getText()), structureMap, currentThesis);
+    if (paragraphs.length === 0) {
+      setAlignmentError('Write your body paragraphs first, then check them against your thesis.');
+      return;
+    }
+
+    setIsCheckingAlignment(true);
+    setAlignmentError(null);
+
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('thesis-analyzer', {
+        body: { thesis: currentThesis, mode: 'alignment', paragraphs: paragraphs.map(p => p.paragraph.sentence) },
+      });
+
+      if (invokeError || !data?.alignment) {
+        setAlignmentError('Could not check your thesis against the essay. Please try again.');
+        console.error(invokeError);
+      } else {
+        setThesisAlignment({ alignment: data.alignment, paragraphs });
+      }
+    } catch (error) {
+      setAlignmentError('An error occurred while checking your thesis.');
+      console.error(error);
+    }
+
+    setIsCheckingAlignment(false);
+  }, [editor, currentThesis, structureMap, supabase]);
+
+  const handleAnalyzeDetectedThesis = useCallback((thesis: string) => {
+    setSelectedThesisText(thesis);
+    setShowThesisInstructions(false);
+    analyzeThesisText(thesis);
+  }, [analyzeThesisText]);
+
   const handleReplaceThesis = useCallback((newThesis: string) => {
     if (editor && selectedThesisText) {
       // Find the original thesis in the document and replace it
-      const text = editor.state.doc.textContent;
-      const start = text.indexOf(selectedThesisText);
-      if (start !== -1) {
-        const from = start + 1;
-        const to = start + selectedThesisText.length + 1;
-        editor.chain().focus().setTextSelection({ from, to }).deleteSelection().insertContent(newThesis).run();
+      const range = findSuggestionDocRange({ original: selectedThesisText });
+      if (range) {
+        editor.chain().focus().setTextSelection(range).deleteSelection().insertContent(newThesis).run();
         
         // Clear thesis analysis state
         setSelectedThesisText('');
@@ -675,14 +1099,105 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
         setShowThesisInstructions(false);
       }
     }
-  }, [editor, selectedThesisText]);
+  }, [editor, selectedThesisText, findSuggestionDocRange]);
 
   const handleExport = useCallback((format: ExportFormat) => {
     if (!editor) return;
     
     const content = editor.getJSON();
-    exportDocument(format, title || 'Untitled Document', content);
-  }, [editor, title]);
+    exportDocument(format, title || 'Untitled Document', appendWorksCited(content, sources, citationStyle), { author: authorName }).catch(error => {
+      console.error('Error exporting document:', error);
+    });
+  }, [editor, title, authorName, sources, citationStyle]);
+
+  const openHistory = useCallback(() => {
+    if (!editor) return;
+    setHistoryDraftContent(editor.getJSON());
+    setIsHistoryOpen(true);
+    loadVersions();
+  }, [editor, loadVersions]);
+
+  const handleSaveVersion = useCallback(async (label: string) => {
+    if (!editor) return;
+    await createSnapshot(title || 'Untitled Document', editor.getJSON(), 'manual', label);
+  }, [editor, createSnapshot, title]);
+
+  const handleRestoreVersion = useCallback(async (version: DocumentVersion) => {
+    if (!editor) return false;
+    const content = await restoreVersion(version, title || 'Untitled Document', editor.getJSON());
+    // Without a copy of the current draft, replacing it would lose it
+    if (!content) return false;
+
+    // Suggestions refer to the replaced text, so clear them before loading the old version
+    setCurrentSuggestions([]);
+    setClaritySuggestions([]);
+    setEvidenceSuggestions([]);
+    setArgumentSuggestions([]);
+    editor.commands.setContent(content, true);
+    return true;
+  }, [editor, restoreVersion, title]);
+
+  const handlePdfExport = useCallback(async (pdfLayout: PdfLayout, header: AcademicHeader) => {
+    if (!editor) return;
+    const content = appendWorksCited(editor.getJSON(), sources, citationStyle);
+    await exportDocument('pdf', title || 'Untitled Document', content, { author: authorName, pdfLayout, header });
+  }, [editor, title, authorName, sources, citationStyle]);
+
+  const handleCiteSource = useCallback((source: Source, pages: string) => {
+    if (!editor) return;
+    editor.chain().focus().insertCitation({
+      sourceId: source.id,
+      pages: pages.trim(),
+      label: formatInTextCitation(source, citationStyle, pages),
+    }).run();
+  }, [editor, citationStyle]);
+
+  // Cites a flagged quote or claim right after it, before the sentence's
+  // closing punctuation
+  const handleCiteEvidence = useCallback((target: { original: string; start?: number; end?: number }, source: Source) => {
+    if (!editor) return false;
+
+    const positions = createTextPositionMap(editor.state.doc);
+    const range = findSuggestionRange(positions.text, target);
+    if (!range) return false;
+
+    const end = /[.!?]$/.test(positions.text.slice(range.start, range.end)) ? range.end - 1 : range.end;
+    const docRange = positions.toDocRange(range.start, end);
+    if (!docRange) return false;
+
+    editor.chain().focus().setTextSelection(docRange.to).insertCitation({
+      sourceId: source.id,
+      pages: '',
+      label: formatInTextCitation(source, citationStyle),
+    }).run();
+    return true;
+  }, [editor, citationStyle]);
+
+  useEffect(() => {
+    loadSources();
+  }, [loadSources]);
+
+  // The works cited list follows the citations in the draft
+  useEffect(() => {
+    if (!editor) return;
+
+    const updateCitedSources = () => {
+      const ids = findCitedSourceIds(editor.getJSON());
+      setCitedSourceIds(prev => (prev.join() === ids.join() ? prev : ids));
+    };
+
+    updateCitedSources();
+    editor.on('update', updateCitedSources);
+    return () => {
+      editor.off('update', updateCitedSources);
+    };
+  }, [editor]);
+
+  // Citations are reformatted when a source or the citation style changes
+  useEffect(() => {
+    if (!editor || !canEdit) return;
+    editor.commands.refreshCitations(sources, citationStyle);
+  }, [editor, canEdit, sources, citationStyle]);
 
   // Tour modal handlers
   const openTour = useCallback(() => setIsTourOpen(true), []);
@@ -700,12 +1215,117 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
     }
   }, [debouncedEditorState, saveDocument, editor]);
 
+  // Readability statistics follow the draft once typing pauses
+  const debouncedText = useDebounce(editor?.getText() || '', 500);
+  const readabilityReport = useMemo(() => analyzeReadability(debouncedText), [debouncedText]);
+  const [readabilityParagraph, setReadabilityParagraph] = useState<number | null>(null);
+
+  // Highlight the flagged sentences of the paragraph open in the readability panel
+  useEffect(() => {
+    if (!editor) return;
+
+    const paragraph = readabilityParagraph !== null ? readabilityReport.paragraphs[readabilityParagraph] : undefined;
+    if (!paragraph) {
+      if (readabilityHighlightKey.getState(editor.state)?.find().length) {
+        editor.commands.setReadabilityHighlights([]);
+      }
+      return;
+    }
+
+    // The report lags behind typing; wait for it rather than highlight the wrong text
+    const positions = createTextPositionMap(editor.state.doc);
+    if (positions.text !== debouncedText) return;
+
+    editor.commands.setReadabilityHighlights(paragraph.sentences.flatMap(sentence => {
+      const range = sentence.issues.length > 0 && positions.toDocRange(sentence.start, sentence.end);
+      return range ? [{ ...range, issues: sentence.issues }] : [];
+    }));
+  }, [editor, readabilityReport, readabilityParagraph, debouncedText]);
+
+  const handleReadabilitySentenceClick = useCallback((sentence: SentenceStats) => {
+    if (!editor) return;
+
+    const positions = createTextPositionMap(editor.state.doc);
+    const range = findSuggestionRange(positions.text, { original: sentence.text, start: sentence.start, end: sentence.end });
+    const docRange = range && positions.toDocRange(range.start, range.end);
+    if (!docRange) return;
+
+    if (canEdit) {
+      editor.chain().focus().setTextSelection(docRange).scrollIntoView().run();
+    } else {
+      const element = editor.view.domAtPos(docRange.from).node;
+      (element instanceof HTMLElement ? element : element.parentElement)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [editor, canEdit]);
+
   useEffect(() => {
     if (debouncedTitle !== initialDocument.title && editor) {
       saveDocument();
     }
   }, [debouncedTitle, saveDocument, initialDocument.title, editor]);
 
+  // Restore feedback the student has not acted on yet when the editor opens
+  useEffect(() => {
+    if (!editor || !canEdit || hasLoadedPendingSuggestionsRef.current) return;
+    hasLoadedPendingSuggestionsRef.current = true;
+
+    loadPendingSuggestions().then(pending => {
+      if (pending.length === 0) return;
+      console.log(`📥 Restored ${pending.length} pending suggestions`);
+
+      const argumentCategories: SuggestionCategory[] = ['argument', 'logical_flow', 'consistency', 'claim_support', 'fallacy', 'counterargument'];
+      const grammar = pending.filter(s => s.category === 'grammar');
+
+      setCurrentSuggestions(grammar);
+      setClaritySuggestions(pending.filter(s => s.category === 'academic_voice'));
+      setEvidenceSuggestions(pending.filter(s => s.category === 'evidence'));
+      setArgumentSuggestions(pending.filter(s => argumentCategories.includes(s.category)));
+    });
+  }, [editor, canEdit, loadPendingSuggestions]);
+
+  // Rule suggestions come first; AI suggestions on the same text are dropped
+  const correctnessSuggestions = useMemo(
+    () => mergeRuleSuggestions(ruleSuggestions, currentSuggestions.filter(s => s.category === 'grammar')),
+    [ruleSuggestions, currentSuggestions],
+  );
+
+  // Redraw the suggestion marks when the set of corrections changes. Typing
+  // only moves the existing marks, so offsets are left out of the key.
+  const correctnessRef = useRef(correctnessSuggestions);
+  correctnessRef.current = correctnessSuggestions;
+  const correctnessKey = correctnessSuggestions.map(getRuleSuggestionKey).join('|');
+  useEffect(() => {
+    if (editor) applySuggestionsToEditor(editor, correctnessRef.current);
+  }, [editor, correctnessKey, applySuggestionsToEditor]);
+
+  // Accepts a correction from the popover on its highlight
+  const handleAcceptHighlightedSuggestion = useCallback(({ from, to, attrs }: SuggestionRange) => {
+    if (!editor || !attrs.original || !attrs.suggestion) return;
+
+    const key = getRuleSuggestionKey({ original: attrs.original, suggestion: attrs.suggestion });
+    const accepted = correctnessSuggestions.find(s => getRuleSuggestionKey(s) === key);
+
+    editor.chain().focus().setTextSelection({ from, to }).unsetSuggestion().insertContent(attrs.suggestion).run();
+    setCurrentSuggestions(prev => prev.filter(s => getRuleSuggestionKey(s) !== key));
+    if (accepted) updateSuggestionStatus(accepted, 'accepted');
+    setHasProcessedSuggestions(true);
+  }, [editor, correctnessSuggestions, updateSuggestionStatus]);
+
+  // Dismisses a correction from the popover; the local rules stop flagging it too
+  const handleDismissHighlightedSuggestion = useCallback(({ from, to, attrs }: SuggestionRange) => {
+    if (!editor || !attrs.original) return;
+
+    const key = getRuleSuggestionKey({ original: attrs.original, suggestion: attrs.suggestion || '' });
+    const dismissed = correctnessSuggestions.find(s => getRuleSuggestionKey(s) === key);
+
+    editor.chain().focus().setTextSelection({ from, to }).unsetSuggestion().setTextSelection(to).run();
+    dismissedRuleSuggestionsRef.current.add(key);
+    setRuleSuggestions(prev => prev.filter(s => getRuleSuggestionKey(s) !== key));
+    setCurrentSuggestions(prev => prev.filter(s => getRuleSuggestionKey(s) !== key));
+    if (dismissed) updateSuggestionStatus(dismissed, 'rejected');
+    setHasProcessedSuggestions(true);
+  }, [editor, correctnessSuggestions, updateSuggestionStatus]);
+
   useEffect(() => {
     return () => {
       if (suggestionCheckTimeoutRef.current) {
@@ -743,11 +1363,42 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
                   type="text"
                   value={title}
                   onChange={e => setTitle(e.target.value)}
+                  readOnly={!canEdit}
                   className="text-2xl font-bold bg-transparent focus:outline-none flex-1"
                   placeholder="Untitled Document"
                 />
               </div>
               <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                {collaborators.length > 0 && (
+                  <div className="flex -space-x-2" aria-label="People in this document">
+                    {collaborators.map(collaborator => (
+                      <span
+                        key={collaborator.clientId}
+                        title={collaborator.name}
+                        className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-white text-xs font-semibold text-white"
+                        style={{ backgroundColor: collaborator.color }}
+                      >
+                        {collaborator.name.charAt(0).toUpperCase()}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {isOwner ? (
+                  <>
+                    <Button variant="outline" size="sm" onClick={() => setIsShareOpen(true)}>
+                      <Share2 className="h-4 w-4 mr-2" />
+                      Share
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={openHistory}>
+                      <History className="h-4 w-4 mr-2" />
+                      History
+                    </Button>
+                  </>
+                ) : (
+                  <span className="rounded bg-gray-100 px-2 py-1 text-xs font-medium text-gray-700">
+                    {canEdit ? 'Shared with you' : canComment ? 'Comment only' : 'View only'}
+                  </span>
+                )}
                 <Button 
                   variant="outline" 
                   size="sm"
@@ -771,14 +1422,26 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
                       <FileText className="h-4 w-4 mr-2" />
                       Word (.docx)
                     </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => handleExport('pdf')}>
+                    <DropdownMenuItem onClick={() => setIsPdfExportOpen(true)}>
                       <Printer className="h-4 w-4 mr-2" />
                       PDF (.pdf)
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('markdown')}>
+                      <Hash className="h-4 w-4 mr-2" />
+                      Markdown (.md)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('txt')}>
+                      <FileType className="h-4 w-4 mr-2" />
+                      Plain text (.txt)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('html')}>
+                      <FileCode className="h-4 w-4 mr-2" />
+                      Web page (.html)
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
                 <div className="w-20 text-center text-xs">
-                  {isChecking ? (
+                  {!canEdit ? null : isChecking ? (
                     <span className="text-blue-600">Checking...</span>
                   ) : isSaving ? (
                     <span className="text-amber-600 flex items-center justify-center gap-1">
@@ -797,7 +1460,7 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
           {/* Main editor container */}
           <div className="flex-1 overflow-auto">
             <div className="max-w-4xl mx-auto p-8">
-              {editor && (
+              {editor && canEdit && (
                 <BubbleMenu
                   editor={editor}
                   tippyOptions={{ duration: 100 }}
@@ -810,13 +1473,43 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
                     <Button variant="ghost" size="sm" onClick={handleAnalyzeSelectedThesis}>
                       Analyze as Thesis
                     </Button>
+                    <Button variant="ghost" size="sm" onClick={handleCommentOnSelection}>
+                      Comment
+                    </Button>
                   </div>
                 </BubbleMenu>
               )}
 
-              <div className="relative editor-container">
+              {editor && canEdit && (
+                <SuggestionPopover
+                  editor={editor}
+                  onAccept={handleAcceptHighlightedSuggestion}
+                  onDismiss={handleDismissHighlightedSuggestion}
+                />
+              )}
+
+              {assignment && (
+                <AssignmentPanel
+                  assignment={assignment}
+                  initialSubmission={submission}
+                  wordCount={editor ? countWords(editor.getText()) : 0}
+                  onSubmit={handleSubmitAssignment}
+                />
+              )}
+
+              <div ref={editorContainerRef} className="relative editor-container" onMouseUp={handleReadOnlyMouseUp}>
+                {marginComments.length > 0 && (
+                  <div className="absolute inset-y-0 -right-10 w-10">
+                    <MarginComments
+                      comments={marginComments}
+                      onCommentClick={comment => setActiveCommentId(comment.id)}
+                    />
+                  </div>
+                )}
                 <EditorContent editor={editor} className="prose dark:prose-invert max-w-none fade-in" />
               </div>
+
+              <WorksCited sources={sources} citationStyle={citationStyle} citedSourceIds={citedSourceIds} />
             </div>
           </div>
         </div>
@@ -830,7 +1523,7 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
 
             {/* Check if there are any active suggestions to show */}
             {(() => {
-              const activeSuggestions = currentSuggestions.length + argumentSuggestions.length + claritySuggestions.length + evidenceSuggestions.length;
+              const activeSuggestions = correctnessSuggestions.length + argumentSuggestions.length + claritySuggestions.length + evidenceSuggestions.length;
               
               if (activeSuggestions === 0) {
                 // Only show green checkmark if suggestions have been processed (accepted/dismissed)
@@ -853,10 +1546,74 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
 
             {/* Suggestion categories - always show the tools/on-demand options */}
             <div className="space-y-4">
-              {/* Correctness section */}
-              {(() => {
-                const correctnessSuggestions = currentSuggestions.filter(s => s.category === 'grammar');
-                return (
+              {/* Teacher feedback, once the submission is returned */}
+              {review?.returned_at && (
+                <TeacherFeedback
+                  review={review}
+                  criteria={rubric?.criteria || []}
+                  threads={commentThreads}
+                  activeThreadId={activeCommentId}
+                  detachedThreadIds={detachedCommentIds}
+                  error={commentsError}
+                  onSelectThread={handleSelectCommentThread}
+                  onReply={replyToComment}
+                  onResolve={setCommentResolved}
+                />
+              )}
+
+              {/* Peer review comments on the document */}
+              {(!isOwner || peerThreads.length > 0 || collaborators.length > 0 || commentSelection) && (
+                <div className="space-y-2">
+                  <h3 className="flex items-center text-sm font-semibold text-gray-900">
+                    <MessagesSquare className="h-4 w-4 mr-2 text-sky-600" />
+                    Comments
+                  </h3>
+                  {canComment && (
+                    <CommentComposer
+                      quote={commentSelection?.quote || null}
+                      hint={canEdit ? 'Select text and choose Comment to start a thread.' : 'Select text to comment on it.'}
+                      error={peerCommentsError}
+                      onSubmit={handleAddPeerComment}
+                      onCancel={() => setCommentSelection(null)}
+                    />
+                  )}
+                  <CommentThreads
+                    threads={peerThreads}
+                    activeThreadId={activeCommentId}
+                    detachedThreadIds={detachedCommentIds}
+                    onSelectThread={handleSelectCommentThread}
+                    onReply={replyToPeerComment}
+                    onResolve={setPeerCommentResolved}
+                    readOnly={!canComment}
+                  />
+                </div>
+              )}
+
+              <ReadabilityPanel
+                report={readabilityReport}
+                selectedParagraph={readabilityParagraph}
+                onSelectParagraph={setReadabilityParagraph}
+                onSentenceClick={handleReadabilitySentenceClick}
+              />
+
+              <SourceLibrary
+                sources={sources}
+                citationStyle={citationStyle}
+                citedSourceIds={citedSourceIds}
+                canEdit={canEdit}
+                isLoading={isLoadingSources}
+                error={sourcesError}
+                onStyleChange={setCitationStyle}
+                onAdd={addSource}
+                onUpdate={updateSource}
+                onRemove={removeSource}
+                onCite={handleCiteSource}
+              />
+
+              {/* Suggestions change the text, so only editors get them */}
+              {canEdit ? (
+                <>
+                  {/* Correctness section */}
                   <div className="bg-white rounded-lg border border-blue-200 p-4">
                     <div className="flex items-center gap-2 mb-3">
                       <MessageSquare className="h-4 w-4 text-blue-600" />
@@ -877,15 +1634,8 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
                             key={index}
                             className="p-2 bg-red-50 rounded border border-red-100 cursor-pointer hover:bg-red-100 transition-colors"
                             onClick={() => {
-                              if (!editor) return;
-                              const text = editor.state.doc.textContent;
-                              const occurrences = findOccurrences(text, suggestion.original);
-                              if (occurrences.length > 0) {
-                                const { start, end } = occurrences[0];
-                                const from = start + 1;
-                                const to = end + 1;
-                                editor.chain().focus().setTextSelection({ from, to }).run();
-                              }
+                              const range = findSuggestionDocRange(suggestion);
+                              if (range) editor.chain().focus().setTextSelection(range).run();
                             }}
                           >
                             <p className="text-xs font-medium text-red-800">
@@ -911,18 +1661,14 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
                                     
                                     console.log(`🔄 Accepting suggestion: "${suggestion.original}" → "${suggestion.suggestion}"`);
                                     
-                                    const text = editor.state.doc.textContent;
-                                    const occurrences = findOccurrences(text, suggestion.original);
-                                    if (occurrences.length > 0) {
-                                      const { start, end } = occurrences[0];
-                                      const from = start + 1;
-                                      const to = end + 1;
-                                      
+                                    const range = findSuggestionDocRange(suggestion);
+                                    if (range) {
                                       // Apply the change
-                                      editor.chain().focus().setTextSelection({ from, to }).deleteSelection().insertContent(suggestion.suggestion).run();
+                                      editor.chain().focus().setTextSelection(range).deleteSelection().insertContent(suggestion.suggestion).run();
                                       
                                       // Remove from suggestions state
                                       setCurrentSuggestions(prev => prev.filter(s => s.original !== suggestion.original));
+                                      updateSuggestionStatus(suggestion, 'accepted');
                                       
                                       // Mark that suggestions have been processed
                                       setHasProcessedSuggestions(true);
@@ -960,8 +1706,11 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
                                     
                                     console.log(`❌ Dismissing suggestion: "${suggestion.original}"`);
                                     
-                                    // Remove from suggestions state
+                                    // Remove from suggestions state; the local rules stop flagging it too
+                                    dismissedRuleSuggestionsRef.current.add(getRuleSuggestionKey(suggestion));
+                                    setRuleSuggestions(prev => prev.filter(s => s.original !== suggestion.original));
                                     setCurrentSuggestions(prev => prev.filter(s => s.original !== suggestion.original));
+                                    updateSuggestionStatus(suggestion, 'rejected');
                                     
                                     // Mark that suggestions have been processed
                                     setHasProcessedSuggestions(true);
@@ -1012,638 +1761,717 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
                       </div>
                     )}
                   </div>
-                );
-              })()}
-
-              {/* Clarity section */}
-              <div className="bg-white rounded-lg border border-amber-200 p-4">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center gap-3 min-w-0 flex-1">
-                    <Zap className="h-5 w-5 text-amber-600 flex-shrink-0" />
-                    <div className="min-w-0 flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <h3 className="font-semibold text-amber-900 text-sm">Clarity</h3>
-                        <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full font-medium">
-                          {claritySuggestions.length}
-                        </span>
+
+                  {/* Clarity section */}
+                  <div className="bg-white rounded-lg border border-amber-200 p-4">
+                    <div className="flex items-start justify-between mb-4">
+                      <div className="flex items-center gap-3 min-w-0 flex-1">
+                        <Zap className="h-5 w-5 text-amber-600 flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-semibold text-amber-900 text-sm">Clarity</h3>
+                            <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full font-medium">
+                              {claritySuggestions.length}
+                            </span>
+                          </div>
+                          <p className="text-xs text-amber-700">
+                            Academic voice and style improvements
+                          </p>
+                        </div>
                       </div>
-                      <p className="text-xs text-amber-700">
-                        Academic voice and style improvements
-                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleAnalyzeClarity}
+                        disabled={isAnalyzingClarity}
+                        className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
+                      >
+                        {isAnalyzingClarity ? (
+                          <>
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            Analyzing...
+                          </>
+                        ) : (
+                          'Analyze'
+                        )}
+                      </Button>
                     </div>
-                  </div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={handleAnalyzeClarity}
-                    disabled={isAnalyzingClarity}
-                    className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
-                  >
-                    {isAnalyzingClarity ? (
-                      <>
-                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                        Analyzing...
-                      </>
-                    ) : (
-                      'Analyze'
-                    )}
-                  </Button>
-                </div>
-                    
-                {/* Show clarity suggestions */}
-                {claritySuggestions.length > 0 && (
-                  <div className="space-y-2">
-                    {(expandedCategories.has('clarity') ? claritySuggestions : claritySuggestions.slice(0, 3)).map((suggestion, index) => {
-                      const suggestionKey = `clarity-${index}-${suggestion.original.substring(0, 20)}`;
-                      const isExpanded = expandedExplanations.has(suggestionKey);
-                      
-                      return (
-                        <div 
-                          key={index}
-                          className="p-3 bg-amber-50 rounded border border-amber-100 transition-colors"
-                        >
-                          {/* Original text */}
-                          <p className="text-xs font-medium text-amber-800 mb-2">
-                            &quot;{suggestion.original.length > 50 ? suggestion.original.substring(0, 50) + '...' : suggestion.original}&quot;
-                          </p>
+                        
+                    {/* Show clarity suggestions */}
+                    {claritySuggestions.length > 0 && (
+                      <div className="space-y-2">
+                        {(expandedCategories.has('clarity') ? claritySuggestions : claritySuggestions.slice(0, 3)).map((suggestion, index) => {
+                          const suggestionKey = `clarity-${index}-${suggestion.original.substring(0, 20)}`;
+                          const isExpanded = expandedExplanations.has(suggestionKey);
                           
-                          {/* Suggested replacement */}
-                          {suggestion.suggestion && (
-                            <div className="mb-3 p-2 bg-green-50 border border-green-200 rounded">
-                              <p className="text-xs text-green-700 font-medium mb-1">Suggestion:</p>
-                              <p className="text-xs text-green-800 font-semibold">
-                                &quot;{suggestion.suggestion}&quot;
+                          return (
+                            <div 
+                              key={index}
+                              className="p-3 bg-amber-50 rounded border border-amber-100 transition-colors"
+                            >
+                              {/* Original text */}
+                              <p className="text-xs font-medium text-amber-800 mb-2">
+                                &quot;{suggestion.original.length > 50 ? suggestion.original.substring(0, 50) + '...' : suggestion.original}&quot;
                               </p>
-                            </div>
-                          )}
-                          
-                          {/* Explanation section */}
-                          <div className="mb-3">
-                            <div className="flex items-center gap-2">
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                className="text-xs h-6 p-1 text-amber-600 hover:text-amber-800"
-                                onClick={() => toggleExplanation(suggestionKey)}
-                              >
-                                <MessageSquare className="h-3 w-3 mr-1" />
-                                Why?
-                              </Button>
-                              {!isExpanded && (
-                                <p className="text-xs text-amber-600 truncate flex-1">
-                                  {suggestion.explanation.substring(0, 40)}...
-                                </p>
+                              
+                              {/* Suggested replacement */}
+                              {suggestion.suggestion && (
+                                <div className="mb-3 p-2 bg-green-50 border border-green-200 rounded">
+                                  <p className="text-xs text-green-700 font-medium mb-1">Suggestion:</p>
+                                  <p className="text-xs text-green-800 font-semibold">
+                                    &quot;{suggestion.suggestion}&quot;
+                                  </p>
+                                </div>
                               )}
-                            </div>
-                            
-                            {isExpanded && (
-                              <div className="mt-2 p-2 bg-amber-100/50 rounded border border-amber-200">
-                                <p className="text-xs text-amber-700 leading-relaxed">
-                                  {suggestion.explanation}
-                                </p>
+                              
+                              {/* Explanation section */}
+                              <div className="mb-3">
+                                <div className="flex items-center gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="text-xs h-6 p-1 text-amber-600 hover:text-amber-800"
+                                    onClick={() => toggleExplanation(suggestionKey)}
+                                  >
+                                    <MessageSquare className="h-3 w-3 mr-1" />
+                                    Why?
+                                  </Button>
+                                  {!isExpanded && (
+                                    <p className="text-xs text-amber-600 truncate flex-1">
+                                      {suggestion.explanation.substring(0, 40)}...
+                                    </p>
+                                  )}
+                                </div>
+                                
+                                {isExpanded && (
+                                  <div className="mt-2 p-2 bg-amber-100/50 rounded border border-amber-200">
+                                    <p className="text-xs text-amber-700 leading-relaxed">
+                                      {suggestion.explanation}
+                                    </p>
+                                  </div>
+                                )}
                               </div>
-                            )}
-                          </div>
-                          
-                          {/* Action buttons */}
-                          {suggestion.suggestion && (
-                            <div className="flex gap-2">
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                className="text-xs h-7 flex-1 bg-green-50 border-green-200 text-green-700 hover:bg-green-100"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  if (!editor) return;
-                                  const text = editor.state.doc.textContent;
-                                  const occurrences = findOccurrences(text, suggestion.original);
-                                  if (occurrences.length > 0) {
-                                    const { start, end } = occurrences[0];
-                                    const from = start + 1;
-                                    const to = end + 1;
-                                    
-                                    // Remove suggestion marks first, then replace text
-                                    removeSuggestionMarks(editor, from, to);
-                                    
-                                    // Replace the text with the suggestion
-                                    editor.chain().focus().setTextSelection({ from, to }).deleteSelection().insertContent(suggestion.suggestion).run();
-                                    
-                                    // Remove from suggestions list
-                                    setClaritySuggestions(prev => prev.filter(s => s.original !== suggestion.original));
-                                    setHasProcessedSuggestions(true);
-                                  }
-                                }}
-                              >
-                                Accept
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                className="text-xs h-7 flex-1 text-gray-600 hover:bg-gray-100"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  
-                                  // Remove suggestion marks when dismissing
-                                  if (editor) {
-                                    const text = editor.state.doc.textContent;
-                                    const occurrences = findOccurrences(text, suggestion.original);
-                                    if (occurrences.length > 0) {
-                                      const { start, end } = occurrences[0];
-                                      const from = start + 1;
-                                      const to = end + 1;
-                                      removeSuggestionMarks(editor, from, to);
-                                    }
-                                  }
-                                  
-                                  setClaritySuggestions(prev => prev.filter(s => s.original !== suggestion.original));
-                                  setHasProcessedSuggestions(true);
-                                }}
-                              >
-                                Dismiss
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                className="text-xs h-7 text-amber-600 hover:bg-amber-100"
-                                onClick={() => {
-                                  if (!editor) return;
-                                  const text = editor.state.doc.textContent;
-                                  const occurrences = findOccurrences(text, suggestion.original);
-                                  if (occurrences.length > 0) {
-                                    const { start, end } = occurrences[0];
-                                    const from = start + 1;
-                                    const to = end + 1;
-                                    editor.chain().focus().setTextSelection({ from, to }).run();
-                                  }
-                                }}
-                              >
-                                Find
-                              </Button>
+                              
+                              {/* Action buttons */}
+                              {suggestion.suggestion && (
+                                <div className="flex gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-xs h-7 flex-1 bg-green-50 border-green-200 text-green-700 hover:bg-green-100"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      if (!editor) return;
+                                      const range = findSuggestionDocRange(suggestion);
+                                      if (range) {
+                                        const { from, to } = range;
+                                        
+                                        // Remove suggestion marks first, then replace text
+                                        removeSuggestionMarks(editor, from, to);
+                                        
+                                        // Replace the text with the suggestion
+                                        editor.chain().focus().setTextSelection({ from, to }).deleteSelection().insertContent(suggestion.suggestion).run();
+                                        
+                                        // Remove from suggestions list
+                                        setClaritySuggestions(prev => prev.filter(s => s.original !== suggestion.original));
+                                        updateSuggestionStatus(suggestion, 'accepted');
+                                        setHasProcessedSuggestions(true);
+                                      }
+                                    }}
+                                  >
+                                    Accept
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="text-xs h-7 flex-1 text-gray-600 hover:bg-gray-100"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      
+                                      // Remove suggestion marks when dismissing
+                                      if (editor) {
+                                        const range = findSuggestionDocRange(suggestion);
+                                        if (range) {
+                                          const { from, to } = range;
+                                          removeSuggestionMarks(editor, from, to);
+                                        }
+                                      }
+                                      
+                                      setClaritySuggestions(prev => prev.filter(s => s.original !== suggestion.original));
+                                      updateSuggestionStatus(suggestion, 'rejected');
+                                      setHasProcessedSuggestions(true);
+                                    }}
+                                  >
+                                    Dismiss
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="text-xs h-7 text-amber-600 hover:bg-amber-100"
+                                    onClick={() => {
+                                      if (!editor) return;
+                                      const range = findSuggestionDocRange(suggestion);
+                                      if (range) {
+                                        const { from, to } = range;
+                                        editor.chain().focus().setTextSelection({ from, to }).run();
+                                      }
+                                    }}
+                                  >
+                                    Find
+                                  </Button>
+                                </div>
+                              )}
                             </div>
-                          )}
-                        </div>
-                      );
-                    })}
-                    {claritySuggestions.length > 3 && !expandedCategories.has('clarity') && (
-                      <button 
-                        className="text-xs text-amber-600 text-center w-full hover:text-amber-800 hover:underline"
-                        onClick={() => toggleCategoryExpansion('clarity')}
-                      >
-                        +{claritySuggestions.length - 3} more suggestions
-                      </button>
-                    )}
-                    {claritySuggestions.length > 3 && expandedCategories.has('clarity') && (
-                      <button 
-                        className="text-xs text-amber-600 text-center w-full hover:text-amber-800 hover:underline"
-                        onClick={() => toggleCategoryExpansion('clarity')}
-                      >
-                        Show fewer suggestions
-                      </button>
+                          );
+                        })}
+                        {claritySuggestions.length > 3 && !expandedCategories.has('clarity') && (
+                          <button 
+                            className="text-xs text-amber-600 text-center w-full hover:text-amber-800 hover:underline"
+                            onClick={() => toggleCategoryExpansion('clarity')}
+                          >
+                            +{claritySuggestions.length - 3} more suggestions
+                          </button>
+                        )}
+                        {claritySuggestions.length > 3 && expandedCategories.has('clarity') && (
+                          <button 
+                            className="text-xs text-amber-600 text-center w-full hover:text-amber-800 hover:underline"
+                            onClick={() => toggleCategoryExpansion('clarity')}
+                          >
+                            Show fewer suggestions
+                          </button>
+                        )}
+                      </div>
                     )}
                   </div>
-                )}
-              </div>
 
-              {/* Evidence section */}
-              <div className="bg-white rounded-lg border border-blue-200 p-4">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center gap-3 min-w-0 flex-1">
-                    <Target className="h-5 w-5 text-blue-600 flex-shrink-0" />
-                    <div className="min-w-0 flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <h3 className="font-semibold text-blue-900 text-sm">Evidence</h3>
-                        <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full font-medium">
-                          {evidenceSuggestions.length}
-                        </span>
+                  {/* Evidence section */}
+                  <div className="bg-white rounded-lg border border-blue-200 p-4">
+                    <div className="flex items-start justify-between mb-4">
+                      <div className="flex items-center gap-3 min-w-0 flex-1">
+                        <Target className="h-5 w-5 text-blue-600 flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-semibold text-blue-900 text-sm">Evidence</h3>
+                            <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full font-medium">
+                              {evidenceSuggestions.length}
+                            </span>
+                          </div>
+                          <p className="text-xs text-blue-700">
+                            Quote integration and citation improvements
+                          </p>
+                        </div>
                       </div>
-                      <p className="text-xs text-blue-700">
-                        Quote integration and citation improvements
-                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleAnalyzeEvidence}
+                        disabled={isAnalyzingEvidence}
+                        className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
+                      >
+                        {isAnalyzingEvidence ? (
+                          <>
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            Analyzing...
+                          </>
+                        ) : (
+                          'Analyze'
+                        )}
+                      </Button>
                     </div>
-                  </div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={handleAnalyzeEvidence}
-                    disabled={isAnalyzingEvidence}
-                    className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
-                  >
-                    {isAnalyzingEvidence ? (
-                      <>
-                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                        Analyzing...
-                      </>
-                    ) : (
-                      'Analyze'
-                    )}
-                  </Button>
-                </div>
-                
-                {/* Show evidence suggestions */}
-                {evidenceSuggestions.length > 0 && (
-                  <div className="space-y-2">
-                    {(expandedCategories.has('evidence') ? evidenceSuggestions : evidenceSuggestions.slice(0, 3)).map((suggestion, index) => {
-                      const suggestionKey = `evidence-${index}-${suggestion.original.substring(0, 20)}`;
-                      const isExpanded = expandedExplanations.has(suggestionKey);
-                      
-                      return (
-                        <div 
-                          key={index}
-                          className="p-3 bg-blue-50 rounded border border-blue-100 transition-colors"
-                        >
-                          {/* Original text */}
-                          <p className="text-xs font-medium text-blue-800 mb-2">
-                            &quot;{suggestion.original.length > 50 ? suggestion.original.substring(0, 50) + '...' : suggestion.original}&quot;
-                          </p>
+                    
+                    {/* Show evidence suggestions */}
+                    {evidenceSuggestions.length > 0 && (
+                      <div className="space-y-2">
+                        {(expandedCategories.has('evidence') ? evidenceSuggestions : evidenceSuggestions.slice(0, 3)).map((suggestion, index) => {
+                          const suggestionKey = `evidence-${index}-${suggestion.original.substring(0, 20)}`;
+                          const isExpanded = expandedExplanations.has(suggestionKey);
+                          const linkedSource = sources.find(source => source.id === suggestion.sourceId);
                           
-                          {/* Suggested replacement */}
-                          {suggestion.suggestion && (
-                            <div className="mb-3 p-2 bg-green-50 border border-green-200 rounded">
-                              <p className="text-xs text-green-700 font-medium mb-1">Suggestion:</p>
-                              <p className="text-xs text-green-800 font-semibold">
-                                &quot;{suggestion.suggestion}&quot;
+                          return (
+                            <div 
+                              key={index}
+                              className="p-3 bg-blue-50 rounded border border-blue-100 transition-colors"
+                            >
+                              {/* Original text */}
+                              <p className="text-xs font-medium text-blue-800 mb-2">
+                                &quot;{suggestion.original.length > 50 ? suggestion.original.substring(0, 50) + '...' : suggestion.original}&quot;
                               </p>
-                            </div>
-                          )}
-                          
-                          {/* Explanation section */}
-                          <div className="mb-3">
-                            <div className="flex items-center gap-2">
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                className="text-xs h-6 p-1 text-blue-600 hover:text-blue-800"
-                                onClick={() => toggleExplanation(suggestionKey)}
-                              >
-                                <MessageSquare className="h-3 w-3 mr-1" />
-                                Why?
-                              </Button>
-                              {!isExpanded && (
-                                <p className="text-xs text-blue-600 truncate flex-1">
-                                  {suggestion.explanation.substring(0, 40)}...
+
+                              {/* The library source this evidence most likely comes from */}
+                              {linkedSource && (
+                                <p className="text-xs text-teal-700 mb-2 flex items-center gap-1">
+                                  <BookOpen className="h-3 w-3 flex-shrink-0" />
+                                  <span className="truncate">From your sources: {linkedSource.title}</span>
                                 </p>
                               )}
-                            </div>
-                            
-                            {isExpanded && (
-                              <div className="mt-2 p-2 bg-blue-100/50 rounded border border-blue-200">
-                                <p className="text-xs text-blue-700 leading-relaxed">
-                                  {suggestion.explanation}
-                                </p>
+                              
+                              {/* Suggested replacement */}
+                              {suggestion.suggestion && (
+                                <div className="mb-3 p-2 bg-green-50 border border-green-200 rounded">
+                                  <p className="text-xs text-green-700 font-medium mb-1">Suggestion:</p>
+                                  <p className="text-xs text-green-800 font-semibold">
+                                    &quot;{suggestion.suggestion}&quot;
+                                  </p>
+                                </div>
+                              )}
+                              
+                              {/* Explanation section */}
+                              <div className="mb-3">
+                                <div className="flex items-center gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="text-xs h-6 p-1 text-blue-600 hover:text-blue-800"
+                                    onClick={() => toggleExplanation(suggestionKey)}
+                                  >
+                                    <MessageSquare className="h-3 w-3 mr-1" />
+                                    Why?
+                                  </Button>
+                                  {!isExpanded && (
+                                    <p className="text-xs text-blue-600 truncate flex-1">
+                                      {suggestion.explanation.substring(0, 40)}...
+                                    </p>
+                                  )}
+                                </div>
+                                
+                                {isExpanded && (
+                                  <div className="mt-2 p-2 bg-blue-100/50 rounded border border-blue-200">
+                                    <p className="text-xs text-blue-700 leading-relaxed">
+                                      {suggestion.explanation}
+                                    </p>
+                                  </div>
+                                )}
                               </div>
-                            )}
-                          </div>
-                          
-                          {/* Action buttons */}
-                          <div className="flex gap-2">
-                            {suggestion.suggestion && suggestion.suggestion.trim() && (
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                className="text-xs h-7 flex-1 bg-green-50 border-green-200 text-green-700 hover:bg-green-100"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  if (!editor) return;
-                                  const text = editor.state.doc.textContent;
-                                  const occurrences = findOccurrences(text, suggestion.original);
-                                  if (occurrences.length > 0) {
-                                    const { start, end } = occurrences[0];
-                                    const from = start + 1;
-                                    const to = end + 1;
-                                    
-                                    // Remove suggestion marks first, then replace text
-                                    removeSuggestionMarks(editor, from, to);
+                              
+                              {/* Action buttons */}
+                              <div className="flex gap-2">
+                                {suggestion.suggestion && suggestion.suggestion.trim() && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-xs h-7 flex-1 bg-green-50 border-green-200 text-green-700 hover:bg-green-100"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      if (!editor) return;
+                                      const range = findSuggestionDocRange(suggestion);
+                                      if (range) {
+                                        const { from, to } = range;
+                                        
+                                        // Remove suggestion marks first, then replace text
+                                        removeSuggestionMarks(editor, from, to);
+                                        
+                                        // Replace the text with the suggestion
+                                        editor.chain().focus().setTextSelection({ from, to }).deleteSelection().insertContent(suggestion.suggestion).run();
+                                        
+                                        // Remove from suggestions list
+                                        setEvidenceSuggestions(prev => prev.filter(s => s.original !== suggestion.original));
+                                        updateSuggestionStatus(suggestion, 'accepted');
+                                        setHasProcessedSuggestions(true);
+                                      }
+                                    }}
+                                  >
+                                    Accept
+                                  </Button>
+                                )}
+                                {canEdit && linkedSource && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-xs h-7 flex-1 bg-teal-50 border-teal-200 text-teal-700 hover:bg-teal-100"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      if (handleCiteEvidence(suggestion, linkedSource)) {
+                                        setEvidenceSuggestions(prev => prev.filter(s => s !== suggestion));
+                                        updateSuggestionStatus(suggestion, 'accepted');
+                                        setHasProcessedSuggestions(true);
+                                      }
+                                    }}
+                                  >
+                                    Cite
+                                  </Button>
+                                )}
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-xs h-7 flex-1 text-gray-600 hover:bg-gray-100"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
                                     
-                                    // Replace the text with the suggestion
-                                    editor.chain().focus().setTextSelection({ from, to }).deleteSelection().insertContent(suggestion.suggestion).run();
+                                    // Remove suggestion marks when dismissing
+                                    if (editor) {
+                                      const range = findSuggestionDocRange(suggestion);
+                                      if (range) {
+                                        const { from, to } = range;
+                                        removeSuggestionMarks(editor, from, to);
+                                      }
+                                    }
                                     
-                                    // Remove from suggestions list
                                     setEvidenceSuggestions(prev => prev.filter(s => s.original !== suggestion.original));
+                                    updateSuggestionStatus(suggestion, 'rejected');
                                     setHasProcessedSuggestions(true);
-                                  }
-                                }}
-                              >
-                                Accept
-                              </Button>
-                            )}
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              className="text-xs h-7 flex-1 text-gray-600 hover:bg-gray-100"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                
-                                // Remove suggestion marks when dismissing
-                                if (editor) {
-                                  const text = editor.state.doc.textContent;
-                                  const occurrences = findOccurrences(text, suggestion.original);
-                                  if (occurrences.length > 0) {
-                                    const { start, end } = occurrences[0];
-                                    const from = start + 1;
-                                    const to = end + 1;
-                                    removeSuggestionMarks(editor, from, to);
-                                  }
-                                }
-                                
-                                setEvidenceSuggestions(prev => prev.filter(s => s.original !== suggestion.original));
-                                setHasProcessedSuggestions(true);
-                              }}
-                            >
-                              Dismiss
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              className="text-xs h-7 text-blue-600 hover:bg-blue-100"
-                              onClick={() => {
-                                if (!editor) return;
-                                const text = editor.state.doc.textContent;
-                                const occurrences = findOccurrences(text, suggestion.original);
-                                if (occurrences.length > 0) {
-                                  const { start, end } = occurrences[0];
-                                  const from = start + 1;
-                                  const to = end + 1;
-                                  editor.chain().focus().setTextSelection({ from, to }).run();
-                                }
-                              }}
-                            >
-                              Find
-                            </Button>
+                                  }}
+                                >
+                                  Dismiss
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-xs h-7 text-blue-600 hover:bg-blue-100"
+                                  onClick={() => {
+                                    if (!editor) return;
+                                    const range = findSuggestionDocRange(suggestion);
+                                    if (range) {
+                                      const { from, to } = range;
+                                      editor.chain().focus().setTextSelection({ from, to }).run();
+                                    }
+                                  }}
+                                >
+                                  Find
+                                </Button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                        {evidenceSuggestions.length > 3 && !expandedCategories.has('evidence') && (
+                          <button 
+                            className="text-xs text-blue-600 text-center w-full hover:text-blue-800 hover:underline"
+                            onClick={() => toggleCategoryExpansion('evidence')}
+                          >
+                            +{evidenceSuggestions.length - 3} more suggestions
+                          </button>
+                        )}
+                        {evidenceSuggestions.length > 3 && expandedCategories.has('evidence') && (
+                          <button 
+                            className="text-xs text-blue-600 text-center w-full hover:text-blue-800 hover:underline"
+                            onClick={() => toggleCategoryExpansion('evidence')}
+                          >
+                            Show fewer suggestions
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Argument Analysis section */}
+                  <div className="bg-white rounded-lg border border-purple-200 p-4">
+                    <div className="flex items-start justify-between mb-4">
+                      <div className="flex items-center gap-3 min-w-0 flex-1">
+                        <Brain className="h-5 w-5 text-purple-600 flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-semibold text-purple-900 text-sm">Arguments</h3>
+                            <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-medium">
+                              {argumentSuggestions.length}
+                            </span>
                           </div>
+                          <p className="text-xs text-purple-700">
+                            Strengthen your argument structure
+                          </p>
                         </div>
-                      );
-                    })}
-                    {evidenceSuggestions.length > 3 && !expandedCategories.has('evidence') && (
-                      <button 
-                        className="text-xs text-blue-600 text-center w-full hover:text-blue-800 hover:underline"
-                        onClick={() => toggleCategoryExpansion('evidence')}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleAnalyzeArgument}
+                        disabled={isAnalyzingArgument}
+                        className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
                       >
-                        +{evidenceSuggestions.length - 3} more suggestions
-                      </button>
-                    )}
-                    {evidenceSuggestions.length > 3 && expandedCategories.has('evidence') && (
-                      <button 
-                        className="text-xs text-blue-600 text-center w-full hover:text-blue-800 hover:underline"
-                        onClick={() => toggleCategoryExpansion('evidence')}
+                        {isAnalyzingArgument ? (
+                          <>
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            Analyzing...
+                          </>
+                        ) : (
+                          'Analyze'
+                        )}
+                      </Button>
+                    </div>
+                    
+                    {documentAnalysis && (
+                      <button
+                        className="mb-3 text-xs text-purple-600 hover:text-purple-800 hover:underline"
+                        onClick={() => setIsArgumentSidebarOpen(true)}
                       >
-                        Show fewer suggestions
+                        View full analysis, including opposing views
                       </button>
                     )}
-                  </div>
-                )}
-              </div>
 
-              {/* Argument Analysis section */}
-              <div className="bg-white rounded-lg border border-purple-200 p-4">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center gap-3 min-w-0 flex-1">
-                    <Brain className="h-5 w-5 text-purple-600 flex-shrink-0" />
-                    <div className="min-w-0 flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <h3 className="font-semibold text-purple-900 text-sm">Arguments</h3>
-                        <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-medium">
-                          {argumentSuggestions.length}
-                        </span>
-                      </div>
-                      <p className="text-xs text-purple-700">
-                        Strengthen your argument structure
-                      </p>
-                    </div>
-                  </div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={handleAnalyzeArgument}
-                    disabled={isAnalyzingArgument}
-                    className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
-                  >
-                    {isAnalyzingArgument ? (
-                      <>
-                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                        Analyzing...
-                      </>
-                    ) : (
-                      'Analyze'
-                    )}
-                  </Button>
-                </div>
-                
-                {/* Show argument suggestions */}
-                {argumentSuggestions.length > 0 && (
-                  <div className="space-y-2">
-                    {(expandedCategories.has('argument') ? argumentSuggestions : argumentSuggestions.slice(0, 3)).map((suggestion, index) => {
-                      const suggestionKey = `argument-${index}-${suggestion.original.substring(0, 20)}`;
-                      const isExpanded = expandedExplanations.has(suggestionKey);
-                      
-                      return (
-                        <div 
-                          key={index}
-                          className="p-3 bg-purple-50 rounded border border-purple-100 transition-colors"
-                        >
-                          {/* Weak argument text */}
-                          <div className="mb-3">
-                            <p className="text-xs text-purple-700 font-medium mb-1">Weak argument:</p>
-                            <p className="text-xs font-medium text-purple-800">
-                              &quot;{suggestion.original}&quot;
-                            </p>
-                          </div>
+                    {/* Show argument suggestions */}
+                    {argumentSuggestions.length > 0 && (
+                      <div className="space-y-2">
+                        {(expandedCategories.has('argument') ? argumentSuggestions : argumentSuggestions.slice(0, 3)).map((suggestion, index) => {
+                          const suggestionKey = `argument-${index}-${suggestion.original.substring(0, 20)}`;
+                          const isExpanded = expandedExplanations.has(suggestionKey);
                           
-                          {/* Explanation section */}
-                          <div className="mb-3">
-                            <div className="flex items-center gap-2">
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                className="text-xs h-6 p-1 text-purple-600 hover:text-purple-800"
-                                onClick={() => toggleExplanation(suggestionKey)}
-                              >
-                                <MessageSquare className="h-3 w-3 mr-1" />
-                                Why?
-                              </Button>
-                              {!isExpanded && (
-                                <p className="text-xs text-purple-600 truncate flex-1">
-                                  {suggestion.explanation.substring(0, 40)}...
+                          return (
+                            <div 
+                              key={index}
+                              className="p-3 bg-purple-50 rounded border border-purple-100 transition-colors"
+                            >
+                              {/* Weak argument text */}
+                              <div className="mb-3">
+                                <p className="text-xs text-purple-700 font-medium mb-1">
+                                  {suggestion.category === 'counterargument' ? 'Opposing view:' : 'Weak argument:'}
                                 </p>
-                              )}
-                            </div>
-                            
-                            {isExpanded && (
-                              <div className="mt-2 p-2 bg-purple-100/50 rounded border border-purple-200">
-                                <p className="text-xs text-purple-700 leading-relaxed">
-                                  {suggestion.explanation}
+                                <p className="text-xs font-medium text-purple-800">
+                                  &quot;{suggestion.original}&quot;
                                 </p>
-                                {suggestion.paragraphContext && (
-                                  <p className="text-xs text-purple-600 mt-2 italic">
-                                    Context: {suggestion.paragraphContext}
-                                  </p>
-                                )}
                               </div>
-                            )}
-                          </div>
-                          
-                          {/* Action buttons */}
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              className="text-xs h-7 flex-1 text-gray-600 hover:bg-gray-100"
-                              onClick={(e) => {
-                                e.stopPropagation();
+                              
+                              {/* Explanation section */}
+                              <div className="mb-3">
+                                <div className="flex items-center gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="text-xs h-6 p-1 text-purple-600 hover:text-purple-800"
+                                    onClick={() => toggleExplanation(suggestionKey)}
+                                  >
+                                    <MessageSquare className="h-3 w-3 mr-1" />
+                                    Why?
+                                  </Button>
+                                  {!isExpanded && (
+                                    <p className="text-xs text-purple-600 truncate flex-1">
+                                      {suggestion.explanation.substring(0, 40)}...
+                                    </p>
+                                  )}
+                                </div>
                                 
-                                // Remove suggestion marks when dismissing
-                                if (editor) {
-                                  const text = editor.state.doc.textContent;
-                                  const occurrences = findOccurrences(text, suggestion.original);
-                                  if (occurrences.length > 0) {
-                                    const { start, end } = occurrences[0];
-                                    const from = start + 1;
-                                    const to = end + 1;
-                                    removeSuggestionMarks(editor, from, to);
-                                  }
-                                }
-                                
-                                setArgumentSuggestions(prev => prev.filter(s => s.original !== suggestion.original));
-                                setHasProcessedSuggestions(true);
-                              }}
-                            >
-                              Dismiss
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              className="text-xs h-7 text-purple-600 hover:bg-purple-100"
-                              onClick={() => handleArgumentSuggestionClick(suggestion)}
-                            >
-                              Find
-                            </Button>
-                          </div>
-                        </div>
-                      );
-                    })}
-                    {argumentSuggestions.length > 3 && !expandedCategories.has('argument') && (
-                      <button 
-                        className="text-xs text-purple-600 text-center w-full hover:text-purple-800 hover:underline"
-                        onClick={() => toggleCategoryExpansion('argument')}
-                      >
-                        +{argumentSuggestions.length - 3} more suggestions
-                      </button>
-                    )}
-                    {argumentSuggestions.length > 3 && expandedCategories.has('argument') && (
-                      <button 
-                        className="text-xs text-purple-600 text-center w-full hover:text-purple-800 hover:underline"
-                        onClick={() => toggleCategoryExpansion('argument')}
-                      >
-                        Show fewer suggestions
-                      </button>
+                                {isExpanded && (
+                                  <div className="mt-2 p-2 bg-purple-100/50 rounded border border-purple-200">
+                                    <p className="text-xs text-purple-700 leading-relaxed">
+                                      {suggestion.explanation}
+                                    </p>
+                                    {suggestion.paragraphContext && (
+                                      <p className="text-xs text-purple-600 mt-2 italic">
+                                        Context: {suggestion.paragraphContext}
+                                      </p>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                              
+                              {/* Action buttons */}
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-xs h-7 flex-1 text-gray-600 hover:bg-gray-100"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    
+                                    // Remove suggestion marks when dismissing
+                                    if (editor) {
+                                      const range = findSuggestionDocRange(suggestion);
+                                      if (range) {
+                                        const { from, to } = range;
+                                        removeSuggestionMarks(editor, from, to);
+                                      }
+                                    }
+                                    
+                                    setArgumentSuggestions(prev => prev.filter(s => s.original !== suggestion.original));
+                                    updateSuggestionStatus(suggestion, 'rejected');
+                                    setHasProcessedSuggestions(true);
+                                  }}
+                                >
+                                  Dismiss
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-xs h-7 text-purple-600 hover:bg-purple-100"
+                                  onClick={() => handleArgumentSuggestionClick(suggestion)}
+                                >
+                                  Find
+                                </Button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                        {argumentSuggestions.length > 3 && !expandedCategories.has('argument') && (
+                          <button 
+                            className="text-xs text-purple-600 text-center w-full hover:text-purple-800 hover:underline"
+                            onClick={() => toggleCategoryExpansion('argument')}
+                          >
+                            +{argumentSuggestions.length - 3} more suggestions
+                          </button>
+                        )}
+                        {argumentSuggestions.length > 3 && expandedCategories.has('argument') && (
+                          <button 
+                            className="text-xs text-purple-600 text-center w-full hover:text-purple-800 hover:underline"
+                            onClick={() => toggleCategoryExpansion('argument')}
+                          >
+                            Show fewer suggestions
+                          </button>
+                        )}
+                      </div>
                     )}
                   </div>
-                )}
-              </div>
 
-              {/* Thesis Analysis section */}
-              <div className="bg-white rounded-lg border border-indigo-200 p-4">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center gap-3 min-w-0 flex-1">
-                    <Lightbulb className="h-5 w-5 text-indigo-600 flex-shrink-0" />
-                    <div className="min-w-0 flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <h3 className="font-semibold text-indigo-900 text-sm">Thesis</h3>
-                        <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full font-medium">
-                          {thesisAnalysis ? thesisAnalysis.alternatives.length : 0}
-                        </span>
+                  {/* Rubric section, for assignments with a rubric */}
+                  {rubric && (
+                    <RubricFeedback
+                      rubricName={rubric.name}
+                      criteria={rubric.criteria}
+                      scores={rubricScores}
+                      isScoring={isScoringRubric}
+                      error={rubricError}
+                      onScore={handleScoreRubric}
+                      onCitationClick={handleSelectQuotedSentence}
+                    />
+                  )}
+
+                  <StructureMap
+                    map={structureMap}
+                    isMapping={isMappingStructure}
+                    error={structureError}
+                    onMap={handleMapStructure}
+                    onJump={handleSelectQuotedSentence}
+                    onAnalyzeThesis={handleAnalyzeDetectedThesis}
+                  />
+
+                  {/* Thesis Analysis section */}
+                  <div className="bg-white rounded-lg border border-indigo-200 p-4">
+                    <div className="flex items-start justify-between mb-4">
+                      <div className="flex items-center gap-3 min-w-0 flex-1">
+                        <Lightbulb className="h-5 w-5 text-indigo-600 flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-semibold text-indigo-900 text-sm">Thesis</h3>
+                            <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full font-medium">
+                              {thesisAnalysis ? thesisAnalysis.alternatives.length : 0}
+                            </span>
+                          </div>
+                          <p className="text-xs text-indigo-700">
+                            Improve your thesis statement
+                          </p>
+                        </div>
                       </div>
-                      <p className="text-xs text-indigo-700">
-                        Improve your thesis statement
-                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setShowThesisInstructions(!showThesisInstructions)}
+                        className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
+                      >
+                        Analyze
+                      </Button>
                     </div>
-                  </div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => setShowThesisInstructions(!showThesisInstructions)}
-                    className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
-                  >
-                    Analyze
-                  </Button>
-                </div>
 
-                {/* Instructions when button is clicked */}
-                {showThesisInstructions && !selectedThesisText && (
-                  <div className="mb-4 p-3 bg-indigo-50 rounded border border-indigo-200">
-                    <h4 className="text-xs font-semibold text-indigo-800 mb-2">How to analyze your thesis:</h4>
-                    <ol className="text-xs text-indigo-700 space-y-1 list-decimal list-inside">
-                      <li>Highlight your thesis statement in the text</li>
-                      <li>Click the &quot;Analyze as Thesis&quot; button that appears</li>
-                      <li>Get suggestions for stronger alternatives</li>
-                    </ol>
-                  </div>
-                )}
+                    {/* Instructions when button is clicked */}
+                    {showThesisInstructions && !selectedThesisText && (
+                      <div className="mb-4 p-3 bg-indigo-50 rounded border border-indigo-200">
+                        <h4 className="text-xs font-semibold text-indigo-800 mb-2">How to analyze your thesis:</h4>
+                        <ol className="text-xs text-indigo-700 space-y-1 list-decimal list-inside">
+                          <li>Highlight your thesis statement in the text</li>
+                          <li>Click the &quot;Analyze as Thesis&quot; button that appears</li>
+                          <li>Get suggestions for stronger alternatives</li>
+                        </ol>
+                      </div>
+                    )}
 
-                {/* Show selected thesis text */}
-                {selectedThesisText && (
-                  <div className="mb-4 p-3 bg-indigo-50 rounded border border-indigo-100">
-                    <p className="text-xs font-medium text-indigo-800 mb-1">Selected Thesis:</p>
-                    <p className="text-xs text-indigo-700 italic">
-                      &quot;{selectedThesisText}&quot;
-                    </p>
-                  </div>
-                )}
+                    {/* Show selected thesis text */}
+                    {selectedThesisText && (
+                      <div className="mb-4 p-3 bg-indigo-50 rounded border border-indigo-100">
+                        <p className="text-xs font-medium text-indigo-800 mb-1">Selected Thesis:</p>
+                        <p className="text-xs text-indigo-700 italic">
+                          &quot;{selectedThesisText}&quot;
+                        </p>
+                      </div>
+                    )}
 
-                {/* Loading state */}
-                {isAnalyzingThesis && (
-                  <div className="flex justify-center items-center py-6">
-                    <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
-                    <span className="ml-2 text-xs text-indigo-600">Analyzing thesis...</span>
-                  </div>
-                )}
+                    {/* Check that the body paragraphs develop the thesis */}
+                    {currentThesis && (
+                      <div className="mb-4">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-xs h-7"
+                          onClick={handleCheckThesisAlignment}
+                          disabled={isCheckingAlignment}
+                        >
+                          {isCheckingAlignment ? (
+                            <>
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              Checking...
+                            </>
+                          ) : (
+                            'Check body paragraphs'
+                          )}
+                        </Button>
+                        {alignmentError && <p className="text-xs text-red-700 mt-2">{alignmentError}</p>}
+                        {thesisAlignment && (
+                          <div className="mt-3">
+                            <ThesisAlignmentReport
+                              alignment={thesisAlignment.alignment}
+                              paragraphs={thesisAlignment.paragraphs}
+                              onJump={handleSelectQuotedSentence}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
 
-                {/* Error state */}
-                {thesisError && (
-                  <div className="mb-4 p-3 bg-red-50 rounded border border-red-200">
-                    <p className="text-xs text-red-700">{thesisError}</p>
-                  </div>
-                )}
+                    {/* Loading state */}
+                    {isAnalyzingThesis && (
+                      <div className="flex justify-center items-center py-6">
+                        <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+                        <span className="ml-2 text-xs text-indigo-600">Analyzing thesis...</span>
+                      </div>
+                    )}
 
-                {/* Analysis results */}
-                {thesisAnalysis && (
-                  <div className="space-y-4">
-                    {/* Summary */}
-                    <div className="p-3 bg-blue-50 rounded border border-blue-200">
-                      <h4 className="text-xs font-semibold text-blue-800 mb-2">Analysis</h4>
-                      <p className="text-xs text-blue-700 leading-relaxed">
-                        {thesisAnalysis.summary}
-                      </p>
-                    </div>
+                    {/* Error state */}
+                    {thesisError && (
+                      <div className="mb-4 p-3 bg-red-50 rounded border border-red-200">
+                        <p className="text-xs text-red-700">{thesisError}</p>
+                      </div>
+                    )}
 
-                    {/* Alternatives */}
-                    {thesisAnalysis.alternatives.length > 0 && (
-                      <div>
-                        <h4 className="text-xs font-semibold text-indigo-800 mb-3">Suggested Alternatives</h4>
-                        <div className="space-y-3">
-                          {thesisAnalysis.alternatives.map((alternative, index) => (
-                            <div key={index} className="p-3 bg-green-50 rounded border border-green-200">
-                              <h5 className="text-xs font-semibold text-green-800 mb-2">
-                                {alternative.title}
-                              </h5>
-                              <p className="text-xs text-green-700 mb-3 leading-relaxed">
-                                &quot;{alternative.thesis}&quot;
-                              </p>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                className="text-xs h-7 bg-green-100 border-green-300 text-green-800 hover:bg-green-200"
-                                onClick={() => handleReplaceThesis(alternative.thesis)}
-                              >
-                                Replace with this version
-                              </Button>
-                            </div>
-                          ))}
+                    {/* Analysis results */}
+                    {thesisAnalysis && (
+                      <div className="space-y-4">
+                        {/* Summary */}
+                        <div className="p-3 bg-blue-50 rounded border border-blue-200">
+                          <h4 className="text-xs font-semibold text-blue-800 mb-2">Analysis</h4>
+                          <p className="text-xs text-blue-700 leading-relaxed">
+                            {thesisAnalysis.summary}
+                          </p>
                         </div>
+
+                        {/* Alternatives */}
+                        {thesisAnalysis.alternatives.length > 0 && (
+                          <div>
+                            <h4 className="text-xs font-semibold text-indigo-800 mb-3">Suggested Alternatives</h4>
+                            <div className="space-y-3">
+                              {thesisAnalysis.alternatives.map((alternative, index) => (
+                                <div key={index} className="p-3 bg-green-50 rounded border border-green-200">
+                                  <h5 className="text-xs font-semibold text-green-800 mb-2">
+                                    {alternative.title}
+                                  </h5>
+                                  <p className="text-xs text-green-700 mb-3 leading-relaxed">
+                                    &quot;{alternative.thesis}&quot;
+                                  </p>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-xs h-7 bg-green-100 border-green-300 text-green-800 hover:bg-green-200"
+                                    onClick={() => handleReplaceThesis(alternative.thesis)}
+                                  >
+                                    Replace with this version
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
-                )}
-              </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Writing suggestions are only available to people who can edit this document.
+                </p>
+              )}
 
 
             </div>
@@ -1653,6 +2481,43 @@ export function EditorClient({ initialDocument }: EditorClientProps) {
 
 
 
+      {/* PDF Export */}
+      <PdfExportDialog
+        isOpen={isPdfExportOpen}
+        onClose={() => setIsPdfExportOpen(false)}
+        defaultStudentName={authorName}
+        onExport={handlePdfExport}
+      />
+
+      <ArgumentSidebar
+        isOpen={isArgumentSidebarOpen}
+        onClose={() => setIsArgumentSidebarOpen(false)}
+        isAnalyzing={isAnalyzingArgument}
+        suggestions={argumentSuggestions}
+        documentAnalysis={documentAnalysis}
+        onSuggestionClick={handleArgumentSuggestionClick}
+      />
+
+      {isOwner && (
+        <ShareDialog
+          isOpen={isShareOpen}
+          onClose={() => setIsShareOpen(false)}
+          documentId={initialDocument.id}
+        />
+      )}
+
+      {/* Version History */}
+      <VersionHistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        versions={versions}
+        isLoading={isLoadingVersions}
+        error={versionsError}
+        currentContent={historyDraftContent}
+        onSaveVersion={handleSaveVersion}
+        onRestore={handleRestoreVersion}
+      />
+
       {/* AI Features Tour Modal */}
       <EditorTourModal 
         isOpen={isTourOpen} 
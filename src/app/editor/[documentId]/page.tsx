@@ -1,11 +1,12 @@
 /**
  * @file This file defines the server component for the editor page.
  * It is responsible for fetching the document data from the server,
- * ensuring the user has access, and then passing the data to the
- * client-side editor component.
+ * ensuring the user owns it or has it shared with them, and then passing
+ * the data to the client-side editor component.
  */
 import { createClient } from '@/lib/supabase/server';
 import { notFound, redirect } from 'next/navigation';
+import { type DocumentPermission } from '@/lib/types';
 import { EditorClient } from './editor-client';
 
 interface EditorPageProps {
@@ -35,15 +36,77 @@ export default async function EditorPage({ params }: EditorPageProps) {
     .from('documents')
     .select('*')
     .eq('id', documentId)
-    .eq('user_id', user.id)
     .single();
 
   if (error || !document) {
-    // If the query returns an error or no document, the user either
-    // does not own this document or it does not exist.
+    // If the query returns an error or no document, the document is not
+    // the user's, not shared with them, or does not exist.
     // In either case, we show a 404 page.
     return notFound();
   }
 
-  return <EditorClient initialDocument={document} />;
+  const isOwner = document.user_id === user.id;
+  const { data: share } = isOwner
+    ? { data: null }
+    : await supabase
+      .from('document_shares')
+      .select('permission')
+      .eq('document_id', document.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+  const permission: DocumentPermission | null = isOwner ? 'owner' : share?.permission || null;
+
+  // Teachers can also read submitted documents, but only in the class pages
+  if (!permission) {
+    return notFound();
+  }
+
+  // The author name is used for document metadata when exporting; the
+  // user's own name labels their cursor for collaborators
+  const { data: profiles } = await supabase
+    .from('users')
+    .select('id, full_name')
+    .in('id', [document.user_id, user.id]);
+
+  const authorName = profiles?.find(profile => profile.id === document.user_id)?.full_name || '';
+  const userName = profiles?.find(profile => profile.id === user.id)?.full_name || '';
+
+  // Documents started from an assignment show it above the editor. The
+  // assignment and its feedback are the owner's, so collaborators do not see them
+  const { data: assignment } = isOwner && document.assignment_id
+    ? await supabase.from('assignments').select('*').eq('id', document.assignment_id).single()
+    : { data: null };
+
+  const { data: submission } = assignment
+    ? await supabase
+      .from('submissions')
+      .select('id, submitted_at, is_late')
+      .eq('assignment_id', assignment.id)
+      .eq('student_id', user.id)
+      .maybeSingle()
+    : { data: null };
+
+  // RLS only returns the review once the teacher has returned the submission
+  const { data: review } = submission
+    ? await supabase.from('submission_reviews').select('*').eq('submission_id', submission.id).maybeSingle()
+    : { data: null };
+
+  const { data: rubric } = assignment?.rubric_id
+    ? await supabase.from('rubrics').select('*').eq('id', assignment.rubric_id).single()
+    : { data: null };
+
+  return (
+    <EditorClient
+      initialDocument={document}
+      authorName={authorName}
+      userId={user.id}
+      userName={userName}
+      permission={permission}
+      assignment={assignment}
+      submission={submission}
+      rubric={rubric}
+      review={review}
+    />
+  );
 }
\ No newline at end of file
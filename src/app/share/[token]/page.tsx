@@ -0,0 +1,38 @@
+/**
+ * @file This file defines the page that share links point to. Opening a link
+ * gives the logged-in user the link's access to the document and then opens
+ * it in the editor.
+ */
+import { createClient } from '@/lib/supabase/server';
+import { notFound, redirect } from 'next/navigation';
+
+interface SharePageProps {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Accepts a share link and redirects to the shared document.
+ *
+ * @param {SharePageProps} props - The component props, including the link token.
+ * @returns A redirect to the editor, or a 404 page for unknown or revoked links.
+ */
+export default async function SharePage({ params }: SharePageProps) {
+  const supabase = createClient();
+  const { token } = await params;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect('/login?message=You must be logged in to open a shared document');
+  }
+
+  const { data: documentId, error } = await supabase.rpc('accept_document_share', { share_token: token });
+
+  if (error || !documentId) {
+    return notFound();
+  }
+
+  return redirect(`/editor/${documentId}`);
+}
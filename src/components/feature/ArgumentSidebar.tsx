@@ -1,12 +1,14 @@
 /**
  * @file This component displays comprehensive argument analysis in a sidebar.
- * It shows document-level analysis, categorized suggestions, and argument flow visualization.
+ * It shows document-level analysis, categorized suggestions, and argument flow visualization,
+ * including whether the essay states and answers an opposing view.
  */
 'use client';
 
 import { Button } from '@/components/ui/button';
-import { Loader2, AlertTriangle, CheckCircle, Info, Brain, Target, Zap, ArrowRight } from 'lucide-react';
+import { Loader2, AlertTriangle, CheckCircle, Info, Brain, Target, Zap, ArrowRight, Scale } from 'lucide-react';
 import { SuggestionCategory } from '@/lib/editor/suggestion-extension';
+import { type CounterargumentAnalysis } from '@/lib/hooks/use-suggestion-engine';
 
 interface ArgumentSuggestion {
   original: string;
@@ -21,6 +23,7 @@ interface DocumentAnalysis {
   overallStrength: 'weak' | 'moderate' | 'strong';
   mainIssues: string[];
   flowProblems: string[];
+  counterargument?: CounterargumentAnalysis | null;
 }
 
 interface ArgumentSidebarProps {
@@ -61,6 +64,13 @@ const categoryConfig = {
     bgColor: 'bg-red-50',
     borderColor: 'border-red-200'
   },
+  counterargument: {
+    title: 'Counterarguments',
+    icon: <Scale className="h-4 w-4" />,
+    color: 'text-indigo-600',
+    bgColor: 'bg-indigo-50',
+    borderColor: 'border-indigo-200'
+  },
   argument: {
     title: 'General Argument',
     icon: <Brain className="h-4 w-4" />,
@@ -70,6 +80,18 @@ const categoryConfig = {
   }
 };
 
+const counterargumentStatusConfig = {
+  missing: { label: 'No opposing view', color: 'text-red-700', icon: <AlertTriangle className="h-5 w-5 text-red-600" /> },
+  no_rebuttal: { label: 'Opposing view not answered', color: 'text-yellow-700', icon: <Info className="h-5 w-5 text-yellow-600" /> },
+  addressed: { label: 'Opposing view answered', color: 'text-green-700', icon: <CheckCircle className="h-5 w-5 text-green-600" /> }
+};
+
+const fairnessLabels = {
+  fair: 'Stated fairly',
+  oversimplified: 'Oversimplified',
+  strawman: 'Strawman: twisted to be easy to knock down'
+};
+
 const severityConfig = {
   high: { label: 'High', color: 'text-red-700', bgColor: 'bg-red-100' },
   medium: { label: 'Medium', color: 'text-yellow-700', bgColor: 'bg-yellow-100' },
@@ -147,6 +169,27 @@ export function ArgumentSidebar({
             </p>
           </div>
 
+          {/* Opposing view */}
+          {documentAnalysis.counterargument && (
+            <div className="p-4 rounded-lg bg-indigo-50 border border-indigo-200">
+              <div className="flex items-center gap-2 mb-3">
+                {counterargumentStatusConfig[documentAnalysis.counterargument.status].icon}
+                <h3 className="font-semibold text-lg">Opposing View</h3>
+              </div>
+              <p className={`text-sm font-medium ${counterargumentStatusConfig[documentAnalysis.counterargument.status].color}`}>
+                {counterargumentStatusConfig[documentAnalysis.counterargument.status].label}
+              </p>
+              {documentAnalysis.counterargument.fairness && (
+                <p className="text-sm text-indigo-700 mt-1">
+                  Fairness: {fairnessLabels[documentAnalysis.counterargument.fairness]}
+                </p>
+              )}
+              {documentAnalysis.counterargument.explanation && (
+                <p className="text-sm text-gray-600 mt-2">{documentAnalysis.counterargument.explanation}</p>
+              )}
+            </div>
+          )}
+
           {/* Main Issues Summary */}
           {documentAnalysis.mainIssues.length > 0 && (
             <div className="p-4 rounded-lg bg-amber-50 border border-amber-200">
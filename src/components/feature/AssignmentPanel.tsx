@@ -0,0 +1,135 @@
+/**
+ * @file This component shows the assignment a document was started from:
+ * the prompt, essay type, word range and due date, with a button to submit
+ * the document. Once submitted, the panel shows when and whether it was late.
+ */
+'use client';
+
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { ClipboardList, ChevronDown, ChevronUp, Loader2, Send } from 'lucide-react';
+import { type Assignment, type Submission } from '@/lib/types';
+import { ESSAY_TYPE_LABELS, formatDueDate, formatWordRange } from '@/lib/assignments';
+
+type SubmissionStatus = Pick<Submission, 'submitted_at' | 'is_late'>;
+
+interface AssignmentPanelProps {
+  assignment: Assignment;
+  initialSubmission: SubmissionStatus | null;
+  wordCount: number;
+  onSubmit: () => Promise<{ error: string | null; isLate?: boolean }>;
+}
+
+/**
+ * Renders the assignment banner above the editor.
+ * @param {AssignmentPanelProps} props - The properties for the component.
+ * @returns The rendered panel.
+ */
+export function AssignmentPanel({ assignment, initialSubmission, wordCount, onSubmit }: AssignmentPanelProps) {
+  const [submission, setSubmission] = useState<SubmissionStatus | null>(initialSubmission);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(!initialSubmission);
+
+  const wordRange = formatWordRange(assignment.min_words, assignment.max_words);
+  const isOutOfRange = (!!assignment.min_words && wordCount < assignment.min_words)
+    || (!!assignment.max_words && wordCount > assignment.max_words);
+  const isPastDue = new Date(assignment.due_at).getTime() < Date.now();
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await onSubmit();
+      if (result.error) {
+        alert(result.error);
+        return;
+      }
+      setSubmission({ submitted_at: new Date().toISOString(), is_late: !!result.isLate });
+      setIsExpanded(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-blue-200 bg-blue-50/60 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-sm font-medium text-blue-900">
+            <ClipboardList className="h-4 w-4" />
+            {assignment.title}
+          </div>
+          <p className="mt-1 text-xs text-gray-600">
+            {ESSAY_TYPE_LABELS[assignment.essay_type]}
+            {' · '}
+            <span className={isPastDue && !submission ? 'text-red-600' : undefined}>
+              Due {formatDueDate(assignment.due_at)}
+            </span>
+            {wordRange && (
+              <>
+                {' · '}
+                <span className={isOutOfRange ? 'text-amber-700' : undefined}>
+                  {wordCount} words ({wordRange})
+                </span>
+              </>
+            )}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-gray-600"
+            onClick={() => setIsExpanded(prev => !prev)}
+          >
+            {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            <span className="sr-only">{isExpanded ? 'Hide prompt' : 'Show prompt'}</span>
+          </Button>
+          {submission ? (
+            <span className={`rounded-full px-2 py-1 text-xs font-medium ${
+              submission.is_late ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'
+            }`}>
+              {submission.is_late ? 'Submitted late' : 'Submitted'} {formatDueDate(submission.submitted_at)}
+            </span>
+          ) : (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="sm" className="bg-blue-600 hover:bg-blue-700 text-white" disabled={isSubmitting}>
+                  {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                  Submit
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Submit this assignment?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Your teacher will see the document as it is now. You can keep editing afterwards,
+                    but later changes are not part of your submission.
+                    {isPastDue && ' The due date has passed, so this submission will be marked late.'}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleSubmit}>Submit</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </div>
+      {isExpanded && (
+        <p className="mt-3 whitespace-pre-wrap text-sm text-gray-800">{assignment.prompt}</p>
+      )}
+    </div>
+  );
+}
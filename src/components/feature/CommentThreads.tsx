@@ -0,0 +1,232 @@
+/**
+ * @file This component lists the comment threads on a submission or shared
+ * document. Each thread shows the quoted text, the first comment and any
+ * replies, with a reply box and a button to resolve or reopen the thread.
+ */
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, MessageSquarePlus, MessageSquareText, RotateCcw } from 'lucide-react';
+import { type CommentThread, type ThreadComment } from '@/lib/types';
+
+interface CommentThreadsProps {
+  threads: CommentThread[];
+  activeThreadId: string | null;
+  detachedThreadIds?: Set<string>; // Threads whose quoted text is no longer in the document
+  onSelectThread: (thread: CommentThread) => void;
+  onReply: (parentId: string, body: string) => Promise<unknown>;
+  onResolve: (commentId: string, resolved: boolean) => Promise<void>;
+  readOnly?: boolean; // Hides replying and resolving, for viewers who cannot comment
+}
+
+/**
+ * Renders a comment's author, date and text.
+ */
+function CommentBody({ comment }: { comment: ThreadComment }) {
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-0.5">
+        <span className="text-xs font-semibold text-gray-900">{comment.author_name || 'Unknown'}</span>
+        {comment.author_role === 'teacher' && (
+          <span className="text-[10px] uppercase tracking-wide bg-teal-100 text-teal-800 px-1.5 py-0.5 rounded font-medium">
+            Teacher
+          </span>
+        )}
+        <span className="text-[11px] text-gray-400">
+          {new Date(comment.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+        </span>
+      </div>
+      <p className="text-xs text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+    </div>
+  );
+}
+
+/**
+ * Renders one thread with its reply box.
+ */
+function Thread({
+  thread,
+  isActive,
+  isDetached,
+  onSelect,
+  onReply,
+  onResolve,
+  readOnly,
+}: {
+  thread: CommentThread;
+  isActive: boolean;
+  isDetached: boolean;
+  onSelect: () => void;
+  onReply: (body: string) => Promise<unknown>;
+  onResolve: (resolved: boolean) => Promise<void>;
+  readOnly: boolean;
+}) {
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const isResolved = !!thread.comment.resolved_at;
+
+  const handleReply = async () => {
+    if (!reply.trim()) return;
+    setIsSending(true);
+    try {
+      if (await onReply(reply)) setReply('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div
+      className={`p-3 rounded border transition-colors ${
+        isActive ? 'border-teal-400 bg-teal-50' : 'border-teal-100 bg-white'
+      } ${isResolved ? 'opacity-60' : ''}`}
+    >
+      <button type="button" onClick={onSelect} className="block w-full text-left mb-2">
+        <p className="text-xs italic text-teal-800 line-clamp-2 border-l-2 border-teal-400 pl-2">
+          &quot;{thread.comment.quote}&quot;
+        </p>
+        {isDetached && (
+          <p className="text-[11px] text-amber-700 mt-1">This text has changed since the comment was made.</p>
+        )}
+      </button>
+
+      <div className="space-y-2">
+        <CommentBody comment={thread.comment} />
+        {thread.replies.map(replyComment => (
+          <div key={replyComment.id} className="pl-3 border-l border-gray-200">
+            <CommentBody comment={replyComment} />
+          </div>
+        ))}
+      </div>
+
+      {isActive && !isResolved && !readOnly && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={reply}
+            onChange={e => setReply(e.target.value)}
+            placeholder="Reply..."
+            rows={2}
+            className="w-full rounded-md border border-input bg-white px-2 py-1.5 text-xs outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+          />
+          <Button size="sm" className="h-7 text-xs" onClick={handleReply} disabled={isSending || !reply.trim()}>
+            {isSending ? 'Sending...' : 'Reply'}
+          </Button>
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="mt-2 flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-gray-600"
+            onClick={() => onResolve(!isResolved)}
+          >
+            {isResolved ? <RotateCcw className="h-3 w-3 mr-1" /> : <CheckCircle2 className="h-3 w-3 mr-1" />}
+            {isResolved ? 'Reopen' : 'Resolve'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CommentComposerProps {
+  quote: string | null; // The selected text, or null when nothing is selected
+  hint: string; // Shown while nothing is selected
+  error?: string | null;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+/**
+ * Renders the box for starting a thread on the selected text.
+ * @param {CommentComposerProps} props - The properties for the component.
+ * @returns The rendered composer.
+ */
+export function CommentComposer({ quote, hint, error, onSubmit, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setIsSending(true);
+    try {
+      if (await onSubmit(body)) setBody('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-teal-200 p-4 space-y-2">
+      <h2 className="flex items-center text-sm font-semibold text-teal-900">
+        <MessageSquarePlus className="h-4 w-4 mr-2" />
+        Comment
+      </h2>
+      {quote ? (
+        <>
+          <p className="text-xs italic text-teal-800 line-clamp-3 border-l-2 border-teal-400 pl-2">
+            &quot;{quote}&quot;
+          </p>
+          <textarea
+            value={body}
+            onChange={e => setBody(e.target.value)}
+            placeholder="Write a comment..."
+            rows={3}
+            className="w-full rounded-md border border-input bg-white px-2 py-1.5 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+            <Button size="sm" onClick={handleSubmit} disabled={isSending || !body.trim()}>Comment</Button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">{hint}</p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Renders the list of comment threads.
+ * @param {CommentThreadsProps} props - The properties for the component.
+ * @returns The rendered threads.
+ */
+export function CommentThreads({
+  threads,
+  activeThreadId,
+  detachedThreadIds,
+  onSelectThread,
+  onReply,
+  onResolve,
+  readOnly = false,
+}: CommentThreadsProps) {
+  if (threads.length === 0) {
+    return (
+      <div className="text-center py-6 text-xs text-gray-500">
+        <MessageSquareText className="mx-auto h-6 w-6 text-gray-300 mb-2" />
+        No comments yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {threads.map(thread => (
+        <Thread
+          key={thread.comment.id}
+          thread={thread}
+          isActive={thread.comment.id === activeThreadId}
+          isDetached={!!detachedThreadIds?.has(thread.comment.id)}
+          onSelect={() => onSelectThread(thread)}
+          onReply={body => onReply(thread.comment.id, body)}
+          onResolve={resolved => onResolve(thread.comment.id, resolved)}
+          readOnly={readOnly}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+/**
+ * @file Renders a document's Tiptap content as read-only HTML, used where
+ * teachers review submitted work outside the editor.
+ */
+import { type JSONContent } from '@tiptap/react';
+import { jsonToHtml } from '@/lib/export-utils';
+
+interface DocumentViewerProps {
+  content: JSONContent;
+}
+
+/**
+ * Shows document content on a page-like card. jsonToHtml escapes all text
+ * content, so the HTML is safe to inject.
+ * @param content The Tiptap JSON content to render.
+ */
+export function DocumentViewer({ content }: DocumentViewerProps) {
+  return (
+    <article
+      className="mx-auto max-w-3xl bg-white border border-gray-200 rounded-lg p-10 text-gray-900 leading-relaxed space-y-4 [&_h1]:text-2xl [&_h1]:font-bold [&_h2]:text-xl [&_h2]:font-semibold [&_h3]:text-lg [&_h3]:font-semibold [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 [&_blockquote]:border-l-4 [&_blockquote]:pl-4 [&_blockquote]:text-gray-600"
+      dangerouslySetInnerHTML={{ __html: jsonToHtml(content) }}
+    />
+  );
+}
@@ -1,19 +1,24 @@
 /**
  * @file This component displays contextual comments in the margins of the editor,
- * providing non-intrusive feedback linked to specific text sections.
+ * providing non-intrusive feedback linked to specific text sections. Comments
+ * come from the AI categories, from a teacher or from a peer reviewer; comments
+ * written by a person show their name.
  */
 'use client';
 
-import { useState } from 'react';
-import { AlertTriangle, Info, Target, Zap, ArrowRight, Brain } from 'lucide-react';
+import { type ReactNode, useState } from 'react';
+import { AlertTriangle, Info, Target, Zap, ArrowRight, Brain, MessageCircle, MessageSquareText, Scale } from 'lucide-react';
 import { SuggestionCategory } from '@/lib/editor/suggestion-extension';
 
-interface MarginComment {
+export type MarginCommentCategory = SuggestionCategory | 'teacher' | 'peer';
+
+export interface MarginComment {
   id: string;
   content: string;
-  category: SuggestionCategory;
+  category: MarginCommentCategory;
   severity?: 'high' | 'medium' | 'low';
   position: number; // Y position in pixels
+  author?: string; // Set for comments written by a person
 }
 
 interface MarginCommentsProps {
@@ -21,7 +26,7 @@ interface MarginCommentsProps {
   onCommentClick: (comment: MarginComment) => void;
 }
 
-const categoryIcons = {
+const categoryIcons: Record<MarginCommentCategory, ReactNode> = {
   grammar: <Info className="h-4 w-4" />,
   academic_voice: <Zap className="h-4 w-4" />,
   evidence: <Info className="h-4 w-4" />,
@@ -30,9 +35,12 @@ const categoryIcons = {
   fallacy: <AlertTriangle className="h-4 w-4" />,
   consistency: <Zap className="h-4 w-4" />,
   logical_flow: <ArrowRight className="h-4 w-4" />,
+  counterargument: <Scale className="h-4 w-4" />,
+  teacher: <MessageSquareText className="h-4 w-4" />,
+  peer: <MessageCircle className="h-4 w-4" />,
 };
 
-const categoryColors = {
+const categoryColors: Record<MarginCommentCategory, string> = {
   grammar: 'bg-red-100 border-red-300 text-red-700',
   academic_voice: 'bg-amber-100 border-amber-300 text-amber-700',
   evidence: 'bg-blue-100 border-blue-300 text-blue-700',
@@ -41,6 +49,9 @@ const categoryColors = {
   fallacy: 'bg-purple-100 border-purple-300 text-purple-700',
   consistency: 'bg-yellow-100 border-yellow-300 text-yellow-700',
   logical_flow: 'bg-red-100 border-red-300 text-red-700',
+  counterargument: 'bg-indigo-100 border-indigo-300 text-indigo-700',
+  teacher: 'bg-teal-100 border-teal-400 text-teal-700',
+  peer: 'bg-sky-100 border-sky-400 text-sky-700',
 };
 
 /**
@@ -78,8 +89,8 @@ export function MarginComments({ comments, onCommentClick }: MarginCommentsProps
             <div className="absolute right-10 top-0 w-48 p-3 bg-white border border-gray-200 rounded-lg shadow-lg z-10 text-sm">
               <div className="flex items-center gap-2 mb-2">
                 {categoryIcons[comment.category]}
-                <span className="font-medium capitalize">
-                  {comment.category.replace('_', ' ')}
+                <span className={`font-medium ${comment.author ? '' : 'capitalize'}`}>
+                  {comment.author || comment.category.replace('_', ' ')}
                 </span>
                 {comment.severity && (
                   <span className={`
@@ -0,0 +1,160 @@
+/**
+ * @file This component collects the page layout and student details for a
+ * PDF export. MLA and APA layouts need the student's name, teacher, class and
+ * date; these are remembered in local storage between exports.
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Printer } from 'lucide-react';
+import { type AcademicHeader, type PdfLayout } from '@/lib/types';
+
+interface PdfExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaultStudentName: string;
+  onExport: (layout: PdfLayout, header: AcademicHeader) => Promise<void>;
+}
+
+const HEADER_STORAGE_KEY = 'essayelevate:academic-header';
+
+const layoutOptions: Array<{ value: PdfLayout; title: string; description: string }> = [
+  { value: 'mla', title: 'MLA', description: 'Header block with your name, teacher, class and date; last name and page number on every page.' },
+  { value: 'apa', title: 'APA', description: 'Title page with running head and page numbers.' },
+  { value: 'standard', title: 'Plain', description: 'Title and double-spaced text with centered page numbers.' },
+];
+
+/**
+ * Formats today's date the way MLA headers expect it, e.g. "19 October 2026".
+ */
+function formatToday() {
+  return new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/**
+ * A dialog for choosing an academic PDF layout and filling in its header.
+ */
+export function PdfExportDialog({ isOpen, onClose, defaultStudentName, onExport }: PdfExportDialogProps) {
+  const [layout, setLayout] = useState<PdfLayout>('mla');
+  const [header, setHeader] = useState<AcademicHeader>({
+    studentName: defaultStudentName,
+    teacherName: '',
+    className: '',
+    date: formatToday(),
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Restore the details used for the last export; the date is always today
+  useEffect(() => {
+    if (!isOpen) return;
+    try {
+      const saved = JSON.parse(localStorage.getItem(HEADER_STORAGE_KEY) || 'null');
+      if (saved) {
+        setHeader(prev => ({ ...prev, ...saved, date: formatToday() }));
+      }
+    } catch {
+      // Ignore unreadable saved details
+    }
+  }, [isOpen]);
+
+  const updateField = (field: keyof AcademicHeader) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setHeader(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { studentName, teacherName, className } = header;
+      localStorage.setItem(HEADER_STORAGE_KEY, JSON.stringify({ studentName, teacherName, className }));
+      await onExport(layout, header);
+      onClose();
+    } catch (e) {
+      console.error('PDF export failed:', e);
+      setError('Could not export the PDF. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export as PDF</DialogTitle>
+          <DialogDescription>
+            Choose the formatting your teacher asked for.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {layoutOptions.map(option => (
+            <label
+              key={option.value}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                layout === option.value ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="pdf-layout"
+                value={option.value}
+                checked={layout === option.value}
+                onChange={() => setLayout(option.value)}
+                className="mt-1"
+              />
+              <div>
+                <p className="text-sm font-medium text-gray-900">{option.title}</p>
+                <p className="text-xs text-gray-600">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {layout !== 'standard' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="pdf-student">Your name</Label>
+              <Input id="pdf-student" value={header.studentName} onChange={updateField('studentName')} autoComplete="name" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="pdf-teacher">Teacher</Label>
+              <Input id="pdf-teacher" value={header.teacherName} onChange={updateField('teacherName')} autoComplete="off" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="pdf-class">Class</Label>
+              <Input id="pdf-class" value={header.className} onChange={updateField('className')} autoComplete="off" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="pdf-date">Date</Label>
+              <Input id="pdf-date" value={header.date} onChange={updateField('date')} autoComplete="off" />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-700">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Printer className="h-4 w-4" />}
+            Export PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+/**
+ * @file This component shows readability and style statistics for the draft
+ * in the editor sidebar: the Flesch-Kincaid grade against the target, sentence
+ * length and variety, passive voice, repeated words and transitions. Each
+ * paragraph can be opened to see its own statistics; the open paragraph's
+ * flagged sentences are highlighted in the editor.
+ */
+'use client';
+
+import { BarChart3, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  type ParagraphStats,
+  type ReadabilityReport,
+  type SentenceIssue,
+  type SentenceStats,
+  type StyleStats,
+  LONG_SENTENCE_WORDS,
+  TARGET_GRADE_RANGE,
+  getStyleWarnings,
+} from '@/lib/readability';
+
+interface ReadabilityPanelProps {
+  report: ReadabilityReport;
+  selectedParagraph: number | null;
+  onSelectParagraph: (index: number | null) => void;
+  onSentenceClick: (sentence: SentenceStats) => void;
+}
+
+const ISSUE_LABELS: Record<SentenceIssue, string> = {
+  long: `Over ${LONG_SENTENCE_WORDS} words`,
+  passive: 'Passive voice',
+  repeated: 'Repeated words',
+};
+
+/**
+ * Formats a share from 0 to 1 as a whole percentage.
+ */
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Formats a grade level to one decimal place.
+ */
+function formatGrade(grade: number | null): string {
+  return grade === null ? '–' : grade.toFixed(1);
+}
+
+/**
+ * Whether a grade level is inside the target range.
+ */
+function isOnTarget(grade: number | null): boolean {
+  return grade !== null && grade >= TARGET_GRADE_RANGE.min && grade <= TARGET_GRADE_RANGE.max;
+}
+
+/**
+ * Renders the statistics shared by the draft and its paragraphs.
+ * @param props.stats The statistics to show.
+ * @returns The rendered grid.
+ */
+function StatGrid({ stats }: { stats: StyleStats }) {
+  const items = [
+    { label: 'Avg. sentence', value: `${stats.averageSentenceLength.toFixed(1)} words` },
+    { label: 'Length variety', value: `±${stats.sentenceLengthVariety.toFixed(1)} words` },
+    { label: 'Passive voice', value: formatPercent(stats.passiveRatio) },
+    { label: 'Repeated words', value: formatPercent(stats.repeatedWordDensity) },
+    { label: 'Transitions', value: formatPercent(stats.transitionRatio) },
+    { label: 'Sentences', value: String(stats.sentenceCount) },
+  ];
+
+  return (
+    <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+      {items.map(item => (
+        <div key={item.label} className="flex justify-between gap-2">
+          <dt className="text-gray-500">{item.label}</dt>
+          <dd className="font-medium text-gray-900">{item.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * Renders one paragraph of the drill-down, with its statistics and flagged
+ * sentences when open.
+ */
+function ParagraphRow({
+  paragraph,
+  isOpen,
+  onToggle,
+  onSentenceClick,
+}: {
+  paragraph: ParagraphStats;
+  isOpen: boolean;
+  onToggle: () => void;
+  onSentenceClick: (sentence: SentenceStats) => void;
+}) {
+  const warnings = getStyleWarnings(paragraph);
+  const flagged = paragraph.sentences.filter(sentence => sentence.issues.length > 0);
+  const preview = paragraph.sentences[0]?.text || '';
+
+  return (
+    <li className={`rounded border ${isOpen ? 'border-amber-300 bg-amber-50' : 'border-gray-200'}`}>
+      <button className="w-full flex items-center gap-2 p-2 text-left" onClick={onToggle}>
+        {isOpen ? (
+          <ChevronDown className="h-3 w-3 text-gray-500 flex-shrink-0" />
+        ) : (
+          <ChevronRight className="h-3 w-3 text-gray-500 flex-shrink-0" />
+        )}
+        <span className="text-xs text-gray-700 truncate flex-1">
+          <span className="font-medium">¶{paragraph.index + 1}</span> {preview}
+        </span>
+        <span className={`text-xs px-1.5 py-0.5 rounded flex-shrink-0 ${isOnTarget(paragraph.gradeLevel) ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+          {formatGrade(paragraph.gradeLevel)}
+        </span>
+        {flagged.length > 0 && (
+          <span className="text-xs text-amber-700 flex-shrink-0">{flagged.length} flagged</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-2">
+          <StatGrid stats={paragraph} />
+
+          {paragraph.repeatedWords.length > 0 && (
+            <p className="text-xs text-gray-600">
+              Repeated: {paragraph.repeatedWords.map(r => `${r.word} (${r.count}×)`).join(', ')}
+            </p>
+          )}
+
+          {warnings.length > 0 && (
+            <ul className="text-xs text-amber-800 list-disc pl-4 space-y-0.5">
+              {warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+
+          {flagged.length > 0 ? (
+            <ul className="space-y-1">
+              {flagged.map(sentence => (
+                <li key={sentence.start}>
+                  <button
+                    className="w-full text-left p-2 bg-white rounded border border-amber-200 hover:border-amber-400"
+                    onClick={() => onSentenceClick(sentence)}
+                  >
+                    <span className="block text-xs text-gray-800 line-clamp-2">{sentence.text}</span>
+                    <span className="block text-xs text-amber-700 mt-1">
+                      {sentence.issues.map(issue => ISSUE_LABELS[issue]).join(' · ')}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-green-700">No sentences flagged in this paragraph.</p>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Renders the readability section of the editor sidebar.
+ * @param {ReadabilityPanelProps} props - The properties for the component.
+ * @returns The rendered section.
+ */
+export function ReadabilityPanel({
+  report,
+  selectedParagraph,
+  onSelectParagraph,
+  onSentenceClick,
+}: ReadabilityPanelProps) {
+  const warnings = getStyleWarnings(report);
+
+  return (
+    <div className="bg-white rounded-lg border border-amber-200 p-4">
+      <div className="flex items-center gap-3 mb-3">
+        <BarChart3 className="h-5 w-5 text-amber-600 flex-shrink-0" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <h3 className="font-semibold text-amber-900 text-sm">Readability</h3>
+            <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${isOnTarget(report.gradeLevel) ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+              Grade {formatGrade(report.gradeLevel)}
+            </span>
+          </div>
+          <p className="text-xs text-amber-700">
+            Flesch-Kincaid grade, aiming for {TARGET_GRADE_RANGE.min}–{TARGET_GRADE_RANGE.max}
+          </p>
+        </div>
+      </div>
+
+      {report.sentenceCount === 0 ? (
+        <p className="text-xs text-gray-500">Write a few sentences to see readability statistics.</p>
+      ) : (
+        <div className="space-y-3">
+          <StatGrid stats={report} />
+
+          {warnings.length > 0 && (
+            <ul className="text-xs text-amber-800 list-disc pl-4 space-y-0.5">
+              {warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+
+          <div>
+            <h4 className="text-xs font-medium text-gray-700 mb-1">Paragraphs</h4>
+            <ul className="space-y-1">
+              {report.paragraphs.map(paragraph => (
+                <ParagraphRow
+                  key={paragraph.index}
+                  paragraph={paragraph}
+                  isOpen={selectedParagraph === paragraph.index}
+                  onToggle={() => onSelectParagraph(selectedParagraph === paragraph.index ? null : paragraph.index)}
+                  onSentenceClick={onSentenceClick}
+                />
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
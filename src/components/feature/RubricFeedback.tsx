@@ -0,0 +1,124 @@
+/**
+ * @file This component shows AI score estimates for each criterion of the
+ * assignment rubric in the editor sidebar. Each estimate cites the sentences
+ * it is based on; clicking one selects it in the editor.
+ */
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Loader2, Table2 } from 'lucide-react';
+import { type RubricCitation, type RubricCriterion, type RubricScore } from '@/lib/types';
+import { getMaxScore, summarizeRubricScores } from '@/lib/rubrics';
+
+interface RubricFeedbackProps {
+  rubricName: string;
+  criteria: RubricCriterion[];
+  scores: RubricScore[] | null;
+  isScoring: boolean;
+  error: string | null;
+  onScore: () => void;
+  onCitationClick: (citation: RubricCitation) => void;
+}
+
+/**
+ * Renders the rubric section of the editor sidebar.
+ * @param {RubricFeedbackProps} props - The properties for the component.
+ * @returns The rendered section.
+ */
+export function RubricFeedback({
+  rubricName,
+  criteria,
+  scores,
+  isScoring,
+  error,
+  onScore,
+  onCitationClick,
+}: RubricFeedbackProps) {
+  const summary = scores ? summarizeRubricScores(criteria, scores) : null;
+
+  return (
+    <div className="bg-white rounded-lg border border-emerald-200 p-4">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-center gap-3 min-w-0 flex-1">
+          <Table2 className="h-5 w-5 text-emerald-600 flex-shrink-0" />
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <h3 className="font-semibold text-emerald-900 text-sm">Rubric</h3>
+              {summary && summary.max > 0 && (
+                <span className="text-xs bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full font-medium">
+                  {summary.total}/{summary.max}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-emerald-700 truncate">
+              Estimate your score on {rubricName}
+            </p>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onScore}
+          disabled={isScoring}
+          className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
+        >
+          {isScoring ? (
+            <>
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              Scoring...
+            </>
+          ) : (
+            'Score'
+          )}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 rounded border border-red-200">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+
+      {scores && (
+        <div className="space-y-2">
+          {criteria.map(criterion => {
+            const score = scores.find(s => s.criterionId === criterion.id);
+            return (
+              <div key={criterion.id} className="p-3 bg-emerald-50 rounded border border-emerald-100">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <p className="text-xs font-semibold text-emerald-900">{criterion.name}</p>
+                  <span className="text-xs text-emerald-800 font-medium">
+                    {score ? `${score.level} · ${score.score}/${getMaxScore(criterion)}` : 'Not scored'}
+                  </span>
+                </div>
+                {score && (
+                  <>
+                    <p className="text-xs text-gray-700 leading-relaxed">{score.justification}</p>
+                    {score.citations.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {score.citations.map(citation => (
+                          <li key={`${citation.start}:${citation.end}`}>
+                            <button
+                              type="button"
+                              onClick={() => onCitationClick(citation)}
+                              className="text-left text-xs italic text-emerald-700 hover:text-emerald-900 hover:underline"
+                            >
+                              &quot;{citation.sentence}&quot;
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-[11px] text-gray-500">
+            These are estimates to guide revision. Your teacher decides your grade.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
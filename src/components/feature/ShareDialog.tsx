@@ -0,0 +1,297 @@
+/**
+ * @file This component lets a document's owner share it for peer review.
+ * The owner invites people by email address, or creates share links that
+ * anyone who opens them while logged in can join through; revoking a link
+ * removes everyone who joined with it. Each person or link can view, comment
+ * or edit.
+ */
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Check, Copy, Link2, Loader2, Trash2, UserPlus } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { type DocumentMember, type DocumentShare, type SharePermission } from '@/lib/types';
+import {
+  createShareLink,
+  removeDocumentShare,
+  shareDocumentWithUser,
+  updateSharePermission,
+} from '@/app/dashboard/actions';
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentId: string;
+}
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can edit',
+};
+
+const PERMISSIONS: SharePermission[] = ['view', 'comment', 'edit'];
+
+/**
+ * A select for the access a person or link has.
+ */
+function PermissionSelect({
+  value,
+  onChange,
+  label,
+  className = '',
+}: {
+  value: SharePermission;
+  onChange: (permission: SharePermission) => void;
+  label: string;
+  className?: string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value as SharePermission)}
+      className={`h-9 rounded-md border border-input bg-transparent px-3 text-sm ${className}`}
+      aria-label={label}
+    >
+      {PERMISSIONS.map(permission => (
+        <option key={permission} value={permission}>{PERMISSION_LABELS[permission]}</option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Builds the URL a share link points to.
+ */
+function getShareUrl(token: string) {
+  return `${window.location.origin}/share/${token}`;
+}
+
+/**
+ * A dialog for sharing a document with people and through share links.
+ */
+export function ShareDialog({ isOpen, onClose, documentId }: ShareDialogProps) {
+  const supabase = createClient();
+  const [links, setLinks] = useState<DocumentShare[]>([]);
+  const [members, setMembers] = useState<DocumentMember[]>([]);
+  const [permission, setPermission] = useState<SharePermission>('comment');
+  const [email, setEmail] = useState('');
+  const [memberPermission, setMemberPermission] = useState<SharePermission>('comment');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Links, people and invites are all shares; links have a token, people a
+  // user ID and invites an email address
+  const loadShares = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('document_shares')
+      .select('id, document_id, permission, token, user_id, email, link_id, created_at')
+      .eq('document_id', documentId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading shares:', error);
+      setIsLoading(false);
+      return;
+    }
+
+    const userIds = data.filter(share => share.user_id).map(share => share.user_id as string);
+    const { data: profiles } = userIds.length > 0
+      ? await supabase.from('users').select('id, full_name').in('id', userIds)
+      : { data: [] };
+
+    setLinks(data.filter(share => share.token) as DocumentShare[]);
+    setMembers(data.filter(share => share.user_id || share.email).map(share => ({
+      ...share,
+      full_name: profiles?.find(profile => profile.id === share.user_id)?.full_name || null,
+    })) as DocumentMember[]);
+    setIsLoading(false);
+  }, [supabase, documentId]);
+
+  useEffect(() => {
+    if (isOpen) loadShares();
+  }, [isOpen, loadShares]);
+
+  const handleCopy = async (link: DocumentShare) => {
+    await navigator.clipboard.writeText(getShareUrl(link.token));
+    setCopiedId(link.id);
+    setTimeout(() => setCopiedId(current => (current === link.id ? null : current)), 2000);
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const { error, share } = await createShareLink(documentId, permission);
+      if (error || !share) {
+        alert(error || 'Could not create a share link.');
+        return;
+      }
+      setLinks(prev => [...prev, share]);
+      await handleCopy(share);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: DocumentShare) => {
+    const { error } = await removeDocumentShare(link.id);
+    if (error) {
+      alert(error);
+      return;
+    }
+    setLinks(prev => prev.filter(l => l.id !== link.id));
+    setMembers(prev => prev.filter(m => m.link_id !== link.id));
+  };
+
+  const handleShareWithUser = async () => {
+    setIsSharing(true);
+    try {
+      const { error, member } = await shareDocumentWithUser(documentId, email, memberPermission);
+      if (error || !member) {
+        alert(error || 'Could not share the document.');
+        return;
+      }
+      setMembers(prev => [...prev.filter(m => m.id !== member.id), member]);
+      setEmail('');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleChangeMemberPermission = async (member: DocumentMember, newPermission: SharePermission) => {
+    const { error } = await updateSharePermission(member.id, newPermission);
+    if (error) {
+      alert(error);
+      return;
+    }
+    setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, permission: newPermission } : m)));
+  };
+
+  const handleRemoveMember = async (member: DocumentMember) => {
+    const { error } = await removeDocumentShare(member.id);
+    if (error) {
+      alert(error);
+      return;
+    }
+    setMembers(prev => prev.filter(m => m.id !== member.id));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share for peer review</DialogTitle>
+          <DialogDescription>
+            Reviewers who can edit write alongside you in real time; reviewers who can comment
+            leave notes on the text; viewers only read it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900">People</h3>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={e => {
+              e.preventDefault();
+              handleShareWithUser();
+            }}
+          >
+            <Input
+              type="email"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              placeholder="Email address"
+              className="h-9 flex-1"
+            />
+            <PermissionSelect value={memberPermission} onChange={setMemberPermission} label="Access for this person" />
+            <Button type="submit" disabled={isSharing || !email.trim()}>
+              {isSharing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+              Share
+            </Button>
+          </form>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading people...</p>
+          ) : members.length === 0 ? (
+            <p className="text-sm text-gray-500">Not shared with anyone yet.</p>
+          ) : (
+            members.map(member => (
+              <div key={member.id} className="flex items-center gap-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-gray-900">
+                    {member.full_name || member.email || 'Unnamed user'}
+                  </p>
+                  {member.link_id && <p className="text-xs text-gray-500">Joined with a link</p>}
+                  {!member.user_id && <p className="text-xs text-gray-500">Invited</p>}
+                </div>
+                <PermissionSelect
+                  value={member.permission}
+                  onChange={newPermission => handleChangeMemberPermission(member, newPermission)}
+                  label={`Access for ${member.full_name || member.email || 'this person'}`}
+                  className="h-8"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-gray-500 hover:text-destructive"
+                  onClick={() => handleRemoveMember(member)}
+                >
+                  <span className="sr-only">Remove access</span>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900">Links</h3>
+          <p className="text-xs text-gray-500">Anyone with a link can open this document after logging in.</p>
+          <div className="flex items-center gap-2">
+            <PermissionSelect value={permission} onChange={setPermission} label="Link access" className="flex-1" />
+            <Button onClick={handleCreate} disabled={isCreating}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+              Create link
+            </Button>
+          </div>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading links...</p>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-500">No share links yet.</p>
+          ) : (
+            links.map(link => (
+              <div key={link.id} className="flex items-center gap-2">
+                <span className="w-24 shrink-0 text-xs font-medium text-gray-700">{PERMISSION_LABELS[link.permission]}</span>
+                <Input readOnly value={getShareUrl(link.token)} className="h-8 text-xs" onFocus={e => e.target.select()} />
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleCopy(link)}>
+                  <span className="sr-only">Copy link</span>
+                  {copiedId === link.id ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-gray-500 hover:text-destructive"
+                  onClick={() => handleRevoke(link)}
+                >
+                  <span className="sr-only">Revoke link</span>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,292 @@
+/**
+ * @file This file contains the components for citing sources. The source
+ * library in the editor sidebar lists the document's sources, lets owners and
+ * editors add, edit and cite them and choose the citation style. The works
+ * cited list below the draft shows the cited sources as they will be exported.
+ */
+'use client';
+
+import { useState } from 'react';
+import { type JSONContent } from '@tiptap/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BookOpen, Loader2 } from 'lucide-react';
+import {
+  CITATION_STYLES,
+  type SourceDetails,
+  formatWorksCitedEntry,
+  getWorksCitedEntries,
+  getWorksCitedHeading,
+} from '@/lib/citations';
+import { type CitationStyle, type Source } from '@/lib/types';
+
+interface SourceLibraryProps {
+  sources: Source[];
+  citationStyle: CitationStyle;
+  citedSourceIds: string[];
+  canEdit: boolean;
+  isLoading: boolean;
+  error: string | null;
+  onStyleChange: (style: CitationStyle) => void;
+  onAdd: (details: SourceDetails) => Promise<Source | null>;
+  onUpdate: (sourceId: string, details: SourceDetails) => Promise<boolean>;
+  onRemove: (sourceId: string) => void;
+  onCite: (source: Source, pages: string) => void;
+}
+
+interface WorksCitedProps {
+  sources: Source[];
+  citationStyle: CitationStyle;
+  citedSourceIds: string[];
+}
+
+const EMPTY_SOURCE: SourceDetails = { author: '', title: '', publisher: '', year: '', url: '', pages: '' };
+
+const SOURCE_FIELDS: Array<{ key: keyof SourceDetails; label: string; placeholder: string }> = [
+  { key: 'author', label: 'Author', placeholder: 'Last, First' },
+  { key: 'title', label: 'Title', placeholder: 'Title of the book, article or page' },
+  { key: 'publisher', label: 'Publisher', placeholder: 'Publisher or website' },
+  { key: 'year', label: 'Year', placeholder: '2024' },
+  { key: 'url', label: 'URL', placeholder: 'https://' },
+  { key: 'pages', label: 'Pages', placeholder: '45-52' },
+];
+
+/**
+ * Renders formatted citation text, with italic runs in italics.
+ */
+function CitationText({ content }: { content: JSONContent[] }) {
+  return (
+    <>
+      {content.map((node, index) =>
+        node.marks?.some(mark => mark.type === 'italic') ? <em key={index}>{node.text}</em> : <span key={index}>{node.text}</span>)}
+    </>
+  );
+}
+
+/**
+ * A form for a source's details.
+ */
+function SourceForm({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial: SourceDetails;
+  submitLabel: string;
+  onSubmit: (details: SourceDetails) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [details, setDetails] = useState<SourceDetails>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit(details);
+    setIsSaving(false);
+    if (saved) onCancel();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 p-3 bg-teal-50 rounded border border-teal-200">
+      {SOURCE_FIELDS.map(field => (
+        <div key={field.key} className="space-y-1">
+          <Label htmlFor={`source-${field.key}`} className="text-xs">{field.label}</Label>
+          <Input
+            id={`source-${field.key}`}
+            value={details[field.key]}
+            placeholder={field.placeholder}
+            onChange={e => setDetails(prev => ({ ...prev, [field.key]: e.target.value }))}
+            className="h-8 text-xs bg-white"
+            required={field.key === 'title'}
+          />
+        </div>
+      ))}
+      <div className="flex justify-end gap-2 pt-1">
+        <Button type="button" size="sm" variant="ghost" className="text-xs h-7" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" className="text-xs h-7" disabled={isSaving || !details.title.trim()}>
+          {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Renders the sources section of the editor sidebar.
+ * @param {SourceLibraryProps} props - The properties for the component.
+ * @returns The rendered section.
+ */
+export function SourceLibrary({
+  sources,
+  citationStyle,
+  citedSourceIds,
+  canEdit,
+  isLoading,
+  error,
+  onStyleChange,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onCite,
+}: SourceLibraryProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [citingId, setCitingId] = useState<string | null>(null);
+  const [citePages, setCitePages] = useState('');
+
+  const startCiting = (sourceId: string) => {
+    setCitingId(sourceId);
+    setCitePages('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-teal-200 p-4">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-center gap-3 min-w-0 flex-1">
+          <BookOpen className="h-5 w-5 text-teal-600 flex-shrink-0" />
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <h3 className="font-semibold text-teal-900 text-sm">Sources</h3>
+              <span className="text-xs bg-teal-100 text-teal-700 px-2 py-0.5 rounded-full font-medium">
+                {sources.length}
+              </span>
+            </div>
+            <p className="text-xs text-teal-700">
+              Cite your sources as you write
+            </p>
+          </div>
+        </div>
+        <select
+          value={citationStyle}
+          onChange={e => onStyleChange(e.target.value as CitationStyle)}
+          disabled={!canEdit}
+          className="h-8 rounded-md border border-input bg-transparent px-2 text-xs flex-shrink-0 ml-3"
+          aria-label="Citation style"
+        >
+          {CITATION_STYLES.map(style => (
+            <option key={style.value} value={style.value}>{style.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 rounded border border-red-200">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-teal-600" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sources.length === 0 && !isAdding && (
+            <p className="text-xs text-gray-500 text-center py-2">
+              No sources yet. Add the books, articles and websites you quote.
+            </p>
+          )}
+
+          {sources.map(source => (editingId === source.id ? (
+            <SourceForm
+              key={source.id}
+              initial={source}
+              submitLabel="Save"
+              onSubmit={details => onUpdate(source.id, details)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <div key={source.id} className="p-3 bg-gray-50 rounded border border-gray-200">
+              <p className="text-xs text-gray-800 break-words">
+                <CitationText content={formatWorksCitedEntry(source, citationStyle)} />
+              </p>
+              {!citedSourceIds.includes(source.id) && (
+                <p className="text-xs text-gray-500 italic mt-1">Not cited yet</p>
+              )}
+
+              {canEdit && (citingId === source.id ? (
+                <div className="flex items-center gap-2 mt-2">
+                  <Input
+                    value={citePages}
+                    placeholder="Page (optional)"
+                    onChange={e => setCitePages(e.target.value)}
+                    className="h-7 text-xs bg-white"
+                    aria-label="Page cited"
+                    autoFocus
+                  />
+                  <Button
+                    size="sm"
+                    className="text-xs h-7"
+                    onClick={() => {
+                      onCite(source, citePages);
+                      setCitingId(null);
+                    }}
+                  >
+                    Insert
+                  </Button>
+                  <Button size="sm" variant="ghost" className="text-xs h-7" onClick={() => setCitingId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-1 mt-2">
+                  <Button size="sm" variant="ghost" className="text-xs h-7 text-teal-700 hover:bg-teal-100" onClick={() => startCiting(source.id)}>
+                    Cite
+                  </Button>
+                  <Button size="sm" variant="ghost" className="text-xs h-7 text-gray-600 hover:bg-gray-100" onClick={() => setEditingId(source.id)}>
+                    Edit
+                  </Button>
+                  <Button size="sm" variant="ghost" className="text-xs h-7 text-gray-600 hover:bg-gray-100" onClick={() => onRemove(source.id)}>
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )))}
+
+          {canEdit && (isAdding ? (
+            <SourceForm
+              initial={EMPTY_SOURCE}
+              submitLabel="Add source"
+              onSubmit={async details => (await onAdd(details)) !== null}
+              onCancel={() => setIsAdding(false)}
+            />
+          ) : (
+            <Button size="sm" variant="outline" className="w-full text-xs" onClick={() => setIsAdding(true)}>
+              Add source
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Renders the works cited list for the cited sources, below the draft.
+ * @param {WorksCitedProps} props - The properties for the component.
+ * @returns The rendered list, or nothing if no source is cited.
+ */
+export function WorksCited({ sources, citationStyle, citedSourceIds }: WorksCitedProps) {
+  const entries = getWorksCitedEntries(sources, citedSourceIds, citationStyle);
+  if (entries.length === 0) return null;
+
+  return (
+    <section className="works-cited mt-12 pt-8 border-t border-gray-200" aria-label={getWorksCitedHeading(citationStyle)}>
+      <h2 className="text-center text-base font-normal text-gray-900 mb-4">{getWorksCitedHeading(citationStyle)}</h2>
+      <ul className="space-y-2">
+        {entries.map(entry => (
+          <li key={entry.source.id} className="pl-8 -indent-8 text-gray-800 break-words">
+            <CitationText content={entry.content} />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * @file This component shows the essay structure map in the editor sidebar:
+ * an outline of the introduction, body paragraphs and conclusion with the
+ * thesis and topic sentences found in each. Clicking a part jumps to it in
+ * the editor, and missing pieces are flagged at the top.
+ */
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ListTree, Loader2 } from 'lucide-react';
+import {
+  type ParagraphRole,
+  type StructureMapEntry,
+  type StructureSentence,
+  getStructureIssues,
+} from '@/lib/essay-structure';
+
+interface StructureMapProps {
+  map: StructureMapEntry[] | null;
+  isMapping: boolean;
+  error: string | null;
+  onMap: () => void;
+  onJump: (target: StructureSentence) => void;
+  onAnalyzeThesis: (thesis: string) => void;
+}
+
+const KEY_SENTENCE_NAMES: Record<ParagraphRole, string> = {
+  introduction: 'Thesis',
+  body: 'Topic sentence',
+  conclusion: 'Restated claim',
+};
+
+const ROLE_COLORS: Record<ParagraphRole, string> = {
+  introduction: 'bg-indigo-500',
+  body: 'bg-cyan-500',
+  conclusion: 'bg-violet-500',
+};
+
+/**
+ * Renders the structure section of the editor sidebar.
+ * @param {StructureMapProps} props - The properties for the component.
+ * @returns The rendered section.
+ */
+export function StructureMap({ map, isMapping, error, onMap, onJump, onAnalyzeThesis }: StructureMapProps) {
+  const issues = map ? getStructureIssues(map) : [];
+
+  return (
+    <div className="bg-white rounded-lg border border-cyan-200 p-4">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-center gap-3 min-w-0 flex-1">
+          <ListTree className="h-5 w-5 text-cyan-600 flex-shrink-0" />
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <h3 className="font-semibold text-cyan-900 text-sm">Structure</h3>
+              {map && (
+                <span className="text-xs bg-cyan-100 text-cyan-700 px-2 py-0.5 rounded-full font-medium">
+                  {issues.length === 0 ? 'Complete' : `${issues.length} to fix`}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-cyan-700">
+              Find your thesis and topic sentences
+            </p>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onMap}
+          disabled={isMapping}
+          className="text-xs px-3 py-1.5 flex-shrink-0 ml-3"
+        >
+          {isMapping ? (
+            <>
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              Mapping...
+            </>
+          ) : (
+            'Map'
+          )}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 rounded border border-red-200">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+
+      {map && issues.length > 0 && (
+        <ul className="mb-3 space-y-1">
+          {issues.map(issue => (
+            <li key={issue.message}>
+              <button
+                className="w-full flex items-start gap-2 text-left text-xs text-amber-800 hover:underline disabled:no-underline disabled:cursor-default"
+                disabled={issue.paragraphIndex === null}
+                onClick={() => {
+                  const entry = map.find(e => e.index === issue.paragraphIndex);
+                  if (entry) onJump(entry.paragraph);
+                }}
+              >
+                <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                {issue.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {map && (
+        <ol className="space-y-2">
+          {map.map(entry => (
+            <li key={entry.index} className="border-l-2 border-gray-200 pl-3">
+              <button className="w-full text-left group" onClick={() => onJump(entry.keySentence || entry.paragraph)}>
+                <span className="flex items-center gap-2 text-xs font-medium text-gray-900 group-hover:text-cyan-700">
+                  <span className={`h-2 w-2 rounded-full flex-shrink-0 ${ROLE_COLORS[entry.role]}`} />
+                  {entry.label}
+                </span>
+                {entry.keySentence ? (
+                  <span className="block text-xs text-gray-700 mt-1 line-clamp-2">
+                    <span className="text-gray-500">{KEY_SENTENCE_NAMES[entry.role]}:</span> &ldquo;{entry.keySentence.sentence}&rdquo;
+                  </span>
+                ) : (
+                  <span className="block text-xs text-amber-700 italic mt-1">
+                    No {KEY_SENTENCE_NAMES[entry.role].toLowerCase()} found
+                  </span>
+                )}
+              </button>
+              {entry.role === 'introduction' && entry.keySentence && (
+                <button
+                  className="text-xs text-indigo-600 hover:text-indigo-800 hover:underline mt-1"
+                  onClick={() => onAnalyzeThesis(entry.keySentence!.sentence)}
+                >
+                  Analyze this thesis
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * @file This component shows a popover on the highlighted suggestion under
+ * the cursor, so students can act on a suggestion where it is instead of
+ * finding it in the sidebar. It shows the replacement, explains it on request
+ * and moves between suggestions with buttons or Alt+Down and Alt+Up.
+ */
+'use client';
+
+import { useState } from 'react';
+import { BubbleMenu, type Editor } from '@tiptap/react';
+import { posToDOMRect } from '@tiptap/core';
+import { type EditorState } from '@tiptap/pm/state';
+import { Button } from '@/components/ui/button';
+import { ArrowRight, ChevronDown, ChevronUp, MessageSquare } from 'lucide-react';
+import {
+  type SuggestionCategory,
+  type SuggestionRange,
+  getSuggestionRanges,
+} from '@/lib/editor/suggestion-extension';
+
+interface SuggestionPopoverProps {
+  editor: Editor;
+  onAccept: (suggestion: SuggestionRange) => void;
+  onDismiss: (suggestion: SuggestionRange) => void;
+}
+
+const categoryLabels: Record<SuggestionCategory, string> = {
+  grammar: 'Correctness',
+  academic_voice: 'Academic voice',
+  evidence: 'Evidence',
+  argument: 'Argument',
+  logical_flow: 'Logical flow',
+  consistency: 'Consistency',
+  claim_support: 'Claim support',
+  fallacy: 'Logical fallacy',
+  counterargument: 'Opposing view',
+};
+
+/**
+ * Finds the suggestion at the cursor. Nothing is found while text is
+ * selected, which belongs to the selection menu.
+ */
+function getActiveSuggestion(state: EditorState): { active: SuggestionRange; index: number; count: number } | null {
+  const { selection } = state;
+  if (!selection.empty) return null;
+
+  const ranges = getSuggestionRanges(state.doc);
+  const index = ranges.findIndex(range => range.from <= selection.from && selection.from <= range.to);
+  return index === -1 ? null : { active: ranges[index], index, count: ranges.length };
+}
+
+/**
+ * Renders the popover for the suggestion under the cursor.
+ * @param {SuggestionPopoverProps} props - The properties for the component.
+ * @returns The rendered popover.
+ */
+export function SuggestionPopover({ editor, onAccept, onDismiss }: SuggestionPopoverProps) {
+  const [explainedFrom, setExplainedFrom] = useState<number | null>(null);
+  const found = getActiveSuggestion(editor.state);
+
+  return (
+    <BubbleMenu
+      editor={editor}
+      pluginKey="suggestionPopover"
+      updateDelay={0}
+      tippyOptions={{
+        duration: 100,
+        placement: 'bottom-start',
+        // Point at the whole highlight rather than the cursor
+        getReferenceClientRect: () => {
+          const current = getActiveSuggestion(editor.state);
+          const { from, to } = current ? current.active : editor.state.selection;
+          return posToDOMRect(editor.view, from, to);
+        },
+      }}
+      shouldShow={({ state }) => getActiveSuggestion(state) !== null}
+    >
+      {found && (
+        <div className="w-72 p-3 bg-background border rounded-lg shadow-md space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-muted-foreground">
+              {categoryLabels[found.active.attrs.category || 'grammar']}
+            </span>
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-muted-foreground mr-1">
+                {found.index + 1} of {found.count}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                onClick={() => editor.chain().focus().goToPreviousSuggestion().run()}
+                title="Previous suggestion (Alt+Up)"
+                aria-label="Previous suggestion"
+              >
+                <ChevronUp className="h-3 w-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                onClick={() => editor.chain().focus().goToNextSuggestion().run()}
+                title="Next suggestion (Alt+Down)"
+                aria-label="Next suggestion"
+              >
+                <ChevronDown className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+
+          {found.active.attrs.suggestion ? (
+            <p className="text-sm flex items-center gap-2 flex-wrap">
+              <span className="line-through text-red-600">{found.active.attrs.original}</span>
+              <ArrowRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+              <span className="font-semibold text-green-700">{found.active.attrs.suggestion}</span>
+            </p>
+          ) : (
+            <p className="text-sm text-gray-700">Consider revising this passage.</p>
+          )}
+
+          {explainedFrom === found.active.from && found.active.attrs.explanation && (
+            <p className="text-xs text-gray-700 leading-relaxed p-2 bg-muted rounded">
+              {found.active.attrs.explanation}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            {found.active.attrs.suggestion && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs h-7 flex-1 bg-green-50 border-green-200 text-green-700 hover:bg-green-100"
+                onClick={() => onAccept(found.active)}
+              >
+                Accept
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-xs h-7 flex-1 text-gray-600 hover:bg-gray-100"
+              onClick={() => onDismiss(found.active)}
+            >
+              Dismiss
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-xs h-7 text-blue-600 hover:bg-blue-100"
+              onClick={() => setExplainedFrom(explainedFrom === found.active.from ? null : found.active.from)}
+            >
+              <MessageSquare className="h-3 w-3 mr-1" />
+              Why?
+            </Button>
+          </div>
+        </div>
+      )}
+    </BubbleMenu>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * @file This component shows a returned submission's teacher feedback in the
+ * editor sidebar: the overall grade, rubric scores and comment threads the
+ * student can reply to and resolve.
+ */
+'use client';
+
+import { GraduationCap } from 'lucide-react';
+import { CommentThreads } from '@/components/feature/CommentThreads';
+import { getMaxScore } from '@/lib/rubrics';
+import { type CommentThread, type RubricCriterion, type SubmissionReview } from '@/lib/types';
+
+interface TeacherFeedbackProps {
+  review: SubmissionReview;
+  criteria: RubricCriterion[];
+  threads: CommentThread[];
+  activeThreadId: string | null;
+  detachedThreadIds: Set<string>;
+  error: string | null;
+  onSelectThread: (thread: CommentThread) => void;
+  onReply: (parentId: string, body: string) => Promise<unknown>;
+  onResolve: (commentId: string, resolved: boolean) => Promise<void>;
+}
+
+/**
+ * Renders the teacher feedback section of the editor sidebar.
+ * @param {TeacherFeedbackProps} props - The properties for the component.
+ * @returns The rendered section.
+ */
+export function TeacherFeedback({
+  review,
+  criteria,
+  threads,
+  activeThreadId,
+  detachedThreadIds,
+  error,
+  onSelectThread,
+  onReply,
+  onResolve,
+}: TeacherFeedbackProps) {
+  const openThreads = threads.filter(thread => !thread.comment.resolved_at).length;
+  const scoredCriteria = criteria.filter(criterion => review.rubric_scores[criterion.id] !== undefined);
+
+  return (
+    <div className="bg-white rounded-lg border border-teal-200 p-4">
+      <div className="flex items-center gap-3 mb-4">
+        <GraduationCap className="h-5 w-5 text-teal-600 flex-shrink-0" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <h3 className="font-semibold text-teal-900 text-sm">Teacher feedback</h3>
+            <span className="text-xs bg-teal-100 text-teal-700 px-2 py-0.5 rounded-full font-medium">
+              {openThreads}
+            </span>
+          </div>
+          <p className="text-xs text-teal-700">Your teacher returned this essay</p>
+        </div>
+        {review.grade && (
+          <span className="text-lg font-bold text-teal-900 flex-shrink-0">{review.grade}</span>
+        )}
+      </div>
+
+      {scoredCriteria.length > 0 && (
+        <ul className="mb-4 space-y-1">
+          {scoredCriteria.map(criterion => {
+            const score = review.rubric_scores[criterion.id];
+            const level = criterion.levels.find(l => l.score === score);
+            return (
+              <li key={criterion.id} className="flex items-center justify-between text-xs">
+                <span className="text-gray-700">{criterion.name}</span>
+                <span className="font-medium text-teal-800">
+                  {level ? `${level.label} · ` : ''}{score}/{getMaxScore(criterion)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+
+      <CommentThreads
+        threads={threads}
+        activeThreadId={activeThreadId}
+        detachedThreadIds={detachedThreadIds}
+        onSelectThread={onSelectThread}
+        onReply={onReply}
+        onResolve={onResolve}
+      />
+    </div>
+  );
+}
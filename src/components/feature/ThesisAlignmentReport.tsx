@@ -0,0 +1,70 @@
+/**
+ * @file This component shows how well the body paragraphs deliver on the
+ * thesis, inside the Thesis section of the editor sidebar: the paragraphs
+ * that develop each claim, the claims no paragraph develops and the
+ * paragraphs that drift off the thesis. Paragraph names jump to the paragraph.
+ */
+'use client';
+
+import { type BodyParagraph, type StructureSentence, type ThesisAlignment } from '@/lib/essay-structure';
+
+interface ThesisAlignmentReportProps {
+  alignment: ThesisAlignment;
+  paragraphs: BodyParagraph[]; // The paragraphs that were checked, in the order sent
+  onJump: (target: StructureSentence) => void;
+}
+
+/**
+ * Renders the thesis alignment result.
+ * @param {ThesisAlignmentReportProps} props - The properties for the component.
+ * @returns The rendered result.
+ */
+export function ThesisAlignmentReport({ alignment, paragraphs, onJump }: ThesisAlignmentReportProps) {
+  const offThesis = alignment.paragraphs.filter(p => p.claims.length === 0 && paragraphs[p.index]);
+
+  const renderLink = (index: number) => (
+    <button
+      key={index}
+      className="text-xs text-indigo-700 bg-white border border-indigo-200 rounded px-1.5 py-0.5 hover:bg-indigo-100"
+      onClick={() => onJump(paragraphs[index].paragraph)}
+    >
+      {paragraphs[index].label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-indigo-50 rounded border border-indigo-200">
+        <h4 className="text-xs font-semibold text-indigo-800 mb-2">Thesis claims</h4>
+        <ul className="space-y-2">
+          {alignment.claims.map(({ claim, paragraphs: supporting }) => (
+            <li key={claim}>
+              <p className="text-xs text-indigo-900 mb-1">{claim}</p>
+              {supporting.some(index => paragraphs[index]) ? (
+                <div className="flex flex-wrap gap-1">
+                  {supporting.filter(index => paragraphs[index]).map(renderLink)}
+                </div>
+              ) : (
+                <p className="text-xs text-amber-700 italic">Never developed. Add a body paragraph that argues this point.</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {offThesis.length > 0 && (
+        <div className="p-3 bg-amber-50 rounded border border-amber-200">
+          <h4 className="text-xs font-semibold text-amber-800 mb-2">Off-thesis paragraphs</h4>
+          <ul className="space-y-2">
+            {offThesis.map(p => (
+              <li key={p.index} className="space-y-1">
+                {renderLink(p.index)}
+                {p.explanation && <p className="text-xs text-amber-800">{p.explanation}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * @file This component displays a document's version history. Students can
+ * browse snapshots, compare any snapshot with the current draft paragraph by
+ * paragraph, save a named version, and restore an earlier version.
+ */
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Loader2, History, RotateCcw, Save } from 'lucide-react';
+import { type JSONContent } from '@tiptap/react';
+import { type DocumentVersion } from '@/lib/types';
+import { diffParagraphs } from '@/lib/document-diff';
+import { extractParagraphs } from '@/lib/document-text';
+
+interface VersionHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  versions: DocumentVersion[];
+  isLoading: boolean;
+  error: string | null;
+  currentContent: JSONContent | null;
+  onSaveVersion: (label: string) => Promise<void>;
+  onRestore: (version: DocumentVersion) => Promise<boolean>; // False if the version was not restored
+}
+
+const kindLabels: Record<DocumentVersion['kind'], string> = {
+  auto: 'Autosave',
+  manual: 'Saved version',
+  restore: 'Before restore',
+};
+
+const changeStyles = {
+  added: 'bg-green-50 border-l-4 border-green-400 text-green-900',
+  removed: 'bg-red-50 border-l-4 border-red-400 text-red-900 line-through',
+  unchanged: 'border-l-4 border-transparent text-gray-600',
+};
+
+/**
+ * Formats a snapshot timestamp for display in the version list.
+ */
+function formatTimestamp(dateString: string) {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * A dialog listing document snapshots with a diff against the current draft.
+ */
+export function VersionHistoryPanel({
+  isOpen,
+  onClose,
+  versions,
+  isLoading,
+  error,
+  currentContent,
+  onSaveVersion,
+  onRestore,
+}: VersionHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selectedVersion = versions.find(v => v.id === selectedId) || versions[0] || null;
+
+  // The diff shows what changed between the snapshot and the current draft
+  const changes = useMemo(() => {
+    if (!selectedVersion) return [];
+    return diffParagraphs(
+      extractParagraphs(selectedVersion.content as JSONContent | null),
+      extractParagraphs(currentContent),
+    );
+  }, [selectedVersion, currentContent]);
+
+  const hasChanges = changes.some(change => change.type !== 'unchanged');
+
+  const handleSaveVersion = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveVersion(label);
+      setLabel('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selectedVersion) return;
+    setIsRestoring(true);
+    try {
+      // Stay open on failure so the error is shown
+      if (await onRestore(selectedVersion)) onClose();
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Compare earlier drafts with your current writing and restore any version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder="Name this version (optional)"
+            autoComplete="off"
+          />
+          <Button onClick={handleSaveVersion} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save version
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 rounded border border-red-200">
+            <p className="text-xs text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4 h-[60vh]">
+          {/* Version list */}
+          <div className="col-span-1 overflow-y-auto border rounded-lg">
+            {isLoading && (
+              <div className="flex justify-center items-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+              </div>
+            )}
+            {!isLoading && versions.length === 0 && (
+              <p className="text-sm text-gray-500 p-4">
+                No versions yet. Snapshots are saved automatically while you write.
+              </p>
+            )}
+            {versions.map(version => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50 transition-colors ${
+                  selectedVersion?.id === version.id ? 'bg-blue-50' : ''
+                }`}
+              >
+                <p className="text-sm font-medium text-gray-900">{formatTimestamp(version.created_at)}</p>
+                <p className="text-xs text-gray-600 truncate">{version.label || kindLabels[version.kind]}</p>
+                <p className="text-xs text-gray-500">{version.word_count} words</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Diff view */}
+          <div className="col-span-2 flex flex-col border rounded-lg overflow-hidden">
+            {selectedVersion ? (
+              <>
+                <div className="flex items-center justify-between px-4 py-2 border-b bg-gray-50">
+                  <p className="text-xs text-gray-600">
+                    Changes since {formatTimestamp(selectedVersion.created_at)}
+                  </p>
+                  <Button size="sm" variant="outline" onClick={handleRestore} disabled={isRestoring}>
+                    {isRestoring ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                    Restore this version
+                  </Button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                  {!hasChanges && (
+                    <p className="text-sm text-gray-500">This version matches your current draft.</p>
+                  )}
+                  {hasChanges && changes.map((change, index) => (
+                    <p key={index} className={`text-sm px-3 py-2 rounded-sm ${changeStyles[change.type]}`}>
+                      {change.text}
+                    </p>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+                Select a version to compare.
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { formatWordRange, getAssignmentStatus } from '@/lib/assignments';
+
+describe('getAssignmentStatus', () => {
+  const now = new Date('2025-06-24T12:00:00Z');
+  const dueTomorrow = '2025-06-25T12:00:00Z';
+  const dueYesterday = '2025-06-23T12:00:00Z';
+
+  it('is not started without a document', () => {
+    expect(getAssignmentStatus(dueTomorrow, false, null, now)).toBe('not_started');
+  });
+
+  it('is in progress once a document exists', () => {
+    expect(getAssignmentStatus(dueTomorrow, true, null, now)).toBe('in_progress');
+  });
+
+  it('uses the late flag of a submission', () => {
+    expect(getAssignmentStatus(dueTomorrow, true, { is_late: false }, now)).toBe('submitted');
+    expect(getAssignmentStatus(dueYesterday, true, { is_late: true }, now)).toBe('submitted_late');
+  });
+
+  it('is missing after the due date without a submission', () => {
+    expect(getAssignmentStatus(dueYesterday, true, null, now)).toBe('missing');
+    expect(getAssignmentStatus(dueYesterday, false, undefined, now)).toBe('missing');
+  });
+});
+
+describe('formatWordRange', () => {
+  it('describes minimum, maximum and both', () => {
+    expect(formatWordRange(500, 800)).toBe('500–800 words');
+    expect(formatWordRange(500, null)).toBe('At least 500 words');
+    expect(formatWordRange(null, 800)).toBe('Up to 800 words');
+  });
+
+  it('returns null without limits', () => {
+    expect(formatWordRange(null, null)).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @file Helpers for presenting assignments: essay type labels, word ranges
+ * and a student's progress on an assignment.
+ */
+
+import { type EssayType } from '@/lib/types';
+
+/**
+ * Display names for each essay type.
+ */
+export const ESSAY_TYPE_LABELS: Record<EssayType, string> = {
+  argumentative: 'Argumentative',
+  expository: 'Expository',
+  narrative: 'Narrative',
+  descriptive: 'Descriptive',
+  compare_contrast: 'Compare and contrast',
+  literary_analysis: 'Literary analysis',
+  research: 'Research',
+};
+
+/**
+ * Where a student is with an assignment.
+ */
+export type AssignmentStatus = 'not_started' | 'in_progress' | 'submitted' | 'submitted_late' | 'missing';
+
+/**
+ * Display names for each assignment status.
+ */
+export const ASSIGNMENT_STATUS_LABELS: Record<AssignmentStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  submitted: 'Submitted',
+  submitted_late: 'Submitted late',
+  missing: 'Missing',
+};
+
+/**
+ * Works out a student's status on an assignment.
+ *
+ * @param dueAt - When the assignment is due
+ * @param hasDocument - Whether the student has started a document for it
+ * @param submission - The student's submission, if any
+ * @param now - The current time
+ * @returns The assignment status
+ */
+export function getAssignmentStatus(
+  dueAt: string,
+  hasDocument: boolean,
+  submission: { is_late: boolean } | null | undefined,
+  now: Date = new Date(),
+): AssignmentStatus {
+  if (submission) return submission.is_late ? 'submitted_late' : 'submitted';
+  if (new Date(dueAt).getTime() < now.getTime()) return 'missing';
+  return hasDocument ? 'in_progress' : 'not_started';
+}
+
+/**
+ * Describes an assignment's word range.
+ *
+ * @param minWords - The minimum word count, if any
+ * @param maxWords - The maximum word count, if any
+ * @returns A short description such as "500–800 words", or null without limits
+ */
+export function formatWordRange(minWords: number | null, maxWords: number | null): string | null {
+  if (minWords && maxWords) return `${minWords}–${maxWords} words`;
+  if (minWords) return `At least ${minWords} words`;
+  if (maxWords) return `Up to ${maxWords} words`;
+  return null;
+}
+
+/**
+ * Formats a due date with its time, e.g. "Jun 24, 11:59 PM".
+ *
+ * @param dueAt - The due date as an ISO string
+ * @returns The formatted due date
+ */
+export function formatDueDate(dueAt: string): string {
+  return new Date(dueAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
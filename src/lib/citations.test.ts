@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { type JSONContent } from '@tiptap/react';
+import {
+  appendWorksCited,
+  findCitedSourceIds,
+  formatInTextCitation,
+  formatWorksCitedEntry,
+  getWorksCitedEntries,
+} from '@/lib/citations';
+import { type Source } from '@/lib/types';
+
+const source = (overrides: Partial<Source>): Source => ({
+  id: 'book',
+  document_id: 'doc',
+  author: 'Walker, Matthew',
+  title: 'Why We Sleep',
+  publisher: 'Scribner',
+  year: '2017',
+  url: '',
+  pages: '',
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const entryText = (content: JSONContent[]) => content.map(node => node.text).join('');
+
+const citation = (sourceId: string): JSONContent => ({ type: 'citation', attrs: { sourceId, pages: '', label: '(Walker)' } });
+
+describe('formatInTextCitation', () => {
+  it('formats each style', () => {
+    expect(formatInTextCitation(source({}), 'mla', '47')).toBe('(Walker 47)');
+    expect(formatInTextCitation(source({}), 'apa', '47')).toBe('(Walker, 2017, p. 47)');
+    expect(formatInTextCitation(source({}), 'apa', '47-49')).toBe('(Walker, 2017, pp. 47-49)');
+    expect(formatInTextCitation(source({}), 'chicago', '47')).toBe('(Walker 2017, 47)');
+  });
+
+  it('leaves out a missing page', () => {
+    expect(formatInTextCitation(source({}), 'mla')).toBe('(Walker)');
+    expect(formatInTextCitation(source({}), 'apa')).toBe('(Walker, 2017)');
+  });
+
+  it('uses the title when there is no author and n.d. when there is no year', () => {
+    const untitled = source({ author: '', title: 'Sleep Facts: A Guide', year: '' });
+
+    expect(formatInTextCitation(untitled, 'mla', '3')).toBe('("Sleep Facts" 3)');
+    expect(formatInTextCitation(untitled, 'chicago')).toBe('("Sleep Facts" n.d.)');
+  });
+
+  it('keeps organizations whole', () => {
+    expect(formatInTextCitation(source({ author: 'National Sleep Foundation' }), 'mla')).toBe('(National Sleep Foundation)');
+  });
+});
+
+describe('formatWorksCitedEntry', () => {
+  const article = source({ pages: '45-52', url: 'https://example.com/sleep' });
+
+  it('formats an MLA entry', () => {
+    expect(entryText(formatWorksCitedEntry(article, 'mla')))
+      .toBe('Walker, Matthew. Why We Sleep. Scribner, 2017, pp. 45-52. example.com/sleep.');
+  });
+
+  it('formats an APA entry without a period after the URL', () => {
+    expect(entryText(formatWorksCitedEntry(article, 'apa')))
+      .toBe('Walker, M. (2017). Why We Sleep (pp. 45-52). Scribner. https://example.com/sleep');
+  });
+
+  it('formats a Chicago entry', () => {
+    expect(entryText(formatWorksCitedEntry(article, 'chicago')))
+      .toBe('Walker, Matthew. 2017. Why We Sleep. Scribner, 45-52. https://example.com/sleep.');
+  });
+
+  it('puts the title in italics', () => {
+    const content = formatWorksCitedEntry(source({}), 'mla');
+
+    expect(content.filter(node => node.marks?.some(mark => mark.type === 'italic')).map(node => node.text)).toEqual(['Why We Sleep']);
+  });
+
+  it('starts with the title when there is no author', () => {
+    expect(entryText(formatWorksCitedEntry(source({ author: '', publisher: '' }), 'apa'))).toBe('Why We Sleep. (2017).');
+  });
+});
+
+describe('works cited list', () => {
+  const sources = [
+    source({ id: 'b', author: 'Walker, Matthew' }),
+    source({ id: 'a', author: 'Carskadon, Mary', title: 'Adolescent Sleep Patterns' }),
+    source({ id: 'unused', author: 'Dement, William' }),
+  ];
+  const doc: JSONContent = {
+    type: 'doc',
+    content: [
+      { type: 'paragraph', content: [{ type: 'text', text: 'Teens need sleep ' }, citation('b')] },
+      { type: 'paragraph', content: [citation('a'), citation('b'), citation('deleted')] },
+    ],
+  };
+
+  it('finds cited sources in order of first citation', () => {
+    expect(findCitedSourceIds(doc)).toEqual(['b', 'a', 'deleted']);
+  });
+
+  it('lists only cited sources that are still in the library, alphabetically', () => {
+    expect(getWorksCitedEntries(sources, findCitedSourceIds(doc), 'mla').map(entry => entry.source.id)).toEqual(['a', 'b']);
+  });
+
+  it('appends the list to the document', () => {
+    const exported = appendWorksCited(doc, sources, 'apa');
+    const list = exported.content![2];
+
+    expect(exported.content).toHaveLength(3);
+    expect(list.type).toBe('worksCited');
+    expect(list.content![0]).toEqual({
+      type: 'heading',
+      attrs: { level: 2 },
+      content: [{ type: 'text', text: 'References', marks: [{ type: 'bold' }] }],
+    });
+    expect(list.content!.slice(1).map(entry => entryText(entry.content!))).toEqual([
+      'Carskadon, M. (2017). Adolescent Sleep Patterns. Scribner.',
+      'Walker, M. (2017). Why We Sleep. Scribner.',
+    ]);
+  });
+
+  it('leaves a document without citations unchanged', () => {
+    const plain: JSONContent = { type: 'doc', content: [{ type: 'paragraph' }] };
+    expect(appendWorksCited(plain, sources, 'mla')).toBe(plain);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * @file Formats a document's sources as in-text citations and as a works
+ * cited list in MLA, APA or Chicago author-date style. The list is built as
+ * Tiptap JSON so every exporter can render it after the document.
+ */
+
+import { type JSONContent } from '@tiptap/react';
+import { type CitationStyle, type Source } from '@/lib/types';
+
+export const CITATION_STYLES: { value: CitationStyle; label: string }[] = [
+  { value: 'mla', label: 'MLA' },
+  { value: 'apa', label: 'APA' },
+  { value: 'chicago', label: 'Chicago' },
+];
+
+/**
+ * The fields of a source that describe the work.
+ */
+export type SourceDetails = Pick<Source, 'author' | 'title' | 'publisher' | 'year' | 'url' | 'pages'>;
+
+/**
+ * The attributes of a citation node. The label is the formatted citation,
+ * kept on the node so exports and plain text do not need the source library.
+ */
+export interface CitationAttributes {
+  sourceId: string;
+  pages: string; // The page cited, e.g. "47"; empty for the whole work
+  label: string;
+}
+
+/**
+ * One entry of the works cited list.
+ */
+export interface WorksCitedEntry {
+  source: Source;
+  content: JSONContent[]; // Inline Tiptap nodes; titles are italic
+}
+
+interface Run {
+  text: string;
+  italic?: boolean;
+}
+
+/**
+ * Splits a "Last, First" author into its parts. Authors without a comma are
+ * organizations and are kept whole as the last name.
+ *
+ * @param author - The author as entered in the source library
+ * @returns The last name and the first names, empty if there are none
+ */
+export function splitAuthor(author: string): { last: string; first: string } {
+  const [last, ...first] = author.split(',');
+  return { last: last.trim(), first: first.join(',').trim() };
+}
+
+/**
+ * The name a citation starts with: the author's last name, or the title up to
+ * any subtitle when there is no author.
+ */
+function getCitedName(source: SourceDetails): string {
+  const { last } = splitAuthor(source.author);
+  return last || `"${source.title.split(':')[0].trim()}"`;
+}
+
+/**
+ * Formats an in-text citation, e.g. `(Smith 47)` in MLA, `(Smith, 2020, p. 47)`
+ * in APA or `(Smith 2020, 47)` in Chicago.
+ *
+ * @param source - The cited source
+ * @param style - The citation style
+ * @param pages - The page or pages cited, if any
+ * @returns The parenthetical citation
+ */
+export function formatInTextCitation(source: SourceDetails, style: CitationStyle, pages = ''): string {
+  const name = getCitedName(source);
+  const page = pages.trim();
+  const year = source.year.trim() || 'n.d.';
+
+  switch (style) {
+    case 'apa':
+      return `(${name}, ${year}${page ? `, ${/[-–,]/.test(page) ? 'pp.' : 'p.'} ${page}` : ''})`;
+    case 'chicago':
+      return `(${name} ${year}${page ? `, ${page}` : ''})`;
+    default:
+      return `(${[name, page].filter(Boolean).join(' ')})`;
+  }
+}
+
+/**
+ * Ends a part of an entry with a period unless it already ends in punctuation.
+ */
+function endSentence(runs: Run[]): Run[] {
+  const last = runs[runs.length - 1];
+  return /[.?!]$/.test(last.text) ? runs : [...runs, { text: '.' }];
+}
+
+/**
+ * Joins the parts of an entry into inline Tiptap nodes, merging runs with the
+ * same formatting. Each part ends with a period; the trailing text does not.
+ */
+function toInlineContent(parts: Run[][], trailing = ''): JSONContent[] {
+  const runs = [
+    ...parts.filter(part => part.some(run => run.text)).map(endSentence),
+    ...(trailing ? [[{ text: trailing }]] : []),
+  ].flatMap((part, index) => (index === 0 ? part : [{ text: ' ' }, ...part]));
+
+  const merged: Run[] = [];
+  runs.forEach(run => {
+    const previous = merged[merged.length - 1];
+    if (previous && !!previous.italic === !!run.italic) {
+      previous.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  });
+
+  return merged.map(run => ({
+    type: 'text',
+    text: run.text,
+    ...(run.italic ? { marks: [{ type: 'italic' }] } : {}),
+  }));
+}
+
+/**
+ * Formats a source as a works cited entry.
+ *
+ * @param source - The source
+ * @param style - The citation style
+ * @returns Inline Tiptap nodes with the title in italics
+ */
+export function formatWorksCitedEntry(source: SourceDetails, style: CitationStyle): JSONContent[] {
+  const author = source.author.trim();
+  const title: Run = { text: source.title.trim(), italic: true };
+  const publisher = source.publisher.trim();
+  const year = source.year.trim();
+  const pages = source.pages.trim();
+  const url = source.url.trim();
+
+  switch (style) {
+    case 'apa': {
+      const { last, first } = splitAuthor(author);
+      const initials = first.split(/\s+/).filter(Boolean).map(name => `${name[0]}.`).join(' ');
+      const date = [{ text: `(${year || 'n.d.'})` }];
+      const titleRuns = [title, ...(pages ? [{ text: ` (pp. ${pages})` }] : [])];
+
+      // APA does not end the URL with a period
+      return toInlineContent([
+        ...(author ? [[{ text: initials ? `${last}, ${initials}` : last }], date, titleRuns] : [titleRuns, date]),
+        [{ text: publisher }],
+      ], url);
+    }
+    case 'chicago': {
+      const date = [{ text: year || 'n.d.' }];
+      return toInlineContent([
+        ...(author ? [[{ text: author }], date, [title]] : [[title], date]),
+        [{ text: [publisher, pages].filter(Boolean).join(', ') }],
+        [{ text: url }],
+      ]);
+    }
+    default:
+      return toInlineContent([
+        [{ text: author }],
+        [title],
+        [{ text: [publisher, year, pages && `pp. ${pages}`].filter(Boolean).join(', ') }],
+        [{ text: url.replace(/^https?:\/\//, '') }],
+      ]);
+  }
+}
+
+/**
+ * The heading of the works cited list in a citation style.
+ *
+ * @param style - The citation style
+ * @returns "Works Cited" for MLA, "References" otherwise
+ */
+export function getWorksCitedHeading(style: CitationStyle): string {
+  return style === 'mla' ? 'Works Cited' : 'References';
+}
+
+/**
+ * Finds the sources cited in a document.
+ *
+ * @param content - The Tiptap JSON content
+ * @returns The ids of the cited sources, in order of first citation
+ */
+export function findCitedSourceIds(content: JSONContent | null | undefined): string[] {
+  const ids: string[] = [];
+
+  const visit = (node: JSONContent) => {
+    if (node.type === 'citation' && node.attrs?.sourceId && !ids.includes(node.attrs.sourceId)) {
+      ids.push(node.attrs.sourceId);
+    }
+    node.content?.forEach(visit);
+  };
+
+  if (content) visit(content);
+  return ids;
+}
+
+/**
+ * Builds the works cited list for the sources a document cites.
+ *
+ * @param sources - The document's source library
+ * @param citedIds - The ids of the cited sources, from `findCitedSourceIds`
+ * @param style - The citation style
+ * @returns The entries in alphabetical order; sources no longer in the library are skipped
+ */
+export function getWorksCitedEntries(sources: Source[], citedIds: string[], style: CitationStyle): WorksCitedEntry[] {
+  const sortKey = (entry: WorksCitedEntry) => entry.content.map(node => node.text).join('').replace(/^\W+/, '').toLowerCase();
+
+  return sources
+    .filter(source => citedIds.includes(source.id))
+    .map(source => ({ source, content: formatWorksCitedEntry(source, style) }))
+    .sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+}
+
+/**
+ * Adds the works cited list to the end of a document for export. The list is
+ * a `worksCited` node holding a heading and one paragraph per entry; the
+ * exporters start it on a new page with hanging indents.
+ *
+ * @param content - The Tiptap JSON content
+ * @param sources - The document's source library
+ * @param style - The citation style
+ * @returns The content with the list appended, or unchanged if nothing is cited
+ */
+export function appendWorksCited(content: JSONContent, sources: Source[], style: CitationStyle): JSONContent {
+  const entries = getWorksCitedEntries(sources, findCitedSourceIds(content), style);
+  if (entries.length === 0) return content;
+
+  const heading = getWorksCitedHeading(style);
+  return {
+    ...content,
+    content: [
+      ...(content.content || []),
+      {
+        type: 'worksCited',
+        content: [
+          {
+            type: 'heading',
+            attrs: { level: 2 },
+            // APA headings are bold; MLA and Chicago use plain text
+            content: [{ type: 'text', text: heading, ...(style === 'apa' ? { marks: [{ type: 'bold' }] } : {}) }],
+          },
+          ...entries.map(entry => ({ type: 'paragraph', content: entry.content })),
+        ],
+      },
+    ],
+  };
+}
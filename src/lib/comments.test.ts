@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createAnchor, getCommentAnchor, groupCommentThreads, resolveAnchor } from '@/lib/comments';
+import { type SubmissionComment } from '@/lib/types';
+
+const text = 'The test was hard. Everyone studied. The test was hard, but we passed.';
+
+describe('resolveAnchor', () => {
+  it('keeps the original range while the text is unchanged', () => {
+    const anchor = createAnchor(text, 37, 54);
+
+    expect(anchor.quote).toBe('The test was hard');
+    expect(resolveAnchor(text, anchor)).toEqual({ start: 37, end: 54 });
+  });
+
+  it('follows the quote when text is inserted before it', () => {
+    const anchor = createAnchor(text, 37, 54);
+    const edited = `Last week, ${text}`;
+
+    expect(resolveAnchor(edited, anchor)).toEqual({ start: 48, end: 65 });
+  });
+
+  it('uses the context to tell repeated quotes apart', () => {
+    const anchor = createAnchor(text, 37, 54);
+    const edited = text.replace('Everyone studied.', 'We all studied for days.');
+
+    const range = resolveAnchor(edited, anchor);
+    expect(range).not.toBeNull();
+    expect(edited.slice(range!.end, range!.end + 9)).toBe(', but we ');
+  });
+
+  it('returns null once the quote is deleted', () => {
+    const anchor = createAnchor(text, 19, 36);
+
+    expect(resolveAnchor(text.replace('Everyone studied. ', ''), anchor)).toBeNull();
+  });
+});
+
+describe('groupCommentThreads', () => {
+  const comment = (id: string, overrides: Partial<SubmissionComment>): SubmissionComment => ({
+    id,
+    submission_id: 's1',
+    author_id: 'u1',
+    parent_id: null,
+    body: id,
+    quote: 'quote',
+    prefix: '',
+    suffix: '',
+    start_offset: 0,
+    end_offset: 5,
+    resolved_at: null,
+    created_at: '2025-06-24T10:00:00Z',
+    ...overrides,
+  });
+
+  it('orders threads by position and replies by date', () => {
+    const threads = groupCommentThreads([
+      comment('late', { start_offset: 40, end_offset: 45 }),
+      comment('reply-2', { parent_id: 'early', created_at: '2025-06-24T12:00:00Z' }),
+      comment('early', { start_offset: 3, end_offset: 8 }),
+      comment('reply-1', { parent_id: 'early', created_at: '2025-06-24T11:00:00Z' }),
+      comment('orphan', { parent_id: 'deleted' }),
+    ]);
+
+    expect(threads.map(t => t.comment.id)).toEqual(['early', 'late']);
+    expect(threads[0].replies.map(r => r.id)).toEqual(['reply-1', 'reply-2']);
+  });
+
+  it('reads anchors from thread comments only', () => {
+    expect(getCommentAnchor(comment('a', { prefix: null }))).toEqual({
+      quote: 'quote',
+      prefix: '',
+      suffix: '',
+      start: 0,
+      end: 5,
+    });
+    expect(getCommentAnchor(comment('b', { parent_id: 'a', quote: null, start_offset: null, end_offset: null }))).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @file Helpers for comments on submissions and shared documents: anchoring a
+ * comment to a range of text, finding that range again after the text is
+ * edited, and grouping comments into threads.
+ */
+
+import { findOccurrences } from '@/lib/document-text';
+import { type CommentAnchor, type CommentThread, type ThreadComment } from '@/lib/types';
+
+const ANCHOR_CONTEXT_LENGTH = 32; // Characters of context kept on each side of the quote
+
+/**
+ * Creates an anchor for a range of text.
+ *
+ * @param text - The text the range refers to
+ * @param start - The offset of the first character
+ * @param end - The offset just after the last character
+ * @returns The anchor, with the quoted text and its context
+ */
+export function createAnchor(text: string, start: number, end: number): CommentAnchor {
+  return {
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - ANCHOR_CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + ANCHOR_CONTEXT_LENGTH),
+    start,
+    end,
+  };
+}
+
+/**
+ * Counts how many characters at the end of `a` match the end of `b`.
+ */
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Counts how many characters at the start of `a` match the start of `b`.
+ */
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Finds an anchored range in a text that may have been edited since the
+ * anchor was created. The stored offsets are used while they still cover the
+ * quote; otherwise the occurrence of the quote whose surrounding text best
+ * matches the anchor's context is used, preferring the one nearest the
+ * original offset on a tie.
+ *
+ * @param text - The current text
+ * @param anchor - The anchor to find
+ * @returns The range of the quote, or null if it no longer appears in the text
+ */
+export function resolveAnchor(text: string, anchor: CommentAnchor): { start: number; end: number } | null {
+  const { quote, prefix, suffix, start, end } = anchor;
+  if (!quote.trim()) return null;
+
+  if (text.slice(start, end) === quote) {
+    return { start, end };
+  }
+
+  const candidates = findOccurrences(text, quote);
+  if (candidates.length === 0) return null;
+
+  const score = (candidate: { start: number; end: number }) =>
+    commonSuffixLength(text.slice(0, candidate.start), prefix) + commonPrefixLength(text.slice(candidate.end), suffix);
+
+  return candidates.reduce((best, candidate) => {
+    const difference = score(candidate) - score(best);
+    if (difference > 0) return candidate;
+    if (difference === 0 && Math.abs(candidate.start - start) < Math.abs(best.start - start)) return candidate;
+    return best;
+  });
+}
+
+/**
+ * Returns the anchor of the first comment in a thread.
+ *
+ * @param comment - The comment
+ * @returns The anchor, or null for replies
+ */
+export function getCommentAnchor(comment: ThreadComment): CommentAnchor | null {
+  if (comment.quote === null || comment.start_offset === null || comment.end_offset === null) return null;
+  return {
+    quote: comment.quote,
+    prefix: comment.prefix || '',
+    suffix: comment.suffix || '',
+    start: comment.start_offset,
+    end: comment.end_offset,
+  };
+}
+
+/**
+ * Groups comments into threads ordered by where they appear in the text,
+ * with replies oldest first. Replies whose thread is missing are dropped.
+ *
+ * @param comments - The comments on a submission or document
+ * @returns The comment threads
+ */
+export function groupCommentThreads(comments: ThreadComment[]): CommentThread[] {
+  const byDate = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return byDate
+    .filter(comment => comment.parent_id === null)
+    .map(comment => ({ comment, replies: byDate.filter(reply => reply.parent_id === comment.id) }))
+    .sort((a, b) => (a.comment.start_offset ?? 0) - (b.comment.start_offset ?? 0));
+}
@@ -1,4 +1,26 @@
 /**
- * @file This file will contain database client and query helpers.
- * For now, it is a placeholder.
- */ 
\ No newline at end of file
+ * @file Database query helpers shared by server components and server actions.
+ */
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { type UserRole } from '@/lib/types';
+
+/**
+ * Looks up the role on a user's profile.
+ *
+ * @param supabase - A Supabase client for the current request
+ * @param userId - The user's ID
+ * @returns The user's role, `user` (a student) if the profile has none
+ */
+export async function getUserRole(supabase: SupabaseClient, userId: string): Promise<UserRole> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching user role:', error);
+  }
+
+  return data?.role === 'teacher' ? 'teacher' : 'user';
+}
@@ -0,0 +1,55 @@
+/**
+ * @file Paragraph-level diffing between two versions of a document.
+ * Powers the version history panel's comparison view.
+ */
+
+export type ParagraphChangeType = 'added' | 'removed' | 'unchanged';
+
+export interface ParagraphChange {
+  type: ParagraphChangeType;
+  text: string;
+}
+
+/**
+ * Computes a paragraph-level diff using the longest common subsequence of the
+ * two paragraph lists. Paragraphs are compared after trimming whitespace.
+ *
+ * @param before - Paragraphs of the older version
+ * @param after - Paragraphs of the newer version
+ * @returns The ordered list of changes turning `before` into `after`
+ */
+export function diffParagraphs(before: string[], after: string[]): ParagraphChange[] {
+  const a = before.map(p => p.trim());
+  const b = after.map(p => p.trim());
+
+  // lcs[i][j] holds the LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: ParagraphChange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: 'unchanged', text: b[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      changes.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+
+  while (i < a.length) changes.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) changes.push({ type: 'added', text: b[j++] });
+
+  return changes;
+}
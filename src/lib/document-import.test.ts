@@ -0,0 +1,117 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { parseDocx, parseMarkdown, parsePlainText } from '@/lib/document-import';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+/**
+ * Packages a document body and style definitions as a minimal .docx file.
+ */
+async function createDocx(body: string, styles = '') {
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8"?><w:document ${W_NS}><w:body>${body}</w:body></w:document>`);
+  zip.file('word/styles.xml', `<?xml version="1.0" encoding="UTF-8"?><w:styles ${W_NS}>${styles}</w:styles>`);
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+const text = (value: string, marks?: string[]) => (
+  marks ? { type: 'text', text: value, marks: marks.map(type => ({ type })) } : { type: 'text', text: value }
+);
+
+describe('parseDocx', () => {
+  it('finds headings by style name rather than style id', async () => {
+    const data = await createDocx(
+      '<w:p><w:pPr><w:pStyle w:val="Kop2"/></w:pPr><w:r><w:t>Background</w:t></w:r></w:p>'
+        + '<w:p><w:pPr><w:pStyle w:val="Titel"/></w:pPr><w:r><w:t>Sleep</w:t></w:r></w:p>',
+      '<w:style w:styleId="Kop2"><w:name w:val="heading 2"/></w:style>'
+        + '<w:style w:styleId="Titel"><w:name w:val="Title"/></w:style>',
+    );
+
+    expect((await parseDocx(data)).content).toEqual([
+      { type: 'heading', attrs: { level: 2 }, content: [text('Background')] },
+      { type: 'heading', attrs: { level: 1 }, content: [text('Sleep')] },
+    ]);
+  });
+
+  it('reads runs nested in hyperlinks and insertions but skips deletions', async () => {
+    const data = await createDocx(
+      '<w:p>'
+        + '<w:r><w:t xml:space="preserve">See </w:t></w:r>'
+        + '<w:hyperlink><w:r><w:rPr><w:b/></w:rPr><w:t>this study</w:t></w:r></w:hyperlink>'
+        + '<w:del><w:r><w:delText> from 1990</w:delText></w:r></w:del>'
+        + '<w:ins><w:r><w:t xml:space="preserve"> from 2020</w:t></w:r></w:ins>'
+        + '<w:r><w:rPr><w:i w:val="0"/></w:rPr><w:t>.</w:t></w:r>'
+        + '</w:p>',
+    );
+
+    expect((await parseDocx(data)).content).toEqual([
+      { type: 'paragraph', content: [text('See '), text('this study', ['bold']), text(' from 2020.')] },
+    ]);
+  });
+
+  it('turns tabs into spaces and line breaks into hard breaks, and drops empty paragraphs', async () => {
+    const data = await createDocx(
+      '<w:p><w:r><w:t>Name:</w:t><w:tab/><w:t>Lan</w:t><w:br/><w:t>Period 3</w:t><w:br w:type="page"/></w:r></w:p>'
+        + '<w:p/>'
+        + '<w:p><w:r><w:t xml:space="preserve">   </w:t></w:r></w:p>'
+        + '<w:p><w:r><w:t>Teens need sleep.</w:t></w:r></w:p>',
+    );
+
+    expect((await parseDocx(data)).content).toEqual([
+      { type: 'paragraph', content: [text('Name: Lan'), { type: 'hardBreak' }, text('Period 3')] },
+      { type: 'paragraph', content: [text('Teens need sleep.')] },
+    ]);
+  });
+
+  it('rejects files without a document body', async () => {
+    const zip = new JSZip();
+    zip.file('notes.txt', 'Not a Word document');
+
+    await expect(parseDocx(await zip.generateAsync({ type: 'arraybuffer' }))).rejects.toThrow('does not look like a Word document');
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('maps Markdown nodes and marks to the editor\'s types', () => {
+    const doc = parseMarkdown('#### Sleep\n\nTeens need **more** _sleep_, [says](https://example.com) `CDC`.\n\n1. Start later\n2. Nap\n\n![chart](chart.png)');
+
+    expect(doc.content).toEqual([
+      { type: 'heading', attrs: { level: 3 }, content: [text('Sleep')] },
+      {
+        // The link keeps its text in a node of its own
+        type: 'paragraph',
+        content: [text('Teens need '), text('more', ['bold']), text(' '), text('sleep', ['italic']), text(', '), text('says'), text(' '), text('CDC', ['code']), text('.')],
+      },
+      {
+        type: 'orderedList',
+        attrs: { start: 1 },
+        content: [
+          { type: 'listItem', content: [{ type: 'paragraph', content: [text('Start later')] }] },
+          { type: 'listItem', content: [{ type: 'paragraph', content: [text('Nap')] }] },
+        ],
+      },
+      { type: 'paragraph', content: [] },
+    ]);
+  });
+});
+
+describe('parsePlainText', () => {
+  it('rejoins hard-wrapped lines within paragraphs separated by blank lines', () => {
+    expect(parsePlainText('﻿Teens need\r\nmore sleep.\r\n\r\n  \r\nSchools  \nshould start later.\n').content).toEqual([
+      { type: 'paragraph', content: [text('Teens need more sleep.')] },
+      { type: 'paragraph', content: [text('Schools should start later.')] },
+    ]);
+  });
+
+  it('treats each line as a paragraph when there are no blank lines', () => {
+    expect(parsePlainText('First line\nSecond line\n').content).toEqual([
+      { type: 'paragraph', content: [text('First line')] },
+      { type: 'paragraph', content: [text('Second line')] },
+    ]);
+  });
+
+  it('returns an empty paragraph for empty text', () => {
+    expect(parsePlainText(' \n ').content).toEqual([{ type: 'paragraph' }]);
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * @file Converts uploaded files into Tiptap JSON so students can continue
+ * drafts started elsewhere. Supports Word (.docx) packages, Markdown and
+ * plain text. Parsing runs in the browser.
+ */
+
+import JSZip from 'jszip';
+import { type JSONContent } from '@tiptap/react';
+import { defaultMarkdownParser } from '@tiptap/pm/markdown';
+
+export const IMPORT_ACCEPT = '.docx,.md,.markdown,.txt';
+export const MAX_IMPORT_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_HEADING_LEVEL = 3; // The editor only enables headings 1-3
+
+export interface ImportedDocument {
+  title: string;
+  content: JSONContent;
+}
+
+interface ListEntry {
+  level: number;
+  ordered: boolean;
+  paragraph: JSONContent;
+}
+
+interface ParagraphStyle {
+  headingLevel?: number;
+  numId?: string;
+}
+
+/**
+ * Returns the child elements of an XML element with the given local name.
+ */
+function childElements(element: Element, localName?: string): Element[] {
+  return Array.from(element.children).filter(child => !localName || child.localName === localName);
+}
+
+/**
+ * Returns the first child element with the given local name.
+ */
+function childElement(element: Element | null | undefined, localName: string): Element | null {
+  if (!element) return null;
+  return childElements(element, localName)[0] || null;
+}
+
+/**
+ * Reads an OOXML on/off property such as `<w:b/>` or `<w:b w:val="0"/>`.
+ */
+function isToggleOn(element: Element | null): boolean {
+  if (!element) return false;
+  const value = element.getAttribute('w:val');
+  return value === null || !['0', 'false', 'off', 'none'].includes(value);
+}
+
+/**
+ * Parses an XML part of the .docx package.
+ */
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  return new DOMParser().parseFromString(await file.async('text'), 'application/xml');
+}
+
+/**
+ * Collects the heading level and list numbering defined by paragraph styles.
+ *
+ * @param styles - The parsed word/styles.xml part
+ * @returns Paragraph style details keyed by style id
+ */
+function readParagraphStyles(styles: Document | null): Map<string, ParagraphStyle> {
+  const result = new Map<string, ParagraphStyle>();
+  if (!styles) return result;
+
+  Array.from(styles.getElementsByTagName('w:style')).forEach(style => {
+    const styleId = style.getAttribute('w:styleId');
+    if (!styleId) return;
+
+    const name = (childElement(style, 'name')?.getAttribute('w:val') || styleId).toLowerCase();
+    const headingMatch = name.match(/^heading\s*(\d)$/);
+    const numId = childElement(childElement(childElement(style, 'pPr'), 'numPr'), 'numId')?.getAttribute('w:val') || undefined;
+
+    result.set(styleId, {
+      headingLevel: name === 'title' ? 1 : headingMatch ? Number(headingMatch[1]) : undefined,
+      numId,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Works out which numbering instances are bulleted and which are numbered, per level.
+ *
+ * @param numbering - The parsed word/numbering.xml part
+ * @returns A function telling whether a numbering instance level is ordered
+ */
+function readNumbering(numbering: Document | null): (numId: string, level: number) => boolean {
+  const formats = new Map<string, Map<number, string>>();
+  const abstractIds = new Map<string, string>();
+
+  if (numbering) {
+    Array.from(numbering.getElementsByTagName('w:abstractNum')).forEach(abstractNum => {
+      const levels = new Map<number, string>();
+      childElements(abstractNum, 'lvl').forEach(lvl => {
+        levels.set(Number(lvl.getAttribute('w:ilvl') || 0), childElement(lvl, 'numFmt')?.getAttribute('w:val') || 'decimal');
+      });
+      formats.set(abstractNum.getAttribute('w:abstractNumId') || '', levels);
+    });
+
+    Array.from(numbering.getElementsByTagName('w:num')).forEach(num => {
+      abstractIds.set(num.getAttribute('w:numId') || '', childElement(num, 'abstractNumId')?.getAttribute('w:val') || '');
+    });
+  }
+
+  return (numId, level) => {
+    const format = formats.get(abstractIds.get(numId) || '')?.get(level) || 'bullet';
+    return format !== 'bullet' && format !== 'none';
+  };
+}
+
+/**
+ * Appends text to the inline content, merging it with the previous text node
+ * when the formatting matches.
+ */
+function appendText(nodes: JSONContent[], text: string, marks: JSONContent['marks']): void {
+  if (!text) return;
+  const previous = nodes[nodes.length - 1];
+  if (previous?.type === 'text' && JSON.stringify(previous.marks || []) === JSON.stringify(marks || [])) {
+    previous.text += text;
+    return;
+  }
+  nodes.push(marks && marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text });
+}
+
+/**
+ * Converts the runs of a Word paragraph into inline Tiptap nodes. Runs nested
+ * in hyperlinks, tracked insertions and content controls are included;
+ * tracked deletions are skipped.
+ *
+ * @param element - A w:p element or an element nested in one
+ * @param nodes - The inline nodes collected so far
+ * @returns The inline nodes
+ */
+function readRuns(element: Element, nodes: JSONContent[] = []): JSONContent[] {
+  childElements(element).forEach(child => {
+    if (child.localName === 'r') {
+      const rPr = childElement(child, 'rPr');
+      const marks: NonNullable<JSONContent['marks']> = [];
+      if (isToggleOn(childElement(rPr, 'b'))) marks.push({ type: 'bold' });
+      if (isToggleOn(childElement(rPr, 'i'))) marks.push({ type: 'italic' });
+      if (isToggleOn(childElement(rPr, 'strike'))) marks.push({ type: 'strike' });
+
+      childElements(child).forEach(part => {
+        switch (part.localName) {
+          case 't':
+            appendText(nodes, part.textContent || '', marks);
+            break;
+          case 'tab':
+            appendText(nodes, ' ', marks);
+            break;
+          case 'noBreakHyphen':
+            appendText(nodes, '-', marks);
+            break;
+          case 'br':
+          case 'cr':
+            // Page and column breaks have no equivalent in the editor
+            if (!part.getAttribute('w:type') || part.getAttribute('w:type') === 'textWrapping') {
+              nodes.push({ type: 'hardBreak' });
+            }
+            break;
+        }
+      });
+    } else if (!['pPr', 'del', 'moveFrom'].includes(child.localName)) {
+      readRuns(child, nodes);
+    }
+  });
+  return nodes;
+}
+
+/**
+ * Groups consecutive list paragraphs into nested bullet and numbered lists.
+ *
+ * @param entries - Consecutive list paragraphs with their indent level
+ * @returns The list nodes
+ */
+function buildLists(entries: ListEntry[]): JSONContent[] {
+  const lists: JSONContent[] = [];
+  let i = 0;
+
+  while (i < entries.length) {
+    const { level: baseLevel, ordered } = entries[i];
+    const items: JSONContent[] = [];
+
+    while (i < entries.length && entries[i].level >= baseLevel) {
+      const entry = entries[i];
+
+      if (entry.level > baseLevel) {
+        // Deeper entries become a nested list inside the previous item
+        let end = i;
+        while (end < entries.length && entries[end].level > baseLevel) end++;
+        const nested = buildLists(entries.slice(i, end));
+        const previous = items[items.length - 1];
+        if (previous) {
+          previous.content!.push(...nested);
+        } else {
+          items.push({ type: 'listItem', content: [{ type: 'paragraph' }, ...nested] });
+        }
+        i = end;
+        continue;
+      }
+
+      if (entry.ordered !== ordered) break;
+      items.push({ type: 'listItem', content: [entry.paragraph] });
+      i++;
+    }
+
+    lists.push({ type: ordered ? 'orderedList' : 'bulletList', content: items });
+  }
+
+  return lists;
+}
+
+/**
+ * Converts a Word document into Tiptap JSON, keeping paragraphs, headings,
+ * bulleted and numbered lists, and bold/italic text. Table cells are
+ * imported as plain paragraphs.
+ *
+ * @param data - The .docx file contents
+ * @returns The Tiptap JSON document
+ */
+export async function parseDocx(data: ArrayBuffer): Promise<JSONContent> {
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = await readXml(zip, 'word/document.xml');
+  const body = documentXml?.getElementsByTagName('w:body')[0];
+  if (!body) {
+    throw new Error('This file does not look like a Word document.');
+  }
+
+  const styles = readParagraphStyles(await readXml(zip, 'word/styles.xml'));
+  const isOrdered = readNumbering(await readXml(zip, 'word/numbering.xml'));
+
+  const blocks: JSONContent[] = [];
+  let pendingList: ListEntry[] = [];
+
+  const flushList = () => {
+    if (pendingList.length > 0) blocks.push(...buildLists(pendingList));
+    pendingList = [];
+  };
+
+  const readParagraph = (paragraph: Element) => {
+    const pPr = childElement(paragraph, 'pPr');
+    const style = styles.get(childElement(pPr, 'pStyle')?.getAttribute('w:val') || '') || {};
+    const numPr = childElement(pPr, 'numPr');
+    const numId = childElement(numPr, 'numId')?.getAttribute('w:val') || style.numId;
+    const level = Number(childElement(numPr, 'ilvl')?.getAttribute('w:val') || 0);
+
+    const inline = readRuns(paragraph);
+    const hasText = inline.some(node => node.type === 'text' && node.text?.trim());
+    if (!hasText) return; // Blank spacing paragraphs are dropped
+
+    if (style.headingLevel) {
+      flushList();
+      blocks.push({
+        type: 'heading',
+        attrs: { level: Math.min(style.headingLevel, MAX_HEADING_LEVEL) },
+        content: inline,
+      });
+    } else if (numId && numId !== '0') {
+      pendingList.push({ level, ordered: isOrdered(numId, level), paragraph: { type: 'paragraph', content: inline } });
+    } else {
+      flushList();
+      blocks.push({ type: 'paragraph', content: inline });
+    }
+  };
+
+  const walk = (element: Element) => {
+    childElements(element).forEach(child => {
+      if (child.localName === 'p') {
+        readParagraph(child);
+      } else if (['tbl', 'tr', 'tc', 'sdt', 'sdtContent', 'customXml'].includes(child.localName)) {
+        walk(child);
+      }
+    });
+  };
+
+  walk(body);
+  flushList();
+
+  return { type: 'doc', content: blocks.length > 0 ? blocks : [{ type: 'paragraph' }] };
+}
+
+/**
+ * Renames prosemirror-markdown node and mark types to their Tiptap
+ * equivalents. Links and images have no counterpart in the editor, so links
+ * keep their text and images are dropped.
+ *
+ * @param node - A node from the Markdown parser
+ * @returns The Tiptap node, or null if it should be dropped
+ */
+function toTiptapNode(node: JSONContent): JSONContent | null {
+  const nodeTypes: Record<string, string> = {
+    bullet_list: 'bulletList',
+    ordered_list: 'orderedList',
+    list_item: 'listItem',
+    code_block: 'codeBlock',
+    horizontal_rule: 'horizontalRule',
+    hard_break: 'hardBreak',
+  };
+  const markTypes: Record<string, string> = { strong: 'bold', em: 'italic', code: 'code' };
+
+  if (node.type === 'image') return null;
+
+  const result: JSONContent = { ...node, type: nodeTypes[node.type || ''] || node.type };
+
+  if (node.type === 'heading') {
+    result.attrs = { level: Math.min(node.attrs?.level || 1, MAX_HEADING_LEVEL) };
+  } else if (node.type === 'ordered_list') {
+    result.attrs = { start: node.attrs?.order || 1 };
+  } else if (node.type === 'code_block') {
+    result.attrs = { language: node.attrs?.params || null };
+  } else {
+    delete result.attrs;
+  }
+
+  if (node.marks) {
+    const marks = node.marks
+      .filter(mark => markTypes[mark.type])
+      .map(mark => ({ type: markTypes[mark.type] }));
+    if (marks.length > 0) {
+      result.marks = marks;
+    } else {
+      delete result.marks;
+    }
+  }
+
+  if (node.content) {
+    result.content = node.content.map(toTiptapNode).filter((child): child is JSONContent => child !== null);
+  }
+
+  return result;
+}
+
+/**
+ * Converts Markdown into Tiptap JSON.
+ *
+ * @param markdown - The Markdown source
+ * @returns The Tiptap JSON document
+ */
+export function parseMarkdown(markdown: string): JSONContent {
+  const doc = defaultMarkdownParser.parse(markdown).toJSON() as JSONContent;
+  const content = toTiptapNode(doc)?.content || [];
+  return { type: 'doc', content: content.length > 0 ? content : [{ type: 'paragraph' }] };
+}
+
+/**
+ * Converts plain text into Tiptap JSON. Paragraphs separated by blank lines
+ * are kept, with hard-wrapped lines inside them rejoined; text without blank
+ * lines is treated as one paragraph per line.
+ *
+ * @param text - The plain text
+ * @returns The Tiptap JSON document
+ */
+export function parsePlainText(text: string): JSONContent {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '');
+  const usesBlankLines = /\n[ \t]*\n/.test(normalized);
+
+  const paragraphs = (usesBlankLines ? normalized.split(/\n[ \t]*\n/) : normalized.split('\n'))
+    .map(paragraph => paragraph.split('\n').map(line => line.trim()).join(' ').trim())
+    .filter(Boolean);
+
+  return {
+    type: 'doc',
+    content: paragraphs.length > 0
+      ? paragraphs.map(paragraph => ({ type: 'paragraph', content: [{ type: 'text', text: paragraph }] }))
+      : [{ type: 'paragraph' }],
+  };
+}
+
+/**
+ * Derives a document title from an uploaded file name.
+ *
+ * @param fileName - The file name including its extension
+ * @returns The title
+ */
+export function titleFromFileName(fileName: string): string {
+  const title = fileName.replace(/\.[^.]+$/, '').replace(/[_]+/g, ' ').trim();
+  return title || 'Imported Document';
+}
+
+/**
+ * Reads an uploaded file and converts it into a titled Tiptap document.
+ *
+ * @param file - A .docx, .md/.markdown or .txt file
+ * @returns The document title and content
+ * @throws If the file type is unsupported, the file is too large or it cannot be parsed
+ */
+export async function importFile(file: File): Promise<ImportedDocument> {
+  if (file.size > MAX_IMPORT_SIZE) {
+    throw new Error('Files larger than 5 MB cannot be imported.');
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const title = titleFromFileName(file.name);
+
+  switch (extension) {
+    case 'docx':
+      return { title, content: await parseDocx(await file.arrayBuffer()) };
+    case 'md':
+    case 'markdown':
+      return { title, content: parseMarkdown(await file.text()) };
+    case 'txt':
+      return { title, content: parsePlainText(await file.text()) };
+    default:
+      throw new Error('Only .docx, Markdown (.md) and plain text (.txt) files can be imported.');
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { findOccurrences, findSuggestionRange, findTextParagraphs, offsetSuggestionRanges } from '@/lib/document-text';
+
+describe('findOccurrences', () => {
+  it('finds every occurrence with its offsets', () => {
+    const text = 'The effect of the effect.';
+    expect(findOccurrences(text, 'effect')).toEqual([
+      { start: 4, end: 10 },
+      { start: 18, end: 24 },
+    ]);
+  });
+
+  it('returns an empty array for an empty needle or no match', () => {
+    expect(findOccurrences('Some text', '')).toEqual([]);
+    expect(findOccurrences('Some text', 'missing')).toEqual([]);
+  });
+
+  it('matches across differences in whitespace', () => {
+    const text = 'I have\n  went home.';
+    expect(findOccurrences(text, 'have went')).toEqual([{ start: 2, end: 13 }]);
+  });
+
+  it('ignores leading and trailing whitespace in the needle', () => {
+    expect(findOccurrences('their is', '  their is ')).toEqual([{ start: 0, end: 8 }]);
+  });
+
+  it('treats regular expression characters literally', () => {
+    const text = 'Is it (really) true? Yes (really).';
+    expect(findOccurrences(text, '(really)')).toEqual([
+      { start: 6, end: 14 },
+      { start: 25, end: 33 },
+    ]);
+    expect(findOccurrences(text, 'true?')).toEqual([{ start: 15, end: 20 }]);
+  });
+
+  it('is case sensitive', () => {
+    expect(findOccurrences('The the', 'the')).toEqual([{ start: 4, end: 7 }]);
+  });
+});
+
+describe('findSuggestionRange', () => {
+  const text = 'The effect of the effect.';
+
+  it('uses offsets that cover the original text', () => {
+    expect(findSuggestionRange(text, { original: 'effect', start: 18, end: 24 })).toEqual({ start: 18, end: 24 });
+  });
+
+  it('falls back to the first occurrence when the offsets are stale', () => {
+    expect(findSuggestionRange(text, { original: 'effect', start: 16, end: 22 })).toEqual({ start: 4, end: 10 });
+  });
+
+  it('falls back to the first occurrence without offsets', () => {
+    expect(findSuggestionRange(text, { original: 'effect' })).toEqual({ start: 4, end: 10 });
+  });
+
+  it('accepts offsets whose text differs only in whitespace', () => {
+    expect(findSuggestionRange('I have\n  went home.', { original: 'have went', start: 2, end: 13 })).toEqual({ start: 2, end: 13 });
+  });
+
+  it('returns null when the text is not found', () => {
+    expect(findSuggestionRange(text, { original: 'affect', start: 4, end: 10 })).toBeNull();
+  });
+});
+
+describe('offsetSuggestionRanges', () => {
+  it('shifts offsets and leaves suggestions without offsets alone', () => {
+    const suggestions = [{ original: 'a', start: 2, end: 3 }, { original: 'b' }];
+    expect(offsetSuggestionRanges(suggestions, 10)).toEqual([{ original: 'a', start: 12, end: 13 }, { original: 'b' }]);
+  });
+});
+
+describe('findTextParagraphs', () => {
+  it('returns each line with its offsets, skipping headings and empty lines', () => {
+    const text = 'Why Sleep Matters\n\nTeens need sleep.\n\nSchools start too early for most students to feel awake\n';
+
+    expect(findTextParagraphs(text)).toEqual([
+      { start: 19, end: 36, text: 'Teens need sleep.' },
+      { start: 38, end: 93, text: 'Schools start too early for most students to feel awake' },
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @file Helpers for reading plain text out of Tiptap JSON documents.
+ * Used wherever a feature needs to reason about paragraphs or word counts
+ * rather than the rich document structure.
+ */
+
+import { type JSONContent } from '@tiptap/react';
+
+// Lines shorter than this without closing punctuation are taken to be headings
+const HEADING_MAX_WORDS = 8;
+
+/**
+ * Collects the text of a node and all of its descendants.
+ *
+ * @param node - The Tiptap JSON node
+ * @returns The concatenated text of the node
+ */
+export function getNodeText(node: JSONContent): string {
+  if (node.type === 'text') return node.text || '';
+  if (node.type === 'hardBreak') return '\n';
+  return (node.content || []).map(getNodeText).join('');
+}
+
+/**
+ * Splits a document into its block-level paragraphs. Headings, paragraphs and
+ * list items each produce one entry; empty blocks are skipped.
+ *
+ * @param content - The Tiptap JSON document
+ * @returns The text of each block in document order
+ */
+export function extractParagraphs(content: JSONContent | null | undefined): string[] {
+  if (!content) return [];
+
+  const paragraphs: string[] = [];
+
+  const walk = (node: JSONContent) => {
+    if (node.type === 'paragraph' || node.type === 'heading' || node.type === 'codeBlock') {
+      const text = getNodeText(node).trim();
+      if (text) paragraphs.push(text);
+      return;
+    }
+    (node.content || []).forEach(walk);
+  };
+
+  walk(content);
+  return paragraphs;
+}
+
+/**
+ * Finds the body paragraphs in plain text such as `editor.getText()`. Each
+ * line is a paragraph; empty lines and short lines without closing
+ * punctuation, which are usually headings or titles, are skipped.
+ *
+ * @param text - The plain text
+ * @returns The offsets of each paragraph in `text`, with its text
+ */
+export function findTextParagraphs(text: string): { start: number; end: number; text: string }[] {
+  return [...text.matchAll(/[^\n]+/g)].flatMap(line => {
+    const words = countWords(line[0]);
+    if (words === 0) return [];
+    if (words < HEADING_MAX_WORDS && !/[.!?]['"’”)\]]*\s*$/.test(line[0])) return [];
+    return [{ start: line.index!, end: line.index! + line[0].length, text: line[0] }];
+  });
+}
+
+/**
+ * Counts the words in a piece of text.
+ *
+ * @param text - The text to count
+ * @returns The number of whitespace-separated words
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Escapes special characters in a string for use in a regular expression.
+ *
+ * @param str - The string to escape
+ * @returns The escaped string
+ */
+function escapeRegExp(str: string): string {
+  // $& means the whole matched string
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds all occurrences of a needle in a haystack, ignoring whitespace differences.
+ *
+ * @param haystack - The text to search within
+ * @param needle - The text to search for
+ * @returns The start and end offset of each occurrence
+ */
+export function findOccurrences(haystack: string, needle: string): { start: number; end: number }[] {
+  const results: { start: number; end: number }[] = [];
+  if (!needle) return results;
+
+  try {
+    const escapedNeedle = escapeRegExp(needle.trim());
+    const regex = new RegExp(escapedNeedle.replace(/\s+/g, '\\s+'), 'gu');
+
+    let match;
+    while ((match = regex.exec(haystack)) !== null) {
+      results.push({
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  } catch (e) {
+    console.error(`Error creating regex for search: "${needle}"`, e);
+  }
+
+  return results;
+}
+
+/**
+ * Finds where a suggestion sits in a text. Offsets returned by the server are
+ * used when they still cover the suggestion's original text; otherwise, for
+ * example after the student kept typing, the first occurrence is used.
+ *
+ * @param text - The text the offsets refer to
+ * @param suggestion - The suggestion, with optional `start`/`end` offsets
+ * @returns The range of the suggestion, or null if its text is not found
+ */
+export function findSuggestionRange(
+  text: string,
+  suggestion: { original: string; start?: number; end?: number },
+): { start: number; end: number } | null {
+  const { original, start, end } = suggestion;
+  if (start !== undefined && end !== undefined && start >= 0 && start < end) {
+    const [match] = findOccurrences(text.slice(start, end), original);
+    if (match && match.start === 0 && match.end === end - start) {
+      return { start, end };
+    }
+  }
+
+  return findOccurrences(text, original)[0] || null;
+}
+
+/**
+ * Moves suggestion offsets from a slice of a text into the full text.
+ * Suggestions without offsets are returned unchanged.
+ *
+ * @param suggestions - Suggestions with offsets relative to the slice
+ * @param offset - Where the slice starts in the full text
+ * @returns The suggestions with offsets relative to the full text
+ */
+export function offsetSuggestionRanges<T extends { start?: number; end?: number }>(suggestions: T[], offset: number): T[] {
+  if (offset === 0) return suggestions;
+  return suggestions.map(s => (
+    s.start !== undefined && s.end !== undefined ? { ...s, start: s.start + offset, end: s.end + offset } : s
+  ));
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { buildDocx, escapeXml } from '@/lib/docx-export';
+
+/**
+ * Builds a package and returns its unzipped word/document.xml.
+ */
+async function buildDocumentXml(title: string, content: Parameters<typeof buildDocx>[1]) {
+  const blob = await buildDocx(title, content);
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  return zip.file('word/document.xml')!.async('string');
+}
+
+describe('escapeXml', () => {
+  it('escapes markup characters and removes control characters XML does not allow', () => {
+    expect(escapeXml('Tom & "Jerry" <3 \'90s')).toBe('Tom &amp; &quot;Jerry&quot; &lt;3 &apos;90s');
+    expect(escapeXml('Sleep\u0000 is\u000B vital\u001F.\tDone\n')).toBe('Sleep is vital.\tDone\n');
+  });
+});
+
+describe('buildDocx', () => {
+  it('writes headings, marks and escaped text to document.xml', async () => {
+    const xml = await buildDocumentXml('Sleep & School', {
+      type: 'doc',
+      content: [
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Background' }] },
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Teens need ' },
+            { type: 'text', text: 'more', marks: [{ type: 'bold' }, { type: 'italic' }] },
+            { type: 'text', text: ' sleep <than\u0008 adults>.' },
+          ],
+        },
+      ],
+    });
+
+    expect(xml).toContain('<w:pStyle w:val="Title"/></w:pPr><w:r><w:t xml:space="preserve">Sleep &amp; School</w:t>');
+    expect(xml).toContain('<w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t xml:space="preserve">Background</w:t>');
+    expect(xml).toContain('<w:r><w:rPr><w:b/><w:i/></w:rPr><w:t xml:space="preserve">more</w:t></w:r>');
+    expect(xml).toContain('<w:t xml:space="preserve"> sleep &lt;than adults&gt;.</w:t>');
+  });
+
+  it('includes the parts Word needs to open the package', async () => {
+    const blob = await buildDocx('Sleep', { type: 'doc', content: [] });
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+
+    expect(Object.keys(zip.files).sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/app.xml',
+      'docProps/core.xml',
+      'word/_rels/document.xml.rels',
+      'word/document.xml',
+      'word/numbering.xml',
+      'word/styles.xml',
+    ]);
+  });
+});
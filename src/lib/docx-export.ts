@@ -0,0 +1,281 @@
+/**
+ * @file Generates genuine Office Open XML (.docx) packages from Tiptap JSON.
+ * Headings, lists, block quotes and inline formatting are mapped to real Word
+ * styles, body text is double spaced, a works cited list starts on a new page
+ * with hanging indents, and the package carries core document properties so
+ * Word, Google Docs, LibreOffice and LMS validators accept it.
+ */
+
+import JSZip from 'jszip';
+import { type JSONContent } from '@tiptap/react';
+
+export interface DocxOptions {
+  author?: string;
+}
+
+const BULLET_ABSTRACT_ID = 0;
+const DECIMAL_ABSTRACT_ID = 1;
+
+/**
+ * Escapes text for inclusion in XML content or attributes. Control characters
+ * XML does not allow, such as those left by pasting, are removed; Word will
+ * not open a document that contains them.
+ *
+ * @param text - The raw text
+ * @returns XML-safe text
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Tracks numbering instances while the document body is generated. Every
+ * ordered list gets its own instance so its numbering restarts at 1.
+ */
+class NumberingRegistry {
+  private instances: Array<{ numId: number; abstractId: number }> = [];
+
+  /**
+   * Registers a new list and returns its numbering id.
+   * @param ordered - Whether the list is numbered rather than bulleted
+   * @returns The `w:numId` to reference from list paragraphs
+   */
+  register(ordered: boolean): number {
+    const numId = this.instances.length + 1;
+    this.instances.push({ numId, abstractId: ordered ? DECIMAL_ABSTRACT_ID : BULLET_ABSTRACT_ID });
+    return numId;
+  }
+
+  /**
+   * Builds word/numbering.xml for all registered lists.
+   * @returns The numbering part XML
+   */
+  toXml(): string {
+    const levels = (format: 'bullet' | 'decimal') =>
+      Array.from({ length: 9 }, (_, level) => {
+        const text = format === 'bullet' ? (level % 2 === 0 ? '•' : '◦') : `%${level + 1}.`;
+        return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+      }).join('');
+
+    const nums = this.instances
+      .map(({ numId, abstractId }) =>
+        `<w:num w:numId="${numId}"><w:abstractNumId w:val="${abstractId}"/>${
+          abstractId === DECIMAL_ABSTRACT_ID
+            ? '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride>'
+            : ''
+        }</w:num>`)
+      .join('');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="${BULLET_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>
+<w:abstractNum w:abstractNumId="${DECIMAL_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>
+${nums}
+</w:numbering>`;
+  }
+}
+
+/**
+ * Converts a run of inline Tiptap nodes to WordprocessingML runs.
+ *
+ * @param nodes - Inline nodes (text and hard breaks)
+ * @returns The `w:r` elements
+ */
+function inlineToRuns(nodes: JSONContent[] = []): string {
+  return nodes.map(node => {
+    if (node.type === 'hardBreak') {
+      return '<w:r><w:br/></w:r>';
+    }
+    if (node.type === 'citation') {
+      return `<w:r><w:t xml:space="preserve">${escapeXml(node.attrs?.label || '')}</w:t></w:r>`;
+    }
+    if (node.type !== 'text' || !node.text) {
+      return inlineToRuns(node.content);
+    }
+
+    const marks = (node.marks || []).map(mark => mark.type);
+    const props = [
+      marks.includes('bold') ? '<w:b/>' : '',
+      marks.includes('italic') ? '<w:i/>' : '',
+      marks.includes('underline') ? '<w:u w:val="single"/>' : '',
+      marks.includes('strike') ? '<w:strike/>' : '',
+      marks.includes('code') ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>' : '',
+    ].join('');
+
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(node.text)}</w:t></w:r>`;
+  }).join('');
+}
+
+/**
+ * Builds a single paragraph element.
+ *
+ * @param runs - The paragraph's runs
+ * @param style - The paragraph style id, if any
+ * @param numbering - List numbering for list items
+ * @returns The `w:p` element
+ */
+function paragraph(runs: string, style?: string, numbering?: { numId: number; level: number }): string {
+  const props = [
+    style ? `<w:pStyle w:val="${style}"/>` : '',
+    numbering ? `<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.numId}"/></w:numPr>` : '',
+  ].join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+/**
+ * Converts block-level Tiptap nodes to WordprocessingML paragraphs.
+ *
+ * @param nodes - The block nodes to convert
+ * @param numbering - Registry for list numbering instances
+ * @param context - Style and list state inherited from parent nodes
+ * @returns The body XML
+ */
+function blocksToXml(
+  nodes: JSONContent[] = [],
+  numbering: NumberingRegistry,
+  context: { style?: string; list?: { numId: number; level: number } } = {},
+): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'paragraph':
+        return paragraph(inlineToRuns(node.content), context.list ? 'ListParagraph' : context.style, context.list);
+      case 'heading': {
+        const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 3);
+        return paragraph(inlineToRuns(node.content), `Heading${level}`);
+      }
+      case 'blockquote':
+        return blocksToXml(node.content, numbering, { ...context, style: 'Quote' });
+      case 'codeBlock':
+        return paragraph(inlineToRuns(node.content), 'Code');
+      case 'bulletList':
+      case 'orderedList': {
+        const numId = numbering.register(node.type === 'orderedList');
+        const level = context.list ? context.list.level + 1 : 0;
+        return (node.content || [])
+          .map(item => blocksToXml(item.content, numbering, { ...context, list: { numId, level } }))
+          .join('');
+      }
+      case 'worksCited': {
+        const [heading, ...entries] = node.content || [];
+        return paragraph(inlineToRuns(heading?.content), 'BibliographyHeading')
+          + entries.map(entry => paragraph(inlineToRuns(entry.content), 'Bibliography')).join('');
+      }
+      case 'horizontalRule':
+        return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+      default:
+        return blocksToXml(node.content, numbering, context);
+    }
+  }).join('');
+}
+
+/**
+ * Builds word/styles.xml with double-spaced Times New Roman body text and
+ * the heading, quote, list and bibliography styles referenced by the document body.
+ *
+ * @returns The styles part XML
+ */
+function buildStyles(): string {
+  const heading = (level: number, size: number) => `
+<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>
+<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="0"/><w:ind w:firstLine="0"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="480" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:firstLine="720"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:jc w:val="center"/><w:ind w:firstLine="0"/></w:pPr></w:style>
+${heading(1, 32)}${heading(2, 28)}${heading(3, 24)}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720" w:right="720" w:firstLine="0"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:firstLine="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="BibliographyHeading"><w:name w:val="Bibliography Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Bibliography"/><w:pPr><w:pageBreakBefore/><w:jc w:val="center"/><w:ind w:firstLine="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Bibliography"><w:name w:val="Bibliography"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720" w:hanging="720"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/></w:pPr><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/><w:sz w:val="20"/></w:rPr></w:style>
+</w:styles>`;
+}
+
+/**
+ * Builds docProps/core.xml with the document title and author.
+ *
+ * @param title - Document title
+ * @param author - Document author
+ * @returns The core properties part XML
+ */
+function buildCoreProperties(title: string, author: string): string {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:creator>${escapeXml(author)}</dc:creator>
+<cp:lastModifiedBy>${escapeXml(author)}</cp:lastModifiedBy>
+<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>`;
+}
+
+/**
+ * Builds a complete .docx package from Tiptap JSON content.
+ *
+ * @param title - Document title, used as the title paragraph and core property
+ * @param content - Tiptap JSON content
+ * @param options - Additional document properties such as the author
+ * @returns The zipped WordprocessingML package
+ */
+export async function buildDocx(title: string, content: JSONContent, options: DocxOptions = {}): Promise<Blob> {
+  const numbering = new NumberingRegistry();
+  const body = paragraph(`<w:r><w:t xml:space="preserve">${escapeXml(title)}</w:t></w:r>`, 'Title')
+    + blocksToXml(content?.content, numbering);
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  // Folder entries are left out; strict validators reject them in OOXML packages
+  const zip = new JSZip();
+  const addPart = (path: string, xml: string) => zip.file(path, xml, { createFolders: false });
+
+  addPart('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>`);
+
+  addPart('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties" Target="docProps/app.xml"/>
+</Relationships>`);
+
+  addPart('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`);
+
+  addPart('word/document.xml', documentXml);
+  addPart('word/styles.xml', buildStyles());
+  addPart('word/numbering.xml', numbering.toXml());
+  addPart('docProps/core.xml', buildCoreProperties(title, options.author || 'EssayElevate'));
+  addPart('docProps/app.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>EssayElevate</Application></Properties>`);
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  });
+}
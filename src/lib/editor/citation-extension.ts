@@ -0,0 +1,95 @@
+/**
+ * @file This file contains a Tiptap node for in-text citations. A citation
+ * refers to a source in the document's library by id and shows the formatted
+ * parenthetical, e.g. "(Smith 47)". The formatted label is stored on the node
+ * so it is saved, shared with collaborators and exported like the text around
+ * it; `refreshCitations` rewrites the labels when a source or the citation
+ * style changes.
+ */
+import { Node, mergeAttributes } from '@tiptap/core';
+import { type CitationAttributes, type SourceDetails, formatInTextCitation } from '@/lib/citations';
+import { type CitationStyle } from '@/lib/types';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    citation: {
+      /**
+       * Insert a citation at the cursor, after a space if the cursor follows a word
+       */
+      insertCitation: (attributes: CitationAttributes) => ReturnType;
+      /**
+       * Reformat every citation whose source is in the list. Returns false if none changed
+       */
+      refreshCitations: (sources: (SourceDetails & { id: string })[], style: CitationStyle) => ReturnType;
+    };
+  }
+}
+
+export const Citation = Node.create({
+  name: 'citation',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      sourceId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-source-id'),
+        renderHTML: attributes => ({ 'data-source-id': attributes.sourceId }),
+      },
+      pages: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-pages') || '',
+        renderHTML: attributes => ({ 'data-pages': attributes.pages }),
+      },
+      label: {
+        default: '',
+        parseHTML: element => element.textContent || '',
+        rendered: false,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-citation]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { 'data-citation': '', class: 'citation' }), node.attrs.label];
+  },
+
+  renderText({ node }) {
+    return node.attrs.label;
+  },
+
+  addCommands() {
+    return {
+      insertCitation: attributes => ({ state, commands }) => {
+        const { from } = state.selection;
+        const before = state.doc.textBetween(Math.max(0, from - 1), from, '\n', '\n');
+        const space = before && !/\s/.test(before) ? [{ type: 'text', text: ' ' }] : [];
+        return commands.insertContent([...space, { type: this.name, attrs: attributes }]);
+      },
+      refreshCitations: (sources, style) => ({ state, tr, dispatch }) => {
+        let changed = false;
+
+        // Relabeling keeps every node the same size, so positions stay valid
+        state.doc.descendants((node, pos) => {
+          if (node.type.name !== this.name) return;
+          const source = sources.find(s => s.id === node.attrs.sourceId);
+          if (!source) return;
+
+          const label = formatInTextCitation(source, style, node.attrs.pages);
+          if (label !== node.attrs.label) {
+            changed = true;
+            if (dispatch) tr.setNodeMarkup(pos, undefined, { ...node.attrs, label });
+          }
+        });
+
+        return changed;
+      },
+    };
+  },
+});
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getSchema, type JSONContent } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import { yXmlFragmentToProsemirrorJSON } from 'y-prosemirror';
+import * as Y from 'yjs';
+import {
+  COLLABORATION_FIELD,
+  CollaborationProvider,
+  createCollaborationDoc,
+  createLocalTransportHub,
+  decodeBase64,
+  encodeBase64,
+  encodeCollaborationState,
+  getCollaboratorColor,
+  seedCollaborationDoc,
+} from '@/lib/editor/collaboration';
+
+const schema = getSchema([StarterKit]);
+
+const savedContent: JSONContent = {
+  type: 'doc',
+  content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Schools should start later.' }] }],
+};
+
+describe('CollaborationProvider', () => {
+  let providers: CollaborationProvider[] = [];
+
+  const join = (hub: ReturnType<typeof createLocalTransportHub>, doc = new Y.Doc(), canEdit = true) => {
+    const provider = new CollaborationProvider(doc, hub.createTransport(), { canEdit });
+    providers.push(provider);
+    return provider;
+  };
+
+  afterEach(() => {
+    providers.forEach(provider => provider.destroy());
+    providers = [];
+  });
+
+  it('merges concurrent edits from both collaborators', () => {
+    const hub = createLocalTransportHub();
+    const alice = join(hub);
+    const bob = join(hub);
+    alice.connect();
+    bob.connect();
+
+    alice.doc.getText('essay').insert(0, 'Hello');
+    bob.doc.getText('essay').insert(0, 'World ');
+
+    expect(alice.doc.getText('essay').toString()).toBe(bob.doc.getText('essay').toString());
+    expect(alice.doc.getText('essay').toString()).toHaveLength('Hello'.length + 'World '.length);
+  });
+
+  it('sends existing changes to a collaborator who joins later', () => {
+    const hub = createLocalTransportHub();
+    const alice = join(hub);
+    alice.connect();
+    alice.doc.getText('essay').insert(0, 'First draft');
+
+    const bob = join(hub);
+    bob.connect();
+
+    expect(bob.doc.getText('essay').toString()).toBe('First draft');
+  });
+
+  it('receives but never sends changes when read-only', () => {
+    const hub = createLocalTransportHub();
+    const alice = join(hub);
+    const reviewer = join(hub, new Y.Doc(), false);
+    alice.connect();
+    reviewer.connect();
+
+    alice.doc.getText('essay').insert(0, 'Shared text');
+    reviewer.doc.getText('essay').insert(0, 'Ignored ');
+
+    expect(reviewer.doc.getText('essay').toString()).toBe('Ignored Shared text');
+    expect(alice.doc.getText('essay').toString()).toBe('Shared text');
+  });
+
+  it('shares presence and removes it on disconnect', () => {
+    const hub = createLocalTransportHub();
+    const alice = join(hub);
+    const bob = join(hub);
+    alice.awareness.setLocalStateField('user', { name: 'Alice' });
+    alice.connect();
+    bob.connect();
+
+    expect(bob.awareness.getStates().get(alice.doc.clientID)).toEqual({ user: { name: 'Alice' } });
+
+    alice.disconnect();
+    expect(bob.awareness.getStates().has(alice.doc.clientID)).toBe(false);
+
+    alice.connect();
+    expect(bob.awareness.getStates().get(alice.doc.clientID)).toEqual({ user: { name: 'Alice' } });
+  });
+});
+
+describe('seedCollaborationDoc', () => {
+  it('does not duplicate content seeded by two collaborators at once', () => {
+    const alice = new Y.Doc();
+    const bob = new Y.Doc();
+    seedCollaborationDoc(alice, schema, savedContent);
+    seedCollaborationDoc(bob, schema, savedContent);
+
+    Y.applyUpdate(alice, Y.encodeStateAsUpdate(bob));
+    Y.applyUpdate(bob, Y.encodeStateAsUpdate(alice));
+
+    expect(yXmlFragmentToProsemirrorJSON(alice.getXmlFragment(COLLABORATION_FIELD))).toEqual(savedContent);
+    expect(yXmlFragmentToProsemirrorJSON(bob.getXmlFragment(COLLABORATION_FIELD))).toEqual(savedContent);
+  });
+
+  it('leaves a document with content alone', () => {
+    const doc = new Y.Doc();
+    seedCollaborationDoc(doc, schema, savedContent);
+    seedCollaborationDoc(doc, schema, { type: 'doc', content: [{ type: 'paragraph' }] });
+
+    expect(yXmlFragmentToProsemirrorJSON(doc.getXmlFragment(COLLABORATION_FIELD))).toEqual(savedContent);
+  });
+});
+
+describe('collaboration state', () => {
+  it('restores a saved document', () => {
+    const doc = new Y.Doc();
+    doc.getText('essay').insert(0, 'Saved');
+
+    expect(createCollaborationDoc(encodeCollaborationState(doc)).getText('essay').toString()).toBe('Saved');
+    expect(createCollaborationDoc(null).getText('essay').toString()).toBe('');
+  });
+
+  it('round-trips base64', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('getCollaboratorColor', () => {
+  it('gives the same user the same color', () => {
+    expect(getCollaboratorColor('user-1')).toBe(getCollaboratorColor('user-1'));
+    expect(getCollaboratorColor('user-1')).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
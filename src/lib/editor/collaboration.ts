@@ -0,0 +1,353 @@
+/**
+ * @file This file contains the pieces for collaborative editing. Each editor
+ * works on a Yjs document, a CRDT that merges concurrent edits without
+ * conflicts, and shares cursors through a Yjs awareness instance. Updates
+ * travel over a transport: a Supabase Realtime broadcast channel in the app,
+ * or an in-memory hub in tests.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Schema } from '@tiptap/pm/model';
+import type { JSONContent } from '@tiptap/react';
+import { prosemirrorJSONToYXmlFragment } from 'y-prosemirror';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import * as Y from 'yjs';
+
+/**
+ * The Yjs fragment the editor content lives in. This is the Tiptap
+ * Collaboration extension's default field.
+ */
+export const COLLABORATION_FIELD = 'default';
+
+// Content seeded from saved JSON is written as this client, see seedCollaborationDoc
+const SEED_CLIENT_ID = 0;
+
+const COLLABORATOR_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626'];
+
+/**
+ * A message between collaborators. Binary Yjs payloads are base64 encoded.
+ * Messages with `to` are meant for one client only.
+ *
+ * - `sync-request` carries the sender's state vector; the receiver answers
+ *   with an `update` holding everything the sender is missing.
+ * - `update` carries document changes.
+ * - `awareness` carries cursor and user presence.
+ */
+export type CollaborationMessage =
+  | { type: 'sync-request'; from: number; to?: number; stateVector: string }
+  | { type: 'update'; from: number; to?: number; update: string }
+  | { type: 'awareness'; from: number; to?: number; update: string };
+
+/**
+ * Delivers messages between the collaborators on one document.
+ */
+export interface CollaborationTransport {
+  /**
+   * Starts receiving messages from other collaborators. `onConnected` is
+   * called every time the connection is (re)established.
+   */
+  connect(handlers: { onMessage: (message: CollaborationMessage) => void; onConnected: () => void }): void;
+  send(message: CollaborationMessage): void;
+  disconnect(): void;
+}
+
+/**
+ * Another user editing or viewing the document, as shown in the editor header.
+ */
+export interface Collaborator {
+  clientId: number;
+  name: string;
+  color: string;
+}
+
+/**
+ * Encodes binary data as base64.
+ * @param bytes - The data
+ * @returns The base64 string
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 into binary data.
+ * @param value - The base64 string
+ * @returns The data
+ */
+export function decodeBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+/**
+ * Encodes the full state of a collaboration document for saving.
+ * @param doc - The Yjs document
+ * @returns The base64 encoded state
+ */
+export function encodeCollaborationState(doc: Y.Doc): string {
+  return encodeBase64(Y.encodeStateAsUpdate(doc));
+}
+
+/**
+ * Creates a collaboration document, restoring saved state if there is any.
+ * @param savedState - State saved with `encodeCollaborationState`, or null
+ * @returns The Yjs document
+ */
+export function createCollaborationDoc(savedState: string | null | undefined): Y.Doc {
+  const doc = new Y.Doc();
+  if (savedState) {
+    Y.applyUpdate(doc, decodeBase64(savedState));
+  }
+  return doc;
+}
+
+/**
+ * Fills an empty collaboration document from saved Tiptap JSON.
+ *
+ * The content is written under a fixed client ID, so collaborators who seed
+ * the same JSON at the same time produce identical updates, which Yjs merges
+ * into one copy instead of duplicating the text.
+ *
+ * @param doc - The Yjs document
+ * @param schema - The editor schema
+ * @param content - The saved document content
+ */
+export function seedCollaborationDoc(doc: Y.Doc, schema: Schema, content: JSONContent) {
+  if (doc.getXmlFragment(COLLABORATION_FIELD).length > 0) return;
+
+  const seed = new Y.Doc();
+  seed.clientID = SEED_CLIENT_ID;
+  prosemirrorJSONToYXmlFragment(schema, content, seed.getXmlFragment(COLLABORATION_FIELD));
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(seed));
+  seed.destroy();
+}
+
+/**
+ * Picks a cursor color for a collaborator. The same user always gets the
+ * same color.
+ * @param userId - The collaborator's user ID
+ * @returns A hex color
+ */
+export function getCollaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+/**
+ * Keeps a Yjs document and its awareness in sync with other collaborators
+ * over a transport. Pass it as the `provider` of the CollaborationCursor
+ * extension.
+ */
+export class CollaborationProvider {
+  readonly doc: Y.Doc;
+  readonly awareness: Awareness;
+  private transport: CollaborationTransport;
+  private canEdit: boolean;
+  private isConnected = false;
+  private localState: Record<string, unknown> | null = null;
+
+  /**
+   * @param doc - The document to sync
+   * @param transport - How messages reach the other collaborators
+   * @param options.canEdit - Whether local changes are sent; read-only collaborators only receive
+   */
+  constructor(doc: Y.Doc, transport: CollaborationTransport, { canEdit = true }: { canEdit?: boolean } = {}) {
+    this.doc = doc;
+    this.awareness = new Awareness(doc);
+    this.transport = transport;
+    this.canEdit = canEdit;
+
+    doc.on('update', this.handleDocUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+  }
+
+  /**
+   * Joins the other collaborators and requests their changes.
+   */
+  connect() {
+    if (this.localState) {
+      this.awareness.setLocalState(this.localState);
+    }
+    this.transport.connect({ onMessage: this.handleMessage, onConnected: this.handleConnected });
+  }
+
+  /**
+   * Leaves the other collaborators, removing this client's cursor. The
+   * document is kept, so the provider can connect again.
+   */
+  disconnect() {
+    this.localState = this.awareness.getLocalState();
+    removeAwarenessStates(this.awareness, [this.doc.clientID], 'local');
+    this.isConnected = false;
+    this.transport.disconnect();
+  }
+
+  /**
+   * Disconnects and releases the document and awareness.
+   */
+  destroy() {
+    this.disconnect();
+    this.doc.off('update', this.handleDocUpdate);
+    this.awareness.off('update', this.handleAwarenessUpdate);
+    this.awareness.destroy();
+    this.doc.destroy();
+  }
+
+  private send(message: CollaborationMessage) {
+    if (this.isConnected) {
+      this.transport.send(message);
+    }
+  }
+
+  private sendSyncRequest(to?: number) {
+    this.send({
+      type: 'sync-request',
+      from: this.doc.clientID,
+      to,
+      stateVector: encodeBase64(Y.encodeStateVector(this.doc)),
+    });
+  }
+
+  private sendAwareness(to?: number) {
+    if (!this.awareness.getLocalState()) return;
+    this.send({
+      type: 'awareness',
+      from: this.doc.clientID,
+      to,
+      update: encodeBase64(encodeAwarenessUpdate(this.awareness, [this.doc.clientID])),
+    });
+  }
+
+  private handleConnected = () => {
+    this.isConnected = true;
+    this.sendSyncRequest();
+    this.sendAwareness();
+  };
+
+  private handleMessage = (message: CollaborationMessage) => {
+    if (message.from === this.doc.clientID) return;
+    if (message.to !== undefined && message.to !== this.doc.clientID) return;
+
+    switch (message.type) {
+      case 'sync-request':
+        if (this.canEdit) {
+          this.send({
+            type: 'update',
+            from: this.doc.clientID,
+            to: message.from,
+            update: encodeBase64(Y.encodeStateAsUpdate(this.doc, decodeBase64(message.stateVector))),
+          });
+        }
+        // A broadcast request comes from a collaborator who just joined;
+        // ask them for their changes too and show them our cursor
+        if (message.to === undefined) {
+          this.sendSyncRequest(message.from);
+          this.sendAwareness(message.from);
+        }
+        break;
+      case 'update':
+        Y.applyUpdate(this.doc, decodeBase64(message.update), this);
+        break;
+      case 'awareness':
+        applyAwarenessUpdate(this.awareness, decodeBase64(message.update), this);
+        break;
+    }
+  };
+
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === this || !this.canEdit) return;
+    this.send({ type: 'update', from: this.doc.clientID, update: encodeBase64(update) });
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown,
+  ) => {
+    if (origin !== 'local') return;
+    const changed = [...added, ...updated, ...removed];
+    this.send({
+      type: 'awareness',
+      from: this.doc.clientID,
+      update: encodeBase64(encodeAwarenessUpdate(this.awareness, changed)),
+    });
+  };
+}
+
+/**
+ * Creates a transport over a private Supabase Realtime broadcast channel for
+ * a document. Channel access is checked by RLS on `realtime.messages`.
+ * @param supabase - The Supabase client
+ * @param documentId - The document being edited
+ * @returns The transport
+ */
+export function createRealtimeTransport(supabase: SupabaseClient, documentId: string): CollaborationTransport {
+  let channel: ReturnType<SupabaseClient['channel']> | null = null;
+
+  return {
+    connect({ onMessage, onConnected }) {
+      channel = supabase.channel(`document:${documentId}`, {
+        config: { private: true, broadcast: { self: false } },
+      });
+
+      for (const event of ['sync-request', 'update', 'awareness']) {
+        channel.on('broadcast', { event }, ({ payload }) => onMessage(payload as CollaborationMessage));
+      }
+
+      channel.subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          onConnected();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error('Collaboration channel error:', error || status);
+        }
+      });
+    },
+    send(message) {
+      channel?.send({ type: 'broadcast', event: message.type, payload: message });
+    },
+    disconnect() {
+      if (channel) {
+        supabase.removeChannel(channel);
+        channel = null;
+      }
+    },
+  };
+}
+
+/**
+ * Creates an in-memory hub that connects transports directly, standing in
+ * for Realtime in tests. Messages are delivered synchronously.
+ * @returns A hub whose `createTransport` adds a collaborator
+ */
+export function createLocalTransportHub() {
+  const connected = new Set<(message: CollaborationMessage) => void>();
+
+  return {
+    createTransport(): CollaborationTransport {
+      let receive: ((message: CollaborationMessage) => void) | null = null;
+
+      return {
+        connect({ onMessage, onConnected }) {
+          receive = onMessage;
+          connected.add(onMessage);
+          onConnected();
+        },
+        send(message) {
+          // Copy the message, as a real transport would serialize it
+          const copy = JSON.parse(JSON.stringify(message)) as CollaborationMessage;
+          connected.forEach(deliver => {
+            if (deliver !== receive) deliver(copy);
+          });
+        },
+        disconnect() {
+          if (receive) connected.delete(receive);
+          receive = null;
+        },
+      };
+    },
+  };
+}
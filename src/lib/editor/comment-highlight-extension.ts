@@ -0,0 +1,147 @@
+/**
+ * @file This file contains a Tiptap extension that highlights the ranges
+ * teachers and peer reviewers commented on. Highlights are decorations rather
+ * than marks, so they never become part of the saved or shared document; they
+ * are mapped through every edit so they stay on the commented text while the
+ * student types.
+ */
+import { Extension } from '@tiptap/core';
+import { type EditorState, Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet, type EditorView } from '@tiptap/pm/view';
+import { createTextPositionMap } from '@/lib/editor/text-positions';
+
+export interface CommentHighlight {
+  id: string;
+  from: number;
+  to: number;
+}
+
+interface CommentHighlightState {
+  decorations: DecorationSet;
+  activeId: string | null;
+}
+
+interface CommentHighlightMeta {
+  highlights?: CommentHighlight[];
+  activeId?: string | null;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    commentHighlight: {
+      /**
+       * Replace the highlighted comment ranges
+       */
+      setCommentHighlights: (highlights: CommentHighlight[]) => ReturnType;
+      /**
+       * Emphasize the highlight of one comment, or none
+       */
+      setActiveCommentHighlight: (id: string | null) => ReturnType;
+    };
+  }
+}
+
+export const commentHighlightKey = new PluginKey<CommentHighlightState>('commentHighlight');
+
+/**
+ * Builds the decoration for a highlight.
+ */
+function createDecoration({ id, from, to }: CommentHighlight, activeId: string | null): Decoration {
+  return Decoration.inline(
+    from,
+    to,
+    { class: id === activeId ? 'teacher-comment teacher-comment-active' : 'teacher-comment', 'data-comment-id': id },
+    { id },
+  );
+}
+
+/**
+ * Reads the highlights back from their decorations.
+ */
+function toHighlights(decorations: DecorationSet): CommentHighlight[] {
+  return decorations.find().map(decoration => ({
+    id: (decoration.spec as { id: string }).id,
+    from: decoration.from,
+    to: decoration.to,
+  }));
+}
+
+/**
+ * Returns the current range of each highlight, after any edits.
+ *
+ * @param state - The editor state
+ * @returns The highlights in document order
+ */
+export function getCommentHighlights(state: EditorState): CommentHighlight[] {
+  const pluginState = commentHighlightKey.getState(state);
+  return pluginState ? toHighlights(pluginState.decorations) : [];
+}
+
+/**
+ * Reads the text the user selected in the editor, for starting a comment.
+ * The DOM selection is used because it is also available when the editor is
+ * read-only.
+ *
+ * @param view - The editor view
+ * @returns The selected range of the document text and its quote, or null
+ */
+export function getSelectedCommentRange(view: EditorView): { start: number; end: number; quote: string } | null {
+  const domSelection = window.getSelection();
+  if (!domSelection || domSelection.isCollapsed || !domSelection.anchorNode || !domSelection.focusNode) return null;
+  if (!view.dom.contains(domSelection.anchorNode) || !view.dom.contains(domSelection.focusNode)) return null;
+
+  const anchorPos = view.posAtDOM(domSelection.anchorNode, domSelection.anchorOffset);
+  const focusPos = view.posAtDOM(domSelection.focusNode, domSelection.focusOffset);
+  const positions = createTextPositionMap(view.state.doc);
+  const range = positions.toTextRange(Math.min(anchorPos, focusPos), Math.max(anchorPos, focusPos));
+  if (!range || !positions.text.slice(range.start, range.end).trim()) return null;
+
+  return { ...range, quote: positions.text.slice(range.start, range.end) };
+}
+
+export const CommentHighlightExtension = Extension.create({
+  name: 'commentHighlight',
+
+  addCommands() {
+    return {
+      setCommentHighlights: highlights => ({ tr, dispatch }) => {
+        if (dispatch) tr.setMeta(commentHighlightKey, { highlights } satisfies CommentHighlightMeta);
+        return true;
+      },
+      setActiveCommentHighlight: id => ({ tr, dispatch }) => {
+        if (dispatch) tr.setMeta(commentHighlightKey, { activeId: id } satisfies CommentHighlightMeta);
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<CommentHighlightState>({
+        key: commentHighlightKey,
+        state: {
+          init: () => ({ decorations: DecorationSet.empty, activeId: null }),
+          apply(tr, value) {
+            const decorations = tr.docChanged ? value.decorations.map(tr.mapping, tr.doc) : value.decorations;
+            const meta = tr.getMeta(commentHighlightKey) as CommentHighlightMeta | undefined;
+            if (!meta) {
+              return decorations === value.decorations ? value : { ...value, decorations };
+            }
+
+            const activeId = meta.activeId !== undefined ? meta.activeId : value.activeId;
+            const highlights = meta.highlights || toHighlights(decorations);
+            return {
+              activeId,
+              decorations: DecorationSet.create(tr.doc, highlights.map(highlight => createDecoration(highlight, activeId))),
+            };
+          },
+        },
+        props: {
+          decorations(state) {
+            return commentHighlightKey.getState(state)?.decorations;
+          },
+        },
+      }),
+    ];
+  },
+});
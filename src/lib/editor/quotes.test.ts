@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { getSchema, type JSONContent } from '@tiptap/react';
+import { Node } from '@tiptap/pm/model';
+import StarterKit from '@tiptap/starter-kit';
+import { extractQuotes } from '@/lib/editor/quotes';
+import { Citation } from '@/lib/editor/citation-extension';
+
+const schema = getSchema([StarterKit, Citation]);
+
+const text = (value: string): JSONContent => ({ type: 'text', text: value });
+const paragraph = (...content: JSONContent[]): JSONContent => ({ type: 'paragraph', content });
+const createDoc = (...content: JSONContent[]) => Node.fromJSON(schema, { type: 'doc', content });
+
+describe('extractQuotes', () => {
+  it('finds straight and curly quotes with their positions', () => {
+    const doc = createDoc(paragraph(text('Walker says "sleep matters." Others call it “a luxury.” I disagree.')));
+    const quotes = extractQuotes(doc);
+
+    expect(quotes.map(quote => quote.text)).toEqual(['"sleep matters."', '“a luxury.”']);
+    quotes.forEach(quote => {
+      expect(quote.type).toBe('inline');
+      expect(doc.textBetween(quote.from, quote.to)).toBe(quote.text);
+    });
+  });
+
+  it('keeps nested quotes inside the outer quotation', () => {
+    const doc = createDoc(paragraph(text(
+      'She wrote, "My teacher said \'read "Sleep" twice\' and it\'s true." Then "don\'t stop" and ‘nothing’.',
+    )));
+
+    expect(extractQuotes(doc).map(quote => quote.text)).toEqual([
+      '"My teacher said \'read "Sleep" twice\' and it\'s true."',
+      '"don\'t stop"',
+    ]);
+  });
+
+  it('skips unclosed quotes and inch marks', () => {
+    const doc = createDoc(paragraph(text('The board is 12" wide.')), paragraph(text('He said "wait and left.')));
+
+    expect(extractQuotes(doc)).toEqual([]);
+  });
+
+  it('finds block quotes and the sentences around them', () => {
+    const doc = createDoc(
+      paragraph(text('Sleep is vital. As Walker explains:')),
+      { type: 'blockquote', content: [paragraph(text('The shorter your sleep, the shorter your "life span."'))] },
+      paragraph(text('This shows why schools should start later. It is simple.')),
+    );
+    const [quote, ...rest] = extractQuotes(doc);
+
+    expect(rest).toEqual([]);
+    expect(quote).toMatchObject({
+      type: 'block',
+      text: 'The shorter your sleep, the shorter your "life span."',
+      precedingSentence: 'As Walker explains:',
+      followingSentence: 'This shows why schools should start later.',
+    });
+    expect(doc.textBetween(quote.from, quote.to)).toBe(quote.text);
+  });
+
+  it('returns the sentences around an inline quote and the context range', () => {
+    const doc = createDoc(paragraph(text('Teens are tired. One doctor says "sleep is medicine." Schools agree. Done.')));
+    const [quote] = extractQuotes(doc);
+    const docText = doc.textBetween(0, doc.content.size, '\n\n');
+
+    expect(quote.precedingSentence).toBe('Teens are tired.');
+    expect(quote.followingSentence).toBe('Schools agree.');
+    expect(docText.slice(quote.context.start, quote.context.end))
+      .toBe('Teens are tired. One doctor says "sleep is medicine." Schools agree.');
+  });
+
+  it('ignores quotation marks in citation labels', () => {
+    const doc = createDoc(paragraph(
+      text('Teens need sleep '),
+      { type: 'citation', attrs: { sourceId: 'facts', pages: '3', label: '("Sleep Facts" 3)' } },
+      text('.'),
+    ));
+
+    expect(extractQuotes(doc)).toEqual([]);
+  });
+});
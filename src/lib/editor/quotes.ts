@@ -0,0 +1,146 @@
+/**
+ * @file Finds the quotations in a document. Inline quotes are found in each
+ * line of text by matching straight and curly quotation marks, keeping quotes
+ * nested inside a quotation as part of it; block quotes are the document's
+ * `blockquote` nodes. Each quote comes with its offsets in the text from
+ * `editor.getText()`, its document positions and the sentences around it, so
+ * the evidence checks can read how it is introduced and followed up.
+ */
+
+import { type Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { splitSentences } from '@/lib/readability';
+import { createTextPositionMap } from '@/lib/editor/text-positions';
+
+export interface Quote {
+  /** The quotation, including its quotation marks for inline quotes. */
+  text: string;
+  type: 'inline' | 'block';
+  /** The offset of the first character in the document text. */
+  start: number;
+  /** The offset just after the last character in the document text. */
+  end: number;
+  /** The document position where the quote starts. */
+  from: number;
+  /** The document position where the quote ends. */
+  to: number;
+  /** The sentence before the one containing the quote, or an empty string. */
+  precedingSentence: string;
+  /** The sentence after the one containing the quote, or an empty string. */
+  followingSentence: string;
+  /** The text range from the preceding sentence to the following sentence. */
+  context: { start: number; end: number };
+}
+
+type TextRange = { start: number; end: number };
+
+// Characters after which a straight quotation mark opens a quote
+const OPENING_CONTEXT = /[\s([{–—]/;
+
+/**
+ * Finds the quotations in one line of text. Double quotation marks start and
+ * end a quote; single quotation marks only count inside one, where they
+ * start a nested quote rather than an apostrophe. Unclosed quotes are skipped.
+ */
+function findInlineQuotes(text: string, lineStart: number, lineEnd: number): TextRange[] {
+  const quotes: TextRange[] = [];
+  const open: { mark: 'double' | 'single'; start: number }[] = [];
+
+  const close = (mark: 'double' | 'single', end: number) => {
+    const index = open.map(quote => quote.mark).lastIndexOf(mark);
+    if (index === -1) return;
+    const [outer] = open.splice(index);
+    if (open.length === 0) quotes.push({ start: outer.start, end });
+  };
+
+  for (let i = lineStart; i < lineEnd; i++) {
+    const char = text[i];
+    const previous = i > lineStart ? text[i - 1] : ' ';
+    const next = i + 1 < lineEnd ? text[i + 1] : ' ';
+    const opensHere = OPENING_CONTEXT.test(previous) && !/\s/.test(next);
+    const insideQuote = open.length > 0;
+    const top = open[open.length - 1];
+
+    if (char === '“' || (char === '"' && opensHere)) {
+      open.push({ mark: 'double', start: i });
+    } else if (char === '”' || char === '"') {
+      close('double', i + 1);
+    } else if (insideQuote && (char === '‘' || (char === '\'' && opensHere))) {
+      open.push({ mark: 'single', start: i });
+    } else if (top?.mark === 'single' && (char === '’' || char === '\'') && !/[A-Za-z0-9]/.test(next)) {
+      // A mark followed by a letter is an apostrophe, as in "don't"
+      close('single', i + 1);
+    }
+  }
+
+  return quotes;
+}
+
+/**
+ * Splits the text into sentences, line by line.
+ */
+function splitTextSentences(text: string): TextRange[] {
+  const sentences: TextRange[] = [];
+  let lineStart = 0;
+  for (const line of text.split('\n')) {
+    sentences.push(...splitSentences(text, lineStart, lineStart + line.length));
+    lineStart += line.length + 1;
+  }
+  return sentences;
+}
+
+/**
+ * Finds every quotation in a document, inline and block, in document order.
+ *
+ * @param doc - The ProseMirror document
+ * @returns The quotes with their offsets, positions and surrounding sentences
+ */
+export function extractQuotes(doc: ProseMirrorNode): Quote[] {
+  const positions = createTextPositionMap(doc);
+  const { text } = positions;
+  const ranges: (TextRange & { type: Quote['type'] })[] = [];
+
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'blockquote') return;
+    const range = positions.toTextRange(pos, pos + node.nodeSize);
+    if (range) ranges.push({ ...range, type: 'block' });
+    // Quotes inside a block quote belong to it
+    return false;
+  });
+
+  const blocks = [...ranges];
+  let lineStart = 0;
+  for (const line of text.split('\n')) {
+    const lineEnd = lineStart + line.length;
+    findInlineQuotes(text, lineStart, lineEnd)
+      .filter(quote => !blocks.some(block => quote.start >= block.start && quote.end <= block.end))
+      .forEach(quote => ranges.push({ ...quote, type: 'inline' }));
+    lineStart = lineEnd + 1;
+  }
+
+  const sentences = splitTextSentences(text);
+  return ranges
+    .flatMap(range => {
+      // Quotation marks in a citation label have no document position
+      const docRange = positions.toDocRange(range.start, range.end);
+      if (!docRange) return [];
+
+      const containing = sentences.filter(sentence => sentence.end > range.start && sentence.start < range.end);
+      const sentenceStart = Math.min(range.start, ...containing.map(sentence => sentence.start));
+      const sentenceEnd = Math.max(range.end, ...containing.map(sentence => sentence.end));
+      const preceding = [...sentences].reverse().find(sentence => sentence.end <= sentenceStart);
+      const following = sentences.find(sentence => sentence.start >= sentenceEnd);
+
+      return [{
+        text: text.slice(range.start, range.end),
+        type: range.type,
+        start: range.start,
+        end: range.end,
+        from: docRange.from,
+        to: docRange.to,
+        precedingSentence: preceding ? text.slice(preceding.start, preceding.end) : '',
+        followingSentence: following ? text.slice(following.start, following.end) : '',
+        context: { start: preceding?.start ?? sentenceStart, end: following?.end ?? sentenceEnd },
+      }];
+    })
+    .sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,68 @@
+/**
+ * @file This file contains a Tiptap extension that highlights the sentences
+ * the readability panel flags in the paragraph the student is looking at.
+ * Like comment highlights, these are decorations rather than marks, so they
+ * are never saved or shared with collaborators, and they are mapped through
+ * every edit until the panel replaces them.
+ */
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { type SentenceIssue } from '@/lib/readability';
+
+export interface ReadabilityHighlight {
+  from: number;
+  to: number;
+  issues: SentenceIssue[];
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    readabilityHighlight: {
+      /**
+       * Replace the highlighted sentences, or clear them with an empty list
+       */
+      setReadabilityHighlights: (highlights: ReadabilityHighlight[]) => ReturnType;
+    };
+  }
+}
+
+export const readabilityHighlightKey = new PluginKey<DecorationSet>('readabilityHighlight');
+
+export const ReadabilityHighlightExtension = Extension.create({
+  name: 'readabilityHighlight',
+
+  addCommands() {
+    return {
+      setReadabilityHighlights: highlights => ({ tr, dispatch }) => {
+        if (dispatch) tr.setMeta(readabilityHighlightKey, highlights);
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: readabilityHighlightKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply(tr, decorations) {
+            const highlights = tr.getMeta(readabilityHighlightKey) as ReadabilityHighlight[] | undefined;
+            if (!highlights) {
+              return tr.docChanged ? decorations.map(tr.mapping, tr.doc) : decorations;
+            }
+            return DecorationSet.create(tr.doc, highlights.map(({ from, to, issues }) => Decoration.inline(from, to, {
+              class: ['readability-sentence', ...issues.map(issue => `readability-${issue}`)].join(' '),
+            })));
+          },
+        },
+        props: {
+          decorations(state) {
+            return readabilityHighlightKey.getState(state);
+          },
+        },
+      }),
+    ];
+  },
+});
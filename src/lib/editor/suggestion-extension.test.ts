@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getSchema, type JSONContent } from '@tiptap/react';
+import { Node } from '@tiptap/pm/model';
+import StarterKit from '@tiptap/starter-kit';
+import { Suggestion, findAdjacentSuggestion, getSuggestionRanges } from '@/lib/editor/suggestion-extension';
+
+const schema = getSchema([StarterKit, Suggestion]);
+
+const suggestion = (original: string, replacement: string) => ({
+  type: 'suggestion',
+  attrs: { original, suggestion: replacement, explanation: 'Fix it.', category: 'grammar' },
+});
+const text = (value: string, marks: JSONContent['marks'] = []): JSONContent => ({ type: 'text', text: value, marks });
+
+describe('getSuggestionRanges', () => {
+  it('lists highlights in order and joins one split by other marks', () => {
+    const doc = Node.fromJSON(schema, {
+      type: 'doc',
+      content: [
+        { type: 'paragraph', content: [text('I think '), text('their', [suggestion('their', 'there')]), text(' is.')] },
+        {
+          type: 'paragraph',
+          content: [
+            text('alot ', [suggestion('alot of', 'a lot of')]),
+            text('of', [suggestion('alot of', 'a lot of'), { type: 'bold' }]),
+            text(' work'),
+          ],
+        },
+      ],
+    });
+    const ranges = getSuggestionRanges(doc);
+
+    expect(ranges.map(range => doc.textBetween(range.from, range.to))).toEqual(['their', 'alot of']);
+    expect(ranges[1].attrs).toMatchObject({ original: 'alot of', suggestion: 'a lot of' });
+  });
+
+  it('keeps neighbouring highlights for different suggestions apart', () => {
+    const doc = Node.fromJSON(schema, {
+      type: 'doc',
+      content: [{ type: 'paragraph', content: [text('teh', [suggestion('teh', 'the')]), text('cat', [suggestion('cat', 'cats')])] }],
+    });
+
+    expect(getSuggestionRanges(doc)).toHaveLength(2);
+  });
+});
+
+describe('findAdjacentSuggestion', () => {
+  const attrs = { original: 'a', suggestion: 'b' };
+  const ranges = [{ from: 5, to: 10, attrs }, { from: 20, to: 25, attrs }, { from: 40, to: 45, attrs }];
+
+  it('moves from the cursor to the next and previous suggestion', () => {
+    expect(findAdjacentSuggestion(ranges, 12, 1)?.from).toBe(20);
+    expect(findAdjacentSuggestion(ranges, 12, -1)?.from).toBe(5);
+  });
+
+  it('moves past the suggestion the cursor is in', () => {
+    expect(findAdjacentSuggestion(ranges, 22, 1)?.from).toBe(40);
+    expect(findAdjacentSuggestion(ranges, 22, -1)?.from).toBe(5);
+  });
+
+  it('wraps around the document', () => {
+    expect(findAdjacentSuggestion(ranges, 42, 1)?.from).toBe(5);
+    expect(findAdjacentSuggestion(ranges, 6, -1)?.from).toBe(40);
+    expect(findAdjacentSuggestion([], 6, 1)).toBeNull();
+  });
+});
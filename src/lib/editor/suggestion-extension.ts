@@ -1,14 +1,17 @@
 /**
  * @file This file contains a custom Tiptap mark extension for highlighting
- * writing suggestions within the editor.
+ * writing suggestions within the editor. Alt+Down and Alt+Up move the cursor
+ * to the next and previous highlighted suggestion.
  */
 import { Mark, mergeAttributes } from '@tiptap/core';
+import { type Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { TextSelection, type Transaction } from '@tiptap/pm/state';
 
 export interface SuggestionOptions {
   HTMLAttributes: Record<string, unknown>;
 }
 
-export type SuggestionCategory = 'grammar' | 'academic_voice' | 'evidence' | 'argument' | 'logical_flow' | 'consistency' | 'claim_support' | 'fallacy';
+export type SuggestionCategory = 'grammar' | 'academic_voice' | 'evidence' | 'argument' | 'logical_flow' | 'consistency' | 'claim_support' | 'fallacy' | 'counterargument';
 
 export interface SuggestionAttributes {
   suggestion?: string;
@@ -17,6 +20,15 @@ export interface SuggestionAttributes {
   category?: SuggestionCategory;
 }
 
+/**
+ * A highlighted suggestion and where it is in the document.
+ */
+export interface SuggestionRange {
+  from: number;
+  to: number;
+  attrs: SuggestionAttributes;
+}
+
 declare module '@tiptap/core' {
   interface Commands<ReturnType> {
     suggestion: {
@@ -32,10 +44,87 @@ declare module '@tiptap/core' {
        * Unset a suggestion mark
        */
       unsetSuggestion: () => ReturnType;
+      /**
+       * Move the cursor into the next suggestion, wrapping around. Returns false if there are none
+       */
+      goToNextSuggestion: () => ReturnType;
+      /**
+       * Move the cursor into the previous suggestion, wrapping around. Returns false if there are none
+       */
+      goToPreviousSuggestion: () => ReturnType;
     };
   }
 }
 
+/**
+ * Lists the highlighted suggestions in document order. A highlight split
+ * across text nodes, e.g. by bold text, counts as one suggestion.
+ *
+ * @param doc - The ProseMirror document
+ * @returns The range and attributes of each suggestion
+ */
+export function getSuggestionRanges(doc: ProseMirrorNode): SuggestionRange[] {
+  const ranges: SuggestionRange[] = [];
+
+  doc.descendants((node, pos) => {
+    const mark = node.isText && node.marks.find(m => m.type.name === 'suggestion');
+    if (!mark) return;
+
+    const previous = ranges[ranges.length - 1];
+    const sameAsPrevious = previous && previous.to === pos
+      && (Object.keys(mark.attrs) as (keyof SuggestionAttributes)[]).every(key => previous.attrs[key] === mark.attrs[key]);
+    if (sameAsPrevious) {
+      previous.to = pos + node.nodeSize;
+    } else {
+      ranges.push({ from: pos, to: pos + node.nodeSize, attrs: mark.attrs as SuggestionAttributes });
+    }
+  });
+
+  return ranges;
+}
+
+/**
+ * Finds the suggestion after or before the one at a position, wrapping around
+ * the document.
+ *
+ * @param ranges - The suggestions, from `getSuggestionRanges`
+ * @param pos - The current position, usually the cursor
+ * @param direction - 1 for the next suggestion, -1 for the previous one
+ * @returns The suggestion, or null if there are none
+ */
+export function findAdjacentSuggestion(ranges: SuggestionRange[], pos: number, direction: 1 | -1): SuggestionRange | null {
+  if (ranges.length === 0) return null;
+
+  // Inside a suggestion, count from its start so the next one is a different suggestion
+  const current = ranges.find(range => range.from <= pos && pos <= range.to);
+  const pivot = current ? current.from : pos;
+
+  if (direction === 1) {
+    return ranges.find(range => range.from > pivot) || ranges[0];
+  }
+  return [...ranges].reverse().find(range => range.from < pivot) || ranges[ranges.length - 1];
+}
+
+/**
+ * Puts the cursor just inside the adjacent suggestion, where it counts as
+ * being in the highlight.
+ */
+function moveToSuggestion(
+  doc: ProseMirrorNode,
+  pos: number,
+  direction: 1 | -1,
+  tr: Transaction,
+  dispatch: ((tr: Transaction) => void) | undefined,
+): boolean {
+  const target = findAdjacentSuggestion(getSuggestionRanges(doc), pos, direction);
+  if (!target) return false;
+
+  if (dispatch) {
+    tr.setSelection(TextSelection.create(tr.doc, Math.min(target.from + 1, target.to))).scrollIntoView();
+  }
+  return true;
+}
+
 export const Suggestion = Mark.create<SuggestionOptions, SuggestionAttributes>({
   name: 'suggestion',
 
@@ -108,6 +197,19 @@ export const Suggestion = Mark.create<SuggestionOptions, SuggestionAttributes>({
       unsetSuggestion: () => ({ commands }) => {
         return commands.unsetMark(this.name);
       },
+      goToNextSuggestion: () => ({ state, tr, dispatch }) => {
+        return moveToSuggestion(state.doc, state.selection.from, 1, tr, dispatch);
+      },
+      goToPreviousSuggestion: () => ({ state, tr, dispatch }) => {
+        return moveToSuggestion(state.doc, state.selection.from, -1, tr, dispatch);
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Alt-ArrowDown': () => this.editor.commands.goToNextSuggestion(),
+      'Alt-ArrowUp': () => this.editor.commands.goToPreviousSuggestion(),
     };
   },
 }); 
\ No newline at end of file
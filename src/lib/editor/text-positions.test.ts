@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { getSchema, type JSONContent } from '@tiptap/react';
+import { Node } from '@tiptap/pm/model';
+import StarterKit from '@tiptap/starter-kit';
+import { createTextPositionMap } from '@/lib/editor/text-positions';
+
+const schema = getSchema([StarterKit]);
+
+const text = (value: string): JSONContent => ({ type: 'text', text: value });
+const paragraph = (...content: JSONContent[]): JSONContent => ({ type: 'paragraph', content });
+const createDoc = (...content: JSONContent[]) => Node.fromJSON(schema, { type: 'doc', content });
+
+describe('createTextPositionMap', () => {
+  it('builds the same text as getText()', () => {
+    const doc = createDoc(
+      { type: 'heading', attrs: { level: 1 }, content: [text('Title')] },
+      paragraph(text('Line one'), { type: 'hardBreak' }, text('Line two')),
+    );
+    expect(createTextPositionMap(doc).text).toBe('Title\n\nLine one\nLine two');
+  });
+
+  it('maps offsets in the first paragraph', () => {
+    const doc = createDoc(paragraph(text('their is a problem')));
+    const map = createTextPositionMap(doc);
+
+    expect(map.toDocRange(0, 8)).toEqual({ from: 1, to: 9 });
+    expect(doc.textBetween(1, 9)).toBe('their is');
+  });
+
+  it('accounts for block separators in later paragraphs', () => {
+    const doc = createDoc(paragraph(text('First.')), paragraph(text('their is')));
+    const map = createTextPositionMap(doc);
+    const start = map.text.indexOf('their');
+    const range = map.toDocRange(start, start + 8)!;
+
+    expect(doc.textBetween(range.from, range.to)).toBe('their is');
+  });
+
+  it('maps ranges across marks and hard breaks', () => {
+    const doc = createDoc(paragraph(
+      text('A '),
+      { type: 'text', text: 'bold', marks: [{ type: 'bold' }] },
+      text(' word'),
+      { type: 'hardBreak' },
+      text('next line'),
+    ));
+    const map = createTextPositionMap(doc);
+    const start = map.text.indexOf('bold');
+    const range = map.toDocRange(start, map.text.indexOf('next') + 4)!;
+
+    expect(doc.textBetween(range.from, range.to, undefined, '\n')).toBe('bold word\nnext');
+  });
+
+  it('maps ranges in nested lists', () => {
+    const doc = createDoc({
+      type: 'bulletList',
+      content: [{ type: 'listItem', content: [paragraph(text('Apples')), { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('Pears'))] }] }] }],
+    });
+    const map = createTextPositionMap(doc);
+    const start = map.text.indexOf('Pears');
+    const range = map.toDocRange(start, start + 5)!;
+
+    expect(doc.textBetween(range.from, range.to)).toBe('Pears');
+  });
+
+  it('returns null for ranges that start or end in a separator', () => {
+    const doc = createDoc(paragraph(text('One')), paragraph(text('Two')));
+    const map = createTextPositionMap(doc);
+
+    expect(map.toDocRange(3, 6)).toBeNull();
+    expect(map.toDocRange(1, 4)).toBeNull();
+    expect(map.toDocRange(0, 0)).toBeNull();
+    expect(map.toDocRange(0, 99)).toBeNull();
+  });
+});
+
+describe('toTextRange', () => {
+  it('maps a selection back to the offsets of its text', () => {
+    const doc = createDoc(paragraph(text('First.')), paragraph(text('A '), { type: 'text', text: 'bold', marks: [{ type: 'bold' }] }, text(' word')));
+    const map = createTextPositionMap(doc);
+    const start = map.text.indexOf('bold');
+    const range = map.toDocRange(start, start + 9)!;
+
+    expect(map.toTextRange(range.from, range.to)).toEqual({ start, end: start + 9 });
+  });
+
+  it('moves ends outside text content to the nearest text', () => {
+    const doc = createDoc(paragraph(text('One')), paragraph(text('Two')));
+    const map = createTextPositionMap(doc);
+
+    expect(map.toTextRange(0, doc.content.size)).toEqual({ start: 0, end: 8 });
+    expect(map.toTextRange(4, 8)).toEqual({ start: 5, end: 7 });
+  });
+
+  it('returns null for ranges without text', () => {
+    const doc = createDoc(paragraph(text('One')), paragraph(text('Two')));
+
+    expect(createTextPositionMap(doc).toTextRange(4, 6)).toBeNull();
+  });
+});
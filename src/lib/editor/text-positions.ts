@@ -0,0 +1,108 @@
+/**
+ * @file Maps character offsets in the editor's plain text to ProseMirror
+ * document positions and back. Suggestions come back with offsets into the text from
+ * `editor.getText()`, which inserts block separators and serializes leaf nodes
+ * like hard breaks, so the offsets cannot be used as positions directly.
+ */
+
+import { getTextSerializersFromSchema } from '@tiptap/react';
+import { type Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+/**
+ * A run of plain text. Text node runs record the document position of their
+ * first character; separators and serialized leaf nodes have no position.
+ */
+interface TextSegment {
+  start: number;
+  end: number;
+  pos: number | null;
+}
+
+export interface TextPositionMap {
+  /** The document text, identical to `editor.getText()`. */
+  text: string;
+  /**
+   * Converts a text range to a document range.
+   *
+   * @param start - The offset of the first character
+   * @param end - The offset just after the last character
+   * @returns The document range, or null if the range starts or ends outside text content
+   */
+  toDocRange(start: number, end: number): { from: number; to: number } | null;
+  /**
+   * Converts a document range, such as a selection, to a text range. Ends
+   * that fall outside text content are moved inward to the nearest text.
+   *
+   * @param from - The document position where the range starts
+   * @param to - The document position where the range ends
+   * @returns The text range, or null if the range contains no text
+   */
+  toTextRange(from: number, to: number): { start: number; end: number } | null;
+}
+
+/**
+ * Builds the plain text of a document the same way `editor.getText()` does,
+ * recording where each run of text sits in the document.
+ *
+ * @param doc - The ProseMirror document
+ * @param blockSeparator - The separator between blocks, `\n\n` like `getText()`
+ * @returns The text and a function mapping offsets back to positions
+ */
+export function createTextPositionMap(doc: ProseMirrorNode, blockSeparator = '\n\n'): TextPositionMap {
+  const textSerializers = getTextSerializersFromSchema(doc.type.schema);
+  const range = { from: 0, to: doc.content.size };
+  const segments: TextSegment[] = [];
+  let text = '';
+
+  const append = (value: string, pos: number | null) => {
+    if (!value) return;
+    segments.push({ start: text.length, end: text.length + value.length, pos });
+    text += value;
+  };
+
+  doc.nodesBetween(range.from, range.to, (node, pos, parent, index) => {
+    if (node.isBlock && pos > range.from) {
+      append(blockSeparator, null);
+    }
+
+    const textSerializer = textSerializers[node.type.name];
+    if (textSerializer) {
+      if (parent) {
+        append(textSerializer({ node, pos, parent, index, range }), null);
+      }
+      return false;
+    }
+
+    if (node.isText) {
+      append(node.text || '', pos);
+    }
+  });
+
+  const toDocRange = (start: number, end: number) => {
+    if (start < 0 || end > text.length || start >= end) return null;
+
+    const first = segments.find(segment => start >= segment.start && start < segment.end);
+    const last = segments.find(segment => end > segment.start && end <= segment.end);
+    if (first?.pos == null || last?.pos == null) return null;
+
+    return {
+      from: first.pos + (start - first.start),
+      to: last.pos + (end - last.start),
+    };
+  };
+
+  const toTextRange = (from: number, to: number) => {
+    const textSegments = segments.filter(
+      (segment): segment is TextSegment & { pos: number } => segment.pos !== null,
+    );
+    const first = textSegments.find(segment => segment.pos + (segment.end - segment.start) > from);
+    const last = [...textSegments].reverse().find(segment => segment.pos < to);
+    if (!first || !last) return null;
+
+    const start = first.start + Math.max(0, from - first.pos);
+    const end = last.start + Math.min(last.end - last.start, to - last.pos);
+    return start < end ? { start, end } : null;
+  };
+
+  return { text, toDocRange, toTextRange };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { buildStructureMap, getBodyParagraphs, getStructureIssues, type StructureResponseParagraph } from '@/lib/essay-structure';
+import { findTextParagraphs } from '@/lib/document-text';
+
+const text = [
+  'Sleep and School',
+  'Teens are tired. Schools should start later.',
+  'Sleep helps memory. It also helps mood.',
+  'I once fell asleep in class.',
+  'Later starts would help everyone.',
+].join('\n\n');
+
+const response: StructureResponseParagraph[] = [
+  { role: 'introduction', keySentence: { sentence: 'Schools should start later.', start: 17, end: 44 } },
+  { role: 'body', keySentence: { sentence: 'Sleep helps memory.', start: 0, end: 19 } },
+  { role: 'body', keySentence: null },
+  { role: 'conclusion', keySentence: { sentence: 'Later starts would help everyone.', start: 0, end: 33 } },
+];
+
+describe('buildStructureMap', () => {
+  it('labels each paragraph and moves key sentences to document offsets', () => {
+    const map = buildStructureMap(findTextParagraphs(text), response);
+
+    expect(map.map(entry => entry.label)).toEqual(['Introduction', 'Body paragraph 1', 'Body paragraph 2', 'Conclusion']);
+    for (const entry of map) {
+      expect(text.slice(entry.paragraph.start, entry.paragraph.end)).toBe(entry.paragraph.sentence);
+      if (entry.keySentence) {
+        expect(text.slice(entry.keySentence.start, entry.keySentence.end)).toBe(entry.keySentence.sentence);
+      }
+    }
+    expect(map[2].keySentence).toBeNull();
+  });
+
+  it('skips paragraphs missing from the response', () => {
+    expect(buildStructureMap(findTextParagraphs(text), response.slice(0, 2))).toHaveLength(2);
+  });
+});
+
+describe('getStructureIssues', () => {
+  it('flags missing thesis and topic sentences', () => {
+    const map = buildStructureMap(findTextParagraphs(text), [
+      { ...response[0], keySentence: null },
+      ...response.slice(1),
+    ]);
+
+    expect(getStructureIssues(map)).toEqual([
+      { message: 'No clear thesis in the introduction.', paragraphIndex: 0 },
+      { message: 'Body paragraph 2 has no topic sentence.', paragraphIndex: 2 },
+    ]);
+  });
+
+  it('flags missing parts of the essay', () => {
+    const map = buildStructureMap(findTextParagraphs(text), [response[1], response[2]]);
+
+    expect(getStructureIssues(map).map(issue => issue.message)).toEqual([
+      'The essay has no introduction.',
+      'Body paragraph 2 has no topic sentence.',
+      'The essay has no conclusion.',
+    ]);
+  });
+
+  it('returns nothing for an empty map', () => {
+    expect(getStructureIssues([])).toEqual([]);
+  });
+});
+
+describe('getBodyParagraphs', () => {
+  const paragraphs = findTextParagraphs(text);
+
+  it('uses the roles from a current structure map', () => {
+    const map = buildStructureMap(paragraphs, response);
+
+    expect(getBodyParagraphs(paragraphs, map, 'Schools should start later.').map(p => [p.label, p.paragraph.sentence])).toEqual([
+      ['Body paragraph 1', 'Sleep helps memory. It also helps mood.'],
+      ['Body paragraph 2', 'I once fell asleep in class.'],
+    ]);
+  });
+
+  it('skips the thesis paragraph when there is no current map', () => {
+    const staleMap = buildStructureMap(paragraphs.slice(0, 2), response);
+    const bodies = getBodyParagraphs(paragraphs, staleMap, 'Schools should start later.');
+
+    expect(bodies.map(p => p.paragraph.sentence)).toEqual([
+      'Sleep helps memory. It also helps mood.',
+      'I once fell asleep in class.',
+      'Later starts would help everyone.',
+    ]);
+    expect(text.slice(bodies[0].paragraph.start, bodies[0].paragraph.end)).toBe(bodies[0].paragraph.sentence);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @file Helpers for the essay structure map. The essay-structure function
+ * labels each paragraph and finds its thesis or topic sentence; these helpers
+ * place the result in the draft and describe the parts that are missing.
+ */
+
+export type ParagraphRole = 'introduction' | 'body' | 'conclusion';
+
+/**
+ * A sentence quoted from the draft, with its offsets in the text.
+ */
+export interface StructureSentence {
+  sentence: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * One paragraph as returned by the essay-structure function. Key sentence
+ * offsets are relative to the paragraph.
+ */
+export interface StructureResponseParagraph {
+  role: ParagraphRole;
+  keySentence: StructureSentence | null;
+}
+
+/**
+ * One paragraph of the structure map, with offsets into the document text.
+ */
+export interface StructureMapEntry {
+  index: number;
+  role: ParagraphRole;
+  label: string; // e.g. "Body paragraph 2"
+  paragraph: StructureSentence; // The whole paragraph
+  keySentence: StructureSentence | null; // Thesis, topic sentence or restated claim
+}
+
+export interface StructureIssue {
+  message: string;
+  paragraphIndex: number | null; // The paragraph the issue is about, if any
+}
+
+/**
+ * Places the essay-structure response in the document.
+ *
+ * @param paragraphs - The paragraphs that were analyzed, from `findTextParagraphs`
+ * @param response - The function's paragraphs, in the same order
+ * @returns The structure map, numbering body paragraphs from 1
+ */
+export function buildStructureMap(
+  paragraphs: { start: number; end: number; text: string }[],
+  response: StructureResponseParagraph[],
+): StructureMapEntry[] {
+  let bodyCount = 0;
+
+  return paragraphs.flatMap((paragraph, index) => {
+    const analyzed = response[index];
+    if (!analyzed) return [];
+
+    const label = analyzed.role === 'introduction'
+      ? 'Introduction'
+      : analyzed.role === 'conclusion' ? 'Conclusion' : `Body paragraph ${++bodyCount}`;
+    const { keySentence } = analyzed;
+
+    return [{
+      index,
+      role: analyzed.role,
+      label,
+      paragraph: { sentence: paragraph.text, start: paragraph.start, end: paragraph.end },
+      keySentence: keySentence && {
+        sentence: keySentence.sentence,
+        start: paragraph.start + keySentence.start,
+        end: paragraph.start + keySentence.end,
+      },
+    }];
+  });
+}
+
+/**
+ * Describes the parts of a standard essay that the structure map is missing.
+ *
+ * @param map - The structure map
+ * @returns The issues in essay order
+ */
+export function getStructureIssues(map: StructureMapEntry[]): StructureIssue[] {
+  if (map.length === 0) return [];
+
+  const issues: StructureIssue[] = [];
+  const introduction = map.find(entry => entry.role === 'introduction');
+  const conclusion = map.find(entry => entry.role === 'conclusion');
+
+  if (!introduction) {
+    issues.push({ message: 'The essay has no introduction.', paragraphIndex: null });
+  } else if (!introduction.keySentence) {
+    issues.push({ message: 'No clear thesis in the introduction.', paragraphIndex: introduction.index });
+  }
+
+  const bodies = map.filter(entry => entry.role === 'body');
+  if (bodies.length === 0) {
+    issues.push({ message: 'The essay has no body paragraphs.', paragraphIndex: null });
+  }
+  bodies.forEach(body => {
+    if (!body.keySentence) {
+      issues.push({ message: `${body.label} has no topic sentence.`, paragraphIndex: body.index });
+    }
+  });
+
+  if (!conclusion) {
+    issues.push({ message: 'The essay has no conclusion.', paragraphIndex: null });
+  } else if (!conclusion.keySentence) {
+    issues.push({ message: 'The conclusion does not restate the thesis.', paragraphIndex: conclusion.index });
+  }
+
+  return issues;
+}
+
+/**
+ * A body paragraph checked against the thesis.
+ */
+export interface BodyParagraph {
+  label: string;
+  paragraph: StructureSentence;
+}
+
+/**
+ * The thesis-analyzer alignment result: which body paragraphs develop each
+ * claim of the thesis. Paragraph indexes refer to the paragraphs sent.
+ */
+export interface ThesisAlignment {
+  claims: { claim: string; paragraphs: number[] }[];
+  paragraphs: { index: number; claims: number[]; explanation: string }[];
+}
+
+/**
+ * Picks the body paragraphs of the current draft to check against the
+ * thesis. While the structure map still has one entry per paragraph, its
+ * roles decide; otherwise every paragraph except the one with the thesis is
+ * used.
+ *
+ * @param paragraphs - The draft's paragraphs, from `findTextParagraphs`
+ * @param map - The structure map, if the essay was mapped
+ * @param thesis - The thesis statement
+ * @returns The body paragraphs, numbered from 1
+ */
+export function getBodyParagraphs(
+  paragraphs: { start: number; end: number; text: string }[],
+  map: StructureMapEntry[] | null,
+  thesis: string,
+): BodyParagraph[] {
+  const isCurrentMap = map !== null && map.length === paragraphs.length;
+
+  return paragraphs
+    .filter((paragraph, index) => (isCurrentMap ? map[index].role === 'body' : !paragraph.text.includes(thesis.trim())))
+    .map((paragraph, index) => ({
+      label: `Body paragraph ${index + 1}`,
+      paragraph: { sentence: paragraph.text, start: paragraph.start, end: paragraph.end },
+    }));
+}
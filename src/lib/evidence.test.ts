@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { getSchema, type JSONContent } from '@tiptap/react';
+import { Node } from '@tiptap/pm/model';
+import StarterKit from '@tiptap/starter-kit';
+import { findUnattributedEvidence, mergeEvidenceSuggestions } from '@/lib/evidence';
+import { extractQuotes } from '@/lib/editor/quotes';
+
+const schema = getSchema([StarterKit]);
+
+const paragraph = (value: string): JSONContent => ({ type: 'paragraph', content: [{ type: 'text', text: value }] });
+
+// Checks text written as one paragraph per line
+const checkText = (text: string, sources: Parameters<typeof findUnattributedEvidence>[2] = []) => {
+  const doc = Node.fromJSON(schema, { type: 'doc', content: text.split('\n\n').map(paragraph) });
+  return findUnattributedEvidence(text, extractQuotes(doc), sources);
+};
+
+const walker = { id: 'walker', author: 'Walker, Matthew', title: 'Why We Sleep', publisher: '', year: '2017', url: '', pages: '' };
+
+describe('findUnattributedEvidence', () => {
+  it('flags a quote with no signal phrase or citation', () => {
+    const text = 'Teens are tired. "Sleep is the best medicine." Schools should change.';
+    const [finding] = checkText(text);
+
+    expect(finding).toMatchObject({ original: '"Sleep is the best medicine."', sourceId: null });
+    expect(text.slice(finding.start, finding.end)).toBe(finding.original);
+  });
+
+  it('accepts quotes with a signal phrase or a citation', () => {
+    expect(checkText('According to one doctor, "sleep is the best medicine."')).toEqual([]);
+    expect(checkText('"Sleep is the best medicine," the doctor writes.')).toEqual([]);
+    expect(checkText('Sleep helps. "It is the best medicine" (Walker 47).')).toEqual([]);
+    expect(checkText('Sleep helps. "It is the best medicine." (Walker 47)')).toEqual([]);
+  });
+
+  it('links a named but uncited quote to its source', () => {
+    const [finding] = checkText('Walker argues that "sleep is the best medicine."', [walker]);
+
+    expect(finding).toMatchObject({ original: '"sleep is the best medicine."', sourceId: 'walker' });
+  });
+
+  it('flags the sentence of an unattributed statistic once', () => {
+    const text = 'Sleep matters. About 73% of teens sleep too little, and 3 out of 4 are tired. I agree.';
+    const findings = checkText(text);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].original).toBe('About 73% of teens sleep too little, and 3 out of 4 are tired.');
+    expect(text.slice(findings[0].start, findings[0].end)).toBe(findings[0].original);
+  });
+
+  it('accepts attributed statistics', () => {
+    expect(checkText('According to the CDC, 73% of teens sleep too little.')).toEqual([]);
+    expect(checkText('About 73% of teens sleep too little (Walker 12).')).toEqual([]);
+    expect(checkText('Walker counts one in five teens as sleepy.', [walker])).toEqual([]);
+  });
+
+  it('reads curly quotes and block quotes', () => {
+    expect(checkText('Teens are tired. “Sleep is the best medicine.” Schools should change.')[0])
+      .toMatchObject({ original: '“Sleep is the best medicine.”' });
+
+    const quoted = Node.fromJSON(schema, {
+      type: 'doc',
+      content: [
+        paragraph('As Walker explains:'),
+        { type: 'blockquote', content: [paragraph('Sleep is the best medicine. (Walker 47)')] },
+        paragraph('Sleep matters.'),
+        { type: 'blockquote', content: [paragraph('Every species sleeps.')] },
+      ],
+    });
+    const text = 'As Walker explains:\n\nSleep is the best medicine. (Walker 47)\n\nSleep matters.\n\nEvery species sleeps.';
+
+    expect(findUnattributedEvidence(text, extractQuotes(quoted)).map(finding => finding.original)).toEqual(['Every species sleeps.']);
+  });
+
+  it('ignores years and numbers that are not statistics', () => {
+    expect(checkText('In 2017 I read 3 books about sleep in the morning.')).toEqual([]);
+  });
+});
+
+describe('mergeEvidenceSuggestions', () => {
+  const finding = (start: number, end: number, explanation: string) => ({ start, end, explanation });
+
+  it('joins coaching to the finding for the same quote and drops overlapping claims', () => {
+    const merged = mergeEvidenceSuggestions(
+      [finding(10, 20, 'Cite this quote.')],
+      [finding(10, 20, 'Explain it afterwards.'), finding(40, 50, 'Introduce this quote.')],
+      [finding(5, 25, 'Overlaps the quote.'), finding(60, 80, 'Source this fact.'), finding(0, 8, 'Source this too.')],
+    );
+
+    expect(merged).toEqual([
+      finding(0, 8, 'Source this too.'),
+      finding(10, 20, 'Cite this quote. Explain it afterwards.'),
+      finding(40, 50, 'Introduce this quote.'),
+      finding(60, 80, 'Source this fact.'),
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @file A deterministic checker for evidence that is not attributed: quotes
+ * with neither a signal phrase nor a parenthetical citation, and statistics
+ * stated without saying where they come from. It runs in the browser
+ * alongside the evidence-mentor function, which coaches how quotes are
+ * integrated and finds factual claims that need a source.
+ */
+
+import { splitAuthor, type SourceDetails } from '@/lib/citations';
+import { type Quote } from '@/lib/editor/quotes';
+import { splitSentences } from '@/lib/readability';
+import { type Suggestion } from '@/lib/types';
+
+/**
+ * A piece of evidence that needs a source, optionally linked to the source
+ * in the document's library it most likely comes from.
+ */
+export type EvidenceFinding = Suggestion & { sourceId: string | null };
+
+type LibrarySource = SourceDetails & { id: string };
+
+// Percentages, large round numbers and ratios such as "3 out of 4" or "one in five"
+const NUMBER_WORD = '(?:\\d[\\d,]*(?:\\.\\d+)?|one|two|three|four|five|six|seven|eight|nine|ten)';
+const STATISTIC_PATTERN = new RegExp(
+  `\\b\\d[\\d,]*(?:\\.\\d+)?\\s?(?:%|percent\\b|per cent\\b)`
+  + `|\\b\\d[\\d,]*(?:\\.\\d+)?\\s+(?:thousand|million|billion)\\b`
+  + `|\\b${NUMBER_WORD}\\s+(?:out of|in)\\s+(?:every\\s+)?${NUMBER_WORD}\\b`,
+  'gi',
+);
+
+const SIGNAL_VERBS = [
+  'says', 'said', 'writes', 'wrote', 'notes', 'noted', 'argues', 'argued', 'explains', 'explained',
+  'states', 'stated', 'claims', 'claimed', 'reports', 'reported', 'observes', 'observed', 'suggests',
+  'suggested', 'asserts', 'asserted', 'points out', 'pointed out', 'insists', 'warns', 'warned',
+  'adds', 'added', 'concludes', 'concluded', 'describes', 'described', 'puts it',
+];
+const SIGNAL_PHRASE = new RegExp(`\\baccording to\\b|\\b(?:${SIGNAL_VERBS.join('|')})\\b`, 'i');
+const PARENTHETICAL_CITATION = /\([^()\n]*[A-Za-z0-9][^()\n]*\)/;
+
+const UNCITED_QUOTE_EXPLANATION = 'Readers can\'t tell where this quote comes from. Introduce it with who said it, like "According to Smith, ...", or add a citation after it.';
+const UNATTRIBUTED_STATISTIC_EXPLANATION = 'This statistic needs a source. Say where the number comes from, like "According to the CDC, ...", or add a citation.';
+
+/**
+ * Finds the sentence or sentences that contain a range of the text.
+ */
+function getSentenceAround(text: string, start: number, end: number): { start: number; end: number } {
+  const paragraphStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', end);
+  const paragraphEnd = nextBreak === -1 ? text.length : nextBreak;
+  const sentences = splitSentences(text, paragraphStart, paragraphEnd);
+
+  const first = sentences.find(sentence => sentence.end > start);
+  const last = [...sentences].reverse().find(sentence => sentence.start < end);
+  return { start: Math.min(first?.start ?? start, start), end: Math.max(last?.end ?? end, end) };
+}
+
+/**
+ * Returns a citation that directly follows a sentence's closing punctuation,
+ * as in `"..." (Smith 4)`, or an empty string.
+ */
+function getTrailingCitation(text: string, sentenceEnd: number): string {
+  return text.slice(sentenceEnd).match(/^[ \t]*\([^()\n]*\)/)?.[0] || '';
+}
+
+/**
+ * Returns the text that introduces a quote and the text that follows it up to
+ * its citation. Inline quotes are read within their sentence; block quotes are
+ * introduced by the sentence before them and cited at their end.
+ */
+function getQuoteSurroundings(text: string, quote: Quote): { before: string; after: string } {
+  if (quote.type === 'block') {
+    const lineEnd = text.indexOf('\n', quote.end);
+    const ending = text.slice(quote.start, lineEnd === -1 ? text.length : lineEnd);
+    return { before: quote.precedingSentence, after: ending.match(/\([^()\n]*\)\s*$/)?.[0] || '' };
+  }
+
+  const sentence = getSentenceAround(text, quote.start, quote.end);
+  return {
+    before: text.slice(sentence.start, quote.start),
+    after: text.slice(quote.end, sentence.end) + getTrailingCitation(text, sentence.end),
+  };
+}
+
+/**
+ * Finds the library source a passage names by author or title.
+ */
+function findNamedSource(passage: string, sources: LibrarySource[]): LibrarySource | null {
+  const lower = passage.toLowerCase();
+  return sources.find(source => {
+    const { last } = splitAuthor(source.author);
+    const shortTitle = source.title.split(':')[0].trim();
+    return [last, shortTitle].some(name => name.length > 1 && lower.includes(name.toLowerCase()));
+  }) || null;
+}
+
+/**
+ * Checks a document's quotes and statistics for attribution.
+ *
+ * @param text - The document text
+ * @param quotes - The document's quotes, from `extractQuotes`
+ * @param sources - The document's source library
+ * @returns Quotes and statistic sentences that need a source, in document order
+ */
+export function findUnattributedEvidence(text: string, quotes: Quote[], sources: LibrarySource[] = []): EvidenceFinding[] {
+  const findings: EvidenceFinding[] = [];
+
+  for (const quote of quotes) {
+    const { start, end } = quote;
+    const { before, after } = getQuoteSurroundings(text, quote);
+
+    const hasCitation = PARENTHETICAL_CITATION.test(after);
+    const hasSignalPhrase = SIGNAL_PHRASE.test(before) || SIGNAL_PHRASE.test(after);
+    const namedSource = findNamedSource(before + after, sources);
+
+    if (!hasCitation && !hasSignalPhrase) {
+      findings.push({
+        original: quote.text,
+        suggestion: '',
+        explanation: UNCITED_QUOTE_EXPLANATION,
+        start,
+        end,
+        sourceId: namedSource?.id || null,
+      });
+    } else if (!hasCitation && namedSource) {
+      // The author is named, but the quote also needs a citation to lead to the works cited list
+      findings.push({
+        original: quote.text,
+        suggestion: '',
+        explanation: `You name the source, but this quote still needs an in-text citation after it so readers can find "${namedSource.title}" in your works cited.`,
+        start,
+        end,
+        sourceId: namedSource.id,
+      });
+    }
+  }
+
+  const flaggedSentences = new Set<number>();
+  for (const match of text.matchAll(STATISTIC_PATTERN)) {
+    const start = match.index!;
+    if (quotes.some(quote => start >= quote.start && start < quote.end)) continue;
+
+    const sentence = getSentenceAround(text, start, start + match[0].length);
+    if (flaggedSentences.has(sentence.start)) continue;
+
+    const sentenceText = text.slice(sentence.start, sentence.end);
+    const isAttributed = PARENTHETICAL_CITATION.test(sentenceText + getTrailingCitation(text, sentence.end))
+      || SIGNAL_PHRASE.test(sentenceText)
+      || findNamedSource(sentenceText, sources) !== null;
+    if (isAttributed) continue;
+
+    flaggedSentences.add(sentence.start);
+    findings.push({
+      original: sentenceText,
+      suggestion: '',
+      explanation: UNATTRIBUTED_STATISTIC_EXPLANATION,
+      start: sentence.start,
+      end: sentence.end,
+      sourceId: null,
+    });
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Combines the evidence findings into one suggestion per passage. Coaching on
+ * how a quote is integrated joins the attribution finding for the same quote,
+ * and claims overlapping a quote or statistic already flagged are dropped.
+ *
+ * @param attribution - Findings from `findUnattributedEvidence`
+ * @param integration - Quote integration coaching from evidence-mentor
+ * @param claims - Unsourced claims from evidence-mentor's claims mode
+ * @returns The suggestions in document order
+ */
+export function mergeEvidenceSuggestions<T extends { start?: number; end?: number; explanation: string }>(
+  attribution: T[],
+  integration: T[],
+  claims: T[],
+): T[] {
+  const merged = attribution.map(suggestion => ({ ...suggestion }));
+  const overlaps = (a: T, b: T) =>
+    a.start !== undefined && a.end !== undefined && b.start !== undefined && b.end !== undefined
+    && a.start < b.end && b.start < a.end;
+
+  integration.forEach(suggestion => {
+    const sameQuote = merged.find(existing => existing.start === suggestion.start && existing.end === suggestion.end);
+    if (sameQuote) {
+      sameQuote.explanation = `${sameQuote.explanation} ${suggestion.explanation}`;
+    } else {
+      merged.push(suggestion);
+    }
+  });
+
+  claims.forEach(claim => {
+    if (!merged.some(existing => overlaps(existing, claim))) merged.push(claim);
+  });
+
+  return merged.sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+}
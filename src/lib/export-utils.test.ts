@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { type JSONContent } from '@tiptap/react';
+import { jsonToHtml, jsonToText } from '@/lib/export-utils';
+
+const text = (value: string): JSONContent => ({ type: 'text', text: value });
+const paragraph = (value: string): JSONContent => ({ type: 'paragraph', content: [text(value)] });
+const listItem = (...content: JSONContent[]): JSONContent => ({ type: 'listItem', content });
+
+describe('jsonToText', () => {
+  it('returns an empty string for missing content', () => {
+    expect(jsonToText(undefined as unknown as JSONContent)).toBe('');
+  });
+
+  it('separates paragraphs and headings with blank lines', () => {
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [
+        { type: 'heading', attrs: { level: 1 }, content: [text('Title')] },
+        paragraph('First paragraph.'),
+        paragraph('Second paragraph.'),
+      ],
+    };
+    expect(jsonToText(doc)).toBe('Title\n\nFirst paragraph.\n\nSecond paragraph.\n\n');
+  });
+
+  it('drops formatting marks', () => {
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [{
+        type: 'paragraph',
+        content: [text('A '), { type: 'text', text: 'bold', marks: [{ type: 'bold' }] }, text(' word.')],
+      }],
+    };
+    expect(jsonToText(doc)).toBe('A bold word.\n\n');
+  });
+
+  it('turns hard breaks into line breaks', () => {
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [{ type: 'paragraph', content: [text('Line one'), { type: 'hardBreak' }, text('Line two')] }],
+    };
+    expect(jsonToText(doc)).toBe('Line one\nLine two\n\n');
+  });
+
+  it('bullets and numbers list items on consecutive lines', () => {
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [
+        { type: 'bulletList', content: [listItem(paragraph('Apples')), listItem(paragraph('Pears'))] },
+        { type: 'orderedList', content: [listItem(paragraph('First')), listItem(paragraph('Second'))] },
+      ],
+    };
+    expect(jsonToText(doc)).toBe('• Apples\n• Pears\n\n1. First\n2. Second\n\n');
+  });
+
+  it('indents nested lists', () => {
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [{
+        type: 'bulletList',
+        content: [listItem(paragraph('Parent'), { type: 'bulletList', content: [listItem(paragraph('Child'))] })],
+      }],
+    };
+    expect(jsonToText(doc)).toBe('• Parent\n  • Child\n\n');
+  });
+
+  it('writes citations as their label', () => {
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [{
+        type: 'paragraph',
+        content: [text('Teens need sleep '), { type: 'citation', attrs: { sourceId: 'a', pages: '47', label: '(Walker 47)' } }, text('.')],
+      }],
+    };
+    expect(jsonToText(doc)).toBe('Teens need sleep (Walker 47).\n\n');
+  });
+});
+
+describe('jsonToHtml', () => {
+  it('writes citations as escaped text and the works cited list as a section', () => {
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [
+        { type: 'paragraph', content: [{ type: 'citation', attrs: { sourceId: 'a', pages: '', label: '("Q&A")' } }] },
+        {
+          type: 'worksCited',
+          content: [
+            { type: 'heading', attrs: { level: 2 }, content: [text('Works Cited')] },
+            { type: 'paragraph', content: [text('Walker, Matthew. '), { type: 'text', text: 'Why We Sleep', marks: [{ type: 'italic' }] }, text('.')] },
+          ],
+        },
+      ],
+    };
+    expect(jsonToHtml(doc)).toBe(
+      '<p>(&quot;Q&amp;A&quot;)</p>'
+      + '<section class="works-cited"><h2>Works Cited</h2><p>Walker, Matthew. <em>Why We Sleep</em>.</p></section>',
+    );
+  });
+});
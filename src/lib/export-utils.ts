@@ -1,9 +1,12 @@
 /**
  * @file Utilities for exporting documents to various formats.
- * Supports .docx and .pdf export functionality.
+ * Supports .docx, .pdf, Markdown, plain text and standalone HTML export;
+ * PDFs are rendered server-side.
  */
 
 import { type JSONContent } from '@tiptap/react';
+import { buildDocx } from '@/lib/docx-export';
+import { type AcademicHeader, type PdfLayout } from '@/lib/types';
 
 /**
  * Converts Tiptap JSON content to plain text.
@@ -20,6 +23,14 @@ export function jsonToText(content: JSONContent): string {
     return content.text || '';
   }
 
+  if (content.type === 'hardBreak') {
+    return '\n';
+  }
+
+  if (content.type === 'citation') {
+    return content.attrs?.label || '';
+  }
+
   if (content.type === 'paragraph') {
     if (content.content) {
       text += content.content.map(jsonToText).join('');
@@ -32,10 +43,15 @@ export function jsonToText(content: JSONContent): string {
     text += '\n\n';
   } else if (content.type === 'bulletList' || content.type === 'orderedList') {
     if (content.content) {
-      content.content.forEach((item) => {
-        text += '• ';
+      content.content.forEach((item, index) => {
+        text += content.type === 'orderedList' ? `${index + 1}. ` : '• ';
         if (item.content) {
-          text += item.content.map(jsonToText).join('');
+          // Item paragraphs stay on consecutive lines; nested lists are indented
+          text += item.content
+            .map(child => jsonToText(child).trim())
+            .filter(Boolean)
+            .join('\n')
+            .replace(/\n/g, '\n  ');
         }
         text += '\n';
       });
@@ -48,17 +64,31 @@ export function jsonToText(content: JSONContent): string {
   return text;
 }
 
+/**
+ * Escapes text for use in HTML content and attribute values.
+ * 
+ * @param text - The raw text
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 /**
  * Converts Tiptap JSON content to HTML.
  * 
  * @param content - The Tiptap JSON content
  * @returns HTML representation
  */
-function jsonToHtml(content: JSONContent): string {
+export function jsonToHtml(content: JSONContent): string {
   if (!content) return '';
 
   if (content.type === 'text') {
-    let text = content.text || '';
+    let text = escapeHtml(content.text || '');
     
     // Apply text formatting
     if (content.marks) {
@@ -73,6 +103,12 @@ function jsonToHtml(content: JSONContent): string {
           case 'underline':
             text = `<u>${text}</u>`;
             break;
+          case 'strike':
+            text = `<s>${text}</s>`;
+            break;
+          case 'code':
+            text = `<code>${text}</code>`;
+            break;
         }
       });
     }
@@ -141,6 +177,19 @@ function jsonToHtml(content: JSONContent): string {
     case 'hardBreak':
       html = '<br>';
       break;
+    case 'citation':
+      html = escapeHtml(content.attrs?.label || '');
+      break;
+    case 'worksCited':
+      html = '<section class="works-cited">';
+      if (content.content) {
+        html += content.content.map(jsonToHtml).join('');
+      }
+      html += '</section>';
+      break;
+    case 'horizontalRule':
+      html = '<hr>';
+      break;
     default:
       if (content.content) {
         html = content.content.map(jsonToHtml).join('');
@@ -150,178 +199,257 @@ function jsonToHtml(content: JSONContent): string {
   return html;
 }
 
-
+/**
+ * Escapes characters that Markdown would otherwise treat as formatting.
+ * 
+ * @param text - The raw text
+ * @returns The escaped text
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
 
 /**
- * Exports document content as a PDF file.
- * This uses the browser's print functionality to generate PDF.
+ * Converts inline Tiptap nodes to Markdown. Whitespace at the edges of a
+ * formatted run is moved outside the markers, since `** bold**` does not render.
  * 
- * @param title - Document title
- * @param content - Tiptap JSON content
+ * @param nodes - Inline nodes
+ * @returns Markdown text
  */
-export function exportAsPdf(title: string, content: JSONContent): void {
-  const html = jsonToHtml(content);
-  
-  // Create a new window with the document content
-  const printWindow = window.open('', '_blank');
-  if (!printWindow) {
-    alert('Please allow popups to export as PDF');
-    return;
-  }
+function inlineToMarkdown(nodes: JSONContent[] = []): string {
+  return nodes.map(node => {
+    if (node.type === 'hardBreak') return '  \n';
+    if (node.type === 'citation') return escapeMarkdown(node.attrs?.label || '');
+    if (node.type !== 'text') return inlineToMarkdown(node.content);
 
-  printWindow.document.write(`
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${title}</title>
-    <style>
-        @media print {
-            body { margin: 0; }
-        }
-        body {
-            font-family: 'Times New Roman', serif;
-            line-height: 1.6;
-            max-width: 800px;
-            margin: 0 auto;
-            padding: 20px;
-            color: #333;
-        }
-        h1, h2, h3, h4, h5, h6 {
-            color: #2c3e50;
-            margin-top: 1.5em;
-            margin-bottom: 0.5em;
-            page-break-after: avoid;
-        }
-        p {
-            margin-bottom: 1em;
-        }
-        blockquote {
-            border-left: 4px solid #e2e8f0;
-            padding-left: 1em;
-            margin: 1em 0;
-            font-style: italic;
-            color: #64748b;
-        }
-        ul, ol {
-            padding-left: 2em;
-        }
-        code {
-            background-color: #f1f5f9;
-            padding: 2px 4px;
-            border-radius: 3px;
-            font-family: 'Courier New', monospace;
-        }
-        pre {
-            background-color: #f1f5f9;
-            padding: 1em;
-            border-radius: 5px;
-            overflow-x: auto;
-            page-break-inside: avoid;
-        }
-    </style>
-</head>
-<body>
-    <h1>${title}</h1>
-    ${html}
-</body>
-</html>`);
+    const marks = (node.marks || []).map(mark => mark.type);
+    const raw = node.text || '';
+    if (marks.includes('code')) return `\`${raw}\``;
 
-  printWindow.document.close();
-  printWindow.focus();
-  
-  // Small delay to ensure content is loaded
-  setTimeout(() => {
-    printWindow.print();
-    printWindow.close();
-  }, 250);
+    const [, leading, core, trailing] = raw.match(/^(\s*)([\s\S]*?)(\s*)$/) || ['', '', raw, ''];
+    if (!core) return raw;
+
+    let text = escapeMarkdown(core);
+    if (marks.includes('italic')) text = `*${text}*`;
+    if (marks.includes('bold')) text = `**${text}**`;
+    if (marks.includes('strike')) text = `~~${text}~~`;
+    return `${leading}${text}${trailing}`;
+  }).join('');
 }
 
 /**
- * Exports document content as a Word document.
- * This creates a simple DOCX file with basic formatting.
+ * Converts block-level Tiptap nodes to Markdown blocks.
+ * 
+ * @param nodes - Block-level nodes
+ * @returns One Markdown string per block
+ */
+function blocksToMarkdown(nodes: JSONContent[] = []): string[] {
+  return nodes.flatMap(node => {
+    switch (node.type) {
+      case 'paragraph':
+        return [inlineToMarkdown(node.content)];
+      case 'heading':
+        return [`${'#'.repeat(node.attrs?.level || 1)} ${inlineToMarkdown(node.content)}`];
+      case 'blockquote':
+        return [
+          blocksToMarkdown(node.content)
+            .join('\n\n')
+            .split('\n')
+            .map(line => (line ? `> ${line}` : '>'))
+            .join('\n'),
+        ];
+      case 'codeBlock': {
+        const code = (node.content || []).map(child => child.text || '').join('');
+        return [`\`\`\`${node.attrs?.language || ''}\n${code}\n\`\`\``];
+      }
+      case 'horizontalRule':
+        return ['---'];
+      case 'bulletList':
+      case 'orderedList': {
+        const start = node.attrs?.start || 1;
+        const items = (node.content || []).map((item, index) => {
+          const marker = node.type === 'orderedList' ? `${start + index}. ` : '- ';
+          const padding = ' '.repeat(marker.length);
+          // Continuation lines are indented to sit under the item's text
+          const body = blocksToMarkdown(item.content).join('\n\n').replace(/\n(?=.)/g, `\n${padding}`);
+          return marker + body;
+        });
+        return [items.join('\n')];
+      }
+      default:
+        return blocksToMarkdown(node.content);
+    }
+  });
+}
+
+/**
+ * Converts Tiptap JSON content to Markdown.
+ * 
+ * @param content - The Tiptap JSON content
+ * @returns Markdown representation
+ */
+export function jsonToMarkdown(content: JSONContent): string {
+  if (!content) return '';
+  return blocksToMarkdown(content.type === 'doc' ? content.content : [content]).join('\n\n');
+}
+
+/**
+ * Wraps document content in a complete HTML page with print-friendly
+ * academic styling, so the file opens correctly on its own.
  * 
  * @param title - Document title
  * @param content - Tiptap JSON content
+ * @param author - The document author, if known
+ * @returns The HTML document
  */
-export function exportAsDocx(title: string, content: JSONContent): void {
-  const html = jsonToHtml(content);
-  
-  // Create a simple HTML structure that can be opened as a Word document
-  const docxContent = `
-<!DOCTYPE html>
-<html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
+function buildStandaloneHtml(title: string, content: JSONContent, author?: string): string {
+  const authorMeta = author ? `\n  <meta name="author" content="${escapeHtml(author)}">` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
 <head>
-    <meta charset="utf-8">
-    <title>${title}</title>
-    <!--[if gte mso 9]>
-    <xml>
-        <w:WordDocument>
-            <w:View>Print</w:View>
-            <w:Zoom>90</w:Zoom>
-            <w:DoNotPromptForConvert/>
-            <w:DoNotShowInsertionsAndDeletions/>
-        </w:WordDocument>
-    </xml>
-    <![endif]-->
-    <style>
-        @page {
-            margin: 1in;
-        }
-        body {
-            font-family: 'Times New Roman', serif;
-            font-size: 12pt;
-            line-height: 2.0;
-            color: black;
-        }
-        h1, h2, h3, h4, h5, h6 {
-            color: black;
-            margin-top: 12pt;
-            margin-bottom: 6pt;
-        }
-        h1 { font-size: 16pt; font-weight: bold; }
-        h2 { font-size: 14pt; font-weight: bold; }
-        h3 { font-size: 12pt; font-weight: bold; }
-        p {
-            margin-top: 0pt;
-            margin-bottom: 12pt;
-            text-align: justify;
-        }
-        blockquote {
-            margin-left: 36pt;
-            margin-right: 36pt;
-            font-style: italic;
-        }
-        ul, ol {
-            margin-left: 36pt;
-        }
-    </style>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">${authorMeta}
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: 'Times New Roman', Times, serif; font-size: 12pt; line-height: 2; color: #000; max-width: 6.5in; margin: 1in auto; padding: 0 1rem; }
+    h1.document-title { text-align: center; font-size: 12pt; }
+    h1, h2, h3 { font-size: 12pt; margin: 0; }
+    p { margin: 0; text-indent: 0.5in; }
+    li p, blockquote p { text-indent: 0; }
+    blockquote { margin: 0 0 0 0.5in; }
+    pre { font-family: 'Courier New', monospace; white-space: pre-wrap; }
+    .works-cited { break-before: page; }
+    .works-cited h2 { text-align: center; font-weight: normal; }
+    .works-cited p { text-indent: -0.5in; padding-left: 0.5in; }
+  </style>
 </head>
 <body>
-    <h1>${title}</h1>
-    ${html}
+  <h1 class="document-title">${escapeHtml(title)}</h1>
+  ${jsonToHtml(content)}
 </body>
-</html>`;
+</html>
+`;
+}
 
-  const blob = new Blob([docxContent], { 
-    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' 
-  });
+/**
+ * Triggers a browser download for a generated file.
+ * 
+ * @param blob - The file contents
+ * @param fileName - The name to save the file as
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
   const url = URL.createObjectURL(blob);
   
   const link = document.createElement('a');
   link.href = url;
-  link.download = `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.docx`;
+  link.download = fileName;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Builds a filesystem-safe file name from a document title.
+ * 
+ * @param title - Document title
+ * @param extension - File extension without the dot
+ * @returns The file name
+ */
+function toFileName(title: string, extension: string): string {
+  return `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${extension}`;
+}
+
+/**
+ * Exports document content as a PDF file.
+ * The PDF is rendered on the server in the requested academic layout.
+ * 
+ * @param title - Document title
+ * @param content - Tiptap JSON content
+ * @param options - The page layout and student details for MLA/APA headers
+ */
+export async function exportAsPdf(title: string, content: JSONContent, options: ExportOptions = {}): Promise<void> {
+  const response = await fetch('/api/export/pdf', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      title,
+      content,
+      layout: options.pdfLayout || 'standard',
+      header: options.header,
+    }),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || `PDF export failed with status ${response.status}`);
+  }
+
+  downloadBlob(await response.blob(), toFileName(title, 'pdf'));
+}
+
+/**
+ * Exports document content as a Word document.
+ * This generates a real Office Open XML package with Word styles.
+ * 
+ * @param title - Document title
+ * @param content - Tiptap JSON content
+ * @param options - Document properties such as the author
+ */
+export async function exportAsDocx(title: string, content: JSONContent, options: ExportOptions = {}): Promise<void> {
+  const blob = await buildDocx(title, content, { author: options.author });
+  downloadBlob(blob, toFileName(title, 'docx'));
+}
+
+/**
+ * Exports document content as a Markdown file.
+ * 
+ * @param title - Document title
+ * @param content - Tiptap JSON content
+ */
+export function exportAsMarkdown(title: string, content: JSONContent): void {
+  const markdown = `# ${escapeMarkdown(title)}\n\n${jsonToMarkdown(content)}\n`;
+  downloadBlob(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), toFileName(title, 'md'));
+}
+
+/**
+ * Exports document content as a plain text file.
+ * Paragraphs are separated by blank lines.
+ * 
+ * @param title - Document title
+ * @param content - Tiptap JSON content
+ */
+export function exportAsText(title: string, content: JSONContent): void {
+  const body = jsonToText(content).replace(/\n{3,}/g, '\n\n').trim();
+  downloadBlob(new Blob([`${title}\n\n${body}\n`], { type: 'text/plain;charset=utf-8' }), toFileName(title, 'txt'));
+}
+
+/**
+ * Exports document content as a standalone HTML page.
+ * 
+ * @param title - Document title
+ * @param content - Tiptap JSON content
+ * @param options - Document metadata such as the author
+ */
+export function exportAsHtml(title: string, content: JSONContent, options: ExportOptions = {}): void {
+  const html = buildStandaloneHtml(title, content, options.author);
+  downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), toFileName(title, 'html'));
+}
+
 /**
  * Type definition for supported export formats.
  */
-export type ExportFormat = 'docx' | 'pdf';
+export type ExportFormat = 'docx' | 'pdf' | 'markdown' | 'txt' | 'html';
+
+/**
+ * Document metadata used by the exporters.
+ */
+export interface ExportOptions {
+  author?: string;
+  pdfLayout?: PdfLayout;
+  header?: AcademicHeader;
+}
 
 /**
  * Main export function that handles all formats.
@@ -329,14 +457,29 @@ export type ExportFormat = 'docx' | 'pdf';
  * @param format - The export format
  * @param title - Document title
  * @param content - Tiptap JSON content
+ * @param options - Document metadata such as the author
  */
-export function exportDocument(format: ExportFormat, title: string, content: JSONContent): void {
+export async function exportDocument(
+  format: ExportFormat,
+  title: string,
+  content: JSONContent,
+  options: ExportOptions = {},
+): Promise<void> {
   switch (format) {
     case 'docx':
-      exportAsDocx(title, content);
+      await exportAsDocx(title, content, options);
       break;
     case 'pdf':
-      exportAsPdf(title, content);
+      await exportAsPdf(title, content, options);
+      break;
+    case 'markdown':
+      exportAsMarkdown(title, content);
+      break;
+    case 'txt':
+      exportAsText(title, content);
+      break;
+    case 'html':
+      exportAsHtml(title, content, options);
       break;
     default:
       console.error('Unsupported export format:', format);
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { checkGrammarRules, mergeRuleSuggestions } from '@/lib/grammar-rules';
+
+/**
+ * Applies the suggestions to the text, checking each offset as it goes.
+ */
+function applyAll(text: string) {
+  const suggestions = checkGrammarRules(text);
+  for (const s of suggestions) {
+    expect(text.slice(s.start, s.end)).toBe(s.original);
+  }
+  return [...suggestions].reverse().reduce(
+    (result, s) => result.slice(0, s.start) + s.suggestion + result.slice(s.end),
+    text,
+  );
+}
+
+describe('checkGrammarRules', () => {
+  it('capitalizes the start of each sentence and paragraph', () => {
+    expect(applyAll('schools start early. students are tired! why? sleep matters.\n\nteachers agree.'))
+      .toBe('Schools start early. Students are tired! Why? Sleep matters.\n\nTeachers agree.');
+  });
+
+  it('does not treat abbreviations and ellipses as the end of a sentence', () => {
+    expect(checkGrammarRules('Some fruits, e.g. apples, are sweet. Dr. smith and J. doe wait... then leave.')).toEqual([]);
+  });
+
+  it('does not treat the periods in initialisms as the end of a sentence', () => {
+    expect(checkGrammarRules('She moved to the U.S. government agency.')).toEqual([]);
+    expect(checkGrammarRules('He studied in the U.K. last year and earned a Ph.D. in history.')).toEqual([]);
+  });
+
+  it('does not treat a quoted question or exclamation as the end of a sentence', () => {
+    expect(checkGrammarRules('"Is it fair?" she asks the class. “Stop!” he shouted.')).toEqual([]);
+  });
+
+  it('leaves words with a deliberate lowercase start alone', () => {
+    expect(checkGrammarRules('Phones are everywhere. iPhones are popular.')).toEqual([]);
+  });
+
+  it('capitalizes the pronoun I', () => {
+    expect(applyAll('Yesterday i said i\'m ready, i.e. done.')).toBe('Yesterday I said I\'m ready, i.e. done.');
+  });
+
+  it('picks "a" or "an" by the sound of the next word', () => {
+    expect(applyAll('She ate a apple in an minute.')).toBe('She ate an apple in a minute.');
+    expect(applyAll('It took a hour at an university.')).toBe('It took an hour at a university.');
+    expect(applyAll('A elephant is an unusual pet.')).toBe('An elephant is an unusual pet.');
+  });
+
+  it('accepts "a" and "an" where the sound differs from the letter', () => {
+    expect(checkGrammarRules('It was a one-time event, a European idea and an honest mistake by an FBI agent.')).toEqual([]);
+    expect(checkGrammarRules('We chose plan A over an historic option.')).toEqual([]);
+    expect(checkGrammarRules('He is a U.S. citizen.')).toEqual([]);
+  });
+
+  it('removes doubled words but keeps grammatical repeats', () => {
+    expect(applyAll('The the results show that that he had had enough.')).toBe('The results show that that he had had enough.');
+  });
+
+  it('fixes common homophone mix-ups', () => {
+    expect(applyAll('Their is a reason. We could of won. It\'s better then losing, and its not over.'))
+      .toBe('There is a reason. We could have won. It\'s better than losing, and it\'s not over.');
+    expect(applyAll('They did it on there own with alot of help.'))
+      .toBe('They did it on their own with a lot of help.');
+  });
+
+  it('leaves "to" before "much" and "many" alone', () => {
+    expect(checkGrammarRules('This rule applies to many students. He contributed to much of the research.')).toEqual([]);
+  });
+
+  it('fixes effect and affect', () => {
+    expect(applyAll('Sleep will effect grades. It effects mood and has an affect on focus.'))
+      .toBe('Sleep will affect grades. It affects mood and has an effect on focus.');
+    expect(checkGrammarRules('New rules will effect change. The effect of sleep affects grades.')).toEqual([]);
+  });
+
+  it('returns suggestions in order without overlaps', () => {
+    const suggestions = checkGrammarRules('i think so. the the end.');
+
+    expect(suggestions.map(s => s.original)).toEqual(['i', 'the the']);
+    expect(suggestions[0]).toEqual({
+      start: 0,
+      end: 1,
+      original: 'i',
+      suggestion: 'I',
+      explanation: expect.any(String),
+    });
+  });
+});
+
+describe('mergeRuleSuggestions', () => {
+  it('drops AI suggestions that overlap a rule suggestion', () => {
+    const rules = [{ original: 'a apple', start: 10, end: 17 }];
+    const ai = [
+      { original: 'ate a apple', start: 6, end: 17 },
+      { original: 'he have', start: 22, end: 29 },
+      { original: 'somewhere' },
+    ];
+
+    expect(mergeRuleSuggestions(rules, ai)).toEqual([rules[0], ai[1], ai[2]]);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * @file A deterministic checker for the mechanical grammar rules: capitals at
+ * the start of sentences, "a" and "an", doubled words, common homophone
+ * mix-ups and effect/affect. It runs in the browser on every change, so these
+ * corrections appear instantly and without the AI. The AI grammar check
+ * still reads the same text, and only its suggestions that overlap one of
+ * these are dropped.
+ */
+
+import { type Suggestion } from '@/lib/types';
+
+/**
+ * A fixed wording mistake and how to correct it.
+ */
+interface PhraseRule {
+  pattern: RegExp; // Must have the global and ignore-case flags
+  replacement: string; // May refer to the pattern's groups, as in String.replace
+  explanation: string;
+}
+
+const SENTENCE_EXPLANATION = 'Start each sentence with a capital letter.';
+const PRONOUN_I_EXPLANATION = 'Always capitalize the word "I".';
+const AN_EXPLANATION = 'Use "an" before a word that starts with a vowel sound.';
+const A_EXPLANATION = 'Use "a" before a word that starts with a consonant sound.';
+const DOUBLED_WORD_EXPLANATION = 'This word is repeated.';
+const EFFECT_EXPLANATION = '"Affect" is a verb meaning to influence; "effect" is a noun meaning a result.';
+
+// Words ending in a period that do not end a sentence, without the final period
+const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'cf', 'al', 'approx', 'ca', 'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'no', 'fig',
+  'p', 'pp', 'vol', 'ch', 'ed', 'a.m', 'p.m',
+]);
+
+// Vowel-letter words that start with a consonant sound, and h-words that start with a vowel sound
+const CONSONANT_SOUND = /^(eu|ewe|one$|one-|once|uni(?![nmd])|use|usu|usa|uti|ute|uto|ura|uri|ubiq|uk|ufo|unanim|u-)/;
+const SILENT_H = /^(hour|honest|honor|honour|heir)/;
+
+// Repeats that are grammatical, as in "what it is is" or "he had had enough"
+const ALLOWED_DOUBLED_WORDS = new Set(['had', 'that', 'is', 'do']);
+
+const PHRASE_RULES: PhraseRule[] = [
+  {
+    pattern: /\b(could|would|should|must|might) of\b/gi,
+    replacement: '$1 have',
+    explanation: 'Use "have", not "of", after words like "could", "would" and "should".',
+  },
+  {
+    pattern: /\b(?:there|they['’]re) own\b/gi,
+    replacement: 'their own',
+    explanation: 'Use "their" to show that something belongs to them.',
+  },
+  {
+    pattern: /\btheir (is|are|was|were)\b/gi,
+    replacement: 'there $1',
+    explanation: 'Use "there" to say that something exists.',
+  },
+  {
+    pattern: /\bit['’]s own\b/gi,
+    replacement: 'its own',
+    explanation: '"Its" shows that something belongs to it; "it\'s" means "it is".',
+  },
+  {
+    pattern: /\bits (a|an|the|not|been)\b/gi,
+    replacement: 'it\'s $1',
+    explanation: '"It\'s" is short for "it is" or "it has"; "its" shows that something belongs to it.',
+  },
+  {
+    pattern: /\byour welcome\b/gi,
+    replacement: 'you\'re welcome',
+    explanation: '"You\'re" is short for "you are".',
+  },
+  {
+    pattern: /\b(more|less|fewer|rather|other|better|worse|greater|larger|smaller|higher|lower|longer|shorter|easier|harder) then\b/gi,
+    replacement: '$1 than',
+    explanation: 'Use "than" to compare things; "then" is about time.',
+  },
+  {
+    pattern: /\balot\b/gi,
+    replacement: 'a lot',
+    explanation: '"A lot" is two words.',
+  },
+  {
+    pattern: /\b(will|would|can|could|may|might|must|should|does|did|doesn['’]t|didn['’]t|won['’]t|can['’]t) effect\b(?! change)/gi,
+    replacement: '$1 affect',
+    explanation: EFFECT_EXPLANATION,
+  },
+  {
+    pattern: /\b(it|this|also|directly|negatively|positively|greatly|seriously|strongly) effects\b/gi,
+    replacement: '$1 affects',
+    explanation: EFFECT_EXPLANATION,
+  },
+  {
+    pattern: /\b(an|the|positive|negative|significant|major|lasting|big|huge|little) affect\b/gi,
+    replacement: '$1 effect',
+    explanation: EFFECT_EXPLANATION,
+  },
+  {
+    pattern: /\baffects of\b/gi,
+    replacement: 'effects of',
+    explanation: EFFECT_EXPLANATION,
+  },
+];
+
+/**
+ * Capitalizes the first letter of a word.
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Gives a correction the same leading capital as the text it replaces.
+ */
+function matchCase(original: string, correction: string): string {
+  return /^[A-Z]/.test(original) ? capitalize(correction) : correction;
+}
+
+/**
+ * Whether the character at `index` starts a sentence: it is the first
+ * non-space character of the text or of a paragraph, or follows the end of
+ * a sentence.
+ */
+function isSentenceStart(text: string, index: number): boolean {
+  const before = text.slice(0, index);
+  return before.trim() === '' || /\n[ \t]*$/.test(before) || /[.!?]['"’”)\]]*\s*$/.test(before);
+}
+
+/**
+ * Whether a period at `index` ends an abbreviation or ellipsis rather than a
+ * sentence.
+ */
+function isAbbreviationPeriod(text: string, index: number): boolean {
+  if (text[index - 1] === '.') return true;
+  const word = (/[A-Za-z.]*$/.exec(text.slice(0, index))?.[0].toLowerCase() || '').replace(/^\.+/, '');
+  // Initialisms with internal periods, such as "U.S." and "Ph.D."
+  const isInitialism = /^(?:[a-z]{1,2}\.)+[a-z]{1,2}$/.test(word);
+  return word.length === 1 || isInitialism || ABBREVIATIONS.has(word);
+}
+
+/**
+ * Finds sentences that start with a lowercase letter.
+ */
+function checkSentenceCapitals(text: string): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  const word = /[a-z][A-Za-z'’-]*/y;
+  const starts: number[] = [];
+
+  for (const match of text.matchAll(/(?:^|\n)[ \t]*(?=[a-z])/g)) {
+    starts.push(match.index! + match[0].length);
+  }
+  for (const match of text.matchAll(/([.!?])(['"’”)\]]*)\s+(?=[a-z])/g)) {
+    if (match[1] === '.' && isAbbreviationPeriod(text, match.index!)) continue;
+    // A question or exclamation quoted mid-sentence, as in "Is it fair?" she asks
+    if (match[1] !== '.' && /["”]/.test(match[2])) continue;
+    starts.push(match.index! + match[0].length);
+  }
+
+  for (const start of starts) {
+    word.lastIndex = start;
+    const match = word.exec(text);
+    // Words like "iPhone" are written with a lowercase first letter on purpose
+    if (!match || /[A-Z]/.test(match[0])) continue;
+    suggestions.push({
+      start,
+      end: start + match[0].length,
+      original: match[0],
+      suggestion: capitalize(match[0]),
+      explanation: SENTENCE_EXPLANATION,
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Finds the pronoun "I" written in lowercase.
+ */
+function checkPronounI(text: string): Suggestion[] {
+  // Skips letters in abbreviations such as "i.e." and in hyphenated words
+  return [...text.matchAll(/\bi\b/g)]
+    .filter(match => !/[.-]/.test(text[match.index! - 1] || '') && !/[.-]/.test(text[match.index! + 1] || ''))
+    .map(match => ({
+      start: match.index!,
+      end: match.index! + 1,
+      original: 'i',
+      suggestion: 'I',
+      explanation: PRONOUN_I_EXPLANATION,
+    }));
+}
+
+/**
+ * Whether "an" rather than "a" goes before a word.
+ */
+function needsAn(word: string): boolean {
+  const lower = word.toLowerCase();
+  if (SILENT_H.test(lower)) return true;
+  return /^[aeiou]/.test(lower) && !CONSONANT_SOUND.test(lower);
+}
+
+/**
+ * Finds "a" before a vowel sound and "an" before a consonant sound.
+ */
+function checkArticles(text: string): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+
+  for (const match of text.matchAll(/\b(a|an)(\s+)([A-Za-z][A-Za-z'’-]*)/gi)) {
+    const [original, article, space, word] = match;
+    const index = match.index!;
+
+    // Acronyms are read letter by letter, and a capital "A" mid-sentence is
+    // usually a letter, as in "plan A"
+    if (word.length > 1 && word === word.toUpperCase()) continue;
+    // A capital letter followed by a period starts an initialism, as in "a U.S. citizen"
+    if (/^[A-Z]$/.test(word) && text[index + original.length] === '.') continue;
+    if (article === 'A' && !isSentenceStart(text, index)) continue;
+
+    const isAn = article.toLowerCase() === 'an';
+    // "an historic" is old-fashioned but not wrong
+    if (isAn === needsAn(word) || (isAn && /^h/i.test(word))) continue;
+
+    suggestions.push({
+      start: index,
+      end: index + original.length,
+      original,
+      suggestion: matchCase(article, isAn ? 'a' : 'an') + space + word,
+      explanation: isAn ? A_EXPLANATION : AN_EXPLANATION,
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Finds a word written twice in a row.
+ */
+function checkDoubledWords(text: string): Suggestion[] {
+  return [...text.matchAll(/\b([A-Za-z]+)\s+\1\b/gi)]
+    .filter(match => !ALLOWED_DOUBLED_WORDS.has(match[1].toLowerCase()))
+    .map(match => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      original: match[0],
+      suggestion: match[1],
+      explanation: DOUBLED_WORD_EXPLANATION,
+    }));
+}
+
+/**
+ * Finds the fixed wording mistakes in PHRASE_RULES.
+ */
+function checkPhrases(text: string): Suggestion[] {
+  return PHRASE_RULES.flatMap(({ pattern, replacement, explanation }) => (
+    [...text.matchAll(pattern)].map(match => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      original: match[0],
+      suggestion: matchCase(match[0], match[0].replace(new RegExp(pattern.source, 'i'), replacement)),
+      explanation,
+    }))
+  ));
+}
+
+/**
+ * Checks a text against the mechanical grammar rules.
+ *
+ * @param text - The text to check, usually the editor's plain text
+ * @returns Suggestions in document order, with offsets into `text`; where two
+ *   would overlap only the first is kept
+ */
+export function checkGrammarRules(text: string): Suggestion[] {
+  const found = [
+    ...checkSentenceCapitals(text),
+    ...checkPronounI(text),
+    ...checkArticles(text),
+    ...checkDoubledWords(text),
+    ...checkPhrases(text),
+  ].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const suggestions: Suggestion[] = [];
+  for (const suggestion of found) {
+    const previous = suggestions[suggestions.length - 1];
+    if (!previous || suggestion.start >= previous.end) {
+      suggestions.push(suggestion);
+    }
+  }
+  return suggestions;
+}
+
+/**
+ * Combines rule suggestions with suggestions from the AI grammar check. AI
+ * suggestions that overlap a rule suggestion are dropped, as the rules are
+ * exact.
+ *
+ * @param ruleSuggestions - Suggestions from `checkGrammarRules`
+ * @param aiSuggestions - Suggestions from the AI, with offsets into the same text where known
+ * @returns The rule suggestions followed by the remaining AI suggestions
+ */
+export function mergeRuleSuggestions<T extends { start?: number; end?: number }>(ruleSuggestions: T[], aiSuggestions: T[]): T[] {
+  const overlapsRule = (s: T) => ruleSuggestions.some(rule => (
+    s.start !== undefined && s.end !== undefined && rule.start !== undefined && rule.end !== undefined
+    && s.start < rule.end && rule.start < s.end
+  ));
+  return [...ruleSuggestions, ...aiSuggestions.filter(s => !overlapsRule(s))];
+}
@@ -7,6 +7,7 @@ import { useCallback, useState } from 'react';
 import { type Editor } from '@tiptap/react';
 import { type SupabaseClient } from '@supabase/supabase-js';
 import { type Suggestion } from '@/lib/hooks/use-suggestion-engine';
+import { extractQuotes } from '@/lib/editor/quotes';
 
 /**
  * A generic function to invoke a Supabase edge function.
@@ -68,27 +69,20 @@ export function useEvidenceMentor(editor: Editor | null, supabase: SupabaseClien
     setIsChecking(true);
     let newSuggestions: Suggestion[] = [];
 
-    const quoteRegex = /"([^"]+)"/g;
-    let match;
     const promises: Promise<Suggestion[]>[] = [];
 
-    while ((match = quoteRegex.exec(text)) !== null) {
-      const quoteContent = match[1];
-      if (!analyzedQuotes.has(quoteContent)) {
-        setAnalyzedQuotes(prev => new Set(prev).add(quoteContent));
+    extractQuotes(editor.state.doc).forEach(quote => {
+      if (!analyzedQuotes.has(quote.text)) {
+        setAnalyzedQuotes(prev => new Set(prev).add(quote.text));
 
-        const quote = match[0];
-        const quoteStartIndex = match.index;
-        const contextBefore = text.substring(Math.max(0, quoteStartIndex - 200), quoteStartIndex);
-        const contextAfter = text.substring(quoteStartIndex + quote.length, quoteStartIndex + quote.length + 200);
-        
+        // The quote with the sentences before and after it
         promises.push(invokeFunction(
           'evidence-mentor',
-          { quote, surroundingText: `${contextBefore}${quote}${contextAfter}` },
+          { quote: quote.text, surroundingText: text.slice(quote.context.start, quote.context.end) },
           supabase
         ));
       }
-    }
+    });
 
     try {
       const results = await Promise.all(promises);
@@ -0,0 +1,57 @@
+/**
+ * @file This hook connects the editor to the other people working on a
+ * document. It keeps one collaboration provider for the lifetime of the
+ * editor, syncing its Yjs document over Supabase Realtime, and tracks who
+ * else is present.
+ */
+'use client';
+
+import { createClient } from '@/lib/supabase/client';
+import {
+  CollaborationProvider,
+  createCollaborationDoc,
+  createRealtimeTransport,
+  type Collaborator,
+} from '@/lib/editor/collaboration';
+import { useEffect, useState } from 'react';
+
+/**
+ * A hook to share a document with its collaborators in real time.
+ *
+ * @param documentId The document being edited.
+ * @param savedState The Yjs state saved with the document, if any.
+ * @param canEdit Whether local changes are sent to collaborators.
+ * @returns The provider for the editor's collaboration extensions and the other collaborators present.
+ */
+export function useCollaboration(documentId: string, savedState: string | null | undefined, canEdit: boolean) {
+  const [provider] = useState(() => new CollaborationProvider(
+    createCollaborationDoc(savedState),
+    createRealtimeTransport(createClient(), documentId),
+    { canEdit },
+  ));
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+
+  useEffect(() => {
+    const { awareness, doc } = provider;
+
+    const updateCollaborators = () => {
+      const others: Collaborator[] = [];
+      awareness.getStates().forEach((state, clientId) => {
+        if (clientId !== doc.clientID && state.user) {
+          others.push({ clientId, name: state.user.name, color: state.user.color });
+        }
+      });
+      setCollaborators(others);
+    };
+
+    awareness.on('change', updateCollaborators);
+    provider.connect();
+
+    return () => {
+      awareness.off('change', updateCollaborators);
+      provider.disconnect();
+    };
+  }, [provider]);
+
+  return { provider, collaborators };
+}
@@ -0,0 +1,171 @@
+/**
+ * @file This hook manages the comment threads on a submission or a shared
+ * document. Teachers use it to comment on submitted text and students to
+ * read, reply to and resolve those comments once the submission has been
+ * returned. Peer reviewers use it to comment on documents shared with them.
+ */
+'use client';
+
+import { createClient } from '@/lib/supabase/client';
+import { groupCommentThreads } from '@/lib/comments';
+import { type CommentAnchor, type ThreadComment, type UserRole } from '@/lib/types';
+import { useCallback, useMemo, useState } from 'react';
+
+const COMMENT_COLUMNS = 'id, author_id, parent_id, body, quote, prefix, suffix, start_offset, end_offset, resolved_at, created_at';
+
+/**
+ * What comments are attached to: an assignment submission or a shared document.
+ */
+export type CommentTarget = { type: 'submission' | 'document'; id: string };
+
+const COMMENT_TABLES = {
+  submission: { table: 'submission_comments', column: 'submission_id' },
+  document: { table: 'document_comments', column: 'document_id' },
+} as const;
+
+/**
+ * A hook to load and add comments on a submission or document.
+ *
+ * @param target The submission or document whose comments are managed, or null if there is none.
+ * @param userId The current user, who authors new comments.
+ * @returns Comment threads and functions to manage them.
+ */
+export function useCommentThreads(target: CommentTarget | null, userId: string) {
+  const supabase = createClient();
+  const targetType = target?.type;
+  const targetId = target?.id;
+  const [comments, setComments] = useState<ThreadComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Adds author names and roles to comments.
+   */
+  const withAuthors = useCallback(async (rows: ThreadComment[]): Promise<ThreadComment[]> => {
+    const authorIds = [...new Set(rows.map(row => row.author_id))];
+    if (authorIds.length === 0) return rows;
+
+    const { data: profiles } = await supabase
+      .from('users')
+      .select('id, full_name, role')
+      .in('id', authorIds);
+
+    return rows.map(row => {
+      const profile = (profiles || []).find(p => p.id === row.author_id);
+      return { ...row, author_name: profile?.full_name || null, author_role: (profile?.role || 'user') as UserRole };
+    });
+  }, [supabase]);
+
+  /**
+   * Loads all comments on the target.
+   */
+  const loadComments = useCallback(async () => {
+    if (!targetType || !targetId) return;
+    const { table, column } = COMMENT_TABLES[targetType];
+
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await supabase
+      .from(table)
+      .select(COMMENT_COLUMNS)
+      .eq(column, targetId)
+      .order('created_at');
+
+    if (fetchError) {
+      console.error('Error loading comments:', fetchError);
+      setError('Could not load comments.');
+    } else {
+      setComments(await withAuthors(data as ThreadComment[]));
+    }
+    setIsLoading(false);
+  }, [supabase, targetType, targetId, withAuthors]);
+
+  /**
+   * Inserts a comment and adds it to the list.
+   */
+  const insertComment = useCallback(async (fields: Partial<ThreadComment>): Promise<ThreadComment | null> => {
+    if (!targetType || !targetId) return null;
+    const { table, column } = COMMENT_TABLES[targetType];
+
+    const { data, error: insertError } = await supabase
+      .from(table)
+      .insert({ [column]: targetId, author_id: userId, ...fields })
+      .select(COMMENT_COLUMNS)
+      .single();
+
+    if (insertError || !data) {
+      console.error('Error adding comment:', insertError);
+      setError('Could not add your comment. Please try again.');
+      return null;
+    }
+
+    const [comment] = await withAuthors([data as ThreadComment]);
+    setComments(prev => [...prev, comment]);
+    return comment;
+  }, [supabase, targetType, targetId, userId, withAuthors]);
+
+  /**
+   * Starts a new thread on a range of the text.
+   *
+   * @param anchor The commented range.
+   * @param body The comment text.
+   * @returns The new comment, or null if it could not be saved.
+   */
+  const addComment = useCallback((anchor: CommentAnchor, body: string) => insertComment({
+    body: body.trim(),
+    quote: anchor.quote,
+    prefix: anchor.prefix,
+    suffix: anchor.suffix,
+    start_offset: anchor.start,
+    end_offset: anchor.end,
+  }), [insertComment]);
+
+  /**
+   * Replies to a thread.
+   *
+   * @param parentId The first comment of the thread.
+   * @param body The reply text.
+   * @returns The reply, or null if it could not be saved.
+   */
+  const replyToComment = useCallback((parentId: string, body: string) => insertComment({
+    body: body.trim(),
+    parent_id: parentId,
+  }), [insertComment]);
+
+  /**
+   * Resolves or reopens a thread.
+   *
+   * @param commentId The first comment of the thread.
+   * @param resolved Whether the thread is resolved.
+   */
+  const setResolved = useCallback(async (commentId: string, resolved: boolean) => {
+    if (!targetType) return;
+    const resolvedAt = resolved ? new Date().toISOString() : null;
+
+    const { error: updateError } = await supabase
+      .from(COMMENT_TABLES[targetType].table)
+      .update({ resolved_at: resolvedAt })
+      .eq('id', commentId);
+
+    if (updateError) {
+      console.error('Error resolving comment:', updateError);
+      setError('Could not update the comment. Please try again.');
+      return;
+    }
+
+    setComments(prev => prev.map(comment => (comment.id === commentId ? { ...comment, resolved_at: resolvedAt } : comment)));
+  }, [supabase, targetType]);
+
+  const threads = useMemo(() => groupCommentThreads(comments), [comments]);
+
+  return {
+    threads,
+    isLoading,
+    error,
+    loadComments,
+    addComment,
+    replyToComment,
+    setResolved,
+  };
+}
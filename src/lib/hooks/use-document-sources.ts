@@ -0,0 +1,179 @@
+/**
+ * @file This hook manages a document's source library and citation style.
+ * Sources are shared by everyone with access to the document; owners and
+ * editors add, change and remove them and choose the citation style.
+ */
+'use client';
+
+import { createClient } from '@/lib/supabase/client';
+import { type SourceDetails } from '@/lib/citations';
+import { type CitationStyle, type Source } from '@/lib/types';
+import { useCallback, useState } from 'react';
+
+const SOURCE_COLUMNS = 'id, document_id, author, title, publisher, year, url, pages, created_at';
+
+/**
+ * Trims a source's fields before they are saved.
+ */
+function cleanDetails(details: SourceDetails): SourceDetails {
+  return {
+    author: details.author.trim(),
+    title: details.title.trim(),
+    publisher: details.publisher.trim(),
+    year: details.year.trim(),
+    url: details.url.trim(),
+    pages: details.pages.trim(),
+  };
+}
+
+/**
+ * A hook to load and manage the sources a document cites.
+ *
+ * @param documentId The document whose sources are managed.
+ * @param initialStyle The document's saved citation style.
+ * @returns The sources, the citation style and functions to manage them.
+ */
+export function useDocumentSources(documentId: string, initialStyle: CitationStyle = 'mla') {
+  const supabase = createClient();
+  const [sources, setSources] = useState<Source[]>([]);
+  const [citationStyle, setCitationStyleState] = useState<CitationStyle>(initialStyle);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads the document's sources, oldest first.
+   */
+  const loadSources = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await supabase
+      .from('document_sources')
+      .select(SOURCE_COLUMNS)
+      .eq('document_id', documentId)
+      .order('created_at');
+
+    if (fetchError) {
+      console.error('Error loading sources:', fetchError);
+      setError('Could not load sources.');
+    } else {
+      setSources(data as Source[]);
+    }
+    setIsLoading(false);
+  }, [supabase, documentId]);
+
+  /**
+   * Adds a source to the library.
+   *
+   * @param details The source's author, title and publication details.
+   * @returns The new source, or null if it could not be saved.
+   */
+  const addSource = useCallback(async (details: SourceDetails): Promise<Source | null> => {
+    const cleaned = cleanDetails(details);
+    if (!cleaned.title) {
+      setError('A source needs a title.');
+      return null;
+    }
+
+    setError(null);
+    const { data, error: insertError } = await supabase
+      .from('document_sources')
+      .insert({ document_id: documentId, ...cleaned })
+      .select(SOURCE_COLUMNS)
+      .single();
+
+    if (insertError) {
+      console.error('Error adding source:', insertError);
+      setError('Could not add the source.');
+      return null;
+    }
+
+    setSources(prev => [...prev, data as Source]);
+    return data as Source;
+  }, [supabase, documentId]);
+
+  /**
+   * Changes a source's details.
+   *
+   * @param sourceId The source to change.
+   * @param details The new details.
+   * @returns Whether the change was saved.
+   */
+  const updateSource = useCallback(async (sourceId: string, details: SourceDetails): Promise<boolean> => {
+    const cleaned = cleanDetails(details);
+    if (!cleaned.title) {
+      setError('A source needs a title.');
+      return false;
+    }
+
+    setError(null);
+    const { error: updateError } = await supabase
+      .from('document_sources')
+      .update(cleaned)
+      .eq('id', sourceId);
+
+    if (updateError) {
+      console.error('Error updating source:', updateError);
+      setError('Could not update the source.');
+      return false;
+    }
+
+    setSources(prev => prev.map(source => (source.id === sourceId ? { ...source, ...cleaned } : source)));
+    return true;
+  }, [supabase]);
+
+  /**
+   * Removes a source from the library. Citations of it keep their text but
+   * drop out of the works cited list.
+   *
+   * @param sourceId The source to remove.
+   */
+  const removeSource = useCallback(async (sourceId: string) => {
+    setError(null);
+    const { error: deleteError } = await supabase
+      .from('document_sources')
+      .delete()
+      .eq('id', sourceId);
+
+    if (deleteError) {
+      console.error('Error removing source:', deleteError);
+      setError('Could not remove the source.');
+    } else {
+      setSources(prev => prev.filter(source => source.id !== sourceId));
+    }
+  }, [supabase]);
+
+  /**
+   * Changes the document's citation style.
+   *
+   * @param style The new style.
+   */
+  const setCitationStyle = useCallback(async (style: CitationStyle) => {
+    const previous = citationStyle;
+    setCitationStyleState(style);
+    setError(null);
+
+    const { error: updateError } = await supabase
+      .from('documents')
+      .update({ citation_style: style })
+      .eq('id', documentId);
+
+    if (updateError) {
+      console.error('Error changing citation style:', updateError);
+      setError('Could not change the citation style.');
+      setCitationStyleState(previous);
+    }
+  }, [supabase, documentId, citationStyle]);
+
+  return {
+    sources,
+    citationStyle,
+    isLoading,
+    error,
+    loadSources,
+    addSource,
+    updateSource,
+    removeSource,
+    setCitationStyle,
+  };
+}
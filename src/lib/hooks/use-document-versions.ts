@@ -0,0 +1,149 @@
+/**
+ * @file This hook manages the version history of a document. It lists saved
+ * snapshots, records periodic and manual snapshots of the Tiptap JSON, and
+ * snapshots the current draft before an older version is restored.
+ */
+'use client';
+
+import { createClient } from '@/lib/supabase/client';
+import { countWords, extractParagraphs } from '@/lib/document-text';
+import { type DocumentVersion } from '@/lib/types';
+import { type JSONContent } from '@tiptap/react';
+import { useCallback, useRef, useState } from 'react';
+
+const AUTO_SNAPSHOT_INTERVAL = 10 * 60 * 1000; // 10 minutes between automatic snapshots
+
+/**
+ * A hook to list, create and restore snapshots of a document.
+ *
+ * @param documentId The document whose history is managed.
+ * @param userId The owner of the document.
+ * @returns Version state and functions to manage it.
+ */
+export function useDocumentVersions(documentId: string, userId: string) {
+  const supabase = createClient();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lastAutoSnapshotRef = useRef<{ timestamp: number; content: string }>({
+    timestamp: Date.now(),
+    content: '',
+  });
+
+  /**
+   * Loads all versions for the document, newest first.
+   */
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await supabase
+      .from('document_versions')
+      .select('id, document_id, title, content, word_count, kind, label, created_at')
+      .eq('document_id', documentId)
+      .order('created_at', { ascending: false });
+
+    if (fetchError) {
+      console.error('Error loading document versions:', fetchError);
+      setError('Could not load version history.');
+    } else {
+      setVersions(data as DocumentVersion[]);
+    }
+    setIsLoading(false);
+  }, [supabase, documentId]);
+
+  /**
+   * Saves a snapshot of the given content.
+   *
+   * @param title The document title at the time of the snapshot.
+   * @param content The Tiptap JSON content to snapshot.
+   * @param kind Why the snapshot was taken.
+   * @param label An optional name for manual snapshots.
+   * @returns The created version, or null if saving failed.
+   */
+  const createSnapshot = useCallback(async (
+    title: string,
+    content: JSONContent,
+    kind: DocumentVersion['kind'],
+    label?: string,
+  ): Promise<DocumentVersion | null> => {
+    const wordCount = countWords(extractParagraphs(content).join(' '));
+
+    const { data, error: insertError } = await supabase
+      .from('document_versions')
+      .insert({
+        document_id: documentId,
+        user_id: userId,
+        title,
+        content,
+        word_count: wordCount,
+        kind,
+        label: label?.trim() || null,
+      })
+      .select('id, document_id, title, content, word_count, kind, label, created_at')
+      .single();
+
+    if (insertError || !data) {
+      console.error('Error creating document snapshot:', insertError);
+      setError('Could not save a snapshot of this document.');
+      return null;
+    }
+
+    const version = data as DocumentVersion;
+    setVersions(prev => [version, ...prev]);
+    return version;
+  }, [supabase, documentId, userId]);
+
+  /**
+   * Takes an automatic snapshot if enough time has passed since the last one
+   * and the content has changed. Safe to call on every save.
+   *
+   * @param title The current document title.
+   * @param content The current Tiptap JSON content.
+   */
+  const maybeCreateAutoSnapshot = useCallback(async (title: string, content: JSONContent) => {
+    const contentString = JSON.stringify(content);
+    const last = lastAutoSnapshotRef.current;
+
+    if (Date.now() - last.timestamp < AUTO_SNAPSHOT_INTERVAL || contentString === last.content) {
+      return;
+    }
+
+    lastAutoSnapshotRef.current = { timestamp: Date.now(), content: contentString };
+    await createSnapshot(title, content, 'auto');
+  }, [createSnapshot]);
+
+  /**
+   * Snapshots the current draft and returns the content of the version to restore.
+   * The caller is responsible for loading the returned content into the editor.
+   *
+   * @param version The version to restore.
+   * @param currentTitle The current document title.
+   * @param currentContent The current Tiptap JSON content.
+   * @returns The content of the restored version, or null if the current
+   * draft could not be saved and must not be replaced.
+   */
+  const restoreVersion = useCallback(async (
+    version: DocumentVersion,
+    currentTitle: string,
+    currentContent: JSONContent,
+  ): Promise<JSONContent | null> => {
+    const snapshot = await createSnapshot(currentTitle, currentContent, 'restore', 'Before restoring an earlier version');
+    if (!snapshot) {
+      setError('Could not save a copy of your current draft, so the version was not restored.');
+      return null;
+    }
+    return (version.content || { type: 'doc', content: [] }) as JSONContent;
+  }, [createSnapshot]);
+
+  return {
+    versions,
+    isLoading,
+    error,
+    loadVersions,
+    createSnapshot,
+    maybeCreateAutoSnapshot,
+    restoreVersion,
+  };
+}
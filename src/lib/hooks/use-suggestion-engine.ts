@@ -7,24 +7,39 @@
 
 import { createClient } from '@/lib/supabase/client';
 import { useCallback, useState, useRef } from 'react';
-import { measurePerformance } from '@/lib/performance-utils';
+import { createContentHash, measurePerformance } from '@/lib/performance-utils';
+import { offsetSuggestionRanges } from '@/lib/document-text';
+import { findUnattributedEvidence, mergeEvidenceSuggestions } from '@/lib/evidence';
+import { type Quote } from '@/lib/editor/quotes';
+import { type Source, type Suggestion as TextSuggestion } from '@/lib/types';
 
 // Expanded to include Phase 4 suggestion types
-export type SuggestionCategory = 'grammar' | 'academic_voice' | 'evidence' | 'argument' | 'logical_flow' | 'consistency' | 'claim_support' | 'fallacy';
+export type SuggestionCategory = 'grammar' | 'academic_voice' | 'evidence' | 'argument' | 'logical_flow' | 'consistency' | 'claim_support' | 'fallacy' | 'counterargument';
 
-export interface Suggestion {
-  original: string;
-  suggestion: string;
-  explanation: string;
+export interface Suggestion extends Omit<TextSuggestion, 'start' | 'end'> {
+  id?: string; // Set once the suggestion has been persisted
   category: SuggestionCategory;
   severity?: 'high' | 'medium' | 'low';
   paragraphContext?: string;
+  start?: number; // Offsets of `original` in the text passed to the check
+  end?: number;
+  sourceId?: string | null; // For evidence, the library source it most likely comes from
+}
+
+/**
+ * Whether an argumentative essay states and answers an opposing view.
+ */
+export interface CounterargumentAnalysis {
+  status: 'missing' | 'no_rebuttal' | 'addressed';
+  fairness: 'fair' | 'oversimplified' | 'strawman' | null; // How fairly the opposing view is stated
+  explanation: string;
 }
 
 export interface DocumentAnalysis {
   overallStrength: 'weak' | 'moderate' | 'strong';
   mainIssues: string[];
   flowProblems: string[];
+  counterargument?: CounterargumentAnalysis | null;
 }
 
 interface CacheEntry {
@@ -33,35 +48,6 @@ interface CacheEntry {
   contentHash: string;
 }
 
-/**
- * Creates a hash from text content for caching purposes.
- * @param text The text content to hash
- * @returns A simple hash string
- */
-function createContentHash(text: string): string {
-  let hash = 0;
-  if (text.length === 0) return hash.toString();
-  
-  // Use a faster hashing algorithm for small texts
-  if (text.length < 500) {
-    for (let i = 0; i < text.length; i++) {
-      const char = text.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-  } else {
-    // For larger texts, sample key positions to speed up hashing
-    const step = Math.floor(text.length / 100);
-    for (let i = 0; i < text.length; i += step) {
-      const char = text.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-  }
-  
-  return Math.abs(hash).toString();
-}
-
 
 
 /**
@@ -134,10 +120,12 @@ export function useSuggestionEngine() {
       // Aggressive caching for small grammar checks
       const cacheKey = scope === 'grammar' ? `${text.trim()}_grammar_v2` : text;
       const contentHash = createContentHash(cacheKey);
+      // Grammar checks send trimmed text, so their offsets start after any leading whitespace
+      const leadingWhitespace = scope === 'grammar' ? text.length - text.trimStart().length : 0;
       const cachedSuggestions = getCachedSuggestions(contentHash);
       if (cachedSuggestions) {
         console.log(`📦 Cache hit for ${scope || 'full'} analysis`);
-        return cachedSuggestions;
+        return offsetSuggestionRanges(cachedSuggestions, leadingWhitespace);
       }
 
       // Skip if content is identical to recently analyzed (for non-grammar scope)  
@@ -162,7 +150,8 @@ export function useSuggestionEngine() {
                 body: { 
                   text: text.trim(),
                   mode: 'fast', // Signal for optimized processing
-                  maxSuggestions: 15 // Increased to catch more errors
+                  maxSuggestions: 15, // Increased to catch more errors
+                  mechanicsChecked: true, // The editor already applies the rules in grammar-rules.ts
                 } 
               },
             );
@@ -176,7 +165,7 @@ export function useSuggestionEngine() {
 
           const grammarSuggestions = (result.suggestions || [])
             .slice(0, 10) // Hard limit to prevent slowdowns
-            .map((s: Omit<Suggestion, 'category'>) => ({
+            .map((s: TextSuggestion) => ({
               ...s,
               category: 'grammar' as const,
             }));
@@ -187,7 +176,7 @@ export function useSuggestionEngine() {
           const duration = performance.now() - startTime;
           console.log(`⚡ Grammar check completed in ${duration.toFixed(0)}ms`);
           
-          return grammarSuggestions;
+          return offsetSuggestionRanges(grammarSuggestions, leadingWhitespace);
         }
         
         // Original combined path for backward compatibility
@@ -213,14 +202,14 @@ export function useSuggestionEngine() {
         const allSuggestions: Suggestion[] = [];
         
         if (result.grammarSuggestions) {
-          allSuggestions.push(...result.grammarSuggestions.map((s: Omit<Suggestion, 'category'>) => ({
+          allSuggestions.push(...result.grammarSuggestions.map((s: TextSuggestion) => ({
             ...s,
             category: 'grammar' as const,
           })));
         }
         
         if (result.academicVoiceSuggestions) {
-          allSuggestions.push(...result.academicVoiceSuggestions.map((s: Omit<Suggestion, 'category'>) => ({
+          allSuggestions.push(...result.academicVoiceSuggestions.map((s: TextSuggestion) => ({
             ...s,
             category: 'academic_voice' as const,
           })));
@@ -233,14 +222,14 @@ export function useSuggestionEngine() {
           const academicResult = await supabase.functions.invoke('academic-voice', { body: { text } });
           
           if (!grammarResult.error && grammarResult.data?.suggestions) {
-            allSuggestions.push(...grammarResult.data.suggestions.map((s: Omit<Suggestion, 'category'>) => ({
+            allSuggestions.push(...grammarResult.data.suggestions.map((s: TextSuggestion) => ({
               ...s,
               category: 'grammar' as const,
             })));
           }
           
           if (!academicResult.error && academicResult.data?.suggestions) {
-            allSuggestions.push(...academicResult.data.suggestions.map((s: Omit<Suggestion, 'category'>) => ({
+            allSuggestions.push(...academicResult.data.suggestions.map((s: TextSuggestion) => ({
               ...s,
               category: 'academic_voice' as const,
             })));
@@ -302,7 +291,7 @@ export function useSuggestionEngine() {
           return data;
         });
 
-        const academicSuggestions = (result.suggestions || []).map((s: Omit<Suggestion, 'category'>) => ({
+        const academicSuggestions = (result.suggestions || []).map((s: TextSuggestion) => ({
           ...s,
           category: 'academic_voice' as const,
         }));
@@ -325,16 +314,22 @@ export function useSuggestionEngine() {
 
   /**
    * Optimized evidence checking with caching and smart quote detection.
+   * Besides coaching how each quote is integrated, it flags quotes, statistics
+   * and factual claims that do not say where they come from.
    *
    * @param text The full text to analyze for quotes.
+   * @param quotes The quotes in the text, from `extractQuotes`.
+   * @param sources The document's source library, which findings are linked to.
    * @returns A promise that resolves to an array of evidence suggestions.
    */
   const checkEvidence = useCallback(
-    async (text: string): Promise<Suggestion[]> => {
+    async (text: string, quotes: Quote[], sources: Source[] = []): Promise<Suggestion[]> => {
       if (!text.trim() || text.length < MIN_CONTENT_LENGTH) return [];
 
-      // Check cache first
-      const contentHash = createContentHash(text + '_evidence');
+      // Check cache first; block quotes and links to sources are not visible in the text
+      const library = sources.map(({ id, author, title }) => ({ id, author, title }));
+      const quoteRanges = quotes.map(({ type, start, end }) => [type, start, end]);
+      const contentHash = createContentHash(text + '_evidence' + JSON.stringify([quoteRanges, library]));
       const cachedSuggestions = getCachedSuggestions(contentHash);
       if (cachedSuggestions) {
         return cachedSuggestions;
@@ -344,39 +339,37 @@ export function useSuggestionEngine() {
       setError(null);
 
       try {
-        // Find all quotes in the text
-        const quoteRegex = /"([^"]+)"/g;
-        const matches = Array.from(text.matchAll(quoteRegex));
-        
-        if (matches.length === 0) {
-          return [];
-        }
+        // Quotes and statistics without attribution are found locally
+        const attributionSuggestions: Suggestion[] = findUnattributedEvidence(text, quotes, sources)
+          .map(finding => ({ ...finding, category: 'evidence' as const }));
+
+        // Claims that need a source are found in the whole text while the quotes are checked
+        const claimsRequest = supabase.functions
+          .invoke('evidence-mentor', { body: { mode: 'claims', text, sources: library } })
+          .then(({ data, error: invokeError }) => {
+            if (invokeError) {
+              console.error('Evidence claims error:', invokeError);
+              return [];
+            }
+            return (data.suggestions || []) as Suggestion[];
+          });
 
-        console.log(`🔍 Analyzing ${matches.length} quotes for evidence integration...`);
+        console.log(`🔍 Analyzing ${quotes.length} quotes for evidence integration...`);
 
         // Batch process quotes for efficiency
         const batchSize = 3; // Process quotes in batches
-        const allSuggestions: Suggestion[] = [];
+        const integrationSuggestions: Suggestion[] = [];
 
-        for (let i = 0; i < matches.length; i += batchSize) {
-          const batch = matches.slice(i, i + batchSize);
+        for (let i = 0; i < quotes.length; i += batchSize) {
+          const batch = quotes.slice(i, i + batchSize);
           
-          const promises = batch.map(async (match) => {
-            const quote = match[0]; // Full quoted text including quotes
-            const quoteStartIndex = match.index!;
-            
-            // Get surrounding context (200 chars before and after)
-            const contextBefore = text.substring(Math.max(0, quoteStartIndex - 200), quoteStartIndex);
-            const contextAfter = text.substring(
-              quoteStartIndex + quote.length, 
-              quoteStartIndex + quote.length + 200
-            );
-            
-            const surroundingText = `${contextBefore}${quote}${contextAfter}`;
+          const promises = batch.map(async (quote) => {
+            // The quote with the sentences before and after it
+            const surroundingText = text.slice(quote.context.start, quote.context.end);
 
             const { data, error: invokeError } = await supabase.functions.invoke(
               'evidence-mentor',
-              { body: { quote, surroundingText } },
+              { body: { quote: quote.text, surroundingText } },
             );
 
             if (invokeError) {
@@ -384,16 +377,19 @@ export function useSuggestionEngine() {
               return [];
             }
             
-            return (data.suggestions || []) as Suggestion[];
+            // Offsets come back relative to surroundingText
+            return offsetSuggestionRanges((data.suggestions || []) as Suggestion[], quote.context.start);
           });
 
           const results = await Promise.allSettled(promises);
           results.forEach((result) => {
             if (result.status === 'fulfilled') {
-              allSuggestions.push(...result.value);
+              integrationSuggestions.push(...result.value);
             }
           });
         }
+
+        const allSuggestions = mergeEvidenceSuggestions(attributionSuggestions, integrationSuggestions, await claimsRequest);
         
         // Cache the results
         setCachedSuggestions(contentHash, allSuggestions);
@@ -0,0 +1,199 @@
+/**
+ * @file This hook persists AI suggestions to the `suggestions` table and keeps
+ * their status in sync with what the student does in the editor. Pending
+ * suggestions are reloaded when a document is reopened so feedback survives a
+ * page refresh.
+ */
+'use client';
+
+import { createClient } from '@/lib/supabase/client';
+import { useCallback, useRef } from 'react';
+import { type Suggestion, type SuggestionCategory } from '@/lib/hooks/use-suggestion-engine';
+
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected' | 'ignored';
+
+/**
+ * A suggestion together with its character offsets in the document text.
+ */
+export type PositionedSuggestion = Suggestion & {
+  start: number;
+  end: number;
+};
+
+/**
+ * A suggestion that has been stored in the database.
+ */
+export type PersistedSuggestion = PositionedSuggestion & {
+  id: string;
+};
+
+interface SuggestionRow {
+  id: string;
+  type: SuggestionCategory;
+  original_text: string;
+  suggested_text: string;
+  explanation: string | null;
+  position_start: number;
+  position_end: number;
+  source_id: string | null;
+}
+
+/**
+ * Builds a stable key used to recognise the same suggestion across analysis runs.
+ * @param suggestion The suggestion to key.
+ * @returns A key combining category, original text and replacement.
+ */
+export function getSuggestionKey(suggestion: Pick<Suggestion, 'category' | 'original' | 'suggestion'>): string {
+  return `${suggestion.category}::${suggestion.original}::${suggestion.suggestion || ''}`;
+}
+
+/**
+ * Maps a database row back to the suggestion shape used by the editor.
+ * @param row The row from the `suggestions` table.
+ * @returns The persisted suggestion.
+ */
+function rowToSuggestion(row: SuggestionRow): PersistedSuggestion {
+  return {
+    id: row.id,
+    original: row.original_text,
+    suggestion: row.suggested_text,
+    explanation: row.explanation || '',
+    category: row.type,
+    start: row.position_start,
+    end: row.position_end,
+    sourceId: row.source_id,
+  };
+}
+
+/**
+ * A hook to store suggestions and their outcomes for a single document.
+ *
+ * @param documentId The document the suggestions belong to.
+ * @param userId The owner of the document.
+ * @returns Functions to save, update and reload suggestions.
+ */
+export function useSuggestionPersistence(documentId: string, userId: string) {
+  const supabase = createClient();
+
+  // Pending suggestions we already know about, keyed by getSuggestionKey
+  const pendingRef = useRef<Map<string, PersistedSuggestion>>(new Map());
+
+  /**
+   * Updates the status of stored suggestions.
+   * @param ids The ids of the suggestions to update.
+   * @param status The new status.
+   */
+  const setStatus = useCallback(async (ids: string[], status: SuggestionStatus) => {
+    if (ids.length === 0) return;
+
+    const { error } = await supabase
+      .from('suggestions')
+      .update({ status })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error updating suggestion status:', error);
+    }
+  }, [supabase]);
+
+  /**
+   * Stores newly produced suggestions. Suggestions that are already pending are
+   * not inserted again. Pending suggestions in `replaceCategories` that the
+   * latest analysis no longer reports are marked as ignored.
+   *
+   * @param suggestions The suggestions produced by an analysis run.
+   * @param replaceCategories Categories this analysis run is authoritative for.
+   * @returns The suggestions, with their database ids attached once stored.
+   */
+  const persistSuggestions = useCallback(async (
+    suggestions: PositionedSuggestion[],
+    replaceCategories: SuggestionCategory[] = [],
+  ): Promise<Array<PositionedSuggestion & { id?: string }>> => {
+    const incomingKeys = new Set(suggestions.map(getSuggestionKey));
+
+    const staleIds: string[] = [];
+    pendingRef.current.forEach((pending, key) => {
+      if (replaceCategories.includes(pending.category) && !incomingKeys.has(key)) {
+        staleIds.push(pending.id);
+        pendingRef.current.delete(key);
+      }
+    });
+    await setStatus(staleIds, 'ignored');
+
+    const newSuggestions = suggestions.filter(s => !pendingRef.current.has(getSuggestionKey(s)));
+
+    if (newSuggestions.length > 0) {
+      const { data, error } = await supabase
+        .from('suggestions')
+        .insert(newSuggestions.map(s => ({
+          document_id: documentId,
+          user_id: userId,
+          type: s.category,
+          original_text: s.original,
+          suggested_text: s.suggestion || '',
+          explanation: s.explanation,
+          position_start: s.start,
+          position_end: s.end,
+          source_id: s.sourceId || null,
+        })))
+        .select('id, type, original_text, suggested_text, explanation, position_start, position_end, source_id');
+
+      if (error) {
+        console.error('Error saving suggestions:', error);
+      } else {
+        (data as SuggestionRow[]).forEach(row => {
+          const stored = rowToSuggestion(row);
+          pendingRef.current.set(getSuggestionKey(stored), stored);
+        });
+      }
+    }
+
+    // Attach ids where we have them; a failed insert must not hide suggestions
+    return suggestions.map(s => ({
+      ...s,
+      id: pendingRef.current.get(getSuggestionKey(s))?.id,
+    }));
+  }, [supabase, documentId, userId, setStatus]);
+
+  /**
+   * Records what the student did with a suggestion.
+   * @param suggestion The suggestion that was acted on.
+   * @param status The outcome, e.g. 'accepted' or 'rejected'.
+   */
+  const updateSuggestionStatus = useCallback(async (
+    suggestion: Pick<Suggestion, 'category' | 'original' | 'suggestion'> & { id?: string },
+    status: Exclude<SuggestionStatus, 'pending'>,
+  ) => {
+    const key = getSuggestionKey(suggestion);
+    const id = suggestion.id || pendingRef.current.get(key)?.id;
+    pendingRef.current.delete(key);
+
+    if (id) {
+      await setStatus([id], status);
+    }
+  }, [setStatus]);
+
+  /**
+   * Loads the suggestions the student has not acted on yet.
+   * @returns The pending suggestions for the document, oldest first.
+   */
+  const loadPendingSuggestions = useCallback(async (): Promise<PersistedSuggestion[]> => {
+    const { data, error } = await supabase
+      .from('suggestions')
+      .select('id, type, original_text, suggested_text, explanation, position_start, position_end, source_id')
+      .eq('document_id', documentId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading pending suggestions:', error);
+      return [];
+    }
+
+    const suggestions = (data as SuggestionRow[]).map(rowToSuggestion);
+    suggestions.forEach(s => pendingRef.current.set(getSuggestionKey(s), s));
+    return suggestions;
+  }, [supabase, documentId]);
+
+  return { persistSuggestions, updateSuggestionStatus, loadPendingSuggestions };
+}
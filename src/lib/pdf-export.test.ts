@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { renderDocumentPdf } from '@/lib/pdf-export';
+
+const content = { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Teens need more sleep.' }] }] };
+const header = { studentName: 'Lan Nguyễn', teacherName: 'Ms. Đặng', className: 'English 9', date: '1 May 2025' };
+
+describe('renderDocumentPdf', () => {
+  it('renders an MLA header for a name the standard fonts cannot encode', async () => {
+    const bytes = await renderDocumentPdf('Sleep', content, { layout: 'mla', header });
+
+    expect((await PDFDocument.load(bytes)).getPageCount()).toBe(1);
+  });
+
+  it('renders an APA running head for a title the standard fonts cannot encode', async () => {
+    const bytes = await renderDocumentPdf('睡眠 and school start times', content, { layout: 'apa', header });
+
+    expect((await PDFDocument.load(bytes)).getPageCount()).toBe(2);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * @file Server-side PDF rendering for documents. Lays out Tiptap JSON on
+ * US Letter pages with 1-inch margins, double-spaced 12pt Times, and an
+ * optional academic layout: an MLA header block with a running "Last-name
+ * page" header, or an APA title page with a running head on every page.
+ * A works cited list starts on a new page with hanging indents.
+ */
+
+import { PDFDocument, StandardFonts, type PDFFont, type PDFPage, rgb } from 'pdf-lib';
+import { type JSONContent } from '@tiptap/react';
+import { type AcademicHeader, type PdfLayout } from '@/lib/types';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const HEADER_OFFSET = 36; // Running headers sit half an inch from the page edge
+const FONT_SIZE = 12;
+const LINE_HEIGHT = FONT_SIZE * 2; // Double spacing
+const INDENT = 36; // Half-inch paragraph and block quote indent
+
+export interface PdfRenderOptions {
+  layout: PdfLayout;
+  header?: AcademicHeader;
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+}
+
+interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+interface Token {
+  text: string;
+  font: PDFFont;
+  isSpace: boolean;
+  isBreak?: boolean;
+}
+
+interface BlockOptions {
+  align?: 'left' | 'center';
+  indent?: number;
+  firstLineIndent?: number;
+}
+
+/**
+ * Lays out text line by line across as many pages as needed, drawing the
+ * running header on each new page.
+ */
+class PageWriter {
+  private page: PDFPage | null = null;
+  private y = 0;
+  private pageCount = 0;
+  private encodable = new Map<string, boolean>();
+
+  constructor(
+    private pdf: PDFDocument,
+    private fonts: Fonts,
+    private drawRunningHeader: (page: PDFPage, pageNumber: number) => void,
+  ) {}
+
+  /**
+   * Starts a new page and resets the cursor to the top margin.
+   */
+  newPage(): void {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.pageCount++;
+    this.drawRunningHeader(this.page, this.pageCount);
+    this.y = PAGE_HEIGHT - MARGIN - FONT_SIZE;
+  }
+
+  /**
+   * Moves the cursor down by a number of blank double-spaced lines.
+   * @param lines - The number of blank lines
+   */
+  skipLines(lines: number): void {
+    for (let i = 0; i < lines; i++) this.advance();
+  }
+
+  /**
+   * Writes a block of styled text, wrapping it to the page width.
+   * @param runs - The styled text runs
+   * @param options - Alignment and indentation
+   */
+  writeBlock(runs: TextRun[], options: BlockOptions = {}): void {
+    const { align = 'left', indent = 0, firstLineIndent = 0 } = options;
+    const tokens = this.tokenize(runs);
+    const maxWidth = PAGE_WIDTH - MARGIN * 2 - indent;
+
+    let line: Token[] = [];
+    let lineWidth = 0;
+    let isFirstLine = true;
+
+    const flush = () => {
+      this.drawLine(line, align, indent + (isFirstLine ? firstLineIndent : 0), maxWidth - (isFirstLine ? firstLineIndent : 0));
+      line = [];
+      lineWidth = 0;
+      isFirstLine = false;
+    };
+
+    for (const token of tokens) {
+      if (token.isBreak) {
+        flush();
+        continue;
+      }
+
+      const available = maxWidth - (isFirstLine ? firstLineIndent : 0);
+      const width = this.measure(token);
+
+      if (token.isSpace) {
+        if (line.length > 0) {
+          line.push(token);
+          lineWidth += width;
+        }
+        continue;
+      }
+
+      if (lineWidth + width > available && line.length > 0) {
+        flush();
+      }
+
+      // Words wider than the line are split across lines character by character
+      if (width > available) {
+        let chunk = '';
+        for (const char of token.text) {
+          if (token.font.widthOfTextAtSize(chunk + char, FONT_SIZE) > available && chunk) {
+            line.push({ ...token, text: chunk });
+            flush();
+            chunk = '';
+          }
+          chunk += char;
+        }
+        line.push({ ...token, text: chunk });
+        lineWidth = token.font.widthOfTextAtSize(chunk, FONT_SIZE);
+        continue;
+      }
+
+      line.push(token);
+      lineWidth += width;
+    }
+
+    if (line.length > 0 || isFirstLine) flush();
+  }
+
+  /**
+   * Serializes the finished document.
+   * @returns The PDF bytes
+   */
+  async save(): Promise<Uint8Array> {
+    return this.pdf.save();
+  }
+
+  private advance(): void {
+    if (!this.page || this.y < MARGIN) {
+      this.newPage();
+      return;
+    }
+    this.y -= LINE_HEIGHT;
+    if (this.y < MARGIN) this.newPage();
+  }
+
+  private drawLine(tokens: Token[], align: 'left' | 'center', indent: number, maxWidth: number): void {
+    if (!this.page || this.y < MARGIN) this.newPage();
+
+    // Trailing spaces do not count towards the line width when centering
+    while (tokens.length > 0 && tokens[tokens.length - 1].isSpace) tokens.pop();
+    const width = tokens.reduce((sum, token) => sum + this.measure(token), 0);
+
+    let x = MARGIN + indent + (align === 'center' ? Math.max(0, (maxWidth - width) / 2) : 0);
+    for (const token of tokens) {
+      this.page!.drawText(token.text, { x, y: this.y, size: FONT_SIZE, font: token.font, color: rgb(0, 0, 0) });
+      x += this.measure(token);
+    }
+
+    this.y -= LINE_HEIGHT;
+  }
+
+  private measure(token: Token): number {
+    return token.font.widthOfTextAtSize(token.text, FONT_SIZE);
+  }
+
+  private tokenize(runs: TextRun[]): Token[] {
+    const tokens: Token[] = [];
+    runs.forEach(run => {
+      const font = run.bold && run.italic
+        ? this.fonts.boldItalic
+        : run.bold ? this.fonts.bold : run.italic ? this.fonts.italic : this.fonts.regular;
+
+      run.text.split(/(\n|[ \t]+)/).forEach(part => {
+        if (!part) return;
+        if (part === '\n') {
+          tokens.push({ text: '', font, isSpace: false, isBreak: true });
+        } else if (/^[ \t]+$/.test(part)) {
+          tokens.push({ text: ' ', font, isSpace: true });
+        } else {
+          tokens.push({ text: this.sanitize(part, font), font, isSpace: false });
+        }
+      });
+    });
+    return tokens;
+  }
+
+  /**
+   * Replaces characters the standard PDF fonts cannot encode.
+   */
+  sanitize(text: string, font: PDFFont): string {
+    return Array.from(text).map(char => {
+      if (!this.encodable.has(char)) {
+        try {
+          font.encodeText(char);
+          this.encodable.set(char, true);
+        } catch {
+          this.encodable.set(char, false);
+        }
+      }
+      return this.encodable.get(char) ? char : '?';
+    }).join('');
+  }
+}
+
+/**
+ * Flattens inline Tiptap nodes into styled runs.
+ *
+ * @param nodes - Inline nodes
+ * @returns The styled text runs
+ */
+function inlineToRuns(nodes: JSONContent[] = []): TextRun[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'hardBreak') return [{ text: '\n' }];
+    if (node.type === 'citation') return [{ text: node.attrs?.label || '' }];
+    if (node.type !== 'text') return inlineToRuns(node.content);
+
+    const marks = (node.marks || []).map(mark => mark.type);
+    return [{ text: node.text || '', bold: marks.includes('bold'), italic: marks.includes('italic') }];
+  });
+}
+
+/**
+ * Writes the document body block by block.
+ *
+ * @param writer - The page writer
+ * @param nodes - Block-level Tiptap nodes
+ * @param indent - The left indent inherited from parent blocks
+ */
+function writeBlocks(writer: PageWriter, nodes: JSONContent[] = [], indent = 0): void {
+  nodes.forEach(node => {
+    switch (node.type) {
+      case 'paragraph':
+        writer.writeBlock(inlineToRuns(node.content), { indent, firstLineIndent: indent > 0 ? 0 : INDENT });
+        break;
+      case 'heading': {
+        const runs = inlineToRuns(node.content).map(run => ({ ...run, bold: true }));
+        writer.writeBlock(runs, { align: node.attrs?.level === 1 ? 'center' : 'left', indent });
+        break;
+      }
+      case 'blockquote':
+        writeBlocks(writer, node.content, indent + INDENT);
+        break;
+      case 'codeBlock':
+        writer.writeBlock(inlineToRuns(node.content), { indent });
+        break;
+      case 'worksCited': {
+        const [heading, ...entries] = node.content || [];
+        writer.newPage();
+        writer.writeBlock(inlineToRuns(heading?.content), { align: 'center' });
+        entries.forEach(entry => {
+          writer.writeBlock(inlineToRuns(entry.content), { indent: INDENT, firstLineIndent: -INDENT });
+        });
+        break;
+      }
+      case 'bulletList':
+      case 'orderedList':
+        (node.content || []).forEach((item, index) => {
+          const marker = node.type === 'orderedList' ? `${index + 1}. ` : '• ';
+          const [first, ...rest] = item.content || [];
+          writer.writeBlock([{ text: marker }, ...inlineToRuns(first?.content)], { indent: indent + INDENT });
+          writeBlocks(writer, rest, indent + INDENT);
+        });
+        break;
+      default:
+        writeBlocks(writer, node.content, indent);
+    }
+  });
+}
+
+/**
+ * Renders a document to PDF using the requested academic layout.
+ *
+ * @param title - Document title
+ * @param content - Tiptap JSON content
+ * @param options - The page layout and, for MLA/APA, the student details
+ * @returns The PDF file bytes
+ */
+export async function renderDocumentPdf(title: string, content: JSONContent, options: PdfRenderOptions): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.TimesRoman),
+    bold: await pdf.embedFont(StandardFonts.TimesRomanBold),
+    italic: await pdf.embedFont(StandardFonts.TimesRomanItalic),
+    boldItalic: await pdf.embedFont(StandardFonts.TimesRomanBoldItalic),
+  };
+
+  const header = options.header;
+  pdf.setTitle(title);
+  if (header?.studentName) pdf.setAuthor(header.studentName);
+  pdf.setCreator('EssayElevate');
+
+  const drawText = (page: PDFPage, text: string, x: number, y: number) =>
+    page.drawText(text, { x, y, size: FONT_SIZE, font: fonts.regular, color: rgb(0, 0, 0) });
+  const rightAligned = (page: PDFPage, text: string) =>
+    drawText(page, text, PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(text, FONT_SIZE), PAGE_HEIGHT - HEADER_OFFSET - FONT_SIZE);
+
+  const lastName = header?.studentName.trim().split(/\s+/).pop() || '';
+  const runningHead = title.toUpperCase().slice(0, 50);
+
+  const writer = new PageWriter(pdf, fonts, (page, pageNumber) => {
+    // Names and titles can hold characters the header font cannot encode, like the body text
+    switch (options.layout) {
+      case 'mla':
+        rightAligned(page, writer.sanitize(`${lastName} ${pageNumber}`.trim(), fonts.regular));
+        break;
+      case 'apa':
+        drawText(page, writer.sanitize(runningHead, fonts.regular), MARGIN, PAGE_HEIGHT - HEADER_OFFSET - FONT_SIZE);
+        rightAligned(page, `${pageNumber}`);
+        break;
+      default: {
+        const label = `${pageNumber}`;
+        drawText(page, label, (PAGE_WIDTH - fonts.regular.widthOfTextAtSize(label, FONT_SIZE)) / 2, HEADER_OFFSET);
+      }
+    }
+  });
+
+  writer.newPage();
+
+  if (options.layout === 'mla') {
+    [header?.studentName, header?.teacherName, header?.className, header?.date].forEach(line => {
+      writer.writeBlock([{ text: line || '' }]);
+    });
+    writer.writeBlock([{ text: title }], { align: 'center' });
+  } else if (options.layout === 'apa') {
+    // Student title page: bold title in the upper half, then the author block
+    writer.skipLines(3);
+    writer.writeBlock([{ text: title, bold: true }], { align: 'center' });
+    writer.skipLines(1);
+    [header?.studentName, header?.className, header?.teacherName, header?.date].forEach(line => {
+      if (line) writer.writeBlock([{ text: line }], { align: 'center' });
+    });
+    writer.newPage();
+    writer.writeBlock([{ text: title, bold: true }], { align: 'center' });
+  } else {
+    writer.writeBlock([{ text: title, bold: true }], { align: 'center' });
+  }
+
+  writeBlocks(writer, content?.content);
+
+  return writer.save();
+}
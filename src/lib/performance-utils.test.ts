@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createContentHash, LRUCache } from '@/lib/performance-utils';
+
+describe('createContentHash', () => {
+  it('returns "0" for empty text', () => {
+    expect(createContentHash('')).toBe('0');
+  });
+
+  it('is deterministic', () => {
+    expect(createContentHash('The quick brown fox')).toBe(createContentHash('The quick brown fox'));
+  });
+
+  it('distinguishes short texts that differ by one character', () => {
+    expect(createContentHash('their is')).not.toBe(createContentHash('there is'));
+  });
+
+  it('distinguishes the per-feature cache keys built from the same text', () => {
+    const text = 'An essay paragraph.';
+    const keys = ['', '_academic_voice', '_evidence', '_argument'].map(suffix => createContentHash(text + suffix));
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('returns a non-negative integer string for long texts', () => {
+    const hash = createContentHash('word '.repeat(500));
+    expect(hash).toMatch(/^\d+$/);
+  });
+
+  it('distinguishes long texts of different lengths', () => {
+    const base = 'a'.repeat(600);
+    expect(createContentHash(base)).not.toBe(createContentHash(base + 'b'.repeat(100)));
+  });
+});
+
+describe('LRUCache', () => {
+  it('stores and returns values', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.has('a')).toBe(true);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.size()).toBe(1);
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(false);
+    expect(cache.has('b')).toBe(true);
+    expect(cache.has('c')).toBe(true);
+    expect(cache.size()).toBe(2);
+  });
+
+  it('treats a read as a use', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+  });
+
+  it('updates an existing key without evicting others', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+
+    expect(cache.size()).toBe(2);
+    expect(cache.get('a')).toBe(10);
+    expect(cache.get('b')).toBe(2);
+  });
+
+  it('clears all entries', () => {
+    const cache = new LRUCache<string, number>();
+    cache.set('a', 1);
+    cache.clear();
+
+    expect(cache.size()).toBe(0);
+  });
+});
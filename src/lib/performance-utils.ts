@@ -151,6 +151,35 @@ export function measureSyncPerformance<T>(
   }
 }
 
+/**
+ * Creates a hash from text content for caching purposes.
+ * @param text The text content to hash
+ * @returns A simple hash string
+ */
+export function createContentHash(text: string): string {
+  let hash = 0;
+  if (text.length === 0) return hash.toString();
+  
+  // Use a faster hashing algorithm for small texts
+  if (text.length < 500) {
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash;
+    }
+  } else {
+    // For larger texts, sample key positions to speed up hashing
+    const step = Math.floor(text.length / 100);
+    for (let i = 0; i < text.length; i += step) {
+      const char = text.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash;
+    }
+  }
+  
+  return Math.abs(hash).toString();
+}
+
 /**
  * Simple LRU (Least Recently Used) cache implementation for performance optimization.
  */
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeReadability,
+  countSyllables,
+  getFleschKincaidGrade,
+  getStyleWarnings,
+  splitSentences,
+} from '@/lib/readability';
+
+describe('countSyllables', () => {
+  it('estimates syllables from vowel groups', () => {
+    expect(countSyllables('cat')).toBe(1);
+    expect(countSyllables('water')).toBe(2);
+    expect(countSyllables('education')).toBe(4);
+    expect(countSyllables('readability')).toBe(5);
+  });
+
+  it('does not count silent endings', () => {
+    expect(countSyllables('make')).toBe(1);
+    expect(countSyllables('jumped')).toBe(1);
+    expect(countSyllables('boxes')).toBe(1);
+    expect(countSyllables('table')).toBe(2);
+  });
+
+  it('returns 0 for a word without letters', () => {
+    expect(countSyllables('2025')).toBe(0);
+  });
+});
+
+describe('getFleschKincaidGrade', () => {
+  it('applies the Flesch-Kincaid formula', () => {
+    expect(getFleschKincaidGrade(100, 5, 150)).toBeCloseTo(0.39 * 20 + 11.8 * 1.5 - 15.59);
+  });
+
+  it('returns null without sentences', () => {
+    expect(getFleschKincaidGrade(0, 0, 0)).toBeNull();
+  });
+});
+
+describe('splitSentences', () => {
+  it('returns trimmed sentence offsets', () => {
+    const text = 'Title\n\nSleep matters.  Students need 8.5 hours!   Do they get it?';
+    const sentences = splitSentences(text, 7, text.length).map(s => text.slice(s.start, s.end));
+
+    expect(sentences).toEqual(['Sleep matters.', 'Students need 8.5 hours!', 'Do they get it?']);
+  });
+
+  it('keeps a closing quote with its sentence and includes an unfinished sentence', () => {
+    const text = 'He said "stop." Then he left';
+    const sentences = splitSentences(text, 0, text.length).map(s => text.slice(s.start, s.end));
+
+    expect(sentences).toEqual(['He said "stop."', 'Then he left']);
+  });
+});
+
+describe('analyzeReadability', () => {
+  it('reports the grade, sentence length and variety of a draft', () => {
+    const report = analyzeReadability('The cat sat. The dog ran to the big red barn.');
+
+    expect(report.wordCount).toBe(11);
+    expect(report.sentenceCount).toBe(2);
+    expect(report.averageSentenceLength).toBe(5.5);
+    expect(report.sentenceLengthVariety).toBe(2.5);
+    expect(report.gradeLevel).toBeCloseTo(getFleschKincaidGrade(11, 2, 11)!);
+  });
+
+  it('treats each line as a paragraph and skips headings', () => {
+    const text = 'Why Sleep Matters\n\nTeenagers need sleep. Schools start early.\n\nLater starts help students.';
+    const report = analyzeReadability(text);
+
+    expect(report.paragraphs).toHaveLength(2);
+    expect(report.paragraphs.map(p => text.slice(p.start, p.end))).toEqual([
+      'Teenagers need sleep. Schools start early.',
+      'Later starts help students.',
+    ]);
+    expect(report.paragraphs[1].index).toBe(1);
+    expect(report.sentenceCount).toBe(3);
+  });
+
+  it('flags passive sentences', () => {
+    const report = analyzeReadability('The study was conducted in 2020. The results were clearly shown to everyone. We wrote the report.');
+    const [paragraph] = report.paragraphs;
+
+    expect(paragraph.sentences.map(s => s.issues)).toEqual([['passive'], ['passive'], []]);
+    expect(paragraph.passiveRatio).toBeCloseTo(2 / 3);
+    expect(report.passiveRatio).toBeCloseTo(2 / 3);
+  });
+
+  it('does not mistake adjectives ending in "en" for the passive voice', () => {
+    const report = analyzeReadability('The children are often tired. Gardens are open at seven.');
+
+    expect(report.passiveRatio).toBe(0);
+  });
+
+  it('flags long sentences', () => {
+    const long = `${Array(30).fill('word').join(' ')}.`;
+    const report = analyzeReadability(`Short one here. ${long}`);
+
+    expect(report.paragraphs[0].sentences.map(s => s.issues.includes('long'))).toEqual([false, true]);
+  });
+
+  it('finds repeated content words and the sentences that use them', () => {
+    const report = analyzeReadability(
+      'Technology changes schools. Technology helps teachers. Students use technology daily. They like it.',
+    );
+    const [paragraph] = report.paragraphs;
+
+    expect(paragraph.repeatedWords).toEqual([{ word: 'technology', count: 3 }]);
+    expect(paragraph.repeatedWordDensity).toBeCloseTo(2 / 13);
+    expect(paragraph.sentences.map(s => s.issues.includes('repeated'))).toEqual([true, true, true, false]);
+  });
+
+  it('measures transition words at the start of sentences', () => {
+    const report = analyzeReadability(
+      'Sleep matters. However, schools start early. For example, classes begin at seven. Students are tired.',
+    );
+
+    expect(report.paragraphs[0].transitionRatio).toBe(0.5);
+  });
+
+  it('returns an empty report for empty text', () => {
+    expect(analyzeReadability('')).toEqual({
+      wordCount: 0,
+      sentenceCount: 0,
+      gradeLevel: null,
+      averageSentenceLength: 0,
+      sentenceLengthVariety: 0,
+      passiveRatio: 0,
+      repeatedWordDensity: 0,
+      transitionRatio: 0,
+      paragraphs: [],
+    });
+  });
+});
+
+describe('getStyleWarnings', () => {
+  const balanced = {
+    wordCount: 100,
+    sentenceCount: 5,
+    gradeLevel: 9.5,
+    averageSentenceLength: 20,
+    sentenceLengthVariety: 6,
+    passiveRatio: 0.2,
+    repeatedWordDensity: 0.02,
+    transitionRatio: 0.4,
+  };
+
+  it('returns nothing for statistics in range', () => {
+    expect(getStyleWarnings(balanced)).toEqual([]);
+    expect(getStyleWarnings({ ...balanced, gradeLevel: null })).toEqual([]);
+  });
+
+  it('warns about each statistic out of range', () => {
+    expect(getStyleWarnings({ ...balanced, gradeLevel: 12.2 })[0]).toMatch(/above the target grade/);
+    expect(getStyleWarnings({ ...balanced, gradeLevel: 6 })[0]).toMatch(/below the target grade/);
+    expect(getStyleWarnings({ ...balanced, passiveRatio: 0.5 })[0]).toMatch(/passive voice/);
+    expect(getStyleWarnings({ ...balanced, repeatedWordDensity: 0.1 })[0]).toMatch(/repeated/);
+    expect(getStyleWarnings({ ...balanced, sentenceLengthVariety: 1 })[0]).toMatch(/same length/);
+    expect(getStyleWarnings({ ...balanced, transitionRatio: 0 })[0]).toMatch(/transition/);
+  });
+
+  it('needs a few sentences to judge variety and transitions', () => {
+    expect(getStyleWarnings({ ...balanced, sentenceCount: 2, sentenceLengthVariety: 0, transitionRatio: 0 })).toEqual([]);
+  });
+});
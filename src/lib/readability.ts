@@ -0,0 +1,301 @@
+/**
+ * @file Local readability and style statistics for a draft: Flesch-Kincaid
+ * grade, sentence length and its variety, passive voice, repeated words and
+ * transition words, for the whole document and for each paragraph. Nothing
+ * here calls the AI, so the statistics update as the student types.
+ */
+
+import { findTextParagraphs } from '@/lib/document-text';
+
+/**
+ * The Flesch-Kincaid grade the academic-voice suggestions aim for.
+ */
+export const TARGET_GRADE_RANGE = { min: 9, max: 10 };
+
+/**
+ * Sentences with more words than this are flagged as long.
+ */
+export const LONG_SENTENCE_WORDS = 25;
+
+// A content word used this many times in one paragraph counts as repeated
+const REPEATED_WORD_MIN_COUNT = 3;
+
+// Where the style statistics start to read badly, see getStyleWarnings
+const MIN_SENTENCE_VARIETY = 3;
+const MAX_PASSIVE_RATIO = 0.25;
+const MAX_REPEATED_WORD_DENSITY = 0.05;
+const MIN_TRANSITION_RATIO = 0.1;
+
+export type SentenceIssue = 'long' | 'passive' | 'repeated';
+
+export interface SentenceStats {
+  start: number; // Offsets into the analyzed text
+  end: number;
+  text: string;
+  wordCount: number;
+  issues: SentenceIssue[];
+}
+
+export interface RepeatedWord {
+  word: string;
+  count: number;
+}
+
+export interface StyleStats {
+  wordCount: number;
+  sentenceCount: number;
+  gradeLevel: number | null; // Null when there are no sentences
+  averageSentenceLength: number;
+  sentenceLengthVariety: number; // Standard deviation of the sentence lengths, in words
+  passiveRatio: number; // Share of sentences in the passive voice, 0 to 1
+  repeatedWordDensity: number; // Share of words that repeat a word already used in the paragraph
+  transitionRatio: number; // Share of sentences that open with a transition
+}
+
+export interface ParagraphStats extends StyleStats {
+  index: number;
+  start: number;
+  end: number;
+  repeatedWords: RepeatedWord[];
+  sentences: SentenceStats[];
+}
+
+export interface ReadabilityReport extends StyleStats {
+  paragraphs: ParagraphStats[];
+}
+
+const WORD_PATTERN = /[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g;
+
+// Past participles that do not end in "-ed"
+const IRREGULAR_PARTICIPLES = [
+  'beaten', 'bought', 'broken', 'brought', 'built', 'caught', 'chosen', 'done', 'drawn', 'driven', 'eaten',
+  'fallen', 'felt', 'forgiven', 'forgotten', 'found', 'frozen', 'given', 'grown', 'heard', 'held', 'hidden',
+  'hit', 'kept', 'known', 'led', 'left', 'lost', 'made', 'meant', 'met', 'paid', 'proven', 'put', 'read',
+  'said', 'seen', 'sent', 'set', 'shaken', 'shown', 'sold', 'spent', 'spoken', 'stolen', 'taken', 'taught',
+  'thought', 'thrown', 'told', 'understood', 'won', 'written',
+];
+
+// A form of "be" or "get", an optional adverb, then a past participle
+const PASSIVE_PATTERN = new RegExp(
+  '\\b(?:am|is|are|was|were|be|been|being|get|gets|got|gotten)\\s+(?:\\w+ly\\s+)?'
+  + `(?:[a-z]{2,}ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+  'i',
+);
+
+const TRANSITIONS = [
+  'however', 'therefore', 'moreover', 'furthermore', 'additionally', 'consequently', 'thus', 'hence', 'meanwhile',
+  'nevertheless', 'nonetheless', 'similarly', 'likewise', 'instead', 'otherwise', 'finally', 'first', 'firstly',
+  'second', 'secondly', 'third', 'next', 'then', 'lastly', 'indeed', 'specifically', 'overall', 'ultimately',
+  'although', 'whereas', 'still', 'besides', 'accordingly', 'subsequently', 'for example', 'for instance',
+  'in addition', 'in contrast', 'on the other hand', 'as a result', 'in conclusion', 'in fact', 'to summarize',
+  'in summary', 'in other words', 'above all', 'because of this', 'even so', 'after all', 'at the same time',
+];
+const TRANSITION_PATTERN = new RegExp(`^["'“‘(]?(?:${TRANSITIONS.join('|')})\\b`, 'i');
+
+// Words too common to count as repetition
+const STOP_WORDS = new Set([
+  'the', 'and', 'that', 'this', 'with', 'from', 'have', 'has', 'had', 'they', 'them', 'their', 'there', 'were',
+  'was', 'are', 'for', 'not', 'but', 'you', 'your', 'his', 'her', 'she', 'him', 'its', 'our', 'who', 'what',
+  'when', 'where', 'which', 'will', 'would', 'could', 'should', 'can', 'been', 'being', 'into', 'than', 'then',
+  'also', 'more', 'most', 'some', 'such', 'only', 'very', 'just', 'about', 'because', 'these', 'those', 'does',
+  'did', 'many', 'much', 'other', 'each', 'even', 'like', 'make', 'makes', 'over', 'well', 'both', 'all', 'any',
+  'how', 'why', 'one', 'may', 'might', 'must', 'out', 'own', 'same', 'so', 'too', 'we', 'us', 'it', 'is', 'be',
+]);
+
+/**
+ * Estimates the number of syllables in a word from its vowel groups.
+ *
+ * @param word - The word
+ * @returns The estimated syllable count, at least 1 for any word with letters
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 0;
+  if (letters.length <= 3) return 1;
+
+  // Silent endings such as "-es", "-ed" and a final "e" do not add a syllable
+  const trimmed = letters.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length || 0);
+}
+
+/**
+ * Computes the Flesch-Kincaid grade level.
+ *
+ * @param words - The number of words
+ * @param sentences - The number of sentences
+ * @param syllables - The number of syllables
+ * @returns The grade level, or null for text without sentences
+ */
+export function getFleschKincaidGrade(words: number, sentences: number, syllables: number): number | null {
+  if (words === 0 || sentences === 0) return null;
+  return 0.39 * (words / sentences) + 11.8 * (syllables / words) - 15.59;
+}
+
+/**
+ * Splits a paragraph into sentences. A sentence ends at ".", "!" or "?"
+ * followed by a space or the end of the paragraph, so decimals and web
+ * addresses are kept together.
+ *
+ * @param text - The text containing the paragraph
+ * @param start - Where the paragraph starts in `text`
+ * @param end - Where the paragraph ends in `text`
+ * @returns The offsets of each sentence, trimmed of surrounding spaces
+ */
+export function splitSentences(text: string, start: number, end: number): { start: number; end: number }[] {
+  const paragraph = text.slice(start, end);
+  const ranges: { start: number; end: number }[] = [];
+  let sentenceStart = 0;
+
+  const addRange = (from: number, to: number) => {
+    const slice = paragraph.slice(from, to);
+    const leading = slice.length - slice.trimStart().length;
+    const trimmedLength = slice.trim().length;
+    if (trimmedLength > 0) {
+      ranges.push({ start: start + from + leading, end: start + from + leading + trimmedLength });
+    }
+  };
+
+  for (const match of paragraph.matchAll(/[.!?]+['"’”)\]]*(?=\s|$)/g)) {
+    const sentenceEnd = match.index! + match[0].length;
+    addRange(sentenceStart, sentenceEnd);
+    sentenceStart = sentenceEnd;
+  }
+  addRange(sentenceStart, paragraph.length);
+
+  return ranges;
+}
+
+/**
+ * Computes the mean and standard deviation of some numbers.
+ */
+function getMeanAndDeviation(values: number[]): { mean: number; deviation: number } {
+  if (values.length === 0) return { mean: 0, deviation: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, deviation: Math.sqrt(variance) };
+}
+
+/**
+ * Finds the content words used at least REPEATED_WORD_MIN_COUNT times.
+ */
+function findRepeatedWords(words: string[]): RepeatedWord[] {
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    const lower = word.toLowerCase();
+    if (lower.length < 4 || STOP_WORDS.has(lower) || /^\d+$/.test(lower)) continue;
+    counts.set(lower, (counts.get(lower) || 0) + 1);
+  }
+  return [...counts]
+    .filter(([, count]) => count >= REPEATED_WORD_MIN_COUNT)
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word));
+}
+
+/**
+ * Computes the shared statistics from per-sentence counts.
+ */
+function summarize(
+  sentences: { wordCount: number; syllables: number; isPassive: boolean; hasTransition: boolean }[],
+  repeats: number,
+): StyleStats {
+  const wordCount = sentences.reduce((sum, s) => sum + s.wordCount, 0);
+  const syllables = sentences.reduce((sum, s) => sum + s.syllables, 0);
+  const { mean, deviation } = getMeanAndDeviation(sentences.map(s => s.wordCount));
+  const share = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+  return {
+    wordCount,
+    sentenceCount: sentences.length,
+    gradeLevel: getFleschKincaidGrade(wordCount, sentences.length, syllables),
+    averageSentenceLength: mean,
+    sentenceLengthVariety: deviation,
+    passiveRatio: share(sentences.filter(s => s.isPassive).length, sentences.length),
+    repeatedWordDensity: share(repeats, wordCount),
+    transitionRatio: share(sentences.filter(s => s.hasTransition).length, sentences.length),
+  };
+}
+
+/**
+ * Analyzes the readability and style of a draft, paragraph by paragraph.
+ * Headings are skipped, see `findTextParagraphs`.
+ *
+ * @param text - The draft's plain text, usually `editor.getText()`
+ * @returns Statistics for the whole draft and for each paragraph, with
+ *   sentence offsets into `text`
+ */
+export function analyzeReadability(text: string): ReadabilityReport {
+  const paragraphs: ParagraphStats[] = [];
+  const allSentences: Parameters<typeof summarize>[0] = [];
+  let totalRepeats = 0;
+
+  for (const { start, end, text: paragraphText } of findTextParagraphs(text)) {
+    const paragraphWords = paragraphText.match(WORD_PATTERN) || [];
+
+    const repeatedWords = findRepeatedWords(paragraphWords);
+    const repeatedSet = new Set(repeatedWords.map(r => r.word));
+    const repeats = repeatedWords.reduce((sum, r) => sum + r.count - 1, 0);
+
+    const counted = splitSentences(text, start, end).map(range => {
+      const sentenceText = text.slice(range.start, range.end);
+      const words = sentenceText.match(WORD_PATTERN) || [];
+      const isPassive = PASSIVE_PATTERN.test(sentenceText);
+      const issues: SentenceIssue[] = [];
+      if (words.length > LONG_SENTENCE_WORDS) issues.push('long');
+      if (isPassive) issues.push('passive');
+      if (words.some(word => repeatedSet.has(word.toLowerCase()))) issues.push('repeated');
+
+      return {
+        stats: { ...range, text: sentenceText, wordCount: words.length, issues },
+        wordCount: words.length,
+        syllables: words.reduce((sum, word) => sum + countSyllables(word), 0),
+        isPassive,
+        hasTransition: TRANSITION_PATTERN.test(sentenceText),
+      };
+    });
+
+    paragraphs.push({
+      ...summarize(counted, repeats),
+      index: paragraphs.length,
+      start,
+      end,
+      repeatedWords,
+      sentences: counted.map(s => s.stats),
+    });
+    allSentences.push(...counted);
+    totalRepeats += repeats;
+  }
+
+  return { ...summarize(allSentences, totalRepeats), paragraphs };
+}
+
+/**
+ * Describes the statistics that fall outside the range academic writing
+ * usually aims for. Variety and transitions need a few sentences to judge.
+ *
+ * @param stats - Statistics for the draft or for one paragraph
+ * @returns A short message for each problem, most important first
+ */
+export function getStyleWarnings(stats: StyleStats): string[] {
+  const warnings: string[] = [];
+  const { gradeLevel } = stats;
+
+  if (gradeLevel !== null && gradeLevel > TARGET_GRADE_RANGE.max) {
+    warnings.push('Reads above the target grade. Shorten long sentences or use simpler words.');
+  } else if (gradeLevel !== null && gradeLevel < TARGET_GRADE_RANGE.min) {
+    warnings.push('Reads below the target grade. Combine short sentences and use precise vocabulary.');
+  }
+  if (stats.passiveRatio > MAX_PASSIVE_RATIO) {
+    warnings.push('Many sentences use the passive voice. Say who does the action.');
+  }
+  if (stats.repeatedWordDensity > MAX_REPEATED_WORD_DENSITY) {
+    warnings.push('Some words are repeated often. Try synonyms or pronouns.');
+  }
+  if (stats.sentenceCount >= 3 && stats.sentenceLengthVariety < MIN_SENTENCE_VARIETY) {
+    warnings.push('Sentences are all about the same length. Mix short and long ones.');
+  }
+  if (stats.sentenceCount >= 3 && stats.transitionRatio < MIN_TRANSITION_RATIO) {
+    warnings.push('Few sentences open with a transition. Connect your ideas with words like "however" or "as a result".');
+  }
+
+  return warnings;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RUBRIC_CRITERIA,
+  createCriterion,
+  getMaxScore,
+  summarizeRubricScores,
+  validateRubric,
+} from '@/lib/rubrics';
+import { type RubricScore } from '@/lib/types';
+
+describe('validateRubric', () => {
+  it('accepts the default rubric', () => {
+    expect(validateRubric('Argumentative essay', DEFAULT_RUBRIC_CRITERIA)).toBeNull();
+  });
+
+  it('requires a name and at least one criterion', () => {
+    expect(validateRubric(' ', DEFAULT_RUBRIC_CRITERIA)).toBe('Give the rubric a name.');
+    expect(validateRubric('Essay', [])).toBe('Add at least one criterion.');
+  });
+
+  it('requires named criteria with distinct level scores', () => {
+    expect(validateRubric('Essay', [createCriterion('a')])).toBe('Every criterion needs a name.');
+
+    const criterion = { ...createCriterion('a'), name: 'Voice' };
+    criterion.levels[1].score = 4;
+    expect(validateRubric('Essay', [criterion])).toBe('The levels of "Voice" need different scores.');
+  });
+});
+
+describe('summarizeRubricScores', () => {
+  const score = (criterionId: string, value: number): RubricScore => ({
+    criterionId,
+    score: value,
+    level: '',
+    justification: '',
+    citations: [],
+  });
+
+  it('totals only the scored criteria', () => {
+    const scores = [score('thesis', 3), score('evidence', 2), score('unknown', 4)];
+
+    expect(summarizeRubricScores(DEFAULT_RUBRIC_CRITERIA, scores)).toEqual({ total: 5, max: 8 });
+  });
+
+  it('uses the highest level as the maximum', () => {
+    expect(getMaxScore(DEFAULT_RUBRIC_CRITERIA[0])).toBe(4);
+    expect(getMaxScore({ ...createCriterion('a'), levels: [] })).toBe(0);
+  });
+});
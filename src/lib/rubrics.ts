@@ -0,0 +1,135 @@
+/**
+ * @file Helpers for building rubrics and summarizing rubric scores. The
+ * default rubric covers the criteria most essay assignments are graded on.
+ */
+
+import { type RubricCriterion, type RubricLevel, type RubricScore } from '@/lib/types';
+
+/**
+ * The four levels new criteria start with, highest score first.
+ */
+export const DEFAULT_LEVELS: RubricLevel[] = [
+  { score: 4, label: 'Exemplary', descriptor: '' },
+  { score: 3, label: 'Proficient', descriptor: '' },
+  { score: 2, label: 'Developing', descriptor: '' },
+  { score: 1, label: 'Beginning', descriptor: '' },
+];
+
+/**
+ * Builds a level list from descriptors, highest score first.
+ */
+function withDescriptors(descriptors: string[]): RubricLevel[] {
+  return DEFAULT_LEVELS.map((level, index) => ({ ...level, descriptor: descriptors[index] || '' }));
+}
+
+/**
+ * A starting rubric with thesis, evidence, organization and conventions.
+ */
+export const DEFAULT_RUBRIC_CRITERIA: RubricCriterion[] = [
+  {
+    id: 'thesis',
+    name: 'Thesis',
+    description: 'States a clear, arguable claim that guides the essay.',
+    levels: withDescriptors([
+      'The thesis is specific, arguable and clearly guides every part of the essay.',
+      'The thesis is clear and arguable but could be more specific.',
+      'The thesis is present but vague or states a fact rather than a claim.',
+      'There is no clear thesis.',
+    ]),
+  },
+  {
+    id: 'evidence',
+    name: 'Evidence',
+    description: 'Supports claims with relevant evidence that is explained.',
+    levels: withDescriptors([
+      'Every claim is supported by relevant evidence that is explained and connected to the thesis.',
+      'Most claims are supported and the evidence is usually explained.',
+      'Some evidence is given but it is often not explained or not relevant.',
+      'Claims are not supported by evidence.',
+    ]),
+  },
+  {
+    id: 'organization',
+    name: 'Organization',
+    description: 'Orders ideas logically with clear paragraphs and transitions.',
+    levels: withDescriptors([
+      'Paragraphs each focus on one idea and transitions connect them smoothly.',
+      'The order is logical and most paragraphs are focused.',
+      'Some paragraphs mix ideas or the order is hard to follow.',
+      'There is no clear structure.',
+    ]),
+  },
+  {
+    id: 'conventions',
+    name: 'Conventions',
+    description: 'Uses correct grammar, spelling and punctuation.',
+    levels: withDescriptors([
+      'There are almost no errors in grammar, spelling or punctuation.',
+      'There are a few errors that do not get in the way of meaning.',
+      'Frequent errors sometimes make the writing hard to follow.',
+      'Errors make the writing hard to understand.',
+    ]),
+  },
+];
+
+/**
+ * Creates an empty criterion with the default levels.
+ *
+ * @param id - A unique id for the criterion
+ * @returns The new criterion
+ */
+export function createCriterion(id: string): RubricCriterion {
+  return { id, name: '', description: '', levels: DEFAULT_LEVELS.map(level => ({ ...level })) };
+}
+
+/**
+ * Checks a rubric before it is saved.
+ *
+ * @param name - The rubric name
+ * @param criteria - The rubric criteria
+ * @returns A message describing the first problem, or null when the rubric is valid
+ */
+export function validateRubric(name: string, criteria: RubricCriterion[]): string | null {
+  if (!name.trim()) return 'Give the rubric a name.';
+  if (criteria.length === 0) return 'Add at least one criterion.';
+
+  for (const criterion of criteria) {
+    if (!criterion.name.trim()) return 'Every criterion needs a name.';
+    if (criterion.levels.length < 2) return `"${criterion.name}" needs at least two levels.`;
+    if (criterion.levels.some(level => !level.label.trim())) return `Every level of "${criterion.name}" needs a label.`;
+
+    const scores = criterion.levels.map(level => level.score);
+    if (scores.some(score => !Number.isFinite(score))) return `Every level of "${criterion.name}" needs a score.`;
+    if (new Set(scores).size !== scores.length) return `The levels of "${criterion.name}" need different scores.`;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the highest score a criterion can receive.
+ *
+ * @param criterion - The criterion
+ * @returns The highest level score, or 0 without levels
+ */
+export function getMaxScore(criterion: RubricCriterion): number {
+  return criterion.levels.length > 0 ? Math.max(...criterion.levels.map(level => level.score)) : 0;
+}
+
+/**
+ * Adds up the scores for the criteria that were scored.
+ *
+ * @param criteria - The rubric criteria
+ * @param scores - The per-criterion scores
+ * @returns The total score and the highest possible total for the scored criteria
+ */
+export function summarizeRubricScores(
+  criteria: RubricCriterion[],
+  scores: RubricScore[],
+): { total: number; max: number } {
+  return criteria.reduce((summary, criterion) => {
+    const score = scores.find(s => s.criterionId === criterion.id);
+    if (!score) return summary;
+    return { total: summary.total + score.score, max: summary.max + getMaxScore(criterion) };
+  }, { total: 0, max: 0 });
+}
@@ -12,10 +12,237 @@ export type Document = {
   title: string;
   content: Record<string, unknown> | null; // JSON content from Tiptap editor
   created_at: string;
+  class_id?: string | null; // The class the document was submitted to
+  submitted_at?: string | null;
+  assignment_id?: string | null; // The assignment the document was started from
+  collab_state?: string | null; // Base64 encoded Yjs state for collaborative editing
+  citation_style?: CitationStyle; // The style of in-text citations and the works cited list
 };
 
 /**
- * Represents a single grammar or spelling suggestion from the AI.
+ * The access a share grants to a document. Viewers only read it, commenters
+ * also comment, and editors also change the text.
+ */
+export type SharePermission = 'view' | 'comment' | 'edit';
+
+/**
+ * The current user's access to a document: their own, or through a share.
+ */
+export type DocumentPermission = 'owner' | SharePermission;
+
+/**
+ * Represents a share link for a document.
+ */
+export type DocumentShare = {
+  id: string;
+  document_id: string;
+  permission: SharePermission;
+  token: string;
+  created_at: string;
+};
+
+/**
+ * Represents a user a document is shared with, directly or through a link,
+ * or an email address invited to it.
+ */
+export type DocumentMember = {
+  id: string; // The ID of the user's share or the invite
+  document_id: string;
+  user_id: string | null; // Null until an invite is accepted
+  email: string | null; // The invited email address, or null once it is accepted
+  permission: SharePermission;
+  link_id: string | null; // The link the user joined through, or null if shared with them directly
+  created_at: string;
+  full_name: string | null;
+};
+
+/**
+ * The role stored on a user's profile. `user` is a student account.
+ */
+export type UserRole = 'user' | 'teacher';
+
+/**
+ * Represents a class created by a teacher. Students join with the join code.
+ */
+export type Class = {
+  id: string;
+  teacher_id: string;
+  name: string;
+  description: string | null;
+  join_code: string;
+  created_at: string;
+};
+
+/**
+ * Represents a student on a class roster.
+ */
+export type ClassStudent = {
+  id: string;
+  full_name: string | null;
+  joined_at: string;
+};
+
+/**
+ * The kinds of essay a teacher can assign.
+ */
+export type EssayType =
+  | 'argumentative'
+  | 'expository'
+  | 'narrative'
+  | 'descriptive'
+  | 'compare_contrast'
+  | 'literary_analysis'
+  | 'research';
+
+/**
+ * Represents an essay assignment posted to a class.
+ */
+export type Assignment = {
+  id: string;
+  class_id: string;
+  title: string;
+  prompt: string;
+  essay_type: EssayType;
+  min_words: number | null;
+  max_words: number | null;
+  due_at: string;
+  created_at: string;
+  rubric_id?: string | null; // The rubric the assignment is graded against
+};
+
+/**
+ * Represents one level of a rubric criterion, e.g. 4 "Exemplary".
+ */
+export type RubricLevel = {
+  score: number;
+  label: string;
+  descriptor: string;
+};
+
+/**
+ * Represents a rubric criterion with its levels, highest score first.
+ */
+export type RubricCriterion = {
+  id: string;
+  name: string;
+  description: string;
+  levels: RubricLevel[];
+};
+
+/**
+ * Represents a grading rubric built by a teacher.
+ */
+export type Rubric = {
+  id: string;
+  teacher_id: string;
+  name: string;
+  criteria: RubricCriterion[];
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * A sentence the rubric scorer cited, with its offsets in the scored text.
+ */
+export type RubricCitation = {
+  sentence: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * Represents the estimated score for one rubric criterion, as returned by
+ * the rubric-scorer Edge Function.
+ */
+export type RubricScore = {
+  criterionId: string;
+  score: number;
+  level: string;
+  justification: string;
+  citations: RubricCitation[];
+};
+
+/**
+ * Represents a frozen snapshot of a document submitted for an assignment.
+ */
+export type Submission = {
+  id: string;
+  assignment_id: string;
+  document_id: string | null;
+  student_id: string;
+  title: string;
+  content: Record<string, unknown> | null; // JSON content from Tiptap editor
+  word_count: number;
+  submitted_at: string;
+  is_late: boolean;
+};
+
+/**
+ * Locates a comment in a document's text. The quote and its surrounding
+ * context let the range be found again after the text is edited.
+ */
+export type CommentAnchor = {
+  quote: string;
+  prefix: string;
+  suffix: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * Represents a comment in a thread. The first comment of a thread has an
+ * anchor; replies have a `parent_id` instead.
+ */
+export type ThreadComment = {
+  id: string;
+  author_id: string;
+  parent_id: string | null;
+  body: string;
+  quote: string | null;
+  prefix: string | null;
+  suffix: string | null;
+  start_offset: number | null;
+  end_offset: number | null;
+  resolved_at: string | null;
+  created_at: string;
+  author_name?: string | null;
+  author_role?: UserRole;
+};
+
+/**
+ * Represents a teacher's or student's comment on a submission.
+ */
+export type SubmissionComment = ThreadComment & { submission_id: string };
+
+/**
+ * Represents a comment on a document left by its owner or a collaborator.
+ */
+export type DocumentComment = ThreadComment & { document_id: string };
+
+/**
+ * A comment thread: the anchored comment and its replies, oldest first.
+ */
+export type CommentThread = {
+  comment: ThreadComment;
+  replies: ThreadComment[];
+};
+
+/**
+ * Represents a teacher's review of a submission. `rubric_scores` maps
+ * rubric criterion ids to the score the teacher gave.
+ */
+export type SubmissionReview = {
+  submission_id: string;
+  rubric_scores: Record<string, number>;
+  grade: string | null;
+  returned_at: string | null;
+  updated_at: string;
+};
+
+/**
+ * Represents a single suggestion as returned by the AI Edge Functions.
+ * `start` and `end` are the character offsets of `original` in the text that
+ * was analyzed; the functions verify them against their input.
  */
 export type Suggestion = {
   start: number;
@@ -23,4 +250,56 @@ export type Suggestion = {
   original: string;
   suggestion: string;
   explanation: string;
-}; 
\ No newline at end of file
+};
+
+/**
+ * Represents a saved snapshot of a document.
+ */
+export type DocumentVersion = {
+  id: string;
+  document_id: string;
+  title: string;
+  content: Record<string, unknown> | null; // JSON content from Tiptap editor
+  word_count: number;
+  kind: 'auto' | 'manual' | 'restore';
+  label: string | null;
+  created_at: string;
+};
+
+/**
+ * Page layouts supported by the PDF exporter.
+ */
+export type PdfLayout = 'standard' | 'mla' | 'apa';
+
+/**
+ * Student and course details printed in MLA headers and APA title pages.
+ */
+export type AcademicHeader = {
+  studentName: string;
+  teacherName: string;
+  className: string;
+  date: string;
+};
+
+/**
+ * Citation styles for in-text citations and the works cited list.
+ * Chicago uses its author-date format.
+ */
+export type CitationStyle = 'mla' | 'apa' | 'chicago';
+
+/**
+ * Represents a source in a document's source library. Fields other than the
+ * title are empty strings when unknown. People are entered as "Last, First";
+ * an author without a comma, such as an organization, is used as written.
+ */
+export type Source = {
+  id: string;
+  document_id: string;
+  author: string;
+  title: string;
+  publisher: string;
+  year: string;
+  url: string;
+  pages: string; // The page range of the work, e.g. "45-52"
+  created_at: string;
+};
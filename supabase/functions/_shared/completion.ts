@@ -0,0 +1,73 @@
+/**
+ * @file The typed completion helper shared by the Edge Functions. It sends a
+ * system and user prompt to the configured LLM provider in JSON mode,
+ * repairs the output, validates it against a JSON schema, and falls back to a
+ * safe default when the model returns nothing usable.
+ */
+
+import { repairJson } from './json-repair.ts';
+import { type JsonSchema, validateSchema } from './json-schema.ts';
+import { getLlmProvider } from './llm-provider.ts';
+
+export interface JsonCompletionOptions<T> {
+  /** Identifies the calling function (and mode); selects the stub fixture. */
+  task: string;
+  model: string;
+  system: string;
+  user: string;
+  /** The shape the model's JSON must match. */
+  schema: JsonSchema;
+  /** Returned when the response is empty, unparsable or fails validation. */
+  fallback: T;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface JsonCompletionResult<T> {
+  data: T;
+  usedFallback: boolean;
+}
+
+/**
+ * Requests a JSON completion and returns it typed and validated.
+ * Network and API errors are thrown; problems with the response content
+ * produce the fallback instead.
+ *
+ * @param options - The prompt, model settings, schema and fallback value.
+ * @returns The validated result, and whether the fallback was used.
+ */
+export async function completeJson<T>(options: JsonCompletionOptions<T>): Promise<JsonCompletionResult<T>> {
+  const { task, model, system, user, schema, fallback, temperature, maxTokens } = options;
+
+  const content = await getLlmProvider().complete({
+    task,
+    model,
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content: user },
+    ],
+    temperature,
+    maxTokens,
+  });
+
+  if (!content) {
+    console.error('No content in model response.');
+    return { data: fallback, usedFallback: true };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = repairJson(content);
+  } catch (error) {
+    console.error('JSON cleaning also failed:', error);
+    return { data: fallback, usedFallback: true };
+  }
+
+  const errors = validateSchema(parsed, schema);
+  if (errors.length > 0) {
+    console.error('Model response failed schema validation:', errors);
+    return { data: fallback, usedFallback: true };
+  }
+
+  return { data: parsed as T, usedFallback: false };
+}
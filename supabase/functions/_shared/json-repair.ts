@@ -0,0 +1,62 @@
+/**
+ * @file The single JSON repair routine used by every Edge Function.
+ * Model output is usually valid JSON, but it occasionally arrives wrapped in
+ * code fences, with stray control characters, smart quotes or trailing commas.
+ */
+
+/**
+ * Parses model output as JSON, repairing common defects if the first
+ * attempt fails.
+ *
+ * @param raw - The raw model output.
+ * @returns The parsed value.
+ * @throws If the output cannot be parsed even after repair.
+ */
+export function repairJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('JSON parsing failed, attempting to clean and retry:', error);
+  }
+
+  let cleaned = raw
+    .replace(/```(?:json)?/gi, '') // Strip Markdown code fences
+    .replace(/[\r\n\t]/g, ' ') // Raw line breaks and tabs are invalid inside strings
+    .replace(/[\x00-\x1F\x7F]/g, '') // Remove remaining control characters
+    .replace(/[‘’]/g, "'"); // Smart apostrophes
+
+  // Keep only the outermost JSON object
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    cleaned = cleaned.substring(start, end + 1);
+  }
+
+  // Remove trailing commas before closing brackets
+  cleaned = cleaned.replace(/,\s*([}\]])/g, '$1');
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Smart double quotes are only safe to replace when the model used them as delimiters
+    return JSON.parse(cleaned.replace(/[“”]/g, '"'));
+  }
+}
+
+/**
+ * Parses model output as JSON, returning a fallback value when the output
+ * cannot be repaired.
+ *
+ * @param raw - The raw model output.
+ * @param fallback - The value to return when parsing fails.
+ * @returns The parsed value, or the fallback. The parsed value is not
+ * checked against `T`; use a schema to validate it.
+ */
+export function safeJsonParse<T>(raw: string, fallback: T): T {
+  try {
+    return repairJson(raw) as T;
+  } catch (error) {
+    console.error('JSON cleaning also failed:', error);
+    return fallback;
+  }
+}
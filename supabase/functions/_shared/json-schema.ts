@@ -0,0 +1,102 @@
+/**
+ * @file A small JSON Schema validator for model output. It supports the
+ * subset of JSON Schema the Edge Functions use to describe their responses:
+ * `type`, `properties`, `required`, `items`, `enum`, `minItems` and `maxItems`.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Returns the JSON Schema type name of a value.
+ */
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+/**
+ * Validates a value against a schema.
+ *
+ * @param value - The value to validate.
+ * @param schema - The schema describing the expected shape.
+ * @param path - The location of the value, used in error messages.
+ * @returns A list of validation errors; empty when the value is valid.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) {
+      return [`${path} should be ${allowed.join(' or ')} but was ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} should be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} should have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required || []).forEach(key => {
+      if (!(key in record)) errors.push(`${path}.${key} is required`);
+    });
+    Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+      if (key in record) errors.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * The schema of a single text suggestion, shared by the functions that return
+ * `{ original, suggestion, explanation }` objects. `start` and `end` are the
+ * character offsets of `original` in the analyzed text.
+ */
+export const suggestionSchema: JsonSchema = {
+  type: 'object',
+  required: ['original', 'explanation'],
+  properties: {
+    original: { type: 'string' },
+    suggestion: { type: 'string' },
+    explanation: { type: 'string' },
+    start: { type: 'integer' },
+    end: { type: 'integer' },
+  },
+};
+
+/**
+ * The schema of a `{ suggestions: [...] }` response.
+ */
+export const suggestionListSchema: JsonSchema = {
+  type: 'object',
+  required: ['suggestions'],
+  properties: {
+    suggestions: { type: 'array', items: suggestionSchema },
+  },
+};
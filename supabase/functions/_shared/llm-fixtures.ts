@@ -0,0 +1,134 @@
+/**
+ * @file Canned model responses used by the stub LLM provider. Each entry is
+ * the raw JSON a model would return for a task, so responses still pass
+ * through the shared JSON repair and schema validation. Functions drop
+ * suggestions whose `original` is not in the analyzed text, so a suggestion
+ * only comes back when the request contains its phrase (e.g. "their is").
+ */
+
+const fixtures: Record<string, unknown> = {
+  'grammar-check': {
+    suggestions: [
+      {
+        original: 'their is',
+        suggestion: 'there is',
+        explanation: 'Use "there" to say that something exists; "their" shows ownership.',
+      },
+    ],
+  },
+  'grammar-check-combined': {
+    grammarSuggestions: [
+      {
+        original: 'their is',
+        suggestion: 'there is',
+        explanation: 'Use "there" to say that something exists; "their" shows ownership.',
+      },
+    ],
+    academicVoiceSuggestions: [
+      {
+        original: 'a lot of',
+        suggestion: 'many',
+        explanation: 'A single precise word sounds more confident than a casual phrase.',
+      },
+    ],
+  },
+  'academic-voice': {
+    suggestions: [
+      {
+        original: 'a lot of',
+        suggestion: 'many',
+        explanation: 'A single precise word sounds more confident than a casual phrase.',
+      },
+    ],
+  },
+  'argument-coach': {
+    suggestions: [
+      {
+        original: 'Everyone knows this is true.',
+        suggestion: '',
+        explanation: 'This is a big claim. Add an example or a fact that shows why it is true.',
+        category: 'claim_support',
+        severity: 'medium',
+      },
+    ],
+    documentAnalysis: {
+      overallStrength: 'moderate',
+      mainIssues: ['Some claims need more evidence'],
+      flowProblems: [],
+      counterargument: {
+        status: 'missing',
+        fairness: null,
+        explanation: 'Add a paragraph that explains what someone who disagrees would say, then answer it.',
+      },
+    },
+  },
+  'critical-thinking-prompter': {
+    prompt: {
+      question: 'What evidence shows that this is true for most people, not just a few?',
+      type: 'evidence',
+      explanation: 'Asking for evidence helps you turn an opinion into an argument.',
+    },
+  },
+  'essay-structure': {
+    paragraphs: [
+      { index: 0, role: 'introduction', keySentence: 'Everyone knows this is true.' },
+      { index: 1, role: 'body', keySentence: null },
+    ],
+  },
+  'evidence-claims': {
+    claims: [
+      {
+        sentence: 'Teenagers need more sleep than adults.',
+        explanation: 'This is a scientific fact, so tell readers which source it comes from.',
+        sourceId: null,
+      },
+    ],
+  },
+  'evidence-mentor': {
+    isDropped: true,
+    explanation: 'After the quote, explain what this means for your argument or why it is important to your point.',
+  },
+  'rubric-scorer': {
+    scores: ['thesis', 'evidence', 'organization', 'conventions'].map(criterionId => ({
+      criterionId,
+      score: 3,
+      justification: 'This is on track. Look at the next level of the rubric to see what would make it stronger.',
+      citations: [{ sentence: 'Everyone knows this is true.' }],
+    })),
+  },
+  'thesis-alignment': {
+    alignment: {
+      claims: [{ claim: 'the main point of the thesis' }],
+      paragraphs: [
+        { index: 0, supports: [0], explanation: 'This paragraph gives a reason for your main point.' },
+        { index: 1, supports: [], explanation: 'This paragraph drifts from your thesis. Add a sentence that connects it to your main point.' },
+      ],
+    },
+  },
+  'thesis-analyzer': {
+    analysis: {
+      summary: 'This is a good start that names your topic. Make it more specific so that someone could disagree with it.',
+      alternatives: [
+        {
+          title: 'More Specific',
+          thesis: 'Schools should start after 9 a.m. because teenagers who sleep longer do better in class.',
+        },
+        {
+          title: 'More Arguable',
+          thesis: 'Early school start times hurt students more than they help busy families.',
+        },
+        {
+          title: 'Clearer Position',
+          thesis: 'Later start times would improve both grades and attendance at our high school.',
+        },
+      ],
+    },
+  },
+};
+
+/**
+ * Raw stub responses keyed by task name.
+ */
+export const stubFixtures: Record<string, string> = Object.fromEntries(
+  Object.entries(fixtures).map(([task, response]) => [task, JSON.stringify(response)]),
+);
@@ -0,0 +1,145 @@
+/**
+ * @file Pluggable language model providers for the Edge Functions. The
+ * provider is chosen with the LLM_PROVIDER environment variable:
+ *
+ * - `openai` (default): the OpenAI API, using OPENAI_API_KEY.
+ * - `openai-compatible`: any server implementing the OpenAI chat completions
+ *   API, such as a self-hosted model. Set LLM_BASE_URL, and optionally
+ *   LLM_API_KEY and LLM_MODEL to override the model each function requests.
+ * - `stub`: returns canned JSON for each task without any network access,
+ *   for offline development and CI.
+ */
+
+import { OpenAI } from 'https://deno.land/x/openai@v4.47.1/mod.ts';
+import { stubFixtures } from './llm-fixtures.ts';
+
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  /** Identifies the calling function (and mode), e.g. `grammar-check-combined`. */
+  task: string;
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmProvider {
+  name: string;
+  /**
+   * Requests a JSON-mode chat completion.
+   * @returns The raw message content, or null if the model returned nothing.
+   */
+  complete(request: ChatCompletionRequest): Promise<string | null>;
+}
+
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'stub';
+
+/**
+ * Creates a provider backed by an OpenAI chat completions endpoint.
+ *
+ * @param options - The API key, an optional base URL for compatible servers,
+ * and an optional model that replaces the one each function requests.
+ */
+export function createOpenAIProvider(options: {
+  name?: string;
+  apiKey: string;
+  baseURL?: string;
+  model?: string;
+}): LlmProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, ...(options.baseURL && { baseURL: options.baseURL }) });
+
+  return {
+    name: options.name || 'openai',
+    async complete({ model, messages, temperature, maxTokens }) {
+      const completion = await client.chat.completions.create({
+        model: options.model || model,
+        messages,
+        response_format: { type: 'json_object' },
+        ...(temperature !== undefined && { temperature }),
+        ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+      });
+      return completion.choices[0]?.message?.content ?? null;
+    },
+  };
+}
+
+/**
+ * Creates a provider that answers every task with a canned JSON response.
+ *
+ * @param fixtures - Raw responses keyed by task; defaults to the built-in fixtures.
+ */
+export function createStubProvider(fixtures: Record<string, string> = stubFixtures): LlmProvider {
+  return {
+    name: 'stub',
+    complete({ task }) {
+      const fixture = fixtures[task];
+      if (fixture === undefined) {
+        console.warn(`No stub fixture for task "${task}".`);
+        return Promise.resolve(null);
+      }
+      return Promise.resolve(fixture);
+    },
+  };
+}
+
+/**
+ * Creates the provider named by the LLM_PROVIDER environment variable.
+ *
+ * @throws If the provider is unknown or its configuration is missing.
+ */
+function createProviderFromEnv(): LlmProvider {
+  const name = (Deno.env.get('LLM_PROVIDER') || 'openai') as LlmProviderName;
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY is not set in environment variables.');
+      }
+      return createOpenAIProvider({ apiKey });
+    }
+    case 'openai-compatible': {
+      const baseURL = Deno.env.get('LLM_BASE_URL');
+      if (!baseURL) {
+        throw new Error('LLM_BASE_URL is not set in environment variables.');
+      }
+      return createOpenAIProvider({
+        name,
+        baseURL,
+        // Most local servers ignore the key, but the client requires one
+        apiKey: Deno.env.get('LLM_API_KEY') || 'not-needed',
+        model: Deno.env.get('LLM_MODEL'),
+      });
+    }
+    case 'stub':
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use openai, openai-compatible or stub.`);
+  }
+}
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Returns the configured provider, creating it on first use.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createProviderFromEnv();
+  }
+  return provider;
+}
+
+/**
+ * Replaces the configured provider, e.g. with a mock in tests.
+ * Pass null to go back to the provider selected by the environment.
+ *
+ * @param override - The provider to use.
+ */
+export function setLlmProvider(override: LlmProvider | null): void {
+  provider = override;
+}
@@ -0,0 +1,106 @@
+/**
+ * @file Validates the character offsets that models return with each
+ * suggestion. Models are asked for `start`/`end` offsets of `original` in the
+ * analyzed text, but they miscount often; every suggestion that leaves a
+ * function is checked against the input so clients can trust the range.
+ */
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+interface LocatableSuggestion {
+  original: string;
+  start?: unknown;
+  end?: unknown;
+}
+
+/**
+ * Escapes special characters in a string for use in a regular expression.
+ */
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds every occurrence of a phrase in a text, ignoring whitespace differences.
+ */
+function findRanges(text: string, phrase: string): TextRange[] {
+  const pattern = escapeRegExp(phrase.trim()).replace(/\s+/g, '\\s+');
+  if (!pattern) return [];
+
+  const ranges: TextRange[] = [];
+  const regex = new RegExp(pattern, 'gu');
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+}
+
+/**
+ * Collapses runs of whitespace so ranges can be compared with the phrase
+ * the model quoted.
+ */
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ');
+}
+
+/**
+ * Attaches verified `start`/`end` offsets to each suggestion.
+ *
+ * A model-provided range is kept when it covers exactly `original`. Otherwise
+ * the occurrence of `original` closest to the model's `start` (or the first
+ * one) is used, skipping ranges already claimed by an earlier suggestion with
+ * the same text. Suggestions whose `original` does not appear in the text are
+ * dropped, since the client could not place them.
+ *
+ * @param text - The text the model analyzed.
+ * @param suggestions - The suggestions returned by the model.
+ * @param offset - Added to every range, for text analyzed after trimming.
+ * @returns The suggestions that could be located, with their ranges.
+ */
+export function attachOffsets<T extends LocatableSuggestion>(
+  text: string,
+  suggestions: T[],
+  offset = 0,
+): (T & TextRange)[] {
+  const claimed = new Set<string>();
+  const located: (T & TextRange)[] = [];
+
+  suggestions.forEach(suggestion => {
+    const { original, start, end } = suggestion;
+    if (typeof original !== 'string' || !original.trim()) return;
+
+    const unclaimed = (range: TextRange) => !claimed.has(`${range.start}:${range.end}`);
+    let range: TextRange | undefined;
+
+    if (
+      Number.isInteger(start) && Number.isInteger(end) && (start as number) >= 0 &&
+      collapseWhitespace(text.slice(start as number, end as number)) === collapseWhitespace(original.trim()) &&
+      unclaimed({ start: start as number, end: end as number })
+    ) {
+      range = { start: start as number, end: end as number };
+    } else {
+      const candidates = findRanges(text, original).filter(unclaimed);
+      range = candidates[0];
+      if (Number.isInteger(start)) {
+        const distance = (candidate: TextRange) => Math.abs(candidate.start - (start as number));
+        candidates.forEach(candidate => {
+          if (distance(candidate) < distance(range!)) range = candidate;
+        });
+      }
+    }
+
+    if (!range) {
+      console.warn(`Dropping suggestion not found in the analyzed text: "${original}"`);
+      return;
+    }
+
+    claimed.add(`${range.start}:${range.end}`);
+    located.push({ ...suggestion, start: range.start + offset, end: range.end + offset });
+  });
+
+  return located;
+}
@@ -0,0 +1,59 @@
+/**
+ * @file Standard response builders for the Edge Functions. Every response
+ * carries the CORS headers and a JSON content type.
+ */
+
+import { corsHeaders } from './cors.ts';
+
+/**
+ * Answers a CORS preflight request.
+ *
+ * @param req - The incoming request.
+ * @returns The preflight response, or null if the request is not a preflight.
+ */
+export function handleCorsPreflight(req: Request): Response | null {
+  if (req.method !== 'OPTIONS') return null;
+  return new Response('ok', { headers: corsHeaders });
+}
+
+/**
+ * Builds a JSON response.
+ *
+ * @param body - The response body.
+ * @param status - The HTTP status code.
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Builds an error response in the `{ error }` shape the client expects.
+ *
+ * @param message - A description of the error.
+ * @param status - The HTTP status code.
+ */
+export function errorResponse(message: string, status = 500): Response {
+  return jsonResponse({ error: message }, status);
+}
+
+/**
+ * Builds a successful response carrying an empty result, for features where
+ * a failed analysis should quietly show no feedback instead of an error.
+ *
+ * @param fallback - The empty result, e.g. `{ suggestions: [] }`.
+ * @param reason - Why the fallback was used; logged for debugging.
+ */
+export function fallbackResponse(fallback: unknown, reason?: unknown): Response {
+  if (reason) console.error('Returning fallback response:', reason);
+  return jsonResponse(fallback, 200);
+}
+
+/**
+ * Extracts a message from an unknown thrown value.
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
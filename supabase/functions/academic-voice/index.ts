@@ -6,11 +6,10 @@
  * alternatives.
  */
 
-import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from 'https://deno.land/x/openai@v4.47.1/mod.ts';
-
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-const client = new OpenAI({ apiKey: OPENAI_API_KEY });
+import { completeJson } from '../_shared/completion.ts';
+import { suggestionListSchema } from '../_shared/json-schema.ts';
+import { attachOffsets } from '../_shared/offsets.ts';
+import { errorResponse, getErrorMessage, handleCorsPreflight, jsonResponse } from '../_shared/responses.ts';
 
 const SYSTEM_PROMPT = `
 You are an expert academic editor who helps 9th grade students improve their writing voice. Your task is to identify and correct informal or casual language to help students develop a clear, confident writing voice suitable for high school essays.
@@ -24,7 +23,9 @@ Rules:
     {
       "original": "The original informal phrase from the text.",
       "suggestion": "Your improved version of the phrase using vocabulary appropriate for 9th grade reading level (Flesch-Kincaid 9-10).",
-      "explanation": "A brief, one-sentence explanation of why the change was made, using simple language that encourages the student."
+      "explanation": "A brief, one-sentence explanation of why the change was made, using simple language that encourages the student.",
+      "start": "The 0-based character offset in the text where the original phrase begins.",
+      "end": "The offset just after the original phrase ends."
     }
 6.  If the text is already appropriate for high school writing and no suggestions are needed, return an empty "suggestions" array: { "suggestions": [] }.
 7.  Focus on eliminating casual language while keeping vocabulary accessible. Choose clear, direct words over complex synonyms. The goal is clarity and strength, not complexity.
@@ -43,17 +44,23 @@ Your JSON response:
     {
       "original": "a really big deal",
       "suggestion": "very important",
-      "explanation": "Uses clearer, more direct language that sounds confident without being too casual."
+      "explanation": "Uses clearer, more direct language that sounds confident without being too casual.",
+      "start": 8,
+      "end": 25
     },
     {
       "original": "Also, I think",
       "suggestion": "In addition,",
-      "explanation": "Removes personal opinion language and uses a stronger connecting word."
+      "explanation": "Removes personal opinion language and uses a stronger connecting word.",
+      "start": 68,
+      "end": 81
     },
     {
       "original": "is cool",
       "suggestion": "works well",
-      "explanation": "Replaces slang with clearer language that explains why something is good."
+      "explanation": "Replaces slang with clearer language that explains why something is good.",
+      "start": 109,
+      "end": 116
     }
   ]
 }
@@ -61,52 +68,29 @@ Your JSON response:
 
 Deno.serve(async (req) => {
   // Handle preflight CORS request
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
   try {
     const { text } = await req.json();
 
     if (!text || typeof text !== 'string') {
-      return new Response(JSON.stringify({ error: 'Text input is required.' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+      return errorResponse('Text input is required.', 400);
     }
 
-    const completion = await client.chat.completions.create({
+    const { data } = await completeJson<{ suggestions: { original: string }[] }>({
+      task: 'academic-voice',
       model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: JSON.stringify({ text }) },
-      ],
-      response_format: { type: 'json_object' },
+      system: SYSTEM_PROMPT,
+      user: JSON.stringify({ text }),
+      schema: suggestionListSchema,
+      fallback: { suggestions: [] },
       temperature: 0.2,
     });
 
-    const responseJson = completion.choices[0].message.content;
-
-    if (!responseJson) {
-      return new Response(JSON.stringify({ error: 'No response from AI.' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-    
-    // The response from the LLM is a stringified JSON. We need to parse it
-    // before sending it back to the client.
-    const suggestions = JSON.parse(responseJson);
-
-    return new Response(JSON.stringify(suggestions), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
-    });
+    return jsonResponse({ suggestions: attachOffsets(text, data.suggestions) });
   } catch (error) {
     console.error('Error processing academic voice check:', error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return errorResponse(getErrorMessage(error));
   }
-}); 
\ No newline at end of file
+});
@@ -1,89 +1,45 @@
 /**
  * @file This Edge Function provides an on-demand analysis of an entire text,
  * acting as an argument coach to identify logical fallacies, unsupported claims,
- * and weak reasoning.
+ * and weak reasoning. It also checks whether the essay addresses an opposing
+ * view, how fairly it states that view and whether it rebuts it.
  */
 
-import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from 'https://deno.land/x/openai@v4.47.1/mod.ts';
-
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-const client = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-/**
- * Safely parse JSON with fallback handling for malformed responses
- */
-function safeJsonParse(jsonString: string) {
-  try {
-    return JSON.parse(jsonString);
-  } catch (error) {
-    console.error('JSON parsing failed, attempting to clean and retry:', error);
-    
-    // Try to fix common JSON issues
-    try {
-      // Remove any control characters and fix common escaping issues
-      let cleaned = jsonString
-        .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
-        .replace(/\\n/g, ' ') // Replace literal \n with spaces
-        .replace(/\\r/g, ' ') // Replace literal \r with spaces  
-        .replace(/\\t/g, ' ') // Replace literal \t with spaces
-        .replace(/\n/g, ' ') // Replace actual newlines with spaces
-        .replace(/\r/g, ' ') // Replace actual carriage returns with spaces
-        .replace(/\t/g, ' ') // Replace actual tabs with spaces
-        .replace(/"/g, '"') // Fix smart quotes
-        .replace(/"/g, '"') // Fix smart quotes
-        .replace(/'/g, "'") // Fix smart apostrophes
-        .replace(/'/g, "'"); // Fix smart apostrophes
-      
-      // Try to find the JSON object bounds
-      const start = cleaned.indexOf('{');
-      const end = cleaned.lastIndexOf('}');
-      
-      if (start !== -1 && end !== -1 && end > start) {
-        cleaned = cleaned.substring(start, end + 1);
-      }
-      
-      return JSON.parse(cleaned);
-    } catch (secondError) {
-      console.error('JSON cleaning also failed:', secondError);
-      // Return a safe fallback structure
-      return {
-        suggestions: [],
-        documentAnalysis: {
-          overallStrength: "moderate",
-          mainIssues: ["Unable to analyze due to processing error"],
-          flowProblems: []
-        }
-      };
-    }
-  }
+import { completeJson } from '../_shared/completion.ts';
+import { type JsonSchema } from '../_shared/json-schema.ts';
+import { attachOffsets } from '../_shared/offsets.ts';
+import { errorResponse, getErrorMessage, handleCorsPreflight, jsonResponse } from '../_shared/responses.ts';
+
+interface ArgumentSuggestion {
+  original: string;
+  suggestion: string;
+  explanation: string;
+  category?: string;
+  severity?: string;
+  start?: number;
+  end?: number;
 }
 
-Deno.serve(async req => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
-
-  try {
-    if (!OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not set.');
-    }
+interface CounterargumentAnalysis {
+  status: 'missing' | 'no_rebuttal' | 'addressed';
+  fairness: 'fair' | 'oversimplified' | 'strawman' | null; // Null when there is no counterargument
+  explanation: string;
+}
 
-    const { text } = await req.json();
+interface ArgumentAnalysis {
+  suggestions: ArgumentSuggestion[];
+  documentAnalysis?: {
+    overallStrength: string;
+    mainIssues: string[];
+    flowProblems: string[];
+    counterargument?: Partial<CounterargumentAnalysis> | null;
+  } | null;
+}
 
-    if (!text) {
-      return new Response(JSON.stringify({ error: 'No text provided.' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+const COUNTERARGUMENT_STATUSES = ['missing', 'no_rebuttal', 'addressed'];
+const FAIRNESS_RATINGS = ['fair', 'oversimplified', 'strawman'];
 
-    const completion = await client.chat.completions.create({
-      model: 'gpt-4o', // Better model for complex argument analysis
-      messages: [
-        {
-          role: 'system',
-          content: `You are a friendly high school writing coach who helps 9th grade students spot weak arguments and make them stronger. Use simple, encouraging language that a 9th grader would understand.
+const SYSTEM_PROMPT = `You are a friendly high school writing coach who helps 9th grade students spot weak arguments and make them stronger. Use simple, encouraging language that a 9th grader would understand.
 
 LOOK FOR THESE ISSUES:
 1. **fallacy** - Logical mistakes like:
@@ -94,6 +50,12 @@ LOOK FOR THESE ISSUES:
 2. **claim_support** - Big statements that need more proof or examples
 3. **consistency** - Saying two things that contradict each other
 4. **logical_flow** - Ideas that don't connect well or jump around
+5. **counterargument** - Sentences that state an opposing view ("Some people argue that...") or answer it (the rebuttal). Say whether the opposing view is stated fairly, the way someone who believes it would say it, and whether the rebuttal really answers it.
+
+A strong argumentative essay states the strongest opposing view fairly and then rebuts it. In "documentAnalysis.counterargument" report:
+- "status": "missing" if the essay never mentions an opposing view, "no_rebuttal" if it mentions one but never answers it, "addressed" if it mentions and rebuts one
+- "fairness": "fair", "oversimplified" (true but missing the other side's best reasons) or "strawman" (twisted to be easy to knock down); null when the status is "missing"
+- "explanation": 1-2 sentences telling the student what to do next
 
 For each problem, use the EXACT sentence and explain what's wrong using vocabulary a 9th grader would know. Be encouraging and helpful, not harsh.
 
@@ -104,57 +66,130 @@ Return JSON format:
       "original": "exact problematic sentence from the text",
       "suggestion": "",
       "explanation": "Simple, friendly explanation of what's wrong and how to fix it (9th grade vocabulary)",
-      "category": "fallacy|claim_support|consistency|logical_flow",
-      "severity": "high|medium|low"
+      "category": "fallacy|claim_support|consistency|logical_flow|counterargument",
+      "severity": "high|medium|low",
+      "start": 0,
+      "end": 42
     }
   ],
   "documentAnalysis": {
     "overallStrength": "weak|moderate|strong",
     "mainIssues": ["main problems found using simple language"],
-    "flowProblems": []
+    "flowProblems": [],
+    "counterargument": {
+      "status": "missing|no_rebuttal|addressed",
+      "fairness": "fair|oversimplified|strawman|null",
+      "explanation": "What to do next about the opposing view"
+    }
   }
 }
 
-BE THOROUGH but ENCOURAGING - find problems but explain them in a way that helps the student learn, not feel bad.`,
+"start" and "end" are the 0-based character offsets of "original" in the text ("end" is exclusive).
+
+BE THOROUGH but ENCOURAGING - find problems but explain them in a way that helps the student learn, not feel bad.`;
+
+const analysisSchema: JsonSchema = {
+  type: 'object',
+  required: ['suggestions'],
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['original', 'explanation'],
+        properties: {
+          original: { type: 'string' },
+          suggestion: { type: 'string' },
+          explanation: { type: 'string' },
+          category: { type: 'string' },
+          severity: { type: 'string' },
+          start: { type: 'integer' },
+          end: { type: 'integer' },
         },
-        {
-          role: 'user',
-          content: text,
+      },
+    },
+    documentAnalysis: {
+      type: ['object', 'null'],
+      properties: {
+        overallStrength: { type: 'string' },
+        mainIssues: { type: 'array', items: { type: 'string' } },
+        counterargument: {
+          type: ['object', 'null'],
+          properties: {
+            status: { type: 'string' },
+            fairness: { type: ['string', 'null'] },
+            explanation: { type: 'string' },
+          },
         },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.1,
-      max_tokens: 1500, // Increased from 800 to allow more comprehensive analysis
-    });
+      },
+    },
+  },
+};
+
+// Returned when the model response cannot be used
+const FALLBACK_ANALYSIS: ArgumentAnalysis = {
+  suggestions: [],
+  documentAnalysis: {
+    overallStrength: 'moderate',
+    mainIssues: ['Unable to analyze due to processing error'],
+    flowProblems: [],
+  },
+};
+
+/**
+ * Keeps the counterargument assessment only when its status is one we know,
+ * dropping a fairness rating that does not apply.
+ */
+function normalizeCounterargument(analysis: Partial<CounterargumentAnalysis> | null | undefined): CounterargumentAnalysis | null {
+  if (!analysis || !COUNTERARGUMENT_STATUSES.includes(analysis.status as string)) return null;
+
+  const status = analysis.status as CounterargumentAnalysis['status'];
+  const fairness = status !== 'missing' && FAIRNESS_RATINGS.includes(analysis.fairness as string)
+    ? analysis.fairness as CounterargumentAnalysis['fairness']
+    : null;
+  return { status, fairness, explanation: analysis.explanation || '' };
+}
+
+Deno.serve(async req => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
-    const responseContent = completion.choices[0].message.content;
-    if (!responseContent) {
-      throw new Error('No content in OpenAI response.');
+  try {
+    const { text } = await req.json();
+
+    if (!text) {
+      return errorResponse('No text provided.', 400);
     }
 
-    // Use safe JSON parsing instead of direct JSON.parse
-    const analysisResult = safeJsonParse(responseContent);
+    const { data: analysisResult } = await completeJson<ArgumentAnalysis>({
+      task: 'argument-coach',
+      model: 'gpt-4o', // Better model for complex argument analysis
+      system: SYSTEM_PROMPT,
+      user: text,
+      schema: analysisSchema,
+      fallback: FALLBACK_ANALYSIS,
+      temperature: 0.1,
+      maxTokens: 1500, // Increased from 800 to allow more comprehensive analysis
+    });
 
     // Map the specific categories from the AI to our suggestion system
     // The AI now provides specific categories, so we use those instead of generic 'argument'
-    const typedSuggestions = analysisResult.suggestions.map(s => ({
+    const typedSuggestions = attachOffsets(text, analysisResult.suggestions).map(s => ({
       ...s,
       category: s.category || 'argument', // Use AI-provided category or fallback
     }));
 
-    return new Response(JSON.stringify({ 
+    return jsonResponse({
       suggestions: typedSuggestions,
-      documentAnalysis: analysisResult.documentAnalysis || null
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
+      documentAnalysis: analysisResult.documentAnalysis
+        ? {
+          ...analysisResult.documentAnalysis,
+          counterargument: normalizeCounterargument(analysisResult.documentAnalysis.counterargument),
+        }
+        : null,
     });
-
   } catch (error) {
     console.error('Error in argument-coach function:', error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return errorResponse(getErrorMessage(error));
   }
-}); 
\ No newline at end of file
+});
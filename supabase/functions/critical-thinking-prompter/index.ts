@@ -5,11 +5,9 @@
  * the main claim and generate thought-provoking questions to encourage deeper analysis.
  */
 
-import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from 'https://deno.land/x/openai@v4.47.1/mod.ts';
-
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-const client = new OpenAI({ apiKey: OPENAI_API_KEY });
+import { completeJson } from '../_shared/completion.ts';
+import { type JsonSchema } from '../_shared/json-schema.ts';
+import { fallbackResponse, handleCorsPreflight, jsonResponse } from '../_shared/responses.ts';
 
 const SYSTEM_PROMPT = `
 You are a Socratic questioning expert who helps high school students develop deeper critical thinking skills.
@@ -49,53 +47,48 @@ Your JSON response:
 }
 `;
 
+const promptSchema: JsonSchema = {
+  type: 'object',
+  required: ['prompt'],
+  properties: {
+    prompt: {
+      type: ['object', 'null'],
+      required: ['question', 'type', 'explanation'],
+      properties: {
+        question: { type: 'string' },
+        type: { type: 'string' },
+        explanation: { type: 'string' },
+      },
+    },
+  },
+};
+
 Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
   try {
     const { paragraph } = await req.json();
 
     if (!paragraph || typeof paragraph !== 'string' || paragraph.trim().length < 20) {
       // Return null prompt for very short paragraphs
-      return new Response(JSON.stringify({ prompt: null }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      });
+      return jsonResponse({ prompt: null });
     }
 
-    const completion = await client.chat.completions.create({
+    const { data } = await completeJson({
+      task: 'critical-thinking-prompter',
       model: 'gpt-4o-mini', // Using mini for faster response
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: JSON.stringify({ paragraph }) },
-      ],
-      response_format: { type: 'json_object' },
+      system: SYSTEM_PROMPT,
+      user: JSON.stringify({ paragraph }),
+      schema: promptSchema,
+      fallback: { prompt: null },
       temperature: 0.7, // Higher creativity for diverse questions
-      max_tokens: 200, // Keep responses concise
+      maxTokens: 200, // Keep responses concise
     });
 
-    const responseJson = completion.choices[0].message.content;
-
-    if (!responseJson) {
-      return new Response(JSON.stringify({ prompt: null }), {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    const result = JSON.parse(responseJson);
-
-    return new Response(JSON.stringify(result), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
-    });
+    return jsonResponse(data);
   } catch (error) {
-    console.error('Error processing critical thinking prompt:', error);
-    return new Response(JSON.stringify({ prompt: null }), {
-      status: 200, // Don't fail the request, just return no prompt
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    // Don't fail the request, just return no prompt
+    return fallbackResponse({ prompt: null }, error);
   }
-}); 
\ No newline at end of file
+});
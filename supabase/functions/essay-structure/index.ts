@@ -0,0 +1,117 @@
+/**
+ * @file This Edge Function maps the structure of an essay. It labels each
+ * paragraph as the introduction, a body paragraph or the conclusion, and
+ * finds the sentence that carries it: the thesis in the introduction, the
+ * topic sentence of each body paragraph and the restated claim in the
+ * conclusion.
+ */
+
+import { completeJson } from '../_shared/completion.ts';
+import { type JsonSchema } from '../_shared/json-schema.ts';
+import { attachOffsets } from '../_shared/offsets.ts';
+import { errorResponse, getErrorMessage, handleCorsPreflight, jsonResponse } from '../_shared/responses.ts';
+
+type ParagraphRole = 'introduction' | 'body' | 'conclusion';
+
+interface ModelParagraph {
+  index: number;
+  role: ParagraphRole;
+  keySentence?: string | null;
+}
+
+const SYSTEM_PROMPT = `You are a high school English teacher who helps 9th grade students see the structure of their essays.
+
+You will be given a JSON object with the essay's "paragraphs", in order.
+
+For EACH paragraph:
+1. Decide its "role": "introduction", "body" or "conclusion". Most essays have one introduction first, one conclusion last and body paragraphs in between, but drafts may be missing any of them.
+2. Find its "keySentence" and copy it EXACTLY as it appears in the paragraph:
+   - introduction: the thesis statement, the sentence that states the essay's main claim
+   - body: the topic sentence, the sentence that states the paragraph's main point
+   - conclusion: the sentence that restates the thesis or sums up the argument
+   Use null when the paragraph has no such sentence. Do not pick a sentence just because it comes first; a paragraph that only tells a story or lists facts has no topic sentence.
+
+Return JSON format:
+{
+  "paragraphs": [
+    { "index": 0, "role": "introduction", "keySentence": "Schools should start later because teenagers need more sleep." },
+    { "index": 1, "role": "body", "keySentence": null }
+  ]
+}
+
+"index" is the paragraph's 0-based position in "paragraphs".`;
+
+const structureSchema: JsonSchema = {
+  type: 'object',
+  required: ['paragraphs'],
+  properties: {
+    paragraphs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['index', 'role'],
+        properties: {
+          index: { type: 'integer' },
+          role: { enum: ['introduction', 'body', 'conclusion'] },
+          keySentence: { type: ['string', 'null'] },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Guesses a paragraph's role from its position, for paragraphs the model
+ * skipped.
+ */
+function roleByPosition(index: number, count: number): ParagraphRole {
+  if (index === 0) return 'introduction';
+  if (index === count - 1 && count > 2) return 'conclusion';
+  return 'body';
+}
+
+Deno.serve(async req => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const { paragraphs } = await req.json();
+
+    if (!Array.isArray(paragraphs) || paragraphs.length === 0 || !paragraphs.every(p => typeof p === 'string')) {
+      return errorResponse('At least one paragraph is required.', 400);
+    }
+
+    const { data, usedFallback } = await completeJson<{ paragraphs: ModelParagraph[] }>({
+      task: 'essay-structure',
+      model: 'gpt-4o',
+      system: SYSTEM_PROMPT,
+      user: JSON.stringify({ paragraphs }),
+      schema: structureSchema,
+      fallback: { paragraphs: [] },
+      temperature: 0.2,
+      maxTokens: 2000,
+    });
+
+    if (usedFallback) {
+      return errorResponse('Could not map the essay structure. Please try again.');
+    }
+
+    // One entry per paragraph, in order; key sentences must be in their paragraph
+    const structure = (paragraphs as string[]).map((text, index) => {
+      const modelParagraph = data.paragraphs.find(p => p.index === index);
+      const [located] = modelParagraph?.keySentence
+        ? attachOffsets(text, [{ original: modelParagraph.keySentence }])
+        : [];
+
+      return {
+        role: modelParagraph?.role || roleByPosition(index, paragraphs.length),
+        keySentence: located ? { sentence: text.slice(located.start, located.end), start: located.start, end: located.end } : null,
+      };
+    });
+
+    return jsonResponse({ paragraphs: structure });
+  } catch (error) {
+    console.error('Error in essay-structure function:', error);
+    return errorResponse(getErrorMessage(error));
+  }
+});
@@ -2,44 +2,17 @@
  * @file This Edge Function analyzes a quote and its surrounding text to
  * determine if it has been properly introduced and followed by analysis.
  * It is designed to detect "quote-dropping" and provide coaching to the user.
+ * In `claims` mode it reads the whole essay and flags statements presented as
+ * fact that need a source, linking each to the likeliest source in the
+ * document's library.
  */
 
-import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from 'https://deno.land/x/openai/mod.ts';
+import { completeJson } from '../_shared/completion.ts';
+import { type JsonSchema } from '../_shared/json-schema.ts';
+import { attachOffsets } from '../_shared/offsets.ts';
+import { errorResponse, getErrorMessage, handleCorsPreflight, jsonResponse } from '../_shared/responses.ts';
 
-// Initialize the OpenAI client with the API key from environment variables.
-const openAI = new OpenAI({
-  apiKey: Deno.env.get('OPENAI_API_KEY'),
-});
-
-Deno.serve(async req => {
-  // Handle CORS preflight requests.
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
-
-  try {
-    // Ensure the OpenAI API key is set.
-    if (!Deno.env.get('OPENAI_API_KEY')) {
-      throw new Error('OPENAI_API_KEY is not set in environment variables.');
-    }
-
-    const { surroundingText, quote } = await req.json();
-
-    if (!surroundingText || !quote) {
-      return new Response(JSON.stringify({ error: 'Missing surroundingText or quote.' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Call the OpenAI API to check for proper evidence integration.
-    const completion = await openAI.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a high school writing tutor who specializes in helping 9th grade students properly use quotes and evidence in their essays.
+const SYSTEM_PROMPT = `You are a high school writing tutor who specializes in helping 9th grade students properly use quotes and evidence in their essays.
 
 Check if a quote is properly integrated into the text.
 
@@ -54,28 +27,129 @@ Return JSON format:
 Explanation tips (use simple, student-friendly language):
 - No introduction: "Try starting with something like 'According to [author]...' so readers know who said this."
 - No analysis: "After the quote, explain what this means for your argument or why it's important to your point."
-- Both missing: "Try introducing this quote with 'The author states...' and then explain how it supports your argument."`,
-        },
-        {
-          role: 'user',
-          content: JSON.stringify({ surroundingText, quote }),
+- Both missing: "Try introducing this quote with 'The author states...' and then explain how it supports your argument."`;
+
+const CLAIMS_SYSTEM_PROMPT = `You are a high school writing tutor who helps 9th grade students back up their essays with sources.
+
+You will be given a JSON object with the essay "text" and the "sources" in the student's source library, each with an "id", "author" and "title".
+
+Find sentences that present information from research as fact but do not say where it comes from: historical or scientific facts, findings of studies ("studies show..."), and descriptions of events or expert views that the student could not know firsthand. A sentence is sourced if it has a parenthetical citation such as "(Smith 12)" or names its source, as in "According to the CDC...".
+
+Do NOT flag:
+- The student's own opinions, arguments, reasons or conclusions
+- Common knowledge that needs no source (e.g. "Water boils when heated.")
+- Quotes and sentences with numbers or percentages; these are checked separately
+
+For each sentence you flag:
+- Copy the sentence EXACTLY as it appears in the text
+- Explain in one encouraging sentence why a reader would want a source
+- Give the "sourceId" of the library source the information most likely comes from, or null if none fits
+
+Return JSON format:
+{
+  "claims": [
+    { "sentence": "Teenagers' brains release melatonin later at night than adults' brains do.", "explanation": "This is a scientific fact, so tell readers which source it comes from.", "sourceId": null }
+  ]
+}
+
+Return { "claims": [] } if every factual statement is sourced.`;
+
+const integrationSchema: JsonSchema = {
+  type: 'object',
+  required: ['isDropped'],
+  properties: {
+    isDropped: { type: 'boolean' },
+    explanation: { type: 'string' },
+  },
+};
+
+const claimsSchema: JsonSchema = {
+  type: 'object',
+  required: ['claims'],
+  properties: {
+    claims: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['sentence', 'explanation'],
+        properties: {
+          sentence: { type: 'string' },
+          explanation: { type: 'string' },
+          sourceId: { type: ['string', 'null'] },
         },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0,
-      max_tokens: 200,
-    });
+      },
+    },
+  },
+};
 
-    const responseContent = completion.choices[0].message.content;
-    if (!responseContent) {
-      throw new Error('No content in OpenAI response.');
+interface LibrarySource {
+  id: string;
+  author?: string;
+  title?: string;
+}
+
+/**
+ * Flags statements of fact that need a source. Links to sources that are not
+ * in the library are dropped.
+ */
+async function analyzeClaims(text: string, sources: LibrarySource[]): Promise<Response> {
+  const { data } = await completeJson<{ claims: { sentence: string; explanation: string; sourceId?: string | null }[] }>({
+    task: 'evidence-claims',
+    model: 'gpt-4o-mini',
+    system: CLAIMS_SYSTEM_PROMPT,
+    user: JSON.stringify({ text, sources: sources.map(({ id, author, title }) => ({ id, author, title })) }),
+    schema: claimsSchema,
+    fallback: { claims: [] },
+    temperature: 0,
+    maxTokens: 1500,
+  });
+
+  const sourceIds = new Set(sources.map(source => source.id));
+  const suggestions = data.claims.map(claim => ({
+    original: claim.sentence,
+    suggestion: '',
+    explanation: claim.explanation,
+    category: 'evidence',
+    sourceId: claim.sourceId && sourceIds.has(claim.sourceId) ? claim.sourceId : null,
+  }));
+
+  return jsonResponse({ suggestions: attachOffsets(text, suggestions) });
+}
+
+Deno.serve(async req => {
+  // Handle CORS preflight requests.
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const { surroundingText, quote, mode, text, sources } = await req.json();
+
+    if (mode === 'claims') {
+      if (!text || typeof text !== 'string') {
+        return errorResponse('Text is required.', 400);
+      }
+      const librarySources = Array.isArray(sources) ? sources.filter(source => typeof source?.id === 'string') : [];
+      return await analyzeClaims(text, librarySources);
     }
 
-    // The response from OpenAI is a JSON string, so we parse it and pass it through.
-    const analysisResult = JSON.parse(responseContent);
+    if (!surroundingText || !quote) {
+      return errorResponse('Missing surroundingText or quote.', 400);
+    }
+
+    // Check for proper evidence integration.
+    const { data: analysisResult } = await completeJson<{ isDropped: boolean; explanation?: string }>({
+      task: 'evidence-mentor',
+      model: 'gpt-4o-mini',
+      system: SYSTEM_PROMPT,
+      user: JSON.stringify({ surroundingText, quote }),
+      schema: integrationSchema,
+      fallback: { isDropped: false },
+      temperature: 0,
+      maxTokens: 200,
+    });
 
     // We will transform this into the standard "suggestion" format for the client.
-    let suggestions = [];
+    const suggestions = [];
     if (analysisResult.isDropped) {
       suggestions.push({
         original: quote,
@@ -85,16 +159,10 @@ Explanation tips (use simple, student-friendly language):
       });
     }
 
-    return new Response(JSON.stringify({ suggestions }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
-    });
-
+    // Offsets point at the quote within surroundingText
+    return jsonResponse({ suggestions: attachOffsets(surroundingText, suggestions) });
   } catch (error) {
     console.error('Error in evidence-mentor function:', error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return errorResponse(getErrorMessage(error));
   }
-}); 
\ No newline at end of file
+});
@@ -5,94 +5,20 @@
  * with suggestions.
  */
 
-import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from 'https://deno.land/x/openai/mod.ts';
-
-// Initialize the OpenAI client with the API key from environment variables.
-const openAI = new OpenAI({
-  apiKey: Deno.env.get('OPENAI_API_KEY'),
-});
-
-/**
- * Safely parse JSON with fallback handling for malformed responses
- */
-function safeJsonParse(jsonString: string, fallbackSuggestions = true) {
-  try {
-    return JSON.parse(jsonString);
-  } catch (error) {
-    console.error('JSON parsing failed, attempting to clean and retry:', error);
-    
-    // Try to fix common JSON issues
-    try {
-      // Remove any control characters and fix common escaping issues
-      let cleaned = jsonString
-        .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
-        .replace(/\\n/g, ' ') // Replace literal \n with spaces
-        .replace(/\\r/g, ' ') // Replace literal \r with spaces  
-        .replace(/\\t/g, ' ') // Replace literal \t with spaces
-        .replace(/\n/g, ' ') // Replace actual newlines with spaces
-        .replace(/\r/g, ' ') // Replace actual carriage returns with spaces
-        .replace(/\t/g, ' ') // Replace actual tabs with spaces
-        .replace(/"/g, '"') // Fix smart quotes
-        .replace(/"/g, '"') // Fix smart quotes
-        .replace(/'/g, "'") // Fix smart apostrophes
-        .replace(/'/g, "'"); // Fix smart apostrophes
-      
-      // Try to find the JSON object bounds
-      const start = cleaned.indexOf('{');
-      const end = cleaned.lastIndexOf('}');
-      
-      if (start !== -1 && end !== -1 && end > start) {
-        cleaned = cleaned.substring(start, end + 1);
-      }
-      
-      return JSON.parse(cleaned);
-    } catch (secondError) {
-      console.error('JSON cleaning also failed:', secondError);
-      // Return a safe fallback structure
-      if (fallbackSuggestions) {
-        return { suggestions: [] };
-      } else {
-        return {
-          grammarSuggestions: [],
-          academicVoiceSuggestions: []
-        };
-      }
-    }
-  }
+import { completeJson } from '../_shared/completion.ts';
+import { suggestionListSchema, suggestionSchema, type JsonSchema } from '../_shared/json-schema.ts';
+import { attachOffsets } from '../_shared/offsets.ts';
+import { errorResponse, getErrorMessage, handleCorsPreflight, jsonResponse } from '../_shared/responses.ts';
+
+interface GrammarSuggestion {
+  original: string;
+  suggestion: string;
+  explanation: string;
+  start?: number;
+  end?: number;
 }
 
-Deno.serve(async req => {
-  // Handle CORS preflight requests.
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
-
-  try {
-    // Ensure the OpenAI API key is set.
-    if (!Deno.env.get('OPENAI_API_KEY')) {
-      throw new Error('OPENAI_API_KEY is not set in environment variables.');
-    }
-
-    const { text, includeAcademicVoice, mode, maxSuggestions } = await req.json();
-
-    if (!text) {
-      return new Response(JSON.stringify({ error: 'No text provided.' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    // **FAST MODE OPTIMIZATION** for real-time grammar checking
-    if (mode === 'fast') {
-      console.log(`⚡ Fast grammar check mode (${text.length} chars)`);
-      
-      const fastCompletion = await openAI.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a systematic grammar correction assistant for 9th grade students. Follow this EXACT process:
+const GRAMMAR_SYSTEM_PROMPT = `You are a systematic grammar correction assistant for 9th grade students. Follow this EXACT process:
 
 STEP 1: SCAN FOR CAPITALIZATION (Check every single word)
 - Find the first word → Must be capitalized
@@ -126,52 +52,30 @@ PROCESS INSTRUCTIONS:
 Return exactly what you find. No interpretation, just systematic correction.
 
 JSON FORMAT:
-{ "suggestions": [{ "original": "error", "suggestion": "fix", "explanation": "rule violated" }] }`,
-          },
-          {
-            role: 'user',
-            content: text.trim(),
-          },
-        ],
-        response_format: { type: 'json_object' },
-        max_tokens: 500, // Limit response size for speed
-        temperature: 0.1, // Low temperature for consistency and speed
-      });
+{ "suggestions": [{ "original": "error", "suggestion": "fix", "explanation": "rule violated", "start": 0, "end": 5 }] }
 
-      const fastResponseContent = fastCompletion.choices[0].message.content;
-      if (!fastResponseContent) {
-        return new Response(JSON.stringify({ suggestions: [] }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      }
+"start" and "end" are the 0-based character offsets of "original" in the text ("end" is exclusive). "original" must be copied exactly from the text.`;
 
-      try {
-        const fastResult = safeJsonParse(fastResponseContent);
-        // Ensure we don't exceed maxSuggestions
-        if (fastResult.suggestions && maxSuggestions) {
-          fastResult.suggestions = fastResult.suggestions.slice(0, maxSuggestions);
-        }
-        
-        return new Response(JSON.stringify(fastResult), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      } catch (parseError) {
-        console.error('Error parsing fast mode JSON response:', parseError);
-        return new Response(JSON.stringify({ suggestions: [] }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      }
-    }
+// Used when the client has already checked the mechanical rules (sentence
+// capitals, a/an, doubled words, common homophones, effect/affect), so the
+// model only looks for what those rules cannot catch
+const DEEP_GRAMMAR_SYSTEM_PROMPT = `You are a grammar correction assistant for 9th grade students. Capitalization at the start of sentences, "a" versus "an", doubled words, common homophones and effect/affect have already been checked; do not report them.
 
-    // Performance optimization: Combined API call when includeAcademicVoice is true
-    if (includeAcademicVoice) {
-      console.log('🚀 Making combined grammar + academic voice API call');
-      
-      // Combined system prompt for both grammar and academic voice
-      const combinedSystemPrompt = `You are an expert writing assistant. Your task is to analyze the user's text and provide BOTH grammar corrections AND academic voice improvements.
+Find only clear, objective errors of these kinds:
+- Spelling mistakes (cathces→catches)
+- Proper nouns that are not capitalized
+- Subject-verb agreement (he have→he has)
+- Wrong verb tenses (I have went→I went)
+- Other misused words (to/too, your/you're, loose/lose, accept/except)
+
+Be conservative: when in doubt, do not suggest a change. Each suggestion must be a drop-in replacement for "original".
+
+JSON FORMAT:
+{ "suggestions": [{ "original": "error", "suggestion": "fix", "explanation": "rule violated", "start": 0, "end": 5 }] }
+
+"start" and "end" are the 0-based character offsets of "original" in the text ("end" is exclusive). "original" must be copied exactly from the text.`;
+
+const COMBINED_SYSTEM_PROMPT = `You are an expert writing assistant. Your task is to analyze the user's text and provide BOTH grammar corrections AND academic voice improvements.
 
 TASK 1 - GRAMMAR CORRECTIONS:
 Identify and correct ONLY clear, objective grammatical errors. Your suggested correction must be a "drop-in" replacement that makes grammatical sense in context.
@@ -199,131 +103,112 @@ Return ONLY a valid JSON object with this structure:
     {
       "original": "incorrect phrase",
       "suggestion": "corrected phrase",
-      "explanation": "Brief, student-friendly explanation of the grammar rule"
+      "explanation": "Brief, student-friendly explanation of the grammar rule",
+      "start": 0,
+      "end": 16
     }
   ],
   "academicVoiceSuggestions": [
     {
       "original": "informal phrase",
       "suggestion": "academic alternative",
-      "explanation": "Brief, encouraging explanation of the improvement using simple language"
+      "explanation": "Brief, encouraging explanation of the improvement using simple language",
+      "start": 20,
+      "end": 35
     }
   ]
 }
 
-If no errors are found in either category, return empty arrays.`;
+"start" and "end" are the 0-based character offsets of "original" in the text ("end" is exclusive). "original" must be copied exactly from the text.
 
-      const combinedCompletion = await openAI.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: combinedSystemPrompt },
-          { role: 'user', content: text },
-        ],
-        response_format: { type: 'json_object' },
-      });
+If no errors are found in either category, return empty arrays.`;
 
-      const combinedResponseContent = combinedCompletion.choices[0].message.content;
-      if (!combinedResponseContent) {
-        throw new Error('No content in combined OpenAI response.');
-      }
+const combinedSchema: JsonSchema = {
+  type: 'object',
+  required: ['grammarSuggestions', 'academicVoiceSuggestions'],
+  properties: {
+    grammarSuggestions: { type: 'array', items: suggestionSchema },
+    academicVoiceSuggestions: { type: 'array', items: suggestionSchema },
+  },
+};
 
-      try {
-        const combinedResult = safeJsonParse(combinedResponseContent, false);
-        
-        return new Response(JSON.stringify(combinedResult), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      } catch (parseError) {
-        console.error('Error parsing combined OpenAI JSON response:', parseError);
-        // Return fallback instead of throwing error
-        return new Response(JSON.stringify({
-          grammarSuggestions: [],
-          academicVoiceSuggestions: []
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        });
-      }
-    }
+Deno.serve(async req => {
+  // Handle CORS preflight requests.
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
 
-    // Fallback to original grammar-only API call
-    console.log('📝 Making grammar-only API call');
-    const completion = await openAI.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a systematic grammar correction assistant for 9th grade students. Follow this EXACT process:
+  try {
+    const { text, includeAcademicVoice, mode, maxSuggestions, mechanicsChecked } = await req.json();
 
-STEP 1: SCAN FOR CAPITALIZATION (Check every single word)
-- Find the first word → Must be capitalized
-- Find every pattern ". [lowercase]" → Change to ". [Uppercase]" 
-- Find every pattern "! [lowercase]" → Change to "! [Uppercase]"
-- Find every pattern "? [lowercase]" → Change to "? [Uppercase]"
-- Find proper nouns (names, places) → Must be capitalized
+    if (!text) {
+      return errorResponse('No text provided.', 400);
+    }
 
-STEP 2: SCAN FOR OTHER ERRORS
-- Spelling mistakes (cathces→catches, thee→the)
-- Subject-verb agreement (he have→he has)
-- Wrong verb tenses (I have went→I went)
-- Articles (a apple→an apple)
-- Homophones (to/too, their/there/they're, your/you're, its/it's, then/than)
+    // **FAST MODE OPTIMIZATION** for real-time grammar checking
+    if (mode === 'fast') {
+      console.log(`⚡ Fast grammar check mode (${text.length} chars)`);
 
-STEP 3: SCAN FOR EFFECT vs AFFECT (CRITICAL ERROR)
-- "AFFECT" = verb (to influence) - use when something influences something else
-- "EFFECT" = noun (the result) - use when talking about a result or consequence
-- Common patterns to fix:
-  * "that effects" → "that affects" (verb needed)
-  * "will effect" → "will affect" (verb needed)
-  * "can effect" → "can affect" (verb needed)
+      // Offsets are reported relative to the text as sent, not the trimmed copy
+      const trimmed = text.trim();
+      const leadingWhitespace = text.length - text.trimStart().length;
 
-PROCESS INSTRUCTIONS:
-1. Work through the text character by character
-2. When you see ". " or "! " or "? " → the next word MUST start with capital
-3. Mark EVERY violation you find
-4. Don't skip any - be mechanical and thorough
-5. Pay special attention to effect/affect - this is often missed
+      const { data } = await completeJson<{ suggestions: GrammarSuggestion[] }>({
+        task: 'grammar-check',
+        model: 'gpt-4o-mini',
+        system: mechanicsChecked ? DEEP_GRAMMAR_SYSTEM_PROMPT : GRAMMAR_SYSTEM_PROMPT,
+        user: trimmed,
+        schema: suggestionListSchema,
+        fallback: { suggestions: [] },
+        maxTokens: 500, // Limit response size for speed
+        temperature: 0.1, // Low temperature for consistency and speed
+      });
 
-Return exactly what you find. No interpretation, just systematic correction.
+      data.suggestions = attachOffsets(trimmed, data.suggestions, leadingWhitespace);
 
-JSON FORMAT:
-{ "suggestions": [{ "original": "error", "suggestion": "fix", "explanation": "rule violated" }] }`,
-        },
-        {
-          role: 'user',
-          content: text,
-        },
-      ],
-      response_format: { type: 'json_object' },
-    });
+      // Ensure we don't exceed maxSuggestions
+      if (maxSuggestions) {
+        data.suggestions = data.suggestions.slice(0, maxSuggestions);
+      }
 
-    const responseContent = completion.choices[0].message.content;
-    if (!responseContent) {
-      throw new Error('No content in OpenAI response.');
+      return jsonResponse(data);
     }
 
-    try {
-      // Use safe JSON parsing instead of direct JSON.parse
-      const suggestions = safeJsonParse(responseContent);
+    // Performance optimization: Combined API call when includeAcademicVoice is true
+    if (includeAcademicVoice) {
+      console.log('🚀 Making combined grammar + academic voice API call');
 
-      return new Response(JSON.stringify(suggestions), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
+      const { data } = await completeJson<{
+        grammarSuggestions: GrammarSuggestion[];
+        academicVoiceSuggestions: GrammarSuggestion[];
+      }>({
+        task: 'grammar-check-combined',
+        model: 'gpt-4o-mini',
+        system: COMBINED_SYSTEM_PROMPT,
+        user: text,
+        schema: combinedSchema,
+        fallback: { grammarSuggestions: [], academicVoiceSuggestions: [] },
       });
-    } catch (parseError) {
-      console.error('Error parsing OpenAI JSON response:', parseError);
-      // Return fallback instead of throwing error
-      return new Response(JSON.stringify({ suggestions: [] }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
+
+      return jsonResponse({
+        grammarSuggestions: attachOffsets(text, data.grammarSuggestions),
+        academicVoiceSuggestions: attachOffsets(text, data.academicVoiceSuggestions),
       });
     }
+
+    // Fallback to original grammar-only API call
+    console.log('📝 Making grammar-only API call');
+    const { data } = await completeJson<{ suggestions: GrammarSuggestion[] }>({
+      task: 'grammar-check',
+      model: 'gpt-4o-mini',
+      system: GRAMMAR_SYSTEM_PROMPT,
+      user: text,
+      schema: suggestionListSchema,
+      fallback: { suggestions: [] },
+    });
+
+    return jsonResponse({ suggestions: attachOffsets(text, data.suggestions) });
   } catch (error) {
     console.error('Error in grammar-check function:', error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return errorResponse(getErrorMessage(error));
   }
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,169 @@
+/**
+ * @file This Edge Function estimates how a draft would score against a
+ * teacher's rubric. Each criterion gets a level, a short justification and
+ * the sentences from the draft that the estimate is based on.
+ */
+
+import { completeJson } from '../_shared/completion.ts';
+import { type JsonSchema } from '../_shared/json-schema.ts';
+import { attachOffsets } from '../_shared/offsets.ts';
+import { errorResponse, getErrorMessage, handleCorsPreflight, jsonResponse } from '../_shared/responses.ts';
+
+interface RubricLevel {
+  score: number;
+  label: string;
+  descriptor: string;
+}
+
+interface RubricCriterion {
+  id: string;
+  name: string;
+  description?: string;
+  levels: RubricLevel[];
+}
+
+interface ModelScore {
+  criterionId: string;
+  score: number;
+  justification: string;
+  citations?: { sentence: string; start?: number; end?: number }[];
+}
+
+const SYSTEM_PROMPT = `You are a fair, encouraging high school English teacher who grades 9th grade essays against a rubric.
+
+You will be given a JSON object with a "rubric" (a list of criteria, each with scored levels and descriptors) and the student's "text".
+
+For EACH criterion in the rubric:
+1. Pick the level whose descriptor best matches the draft. Use the level's exact "score".
+2. Write a 1-2 sentence "justification" in simple language a 9th grader understands. Say what the draft does well and what would move it up a level.
+3. Quote 1-3 sentences from the text that support your score as "citations". Copy each sentence EXACTLY as it appears in the text.
+
+Return JSON format:
+{
+  "scores": [
+    {
+      "criterionId": "the criterion's id",
+      "score": 3,
+      "justification": "Your thesis takes a clear position, but naming your reasons would make it stronger.",
+      "citations": [
+        { "sentence": "exact sentence from the text", "start": 0, "end": 29 }
+      ]
+    }
+  ]
+}
+
+"start" and "end" are the 0-based character offsets of "sentence" in the text ("end" is exclusive).
+
+This is an estimate to help the student revise, not a final grade. Score what is on the page; an unfinished draft should score lower.`;
+
+const scoresSchema: JsonSchema = {
+  type: 'object',
+  required: ['scores'],
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['criterionId', 'score', 'justification'],
+        properties: {
+          criterionId: { type: 'string' },
+          score: { type: 'number' },
+          justification: { type: 'string' },
+          citations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['sentence'],
+              properties: {
+                sentence: { type: 'string' },
+                start: { type: 'integer' },
+                end: { type: 'integer' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Checks that the request carries a usable rubric.
+ */
+function isRubric(criteria: unknown): criteria is RubricCriterion[] {
+  return Array.isArray(criteria) && criteria.length > 0 && criteria.every(criterion =>
+    typeof criterion?.id === 'string' &&
+    typeof criterion?.name === 'string' &&
+    Array.isArray(criterion?.levels) &&
+    criterion.levels.length > 0 &&
+    criterion.levels.every((level: RubricLevel) => typeof level?.score === 'number' && typeof level?.label === 'string'),
+  );
+}
+
+/**
+ * Returns the level whose score is closest to the model's score, so every
+ * estimate lands on a level the teacher defined.
+ */
+function nearestLevel(levels: RubricLevel[], score: number): RubricLevel {
+  return levels.reduce((best, level) =>
+    Math.abs(level.score - score) < Math.abs(best.score - score) ? level : best,
+  );
+}
+
+Deno.serve(async req => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
+  try {
+    const { text, rubric } = await req.json();
+
+    if (!text) {
+      return errorResponse('No text provided.', 400);
+    }
+
+    const criteria = rubric?.criteria;
+    if (!isRubric(criteria)) {
+      return errorResponse('A rubric with at least one scored criterion is required.', 400);
+    }
+
+    const { data, usedFallback } = await completeJson<{ scores: ModelScore[] }>({
+      task: 'rubric-scorer',
+      model: 'gpt-4o',
+      system: SYSTEM_PROMPT,
+      user: JSON.stringify({ rubric: criteria, text }),
+      schema: scoresSchema,
+      fallback: { scores: [] },
+      temperature: 0.2,
+      maxTokens: 2000,
+    });
+
+    if (usedFallback) {
+      return errorResponse('Could not score the draft. Please try again.');
+    }
+
+    // Keep one score per known criterion, in rubric order
+    const scores = criteria.flatMap(criterion => {
+      const modelScore = data.scores.find(s => s.criterionId === criterion.id);
+      if (!modelScore) return [];
+
+      const level = nearestLevel(criterion.levels, modelScore.score);
+      const citations = attachOffsets(
+        text,
+        (modelScore.citations || []).map(({ sentence, start, end }) => ({ original: sentence, start, end })),
+      ).map(({ start, end }) => ({ sentence: text.slice(start, end), start, end }));
+
+      return [{
+        criterionId: criterion.id,
+        score: level.score,
+        level: level.label,
+        justification: modelScore.justification,
+        citations,
+      }];
+    });
+
+    return jsonResponse({ scores });
+  } catch (error) {
+    console.error('Error in rubric-scorer function:', error);
+    return errorResponse(getErrorMessage(error));
+  }
+});
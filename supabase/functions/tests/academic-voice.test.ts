@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadHandler, mockLlm, post, preflight, resetLlm } from './harness.ts';
+
+const handler = await loadHandler(() => import('../academic-voice/index.ts'));
+
+afterEach(resetLlm);
+
+describe('academic-voice', () => {
+  it('answers CORS preflight requests', async () => {
+    const response = await handler(preflight());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Headers')).toContain('authorization');
+  });
+
+  it.each([{}, { text: '' }, { text: 42 }])('returns 400 for invalid input %j', async body => {
+    const response = await handler(post(body));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Text input is required.' });
+  });
+
+  it('sends the text as JSON and returns the suggestions', async () => {
+    const suggestions = [{ original: 'a lot of', suggestion: 'many', explanation: 'More precise.' }];
+    const llm = mockLlm({ 'academic-voice': { suggestions } });
+    const response = await handler(post({ text: 'There are a lot of reasons.' }));
+
+    expect(await response.json()).toEqual({ suggestions: [{ ...suggestions[0], start: 10, end: 18 }] });
+    expect(llm.requests[0]).toMatchObject({ model: 'gpt-4o', temperature: 0.2 });
+    expect(JSON.parse(llm.requests[0].messages[1].content)).toEqual({ text: 'There are a lot of reasons.' });
+  });
+
+  it('returns no suggestions when the response cannot be parsed', async () => {
+    mockLlm({ 'academic-voice': '{"suggestions": [{"original": ' });
+    const response = await handler(post({ text: 'Some text.' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ suggestions: [] });
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadHandler, mockLlm, post, preflight, resetLlm } from './harness.ts';
+
+const handler = await loadHandler(() => import('../argument-coach/index.ts'));
+
+afterEach(resetLlm);
+
+describe('argument-coach', () => {
+  it('answers CORS preflight requests', async () => {
+    const response = await handler(preflight());
+
+    expect(response.status).toBe(200);
+  });
+
+  it('returns 400 when no text is provided', async () => {
+    const response = await handler(post({}));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'No text provided.' });
+  });
+
+  it('keeps model categories and defaults missing ones to argument', async () => {
+    mockLlm({
+      'argument-coach': {
+        suggestions: [
+          { original: 'Everyone agrees.', suggestion: '', explanation: 'Needs evidence.', category: 'claim_support' },
+          { original: 'So it is bad.', suggestion: '', explanation: 'Does not follow.' },
+        ],
+        documentAnalysis: { overallStrength: 'weak', mainIssues: ['Unsupported claims'], flowProblems: [] },
+      },
+    });
+    const response = await handler(post({ text: 'Everyone agrees. So it is bad.' }));
+    const body = await response.json();
+
+    expect(body.suggestions.map((s: { category: string }) => s.category)).toEqual(['claim_support', 'argument']);
+    expect(body.suggestions.map((s: { start: number; end: number }) => [s.start, s.end])).toEqual([[0, 16], [17, 30]]);
+    expect(body.documentAnalysis.overallStrength).toBe('weak');
+  });
+
+  it('reports counterargument passages and the assessment of the opposing view', async () => {
+    const text = 'Phones help students. Some say phones distract everyone all the time. But schools can limit use.';
+    mockLlm({
+      'argument-coach': {
+        suggestions: [
+          {
+            original: 'Some say phones distract everyone all the time.',
+            suggestion: '',
+            explanation: 'This makes the other side sound extreme.',
+            category: 'counterargument',
+          },
+        ],
+        documentAnalysis: {
+          overallStrength: 'moderate',
+          mainIssues: [],
+          flowProblems: [],
+          counterargument: { status: 'addressed', fairness: 'strawman', explanation: 'State the opposing view fairly.' },
+        },
+      },
+    });
+    const response = await handler(post({ text }));
+    const body = await response.json();
+
+    expect(body.suggestions[0]).toMatchObject({ category: 'counterargument', start: 22, end: 69 });
+    expect(body.documentAnalysis.counterargument).toEqual({
+      status: 'addressed',
+      fairness: 'strawman',
+      explanation: 'State the opposing view fairly.',
+    });
+  });
+
+  it('drops unknown counterargument ratings', async () => {
+    const analyze = async (counterargument: object) => {
+      mockLlm({
+        'argument-coach': {
+          suggestions: [],
+          documentAnalysis: { overallStrength: 'weak', mainIssues: [], flowProblems: [], counterargument },
+        },
+      });
+      const body = await (await handler(post({ text: 'Phones help students.' }))).json();
+      return body.documentAnalysis.counterargument;
+    };
+
+    expect(await analyze({ status: 'missing', fairness: 'fair', explanation: 'Add one.' }))
+      .toEqual({ status: 'missing', fairness: null, explanation: 'Add one.' });
+    expect(await analyze({ status: 'addressed', fairness: 'great' }))
+      .toEqual({ status: 'addressed', fairness: null, explanation: '' });
+    expect(await analyze({ status: 'unclear' })).toBeNull();
+  });
+
+  it('returns null document analysis when the model omits it', async () => {
+    mockLlm({ 'argument-coach': { suggestions: [] } });
+    const response = await handler(post({ text: 'A strong essay.' }));
+
+    expect(await response.json()).toEqual({ suggestions: [], documentAnalysis: null });
+  });
+
+  it('returns the fallback analysis when the response is unusable', async () => {
+    mockLlm({ 'argument-coach': 'not json at all' });
+    const response = await handler(post({ text: 'Some text.' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.suggestions).toEqual([]);
+    expect(body.documentAnalysis.mainIssues).toEqual(['Unable to analyze due to processing error']);
+  });
+});
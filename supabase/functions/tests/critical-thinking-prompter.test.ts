@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadHandler, mockLlm, post, preflight, resetLlm } from './harness.ts';
+
+const handler = await loadHandler(() => import('../critical-thinking-prompter/index.ts'));
+
+const paragraph = 'Social media has made teenagers more isolated than ever before.';
+
+afterEach(resetLlm);
+
+describe('critical-thinking-prompter', () => {
+  it('answers CORS preflight requests', async () => {
+    const response = await handler(preflight());
+
+    expect(response.status).toBe(200);
+  });
+
+  it('returns no prompt for short paragraphs without calling the model', async () => {
+    const llm = mockLlm({});
+    const response = await handler(post({ paragraph: 'Too short.' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ prompt: null });
+    expect(llm.requests).toHaveLength(0);
+  });
+
+  it('returns the generated prompt', async () => {
+    const prompt = { question: 'What evidence shows this?', type: 'evidence', explanation: 'Support your claim.' };
+    const llm = mockLlm({ 'critical-thinking-prompter': { prompt } });
+    const response = await handler(post({ paragraph }));
+
+    expect(await response.json()).toEqual({ prompt });
+    expect(llm.requests[0]).toMatchObject({ model: 'gpt-4o-mini', maxTokens: 200 });
+  });
+
+  it('returns no prompt instead of an error when the provider fails', async () => {
+    mockLlm({ 'critical-thinking-prompter': new Error('Network error') });
+    const response = await handler(post({ paragraph }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ prompt: null });
+  });
+});
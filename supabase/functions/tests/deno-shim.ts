@@ -0,0 +1,35 @@
+/**
+ * @file A minimal stand-in for the Deno runtime APIs the Edge Functions use,
+ * so their handlers can run under Node in the test suite. `Deno.serve`
+ * records the handler instead of starting a server.
+ */
+
+type Handler = (req: Request) => Response | Promise<Response>;
+
+const env = new Map<string, string>();
+let servedHandler: Handler | null = null;
+
+(globalThis as unknown as { Deno: unknown }).Deno = {
+  env: {
+    get: (name: string) => env.get(name),
+    set: (name: string, value: string) => env.set(name, value),
+    delete: (name: string) => env.delete(name),
+  },
+  serve: (handler: Handler) => {
+    servedHandler = handler;
+  },
+};
+
+/**
+ * Returns the handler most recently passed to `Deno.serve` and clears it.
+ *
+ * @throws If no handler has been registered.
+ */
+export function takeServedHandler(): Handler {
+  if (!servedHandler) {
+    throw new Error('The function did not call Deno.serve.');
+  }
+  const handler = servedHandler;
+  servedHandler = null;
+  return handler;
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadHandler, mockLlm, post, preflight, resetLlm } from './harness.ts';
+
+const handler = await loadHandler(() => import('../essay-structure/index.ts'));
+
+afterEach(resetLlm);
+
+const paragraphs = [
+  'Many students are tired. Schools should start later because teens need sleep.',
+  'Sleep helps memory. Students who sleep more remember more of what they learn.',
+  'Last year I fell asleep in class twice.',
+  'Later start times would help students learn.',
+];
+
+describe('essay-structure', () => {
+  it('answers CORS preflight requests', async () => {
+    const response = await handler(preflight());
+
+    expect(response.status).toBe(200);
+  });
+
+  it('returns 400 without paragraphs', async () => {
+    const missing = await handler(post({}));
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toEqual({ error: 'At least one paragraph is required.' });
+
+    const empty = await handler(post({ paragraphs: [] }));
+    expect(empty.status).toBe(400);
+  });
+
+  it('returns each paragraph role with its located key sentence', async () => {
+    const llm = mockLlm({
+      'essay-structure': {
+        paragraphs: [
+          { index: 0, role: 'introduction', keySentence: 'Schools should start later because teens need sleep.' },
+          { index: 1, role: 'body', keySentence: 'Sleep helps memory.' },
+          { index: 2, role: 'body', keySentence: null },
+          { index: 3, role: 'conclusion', keySentence: 'Later start times would help students learn.' },
+        ],
+      },
+    });
+    const response = await handler(post({ paragraphs }));
+    const body = await response.json();
+
+    expect(JSON.parse(llm.requests[0].messages[1].content)).toEqual({ paragraphs });
+    expect(body.paragraphs).toEqual([
+      {
+        role: 'introduction',
+        keySentence: { sentence: 'Schools should start later because teens need sleep.', start: 25, end: 77 },
+      },
+      { role: 'body', keySentence: { sentence: 'Sleep helps memory.', start: 0, end: 19 } },
+      { role: 'body', keySentence: null },
+      { role: 'conclusion', keySentence: { sentence: 'Later start times would help students learn.', start: 0, end: 44 } },
+    ]);
+  });
+
+  it('drops key sentences that are not in their paragraph and fills in skipped paragraphs', async () => {
+    mockLlm({
+      'essay-structure': {
+        paragraphs: [
+          { index: 0, role: 'introduction', keySentence: 'Sleep helps memory.' },
+        ],
+      },
+    });
+    const response = await handler(post({ paragraphs }));
+    const body = await response.json();
+
+    expect(body.paragraphs.map((p: { role: string }) => p.role)).toEqual(['introduction', 'body', 'body', 'conclusion']);
+    expect(body.paragraphs[0].keySentence).toBeNull();
+  });
+
+  it('returns 500 when the response is unusable', async () => {
+    mockLlm({ 'essay-structure': { paragraphs: [{ index: 0, role: 'thesis' }] } });
+    const response = await handler(post({ paragraphs }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Could not map the essay structure. Please try again.' });
+  });
+});
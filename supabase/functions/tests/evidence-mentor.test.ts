@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadHandler, mockLlm, post, preflight, resetLlm } from './harness.ts';
+
+const handler = await loadHandler(() => import('../evidence-mentor/index.ts'));
+
+const quote = '"The only thing we have to fear is fear itself."';
+
+afterEach(resetLlm);
+
+describe('evidence-mentor', () => {
+  it('answers CORS preflight requests', async () => {
+    const response = await handler(preflight());
+
+    expect(response.status).toBe(200);
+  });
+
+  it.each([{ quote }, { surroundingText: 'Some text.' }])('returns 400 when input is missing %j', async body => {
+    const response = await handler(post(body));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Missing surroundingText or quote.' });
+  });
+
+  it('flags a dropped quote as an evidence suggestion', async () => {
+    mockLlm({ 'evidence-mentor': { isDropped: true, explanation: 'Introduce the quote.' } });
+    const response = await handler(post({ surroundingText: `Roosevelt said it. ${quote}`, quote }));
+
+    expect(await response.json()).toEqual({
+      suggestions: [{
+        original: quote,
+        suggestion: '',
+        explanation: 'Introduce the quote.',
+        category: 'evidence',
+        start: 19,
+        end: 19 + quote.length,
+      }],
+    });
+  });
+
+  it('returns no suggestions for a well-integrated quote', async () => {
+    mockLlm({ 'evidence-mentor': { isDropped: false } });
+    const response = await handler(post({ surroundingText: quote, quote }));
+
+    expect(await response.json()).toEqual({ suggestions: [] });
+  });
+
+  it('returns no suggestions when the response is unusable', async () => {
+    mockLlm({ 'evidence-mentor': { isDropped: 'maybe' } });
+    const response = await handler(post({ surroundingText: quote, quote }));
+
+    expect(await response.json()).toEqual({ suggestions: [] });
+  });
+});
+
+describe('evidence-mentor claims mode', () => {
+  const text = 'Schools should start later. Teenagers need more sleep than adults. I think so.';
+  const sources = [{ id: 'walker', author: 'Walker, Matthew', title: 'Why We Sleep' }];
+
+  it('returns 400 without text', async () => {
+    const response = await handler(post({ mode: 'claims', sources }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Text is required.' });
+  });
+
+  it('flags unsourced claims and links them to library sources', async () => {
+    mockLlm({
+      'evidence-claims': {
+        claims: [{ sentence: 'Teenagers need more sleep than adults.', explanation: 'Say where this fact comes from.', sourceId: 'walker' }],
+      },
+    });
+    const response = await handler(post({ mode: 'claims', text, sources }));
+
+    expect(await response.json()).toEqual({
+      suggestions: [{
+        original: 'Teenagers need more sleep than adults.',
+        suggestion: '',
+        explanation: 'Say where this fact comes from.',
+        category: 'evidence',
+        sourceId: 'walker',
+        start: 28,
+        end: 66,
+      }],
+    });
+  });
+
+  it('drops links to unknown sources and claims not in the text', async () => {
+    mockLlm({
+      'evidence-claims': {
+        claims: [
+          { sentence: 'Teenagers need more sleep than adults.', explanation: 'Cite this.', sourceId: 'made-up' },
+          { sentence: 'Not in the essay.', explanation: 'Cite this.', sourceId: null },
+        ],
+      },
+    });
+    const response = await handler(post({ mode: 'claims', text, sources }));
+    const { suggestions } = await response.json();
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].sourceId).toBeNull();
+  });
+});
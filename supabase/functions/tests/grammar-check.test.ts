@@ -0,0 +1,204 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadHandler, mockLlm, post, preflight, resetLlm } from './harness.ts';
+
+const handler = await loadHandler(() => import('../grammar-check/index.ts'));
+
+const sample = 'their is a apple, and he have it.';
+
+const grammarResponse = {
+  suggestions: [
+    { original: 'their is', suggestion: 'there is', explanation: 'Use "there" for existence.' },
+    { original: 'a apple', suggestion: 'an apple', explanation: 'Use "an" before a vowel sound.' },
+    { original: 'he have', suggestion: 'he has', explanation: 'Subject-verb agreement.' },
+  ],
+};
+
+const grammarRanges = [{ start: 0, end: 8 }, { start: 9, end: 16 }, { start: 22, end: 29 }];
+
+afterEach(resetLlm);
+
+describe('grammar-check', () => {
+  it('answers CORS preflight requests', async () => {
+    const response = await handler(preflight());
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('ok');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+
+  it('returns 400 when no text is provided', async () => {
+    const llm = mockLlm({});
+    const response = await handler(post({ mode: 'fast' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'No text provided.' });
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(llm.requests).toHaveLength(0);
+  });
+
+  it('runs a grammar-only check by default', async () => {
+    const llm = mockLlm({ 'grammar-check': grammarResponse });
+    const response = await handler(post({ text: sample }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      suggestions: grammarResponse.suggestions.map((s, i) => ({ ...s, ...grammarRanges[i] })),
+    });
+    expect(llm.requests).toHaveLength(1);
+    expect(llm.requests[0]).toMatchObject({ task: 'grammar-check', model: 'gpt-4o-mini' });
+    expect(llm.requests[0].maxTokens).toBeUndefined();
+  });
+
+  describe('fast mode', () => {
+    it('uses a small, low-temperature completion on trimmed text', async () => {
+      const llm = mockLlm({ 'grammar-check': grammarResponse });
+      await handler(post({ text: `  ${sample}  `, mode: 'fast' }));
+
+      expect(llm.requests[0]).toMatchObject({ task: 'grammar-check', maxTokens: 500, temperature: 0.1 });
+      expect(llm.requests[0].messages[1]).toEqual({ role: 'user', content: sample });
+    });
+
+    it('reports offsets relative to the untrimmed text', async () => {
+      mockLlm({ 'grammar-check': grammarResponse });
+      const response = await handler(post({ text: `  ${sample}  `, mode: 'fast' }));
+      const body = await response.json();
+
+      expect(body.suggestions[1]).toMatchObject({ original: 'a apple', start: 11, end: 18 });
+    });
+
+    it('limits the number of suggestions to maxSuggestions', async () => {
+      mockLlm({ 'grammar-check': grammarResponse });
+      const response = await handler(post({ text: sample, mode: 'fast', maxSuggestions: 2 }));
+      const body = await response.json();
+
+      expect(body.suggestions).toHaveLength(2);
+      expect(body.suggestions[0].original).toBe('their is');
+    });
+
+    it('returns no suggestions when the model returns nothing', async () => {
+      mockLlm({ 'grammar-check': null });
+      const response = await handler(post({ text: 'Fine text.', mode: 'fast' }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ suggestions: [] });
+    });
+
+    it('leaves out the mechanical rules when the client has checked them', async () => {
+      const llm = mockLlm({ 'grammar-check': grammarResponse });
+      await handler(post({ text: sample, mode: 'fast' }));
+      await handler(post({ text: sample, mode: 'fast', mechanicsChecked: true }));
+
+      expect(llm.requests[0].messages[0].content).toContain('SCAN FOR CAPITALIZATION');
+      expect(llm.requests[1].messages[0].content).not.toContain('SCAN FOR CAPITALIZATION');
+      expect(llm.requests[1].messages[0].content).toContain('have already been checked');
+    });
+  });
+
+  describe('includeAcademicVoice', () => {
+    it('makes a single combined call returning both suggestion lists', async () => {
+      const combined = {
+        grammarSuggestions: grammarResponse.suggestions.slice(0, 1),
+        academicVoiceSuggestions: [{ original: 'a lot of', suggestion: 'many', explanation: 'More precise.' }],
+      };
+      const llm = mockLlm({ 'grammar-check-combined': combined });
+      const response = await handler(post({ text: 'their is a lot of apples', includeAcademicVoice: true }));
+
+      expect(await response.json()).toEqual({
+        grammarSuggestions: [{ ...combined.grammarSuggestions[0], start: 0, end: 8 }],
+        academicVoiceSuggestions: [{ ...combined.academicVoiceSuggestions[0], start: 9, end: 17 }],
+      });
+      expect(llm.requests).toHaveLength(1);
+      expect(llm.requests[0].task).toBe('grammar-check-combined');
+    });
+
+    it('falls back to empty lists when the combined response is unusable', async () => {
+      mockLlm({ 'grammar-check-combined': 'Sorry, I cannot help with that.' });
+      const response = await handler(post({ text: 'Some text.', includeAcademicVoice: true }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ grammarSuggestions: [], academicVoiceSuggestions: [] });
+    });
+
+    it('is ignored in fast mode', async () => {
+      const llm = mockLlm({ 'grammar-check': grammarResponse });
+      await handler(post({ text: 'their is', includeAcademicVoice: true, mode: 'fast' }));
+
+      expect(llm.requests[0].task).toBe('grammar-check');
+    });
+  });
+
+  it('recovers suggestions from malformed JSON', async () => {
+    mockLlm({
+      'grammar-check': '```json\n{"suggestions": [{"original": "their is", "suggestion": "there is",\n"explanation": "Use there."},]}\n```',
+    });
+    const response = await handler(post({ text: 'their is' }));
+
+    expect(await response.json()).toEqual({
+      suggestions: [{ original: 'their is', suggestion: 'there is', explanation: 'Use there.', start: 0, end: 8 }],
+    });
+  });
+
+  describe('offsets', () => {
+    it('keeps offsets from the model that match the text', async () => {
+      mockLlm({
+        'grammar-check': { suggestions: [{ original: 'their', suggestion: 'there', explanation: 'Existence.', start: 15, end: 20 }] },
+      });
+      const response = await handler(post({ text: 'their book and their is' }));
+      const body = await response.json();
+
+      expect(body.suggestions[0]).toMatchObject({ start: 15, end: 20 });
+    });
+
+    it('corrects offsets that do not cover the original text', async () => {
+      mockLlm({
+        'grammar-check': { suggestions: [{ original: 'their is', suggestion: 'there is', explanation: 'Existence.', start: 3, end: 11 }] },
+      });
+      const response = await handler(post({ text: 'Yes, their is a reason.' }));
+      const body = await response.json();
+
+      expect(body.suggestions[0]).toMatchObject({ start: 5, end: 13 });
+    });
+
+    it('uses the occurrence nearest the model offset for repeated phrases', async () => {
+      mockLlm({
+        'grammar-check': { suggestions: [{ original: 'a apple', suggestion: 'an apple', explanation: 'Vowel.', start: 20 }] },
+      });
+      const response = await handler(post({ text: 'a apple and a apple' }));
+      const body = await response.json();
+
+      expect(body.suggestions[0]).toMatchObject({ start: 12, end: 19 });
+    });
+
+    it('gives repeated suggestions for the same phrase different ranges', async () => {
+      const suggestion = { original: 'a apple', suggestion: 'an apple', explanation: 'Vowel.' };
+      mockLlm({ 'grammar-check': { suggestions: [suggestion, suggestion] } });
+      const response = await handler(post({ text: 'a apple and a apple' }));
+      const body = await response.json();
+
+      expect(body.suggestions.map((s: { start: number }) => s.start)).toEqual([0, 12]);
+    });
+
+    it('drops suggestions whose original text is not in the input', async () => {
+      mockLlm({ 'grammar-check': grammarResponse });
+      const response = await handler(post({ text: 'their is a problem.' }));
+      const body = await response.json();
+
+      expect(body.suggestions.map((s: { original: string }) => s.original)).toEqual(['their is']);
+    });
+  });
+
+  it('returns no suggestions when the JSON does not match the schema', async () => {
+    mockLlm({ 'grammar-check': { suggestions: 'none' } });
+    const response = await handler(post({ text: 'their is' }));
+
+    expect(await response.json()).toEqual({ suggestions: [] });
+  });
+
+  it('returns 500 when the provider fails', async () => {
+    mockLlm({ 'grammar-check': new Error('Rate limit exceeded') });
+    const response = await handler(post({ text: 'their is' }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Rate limit exceeded' });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @file Test harness for the Edge Functions. Loads a function's handler
+ * without starting a server, swaps in a mock LLM provider that records each
+ * request, and builds requests the way the Supabase client sends them.
+ */
+
+import { vi } from 'vitest';
+import { takeServedHandler } from './deno-shim.ts';
+import { type ChatCompletionRequest, type LlmProvider, setLlmProvider } from '../_shared/llm-provider.ts';
+
+export type Handler = (req: Request) => Response | Promise<Response>;
+
+// The functions log every request and fallback; keep test output readable
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+/** A raw model response, or an error the provider should throw. */
+export type MockResponse = string | null | Error;
+
+export interface MockProvider extends LlmProvider {
+  requests: ChatCompletionRequest[];
+}
+
+/**
+ * Imports a function module and returns the handler it registered.
+ *
+ * @param load - Imports the function, e.g. `() => import('../grammar-check/index.ts')`.
+ */
+export async function loadHandler(load: () => Promise<unknown>): Promise<Handler> {
+  await load();
+  return takeServedHandler();
+}
+
+/**
+ * Installs a mock LLM provider that answers each task with a raw response.
+ * Objects are serialized to JSON; strings are returned as-is so tests can
+ * send malformed output.
+ *
+ * @param responses - Responses keyed by task name.
+ * @returns The provider, whose `requests` lists every completion request.
+ */
+export function mockLlm(responses: Record<string, MockResponse | object>): MockProvider {
+  const provider: MockProvider = {
+    name: 'mock',
+    requests: [],
+    complete(request) {
+      provider.requests.push(request);
+      const response = responses[request.task];
+      if (response instanceof Error) return Promise.reject(response);
+      if (response === undefined || response === null) return Promise.resolve(null);
+      return Promise.resolve(typeof response === 'string' ? response : JSON.stringify(response));
+    },
+  };
+  setLlmProvider(provider);
+  return provider;
+}
+
+/**
+ * Removes the mock provider.
+ */
+export function resetLlm(): void {
+  setLlmProvider(null);
+}
+
+/**
+ * Builds a JSON POST request like `supabase.functions.invoke` sends.
+ */
+export function post(body: unknown): Request {
+  return new Request('http://localhost/functions/v1/test', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Builds a CORS preflight request.
+ */
+export function preflight(): Request {
+  return new Request('http://localhost/functions/v1/test', { method: 'OPTIONS' });
+}
@@ -0,0 +1,12 @@
+/**
+ * @file Replaces the deno.land OpenAI client in tests. Tests install a mock
+ * LLM provider, so any real API call is a test bug.
+ */
+
+export class OpenAI {
+  chat = {
+    completions: {
+      create: () => Promise.reject(new Error('Tests must not call the OpenAI API.')),
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadHandler, mockLlm, post, preflight, resetLlm } from './harness.ts';
+
+const handler = await loadHandler(() => import('../rubric-scorer/index.ts'));
+
+afterEach(resetLlm);
+
+const levels = [
+  { score: 4, label: 'Exemplary', descriptor: 'Clear and arguable.' },
+  { score: 3, label: 'Proficient', descriptor: 'Clear.' },
+  { score: 1, label: 'Beginning', descriptor: 'Missing.' },
+];
+
+const rubric = {
+  criteria: [
+    { id: 'thesis', name: 'Thesis', levels },
+    { id: 'evidence', name: 'Evidence', levels },
+  ],
+};
+
+const text = 'Schools should start later. Teens who sleep more get better grades.';
+
+describe('rubric-scorer', () => {
+  it('answers CORS preflight requests', async () => {
+    const response = await handler(preflight());
+
+    expect(response.status).toBe(200);
+  });
+
+  it('returns 400 when no text or rubric is provided', async () => {
+    const noText = await handler(post({ rubric }));
+    expect(noText.status).toBe(400);
+    expect(await noText.json()).toEqual({ error: 'No text provided.' });
+
+    const noRubric = await handler(post({ text, rubric: { criteria: [] } }));
+    expect(noRubric.status).toBe(400);
+  });
+
+  it('scores each criterion in rubric order with located citations', async () => {
+    const llm = mockLlm({
+      'rubric-scorer': {
+        scores: [
+          {
+            criterionId: 'evidence',
+            score: 3,
+            justification: 'One fact supports the claim.',
+            citations: [{ sentence: 'Teens who sleep more get better grades.', start: 0, end: 5 }],
+          },
+          {
+            criterionId: 'thesis',
+            score: 4,
+            justification: 'A clear position.',
+            citations: [{ sentence: 'Schools should start later.' }, { sentence: 'Not in the essay.' }],
+          },
+        ],
+      },
+    });
+    const response = await handler(post({ text, rubric }));
+    const body = await response.json();
+
+    expect(JSON.parse(llm.requests[0].messages[1].content).rubric).toEqual(rubric.criteria);
+    expect(body.scores.map((s: { criterionId: string }) => s.criterionId)).toEqual(['thesis', 'evidence']);
+    expect(body.scores[0]).toEqual({
+      criterionId: 'thesis',
+      score: 4,
+      level: 'Exemplary',
+      justification: 'A clear position.',
+      citations: [{ sentence: 'Schools should start later.', start: 0, end: 27 }],
+    });
+    expect(body.scores[1].citations).toEqual([
+      { sentence: 'Teens who sleep more get better grades.', start: 28, end: 67 },
+    ]);
+  });
+
+  it('snaps scores to the nearest level and drops unknown criteria', async () => {
+    mockLlm({
+      'rubric-scorer': {
+        scores: [
+          { criterionId: 'thesis', score: 3.4, justification: 'Vague.' },
+          { criterionId: 'voice', score: 4, justification: 'Not in the rubric.' },
+        ],
+      },
+    });
+    const response = await handler(post({ text, rubric }));
+    const body = await response.json();
+
+    expect(body.scores).toHaveLength(1);
+    expect(body.scores[0]).toMatchObject({ criterionId: 'thesis', score: 3, level: 'Proficient', citations: [] });
+  });
+
+  it('returns 500 when the response is unusable', async () => {
+    mockLlm({ 'rubric-scorer': 'not json at all' });
+    const response = await handler(post({ text, rubric }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Could not score the draft. Please try again.' });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { repairJson, safeJsonParse } from '../_shared/json-repair.ts';
+import { suggestionListSchema, validateSchema } from '../_shared/json-schema.ts';
+import { createStubProvider } from '../_shared/llm-provider.ts';
+import { stubFixtures } from '../_shared/llm-fixtures.ts';
+
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+describe('safeJsonParse', () => {
+  it('parses valid JSON unchanged', () => {
+    expect(safeJsonParse('{"suggestions": []}', null)).toEqual({ suggestions: [] });
+  });
+
+  it('strips Markdown code fences and surrounding prose', () => {
+    const raw = 'Here you go:\n```json\n{"suggestions": []}\n```\nHope that helps!';
+    expect(safeJsonParse(raw, null)).toEqual({ suggestions: [] });
+  });
+
+  it('replaces raw line breaks and tabs inside strings', () => {
+    expect(safeJsonParse('{"explanation": "line one\nline\ttwo"}', null)).toEqual({ explanation: 'line one line two' });
+  });
+
+  it('removes trailing commas', () => {
+    expect(safeJsonParse('{"a": [1, 2,], "b": 3,}', null)).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  it('accepts smart quotes used as delimiters', () => {
+    expect(safeJsonParse('{“original”: “their”}', null)).toEqual({ original: 'their' });
+  });
+
+  it('returns the fallback when the JSON cannot be repaired', () => {
+    expect(safeJsonParse('{"suggestions": [', { suggestions: [] })).toEqual({ suggestions: [] });
+  });
+});
+
+describe('repairJson', () => {
+  it('throws when the JSON cannot be repaired', () => {
+    expect(() => repairJson('no json here')).toThrow();
+  });
+});
+
+describe('validateSchema', () => {
+  it('accepts a valid suggestion list', () => {
+    const value = { suggestions: [{ original: 'a', suggestion: 'b', explanation: 'c' }] };
+    expect(validateSchema(value, suggestionListSchema)).toEqual([]);
+  });
+
+  it('reports missing and mistyped fields with their path', () => {
+    const value = { suggestions: [{ original: 1 }] };
+    expect(validateSchema(value, suggestionListSchema)).toEqual([
+      '$.suggestions[0].explanation is required',
+      '$.suggestions[0].original should be string but was integer',
+    ]);
+  });
+
+  it('checks enums, nullable types and array length', () => {
+    expect(validateSchema(null, { type: ['object', 'null'] })).toEqual([]);
+    expect(validateSchema('maybe', { enum: ['yes', 'no'] })).toEqual(['$ should be one of "yes", "no"']);
+    expect(validateSchema([], { type: 'array', minItems: 1 })).toEqual(['$ should have at least 1 items']);
+  });
+});
+
+describe('stub provider', () => {
+  it('returns the canned response for each task', async () => {
+    const provider = createStubProvider();
+
+    for (const task of Object.keys(stubFixtures)) {
+      const content = await provider.complete({ task, model: 'gpt-4o', messages: [] });
+      expect(JSON.parse(content!)).toBeTypeOf('object');
+    }
+  });
+
+  it('returns null for unknown tasks', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = createStubProvider();
+
+    expect(await provider.complete({ task: 'unknown', model: 'gpt-4o', messages: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadHandler, mockLlm, post, preflight, resetLlm } from './harness.ts';
+
+const handler = await loadHandler(() => import('../thesis-analyzer/index.ts'));
+
+afterEach(resetLlm);
+
+describe('thesis-analyzer', () => {
+  it('answers CORS preflight requests', async () => {
+    const response = await handler(preflight());
+
+    expect(response.status).toBe(200);
+  });
+
+  it('returns 400 when no thesis is provided', async () => {
+    const response = await handler(post({ thesis: '' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Thesis input is required.' });
+  });
+
+  it('returns the analysis', async () => {
+    const analysis = {
+      summary: 'A good start.',
+      alternatives: [
+        { title: 'More Specific', thesis: 'A' },
+        { title: 'More Arguable', thesis: 'B' },
+        { title: 'Clearer Position', thesis: 'C' },
+      ],
+    };
+    mockLlm({ 'thesis-analyzer': { analysis } });
+    const response = await handler(post({ thesis: 'Technology has changed society.' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ analysis });
+  });
+
+  it('returns 500 when the model gives no usable analysis', async () => {
+    mockLlm({ 'thesis-analyzer': { analysis: { summary: 'Missing alternatives' } } });
+    const response = await handler(post({ thesis: 'Technology has changed society.' }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'No response from AI.' });
+  });
+
+  describe('alignment mode', () => {
+    const thesis = 'Schools should start later because teens need sleep and grades improve.';
+    const paragraphs = ['Teens need nine hours of sleep.', 'Cafeteria food is unhealthy.', 'Rested students score higher.'];
+
+    it('returns 400 without body paragraphs', async () => {
+      const response = await handler(post({ thesis, mode: 'alignment', paragraphs: [] }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'At least one body paragraph is required.' });
+    });
+
+    it('reports which paragraphs develop each claim', async () => {
+      const llm = mockLlm({
+        'thesis-alignment': {
+          alignment: {
+            claims: [{ claim: 'teens need sleep' }, { claim: 'grades improve' }, { claim: 'buses cost less' }],
+            paragraphs: [
+              { index: 0, supports: [0, 0], explanation: 'Shows the need for sleep.' },
+              { index: 1, supports: [], explanation: 'Lunch is off topic.' },
+              { index: 2, supports: [1, 7], explanation: 'Links sleep to grades.' },
+            ],
+          },
+        },
+      });
+      const response = await handler(post({ thesis, mode: 'alignment', paragraphs }));
+
+      expect(JSON.parse(llm.requests[0].messages[1].content)).toEqual({ thesis, paragraphs });
+      expect(await response.json()).toEqual({
+        alignment: {
+          claims: [
+            { claim: 'teens need sleep', paragraphs: [0] },
+            { claim: 'grades improve', paragraphs: [2] },
+            { claim: 'buses cost less', paragraphs: [] },
+          ],
+          paragraphs: [
+            { index: 0, claims: [0], explanation: 'Shows the need for sleep.' },
+            { index: 1, claims: [], explanation: 'Lunch is off topic.' },
+            { index: 2, claims: [1], explanation: 'Links sleep to grades.' },
+          ],
+        },
+      });
+    });
+
+    it('returns 500 when the response is unusable', async () => {
+      mockLlm({ 'thesis-alignment': { alignment: { claims: [], paragraphs: [] } } });
+      const response = await handler(post({ thesis, mode: 'alignment', paragraphs }));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'Could not check the thesis against the essay. Please try again.' });
+    });
+  });
+});
@@ -3,13 +3,13 @@
  *
  * This function receives a thesis statement and uses the OpenAI API to analyze
  * its clarity and strength, providing structured feedback and improved alternatives.
+ * In `alignment` mode it also receives the essay's body paragraphs and reports
+ * which paragraphs develop each point of the thesis.
  */
 
-import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from 'https://deno.land/x/openai@v4.47.1/mod.ts';
-
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-const client = new OpenAI({ apiKey: OPENAI_API_KEY });
+import { completeJson } from '../_shared/completion.ts';
+import { type JsonSchema } from '../_shared/json-schema.ts';
+import { errorResponse, getErrorMessage, handleCorsPreflight, jsonResponse } from '../_shared/responses.ts';
 
 const SYSTEM_PROMPT = `
 You are a high school writing teacher who specializes in helping 9th grade students craft strong, clear, and arguable thesis statements.
@@ -59,51 +59,175 @@ Your JSON response:
 }
 `;
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
+const ALIGNMENT_SYSTEM_PROMPT = `You are a high school writing teacher who helps 9th grade students check that their essay delivers what their thesis promises.
+
+You will be given a JSON object with the student's "thesis" and the essay's body "paragraphs", in order.
+
+1. Split the thesis into the separate points ("claims") it promises to argue. A thesis usually makes 1-3 claims. Write each claim as a short phrase in simple words.
+2. For EACH paragraph, list the 0-based indexes of the claims it develops in "supports". A paragraph supports a claim when its main point argues or gives evidence for it, not when it only mentions the topic.
+3. For EACH paragraph, write a one-sentence "explanation" a 9th grader understands. For a paragraph that supports no claim, say how it drifts from the thesis and how to connect it.
+
+Return JSON format:
+{
+  "alignment": {
+    "claims": [
+      { "claim": "teenagers need more sleep" },
+      { "claim": "later start times improve grades" }
+    ],
+    "paragraphs": [
+      { "index": 0, "supports": [0], "explanation": "This paragraph shows why teens need more sleep." },
+      { "index": 1, "supports": [], "explanation": "This paragraph is about school lunches, which your thesis never mentions. Cut it or tie it to sleep." }
+    ]
+  }
+}
+
+"index" is the paragraph's 0-based position in "paragraphs".`;
+
+const analysisSchema: JsonSchema = {
+  type: 'object',
+  required: ['analysis'],
+  properties: {
+    analysis: {
+      type: 'object',
+      required: ['summary', 'alternatives'],
+      properties: {
+        summary: { type: 'string' },
+        alternatives: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['title', 'thesis'],
+            properties: {
+              title: { type: 'string' },
+              thesis: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const alignmentSchema: JsonSchema = {
+  type: 'object',
+  required: ['alignment'],
+  properties: {
+    alignment: {
+      type: 'object',
+      required: ['claims', 'paragraphs'],
+      properties: {
+        claims: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['claim'],
+            properties: { claim: { type: 'string' } },
+          },
+        },
+        paragraphs: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['index', 'supports', 'explanation'],
+            properties: {
+              index: { type: 'integer' },
+              supports: { type: 'array', items: { type: 'integer' } },
+              explanation: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+interface ModelAlignment {
+  claims: { claim: string }[];
+  paragraphs: { index: number; supports: number[]; explanation: string }[];
+}
+
+/**
+ * Checks which body paragraphs develop each claim of the thesis. Claims no
+ * paragraph supports are undeveloped; paragraphs that support no claim drift
+ * off the thesis.
+ */
+async function analyzeAlignment(thesis: string, paragraphs: string[]): Promise<Response> {
+  const { data, usedFallback } = await completeJson<{ alignment: ModelAlignment }>({
+    task: 'thesis-alignment',
+    model: 'gpt-4o',
+    system: ALIGNMENT_SYSTEM_PROMPT,
+    user: JSON.stringify({ thesis, paragraphs }),
+    schema: alignmentSchema,
+    fallback: { alignment: { claims: [], paragraphs: [] } },
+    temperature: 0.2,
+    maxTokens: 2000,
+  });
+
+  if (usedFallback) {
+    return errorResponse('Could not check the thesis against the essay. Please try again.');
   }
 
+  const { claims } = data.alignment;
+
+  // One entry per paragraph, in order, citing only claims that exist
+  const alignedParagraphs = paragraphs.map((_, index) => {
+    const modelParagraph = data.alignment.paragraphs.find(p => p.index === index);
+    return {
+      index,
+      claims: [...new Set(modelParagraph?.supports || [])].filter(claim => claim >= 0 && claim < claims.length).sort((a, b) => a - b),
+      explanation: modelParagraph?.explanation || '',
+    };
+  });
+
+  return jsonResponse({
+    alignment: {
+      claims: claims.map(({ claim }, claimIndex) => ({
+        claim,
+        paragraphs: alignedParagraphs.filter(p => p.claims.includes(claimIndex)).map(p => p.index),
+      })),
+      paragraphs: alignedParagraphs,
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  const preflight = handleCorsPreflight(req);
+  if (preflight) return preflight;
+
   try {
-    const { thesis } = await req.json();
+    const { thesis, mode, paragraphs } = await req.json();
 
     if (!thesis || typeof thesis !== 'string') {
-      return new Response(JSON.stringify({ error: 'Thesis input is required.' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+      return errorResponse('Thesis input is required.', 400);
+    }
+
+    if (mode === 'alignment') {
+      if (!Array.isArray(paragraphs) || paragraphs.length === 0 || !paragraphs.every(p => typeof p === 'string')) {
+        return errorResponse('At least one body paragraph is required.', 400);
+      }
+      return await analyzeAlignment(thesis, paragraphs);
     }
 
-    const completion = await client.chat.completions.create({
+    const { data, usedFallback } = await completeJson({
+      task: 'thesis-analyzer',
       model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: JSON.stringify({ thesis }) },
-      ],
-      response_format: { type: 'json_object' },
+      system: SYSTEM_PROMPT,
+      user: JSON.stringify({ thesis }),
+      schema: analysisSchema,
+      fallback: { analysis: null },
       temperature: 0.7, // Higher temperature for more creative alternatives
     });
 
-    const responseJson = completion.choices[0].message.content;
-
-    if (!responseJson) {
-      return new Response(JSON.stringify({ error: 'No response from AI.' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    // There is no useful partial analysis, so report the failure to the student
+    if (usedFallback) {
+      return errorResponse('No response from AI.');
     }
 
-    const analysis = JSON.parse(responseJson);
-
-    return new Response(JSON.stringify(analysis), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200,
-    });
+    return jsonResponse(data);
   } catch (error) {
     console.error('Error processing thesis analysis:', error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return errorResponse(getErrorMessage(error));
   }
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,28 @@
+/**
+ * Expands the suggestions table so every category produced by the AI features
+ * can be persisted, not just the original grammar/style types.
+ * Argument-style suggestions carry no replacement text, so suggested_text
+ * defaults to an empty string.
+ */
+alter table suggestions drop constraint suggestions_type_check;
+
+alter table suggestions add constraint suggestions_type_check check (
+  type in (
+    'grammar',
+    'spelling',
+    'style',
+    'thesis',
+    'academic_voice',
+    'evidence',
+    'argument',
+    'logical_flow',
+    'consistency',
+    'claim_support',
+    'fallacy'
+  )
+);
+
+alter table suggestions alter column suggested_text set default '';
+
+-- Pending suggestions are reloaded per document whenever the editor opens
+create index idx_suggestions_document_status on suggestions(document_id, status);
@@ -0,0 +1,26 @@
+/**
+ * Creates the document_versions table to store point-in-time snapshots of a
+ * document's Tiptap JSON. Snapshots are taken periodically while writing,
+ * manually by the student, and automatically before a version is restored.
+ */
+create table document_versions (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid references documents(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  title text not null,
+  content jsonb,
+  word_count integer default 0 not null,
+  kind text default 'auto' not null check (kind in ('auto', 'manual', 'restore')),
+  label text,
+  created_at timestamp with time zone default now() not null
+);
+
+comment on table public.document_versions is 'Snapshots of documents for version history and restore.';
+
+alter table document_versions enable row level security;
+
+create policy "Users can manage their own document versions." on document_versions for all using (
+  auth.uid() = user_id
+);
+
+create index idx_document_versions_document_id on document_versions(document_id, created_at desc);
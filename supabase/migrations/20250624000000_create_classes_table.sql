@@ -0,0 +1,164 @@
+/**
+ * Adds teacher accounts, classes and class enrollment.
+ * Teachers create classes and share a join code; students enroll by entering
+ * the code. Students can submit a document to a class they are enrolled in,
+ * which lets the class teacher read (but not edit) it.
+ */
+
+-- Roles: 'user' is a student account, 'teacher' can create classes.
+alter table users add constraint users_role_check check (role in ('user', 'teacher'));
+
+-- Store the name and role chosen at signup on the public profile
+create or replace function public.handle_new_user()
+returns trigger as $$
+begin
+  insert into public.users (id, full_name, role)
+  values (
+    new.id,
+    nullif(trim(new.raw_user_meta_data->>'full_name'), ''),
+    case when new.raw_user_meta_data->>'role' = 'teacher' then 'teacher' else 'user' end
+  );
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Generates a six character join code without easily confused characters (0/O, 1/I).
+create function public.generate_join_code()
+returns text as $$
+  select string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (floor(random() * 32) + 1)::integer, 1), '')
+  from generate_series(1, 6);
+$$ language sql volatile;
+
+create table classes (
+  id uuid primary key default gen_random_uuid(),
+  teacher_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  description text,
+  join_code text default public.generate_join_code() not null unique,
+  created_at timestamp with time zone default now() not null
+);
+
+comment on table public.classes is 'Classes created by teachers. Students join with the join code.';
+
+create table class_enrollments (
+  class_id uuid references classes(id) on delete cascade not null,
+  student_id uuid references auth.users(id) on delete cascade not null,
+  joined_at timestamp with time zone default now() not null,
+  primary key (class_id, student_id)
+);
+
+comment on table public.class_enrollments is 'Students enrolled in each class.';
+
+create index idx_classes_teacher_id on classes(teacher_id);
+create index idx_class_enrollments_student_id on class_enrollments(student_id);
+
+-- Documents can be submitted to a class for the teacher to read
+alter table documents add column class_id uuid references classes(id) on delete set null;
+alter table documents add column submitted_at timestamp with time zone;
+
+create index idx_documents_class_id on documents(class_id);
+
+-- These helpers run as the table owner so that the classes and enrollment
+-- policies can refer to each other without recursing through RLS.
+create function public.is_class_teacher(target_class_id uuid)
+returns boolean as $$
+  select exists (
+    select 1 from classes where id = target_class_id and teacher_id = auth.uid()
+  );
+$$ language sql security definer stable set search_path = public;
+
+create function public.is_enrolled_in_class(target_class_id uuid, target_student_id uuid default auth.uid())
+returns boolean as $$
+  select exists (
+    select 1 from class_enrollments where class_id = target_class_id and student_id = target_student_id
+  );
+$$ language sql security definer stable set search_path = public;
+
+-- Set up Row Level Security (RLS)
+alter table classes enable row level security;
+alter table class_enrollments enable row level security;
+
+create policy "Teachers can manage their own classes." on classes for all using (
+  auth.uid() = teacher_id
+) with check (
+  auth.uid() = teacher_id
+  and exists (select 1 from users where id = auth.uid() and role = 'teacher')
+);
+
+create policy "Students can view classes they are enrolled in." on classes for select using (
+  public.is_enrolled_in_class(id)
+);
+
+create policy "Students can view their own enrollments." on class_enrollments for select using (
+  auth.uid() = student_id
+);
+
+create policy "Students can leave a class." on class_enrollments for delete using (
+  auth.uid() = student_id
+);
+
+create policy "Teachers can view their class rosters." on class_enrollments for select using (
+  public.is_class_teacher(class_id)
+);
+
+create policy "Teachers can remove students from their classes." on class_enrollments for delete using (
+  public.is_class_teacher(class_id)
+);
+
+-- Students may only attach their documents to classes they are enrolled in
+drop policy "Users can manage their own documents." on documents;
+
+create policy "Users can manage their own documents." on documents for all using (
+  auth.uid() = user_id
+) with check (
+  auth.uid() = user_id
+  and (class_id is null or public.is_enrolled_in_class(class_id))
+);
+
+-- Teachers get read-only access to documents their students submitted
+create policy "Teachers can view documents submitted to their classes." on documents for select using (
+  class_id is not null
+  and submitted_at is not null
+  and public.is_class_teacher(class_id)
+  and public.is_enrolled_in_class(class_id, user_id)
+);
+
+-- Leaving or being removed from a class detaches the student's documents from it
+create function public.detach_class_documents()
+returns trigger as $$
+begin
+  update documents
+  set class_id = null, submitted_at = null
+  where class_id = old.class_id and user_id = old.student_id;
+  return old;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger on_class_enrollment_deleted
+  after delete on class_enrollments
+  for each row execute procedure public.detach_class_documents();
+
+-- Students cannot read classes before joining, so joining by code goes
+-- through this function instead of a direct insert.
+create function public.join_class(code text)
+returns uuid as $$
+declare
+  target_class_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to join a class.';
+  end if;
+
+  select id into target_class_id from classes where join_code = upper(trim(code));
+
+  if target_class_id is null then
+    return null;
+  end if;
+
+  insert into class_enrollments (class_id, student_id)
+  values (target_class_id, auth.uid())
+  on conflict do nothing;
+
+  return target_class_id;
+end;
+$$ language plpgsql security definer set search_path = public;
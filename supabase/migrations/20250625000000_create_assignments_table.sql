@@ -0,0 +1,126 @@
+/**
+ * Adds assignments and submissions.
+ * Teachers post assignments to a class; students start a document from an
+ * assignment and submit it. Submitting stores a frozen snapshot of the
+ * document, and submissions after the due date are flagged as late.
+ */
+create table assignments (
+  id uuid primary key default gen_random_uuid(),
+  class_id uuid references classes(id) on delete cascade not null,
+  title text not null,
+  prompt text not null,
+  essay_type text default 'argumentative' not null check (
+    essay_type in ('argumentative', 'expository', 'narrative', 'descriptive', 'compare_contrast', 'literary_analysis', 'research')
+  ),
+  min_words integer check (min_words is null or min_words >= 0),
+  max_words integer check (max_words is null or max_words > 0),
+  due_at timestamp with time zone not null,
+  created_at timestamp with time zone default now() not null,
+  check (min_words is null or max_words is null or min_words <= max_words)
+);
+
+comment on table public.assignments is 'Essay assignments posted by teachers to a class.';
+
+create index idx_assignments_class_id on assignments(class_id, due_at);
+
+-- Documents started from an assignment; one per student and assignment
+alter table documents add column assignment_id uuid references assignments(id) on delete set null;
+
+create unique index idx_documents_user_assignment on documents(user_id, assignment_id)
+  where assignment_id is not null;
+
+create table submissions (
+  id uuid primary key default gen_random_uuid(),
+  assignment_id uuid references assignments(id) on delete cascade not null,
+  document_id uuid references documents(id) on delete set null,
+  student_id uuid references auth.users(id) on delete cascade not null,
+  title text not null,
+  content jsonb,
+  word_count integer default 0 not null,
+  submitted_at timestamp with time zone default now() not null,
+  is_late boolean default false not null,
+  unique (assignment_id, student_id)
+);
+
+comment on table public.submissions is 'Frozen snapshots of documents submitted for an assignment.';
+
+create index idx_submissions_student_id on submissions(student_id);
+
+-- The text of Tiptap JSON, with citation labels and a line break after each block
+create function public.document_text(node jsonb)
+returns text as $$
+begin
+  return case
+    when node is null then ''
+    when node->>'type' = 'text' then coalesce(node->>'text', '')
+    when node->>'type' = 'citation' then coalesce(node->'attrs'->>'label', '')
+    when node->>'type' = 'hardBreak' then E'\n'
+    else coalesce((
+      select string_agg(public.document_text(child.value), '' order by child.ordinality)
+      from jsonb_array_elements(node->'content') with ordinality as child
+    ), '') || E'\n'
+  end;
+end;
+$$ language plpgsql immutable;
+
+-- Counts the words in Tiptap JSON the way the editor does: the text of each
+-- block, split on whitespace
+create function public.count_document_words(content jsonb)
+returns integer as $$
+  select count(*)::integer
+  from regexp_split_to_table(public.document_text(content), '\s+') as word
+  where word <> '';
+$$ language sql immutable;
+
+-- The submission time, late flag and snapshot are set by the database, not
+-- the client, so a submission always matches the student's document
+create or replace function public.stamp_submission()
+returns trigger as $$
+declare
+  submitted documents%rowtype;
+begin
+  select * into submitted from documents where id = new.document_id;
+  new.title = submitted.title;
+  new.content = submitted.content;
+  new.word_count = public.count_document_words(submitted.content);
+  new.submitted_at = now();
+  new.is_late = new.submitted_at > (select due_at from assignments where id = new.assignment_id);
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger stamp_submission
+  before insert on submissions
+  for each row execute procedure public.stamp_submission();
+
+-- Set up Row Level Security (RLS)
+alter table assignments enable row level security;
+alter table submissions enable row level security;
+
+create policy "Teachers can manage assignments in their classes." on assignments for all using (
+  public.is_class_teacher(class_id)
+);
+
+create policy "Students can view assignments in their classes." on assignments for select using (
+  public.is_enrolled_in_class(class_id)
+);
+
+-- Submissions cannot be updated or deleted once made
+create policy "Students can view their own submissions." on submissions for select using (
+  auth.uid() = student_id
+);
+
+create policy "Students can submit their own assignment documents." on submissions for insert with check (
+  auth.uid() = student_id
+  and public.is_enrolled_in_class((select class_id from assignments where id = assignment_id))
+  and exists (
+    select 1 from documents
+    where documents.id = document_id
+      and documents.user_id = auth.uid()
+      and documents.assignment_id = submissions.assignment_id
+  )
+);
+
+create policy "Teachers can view submissions to their classes." on submissions for select using (
+  public.is_class_teacher((select class_id from assignments where id = assignment_id))
+);
@@ -0,0 +1,39 @@
+/**
+ * Adds rubrics that teachers build and attach to assignments.
+ * A rubric's criteria are stored as JSON: each criterion has an id, a name,
+ * a description and scored levels with descriptors. Students can read the
+ * rubric of any assignment in their classes so the editor can score drafts
+ * against it.
+ */
+create table rubrics (
+  id uuid primary key default gen_random_uuid(),
+  teacher_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  criteria jsonb default '[]'::jsonb not null check (jsonb_typeof(criteria) = 'array'),
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+comment on table public.rubrics is 'Grading rubrics built by teachers. Criteria and levels are stored as JSON.';
+
+create index idx_rubrics_teacher_id on rubrics(teacher_id);
+
+alter table assignments add column rubric_id uuid references rubrics(id) on delete set null;
+
+-- Set up Row Level Security (RLS)
+alter table rubrics enable row level security;
+
+create policy "Teachers can manage their own rubrics." on rubrics for all using (
+  auth.uid() = teacher_id
+) with check (
+  auth.uid() = teacher_id
+  and exists (select 1 from users where id = auth.uid() and role = 'teacher')
+);
+
+create policy "Students can view rubrics attached to their assignments." on rubrics for select using (
+  exists (
+    select 1 from assignments
+    where assignments.rubric_id = rubrics.id
+      and public.is_enrolled_in_class(assignments.class_id)
+  )
+);
@@ -0,0 +1,109 @@
+/**
+ * Adds teacher reviews of assignment submissions.
+ * Teachers leave threaded comments anchored to ranges of the submitted text,
+ * score the submission against the rubric and give an overall grade. Nothing
+ * is visible to the student until the teacher returns the submission; after
+ * that the student can reply to and resolve comments.
+ *
+ * Anchors store the quoted text with some context before and after it, so
+ * they can be found again after the student edits the document.
+ */
+create table submission_reviews (
+  submission_id uuid primary key references submissions(id) on delete cascade,
+  rubric_scores jsonb default '{}'::jsonb not null check (jsonb_typeof(rubric_scores) = 'object'),
+  grade text,
+  returned_at timestamp with time zone,
+  updated_at timestamp with time zone default now() not null
+);
+
+comment on table public.submission_reviews is 'Rubric scores, grades and return status for assignment submissions.';
+
+create table submission_comments (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid references submissions(id) on delete cascade not null,
+  author_id uuid references auth.users(id) on delete cascade not null,
+  parent_id uuid references submission_comments(id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  -- The anchor is set on the first comment of a thread only
+  quote text,
+  prefix text,
+  suffix text,
+  start_offset integer,
+  end_offset integer,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone default now() not null,
+  check (parent_id is not null or (quote is not null and start_offset is not null and end_offset is not null))
+);
+
+comment on table public.submission_comments is 'Threaded comments on submissions, anchored to a quoted range of the text.';
+
+create index idx_submission_comments_submission_id on submission_comments(submission_id, created_at);
+
+-- Whether the current user teaches the class a submission was made to
+create function public.is_submission_teacher(target_submission_id uuid)
+returns boolean as $$
+  select exists (
+    select 1 from submissions
+    join assignments on assignments.id = submissions.assignment_id
+    join classes on classes.id = assignments.class_id
+    where submissions.id = target_submission_id and classes.teacher_id = auth.uid()
+  );
+$$ language sql security definer stable set search_path = public;
+
+-- Whether the current user made a submission that has been returned to them
+create function public.is_returned_to_student(target_submission_id uuid)
+returns boolean as $$
+  select exists (
+    select 1 from submissions
+    join submission_reviews on submission_reviews.submission_id = submissions.id
+    where submissions.id = target_submission_id
+      and submissions.student_id = auth.uid()
+      and submission_reviews.returned_at is not null
+  );
+$$ language sql security definer stable set search_path = public;
+
+-- Set up Row Level Security (RLS)
+alter table submission_reviews enable row level security;
+alter table submission_comments enable row level security;
+
+create policy "Teachers can review submissions to their classes." on submission_reviews for all using (
+  public.is_submission_teacher(submission_id)
+);
+
+create policy "Students can view returned reviews of their submissions." on submission_reviews for select using (
+  public.is_returned_to_student(submission_id)
+);
+
+create policy "Teachers can view comments on submissions to their classes." on submission_comments for select using (
+  public.is_submission_teacher(submission_id)
+);
+
+create policy "Teachers can comment on submissions to their classes." on submission_comments for insert with check (
+  auth.uid() = author_id and public.is_submission_teacher(submission_id)
+);
+
+create policy "Students can view comments on their returned submissions." on submission_comments for select using (
+  public.is_returned_to_student(submission_id)
+);
+
+-- Students reply to threads but cannot start them
+create policy "Students can reply to comments on their returned submissions." on submission_comments for insert with check (
+  auth.uid() = author_id
+  and public.is_returned_to_student(submission_id)
+  and exists (
+    select 1 from submission_comments parent
+    where parent.id = submission_comments.parent_id and parent.submission_id = submission_comments.submission_id
+  )
+);
+
+create policy "Comment participants can resolve threads." on submission_comments for update using (
+  public.is_submission_teacher(submission_id) or public.is_returned_to_student(submission_id)
+);
+
+create policy "Authors can delete their own comments." on submission_comments for delete using (
+  auth.uid() = author_id
+);
+
+-- Only the resolved state of a comment can change after it is posted
+revoke update on submission_comments from authenticated;
+grant update (resolved_at) on submission_comments to authenticated;
@@ -0,0 +1,196 @@
+/**
+ * Adds sharing documents for peer review and collaborative editing.
+ * Owners create share links that grant comment or edit access; opening a link
+ * gives the user their own share, which is removed again when the link is
+ * revoked. Collaborators edit the same Yjs document over a private Realtime
+ * channel, and the merged Yjs state is saved with the document so the next
+ * session starts from it. Everyone with access can leave threaded comments.
+ */
+
+-- Base64 encoded Yjs state; null until the document is opened in the editor
+alter table documents add column collab_state text;
+
+create table document_shares (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid references documents(id) on delete cascade not null,
+  permission text not null check (permission in ('comment', 'edit')),
+  -- A share is either a link (with a token) or a user who opened a link
+  token text unique,
+  user_id uuid references auth.users(id) on delete cascade,
+  link_id uuid references document_shares(id) on delete cascade,
+  created_at timestamp with time zone default now() not null,
+  check ((token is null) <> (user_id is null)),
+  unique (document_id, user_id)
+);
+
+comment on table public.document_shares is 'Share links for documents and the users who opened them.';
+
+create index idx_document_shares_user_id on document_shares(user_id);
+
+create table document_comments (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid references documents(id) on delete cascade not null,
+  author_id uuid references auth.users(id) on delete cascade not null,
+  parent_id uuid references document_comments(id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  -- The anchor is set on the first comment of a thread only
+  quote text,
+  prefix text,
+  suffix text,
+  start_offset integer,
+  end_offset integer,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone default now() not null,
+  check (parent_id is not null or (quote is not null and start_offset is not null and end_offset is not null))
+);
+
+comment on table public.document_comments is 'Threaded comments on documents, anchored to a quoted range of the text.';
+
+create index idx_document_comments_document_id on document_comments(document_id, created_at);
+
+-- The current user's access to a document: 'owner', 'edit', 'comment' or null
+create function public.document_permission(target_document_id uuid)
+returns text as $$
+  select case
+    when exists (select 1 from documents where id = target_document_id and user_id = auth.uid()) then 'owner'
+    else (
+      select permission from document_shares
+      where document_id = target_document_id and user_id = auth.uid()
+    )
+  end;
+$$ language sql security definer stable set search_path = public;
+
+-- Set up Row Level Security (RLS)
+alter table document_shares enable row level security;
+alter table document_comments enable row level security;
+
+create policy "Collaborators can view documents shared with them." on documents for select using (
+  public.document_permission(id) in ('comment', 'edit')
+);
+
+create policy "Collaborators can edit documents shared for editing." on documents for update using (
+  public.document_permission(id) = 'edit'
+) with check (
+  public.document_permission(id) = 'edit'
+);
+
+-- Editors run the suggestion checks too; their suggestions are filed under
+-- the document's owner, like the owner's own
+create policy "Editors can manage suggestions on documents shared for editing." on suggestions for all using (
+  public.document_permission(document_id) = 'edit'
+) with check (
+  public.document_permission(document_id) = 'edit'
+  and user_id = (select documents.user_id from documents where documents.id = suggestions.document_id)
+);
+
+-- Collaborators may change the title and content, not who owns the document
+-- or where it was submitted
+create function public.protect_shared_document()
+returns trigger as $$
+begin
+  if public.document_permission(old.id) = 'edit' and (
+    new.user_id is distinct from old.user_id
+    or new.class_id is distinct from old.class_id
+    or new.submitted_at is distinct from old.submitted_at
+    or new.assignment_id is distinct from old.assignment_id
+  ) then
+    raise exception 'Only the owner can change this document.';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger protect_shared_document
+  before update on documents
+  for each row execute procedure public.protect_shared_document();
+
+create policy "Owners can manage shares of their documents." on document_shares for all using (
+  public.document_permission(document_id) = 'owner'
+);
+
+create policy "Users can view their own shares." on document_shares for select using (
+  auth.uid() = user_id
+);
+
+create policy "Users can remove themselves from shared documents." on document_shares for delete using (
+  auth.uid() = user_id
+);
+
+create policy "Collaborators can view comments on documents." on document_comments for select using (
+  public.document_permission(document_id) is not null
+);
+
+create policy "Collaborators can comment on documents." on document_comments for insert with check (
+  auth.uid() = author_id
+  and public.document_permission(document_id) is not null
+  and (
+    parent_id is null
+    or exists (
+      select 1 from document_comments parent
+      where parent.id = document_comments.parent_id and parent.document_id = document_comments.document_id
+    )
+  )
+);
+
+create policy "Collaborators can resolve threads." on document_comments for update using (
+  public.document_permission(document_id) is not null
+);
+
+create policy "Authors can delete their own comments." on document_comments for delete using (
+  auth.uid() = author_id
+);
+
+-- Only the resolved state of a comment can change after it is posted
+revoke update on document_comments from authenticated;
+grant update (resolved_at) on document_comments to authenticated;
+
+-- Users cannot read link shares, so opening a link goes through this
+-- function. An existing comment share is upgraded by an edit link.
+create function public.accept_document_share(share_token text)
+returns uuid as $$
+declare
+  link document_shares%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to open a shared document.';
+  end if;
+
+  select * into link from document_shares where token = share_token;
+
+  if link.id is null then
+    return null;
+  end if;
+
+  if exists (select 1 from documents where id = link.document_id and user_id = auth.uid()) then
+    return link.document_id;
+  end if;
+
+  insert into document_shares (document_id, permission, user_id, link_id)
+  values (link.document_id, link.permission, auth.uid(), link.id)
+  on conflict (document_id, user_id) do update
+    set permission = excluded.permission, link_id = excluded.link_id
+    where document_shares.permission = 'comment';
+
+  return link.document_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Collaboration channels are private and named "document:<id>". Anyone with
+-- access receives changes; only owners and editors may send them.
+create policy "Collaborators can receive document changes." on realtime.messages for select to authenticated using (
+  realtime.messages.extension = 'broadcast'
+  and realtime.topic() like 'document:%'
+  and public.document_permission(split_part(realtime.topic(), ':', 2)::uuid) is not null
+);
+
+create policy "Collaborators can send document changes." on realtime.messages for insert to authenticated with check (
+  realtime.messages.extension = 'broadcast'
+  and realtime.topic() like 'document:%'
+  and (
+    public.document_permission(split_part(realtime.topic(), ':', 2)::uuid) in ('owner', 'edit')
+    or (
+      public.document_permission(split_part(realtime.topic(), ':', 2)::uuid) = 'comment'
+      and realtime.messages.event in ('sync-request', 'awareness')
+    )
+  )
+);
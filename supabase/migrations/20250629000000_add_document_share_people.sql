@@ -0,0 +1,124 @@
+/**
+ * Adds view-only access and sharing a document with a person directly.
+ * Owners invite a person by email address as a viewer, commenter or editor,
+ * and can change or remove that access later. The invite becomes a share when
+ * the person accepts it. Direct shares are kept apart from link shares:
+ * opening a link never changes them, and revoking a link only removes the
+ * users who joined through it.
+ */
+
+alter table document_shares drop constraint document_shares_permission_check;
+alter table document_shares add constraint document_shares_permission_check
+  check (permission in ('view', 'comment', 'edit'));
+
+-- A share is now a link, a user, or an email address invited by the owner
+alter table document_shares add column email text;
+alter table document_shares drop constraint document_shares_check;
+alter table document_shares add constraint document_shares_check check (num_nonnulls(token, user_id, email) = 1);
+alter table document_shares add constraint document_shares_document_id_email_key unique (document_id, email);
+
+-- Orders share permissions from least to most access
+create function public.share_permission_rank(permission text)
+returns integer as $$
+  select array_position(array['view', 'comment', 'edit'], permission);
+$$ language sql immutable;
+
+drop policy "Collaborators can view documents shared with them." on documents;
+
+create policy "Collaborators can view documents shared with them." on documents for select using (
+  public.document_permission(id) in ('view', 'comment', 'edit')
+);
+
+-- Viewers read comments but do not write them
+drop policy "Collaborators can comment on documents." on document_comments;
+drop policy "Collaborators can resolve threads." on document_comments;
+
+create policy "Collaborators can comment on documents." on document_comments for insert with check (
+  auth.uid() = author_id
+  and public.document_permission(document_id) in ('owner', 'comment', 'edit')
+  and (
+    parent_id is null
+    or exists (
+      select 1 from document_comments parent
+      where parent.id = document_comments.parent_id and parent.document_id = document_comments.document_id
+    )
+  )
+);
+
+create policy "Collaborators can resolve threads." on document_comments for update using (
+  public.document_permission(document_id) in ('owner', 'comment', 'edit')
+);
+
+-- An existing link share is upgraded by a link with more access; shares
+-- the owner made directly are left alone
+create or replace function public.accept_document_share(share_token text)
+returns uuid as $$
+declare
+  link document_shares%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to open a shared document.';
+  end if;
+
+  select * into link from document_shares where token = share_token;
+
+  if link.id is null then
+    return null;
+  end if;
+
+  if exists (select 1 from documents where id = link.document_id and user_id = auth.uid()) then
+    return link.document_id;
+  end if;
+
+  insert into document_shares (document_id, permission, user_id, link_id)
+  values (link.document_id, link.permission, auth.uid(), link.id)
+  on conflict (document_id, user_id) do update
+    set permission = excluded.permission, link_id = excluded.link_id
+    where document_shares.link_id is not null
+      and public.share_permission_rank(document_shares.permission) < public.share_permission_rank(excluded.permission);
+
+  return link.document_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Owners invite people by email address without learning whether anyone has
+-- an account with it. A user accepts the invites sent to their address, once
+-- it is confirmed, and gets a direct share in place of a link share.
+create function public.accept_document_invites()
+returns void as $$
+declare
+  user_email text;
+begin
+  select lower(auth.users.email) into user_email from auth.users
+  where auth.users.id = auth.uid() and auth.users.email_confirmed_at is not null;
+
+  if user_email is null then
+    return;
+  end if;
+
+  insert into document_shares (document_id, permission, user_id)
+  select invite.document_id, invite.permission, auth.uid()
+  from document_shares invite
+  join documents on documents.id = invite.document_id
+  where invite.email = user_email and documents.user_id <> auth.uid()
+  on conflict (document_id, user_id) do update
+    set permission = excluded.permission, link_id = null;
+
+  delete from document_shares where email = user_email;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Viewers, like commenters, only send sync requests and presence
+drop policy "Collaborators can send document changes." on realtime.messages;
+
+create policy "Collaborators can send document changes." on realtime.messages for insert to authenticated with check (
+  realtime.messages.extension = 'broadcast'
+  and realtime.topic() like 'document:%'
+  and (
+    public.document_permission(split_part(realtime.topic(), ':', 2)::uuid) in ('owner', 'edit')
+    or (
+      public.document_permission(split_part(realtime.topic(), ':', 2)::uuid) in ('view', 'comment')
+      and realtime.messages.event in ('sync-request', 'awareness')
+    )
+  )
+);
@@ -0,0 +1,22 @@
+/**
+ * Allows counterargument suggestions from the argument coach to be persisted.
+ * They mark the passages that state or rebut an opposing view.
+ */
+alter table suggestions drop constraint suggestions_type_check;
+
+alter table suggestions add constraint suggestions_type_check check (
+  type in (
+    'grammar',
+    'spelling',
+    'style',
+    'thesis',
+    'academic_voice',
+    'evidence',
+    'argument',
+    'logical_flow',
+    'consistency',
+    'claim_support',
+    'fallacy',
+    'counterargument'
+  )
+);
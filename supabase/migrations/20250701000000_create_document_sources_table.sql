@@ -0,0 +1,44 @@
+/**
+ * Adds a source library to each document. Sources are shared by everyone
+ * with access to the document; owners and editors manage them. In-text
+ * citations in the document refer to a source by id, and the document's
+ * citation style decides how citations and the works cited list are formatted.
+ */
+
+alter table documents add column citation_style text not null default 'mla'
+  check (citation_style in ('mla', 'apa', 'chicago'));
+
+create table document_sources (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid references documents(id) on delete cascade not null,
+  author text not null default '',
+  title text not null check (length(trim(title)) > 0),
+  publisher text not null default '',
+  year text not null default '',
+  url text not null default '',
+  pages text not null default '',
+  created_at timestamp with time zone default now() not null
+);
+
+comment on table public.document_sources is 'The sources a document cites, for in-text citations and the works cited list.';
+
+create index idx_document_sources_document_id on document_sources(document_id, created_at);
+
+-- Set up Row Level Security (RLS)
+alter table document_sources enable row level security;
+
+create policy "Users with access to a document can view its sources." on document_sources for select using (
+  public.document_permission(document_id) in ('owner', 'view', 'comment', 'edit')
+);
+
+create policy "Owners and editors can add sources." on document_sources for insert with check (
+  public.document_permission(document_id) in ('owner', 'edit')
+);
+
+create policy "Owners and editors can update sources." on document_sources for update using (
+  public.document_permission(document_id) in ('owner', 'edit')
+);
+
+create policy "Owners and editors can delete sources." on document_sources for delete using (
+  public.document_permission(document_id) in ('owner', 'edit')
+);
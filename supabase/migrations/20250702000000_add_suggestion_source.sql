@@ -0,0 +1,7 @@
+/**
+ * Links evidence suggestions to the library source they most likely come
+ * from, so a missing citation can be inserted in one step. The link is
+ * cleared if the source is removed from the library.
+ */
+alter table suggestions
+  add column source_id uuid references document_sources(id) on delete set null;
@@ -0,0 +1,61 @@
+/**
+ * Collaborators who can comment reply to comment threads on a shared
+ * document; a reply must belong to a thread on the same document, and
+ * viewers cannot reply. Run with `supabase test db`.
+ */
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(4);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'commenter@example.com'),
+  ('00000000-0000-0000-0000-0000000000b2', 'viewer@example.com');
+
+insert into documents (id, user_id, title) values
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'Sleep'),
+  ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000a1', 'Another essay');
+
+insert into document_shares (document_id, permission, user_id) values
+  ('00000000-0000-0000-0000-0000000000d1', 'comment', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-0000000000d2', 'comment', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-0000000000d1', 'view', '00000000-0000-0000-0000-0000000000b2');
+
+insert into document_comments (id, document_id, author_id, body, quote, start_offset, end_offset)
+values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'Is this your thesis?', 'Teens are tired.', 0, 16);
+
+set local role authenticated;
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000b1';
+
+select lives_ok(
+  $$ insert into document_comments (document_id, author_id, parent_id, body)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000f1', 'Yes, it is.') $$,
+  'A commenter can reply to a thread'
+);
+
+select lives_ok(
+  $$ insert into document_comments (document_id, author_id, body, quote, start_offset, end_offset)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000b1', 'Add a source.', 'Teens are tired.', 0, 16) $$,
+  'A commenter can start a thread'
+);
+
+select throws_ok(
+  $$ insert into document_comments (document_id, author_id, parent_id, body)
+     values ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000f1', 'Wrong document') $$,
+  '42501',
+  null,
+  'A reply must belong to a thread on the same document'
+);
+
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000b2';
+
+select throws_ok(
+  $$ insert into document_comments (document_id, author_id, parent_id, body)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000f1', 'Viewer reply') $$,
+  '42501',
+  null,
+  'A viewer cannot reply'
+);
+
+select * from finish();
+rollback;
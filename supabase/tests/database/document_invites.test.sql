@@ -0,0 +1,55 @@
+/**
+ * Owners invite people by email address the same way whether or not anyone
+ * has an account with it, and invites become shares once the person with a
+ * confirmed address accepts them. Run with `supabase test db`.
+ */
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(6);
+
+insert into auth.users (id, email, email_confirmed_at) values
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com', now()),
+  ('00000000-0000-0000-0000-0000000000b1', 'reviewer@example.com', now()),
+  ('00000000-0000-0000-0000-0000000000b2', 'unconfirmed@example.com', null);
+
+insert into documents (id, user_id, title)
+values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'Sleep');
+
+set local role authenticated;
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000a1';
+
+insert into document_shares (document_id, permission, email) values
+  ('00000000-0000-0000-0000-0000000000d1', 'comment', 'reviewer@example.com'),
+  ('00000000-0000-0000-0000-0000000000d1', 'comment', 'nobody@example.com'),
+  ('00000000-0000-0000-0000-0000000000d1', 'edit', 'unconfirmed@example.com');
+
+select is(
+  (select count(*)::integer from document_shares where email is not null and user_id is null),
+  3,
+  'Invites look the same whether or not the address has an account'
+);
+
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000b1';
+
+select is(public.document_permission('00000000-0000-0000-0000-0000000000d1'), null, 'An invite gives no access before it is accepted');
+
+select lives_ok($$ select public.accept_document_invites() $$, 'A user can accept their invites');
+
+select is(public.document_permission('00000000-0000-0000-0000-0000000000d1'), 'comment', 'An accepted invite gives its access');
+
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000b2';
+
+select public.accept_document_invites();
+
+select is(public.document_permission('00000000-0000-0000-0000-0000000000d1'), null, 'An unconfirmed address cannot accept an invite');
+
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000a1';
+
+select is(
+  (select array_agg(email order by email) from document_shares where email is not null),
+  array['nobody@example.com', 'unconfirmed@example.com'],
+  'Accepted invites are removed'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,54 @@
+/**
+ * Editors of a shared document store and update suggestions, filed under the
+ * document's owner; commenters cannot. Run with `supabase test db`.
+ */
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(4);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'owner@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'editor@example.com'),
+  ('00000000-0000-0000-0000-0000000000b2', 'commenter@example.com');
+
+insert into documents (id, user_id, title)
+values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'Sleep');
+
+insert into document_shares (document_id, permission, user_id) values
+  ('00000000-0000-0000-0000-0000000000d1', 'edit', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-0000000000d1', 'comment', '00000000-0000-0000-0000-0000000000b2');
+
+set local role authenticated;
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000b1';
+
+select lives_ok(
+  $$ insert into suggestions (id, document_id, user_id, type, original_text, suggested_text, position_start, position_end)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'grammar', 'their', 'there', 0, 5) $$,
+  'An editor can store suggestions for the owner'
+);
+
+select lives_ok(
+  $$ update suggestions set status = 'accepted' where id = '00000000-0000-0000-0000-0000000000f1' $$,
+  'An editor can update a suggestion'
+);
+
+select throws_ok(
+  $$ insert into suggestions (document_id, user_id, type, original_text, suggested_text, position_start, position_end)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000b2', 'grammar', 'their', 'there', 0, 5) $$,
+  '42501',
+  null,
+  'An editor cannot file suggestions under another user'
+);
+
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000b2';
+
+select throws_ok(
+  $$ insert into suggestions (document_id, user_id, type, original_text, suggested_text, position_start, position_end)
+     values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 'grammar', 'their', 'there', 0, 5) $$,
+  '42501',
+  null,
+  'A commenter cannot store suggestions'
+);
+
+select * from finish();
+rollback;
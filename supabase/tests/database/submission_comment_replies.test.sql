@@ -0,0 +1,61 @@
+/**
+ * Students reply to the teacher's comments once a submission is returned,
+ * but cannot start threads of their own or reply before it is returned.
+ * Run with `supabase test db`.
+ */
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(3);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'teacher@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@example.com');
+
+insert into classes (id, teacher_id, name)
+values ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', 'English 9');
+
+insert into assignments (id, class_id, title, prompt, due_at)
+values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000c1', 'Sleep', 'Should school start later?', now() + interval '1 day');
+
+insert into documents (id, user_id, title, assignment_id)
+values ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-0000000000b1', 'Sleep', '00000000-0000-0000-0000-0000000000d1');
+
+insert into submissions (id, assignment_id, document_id, student_id)
+values ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-0000000000b1');
+
+insert into submission_reviews (submission_id) values ('00000000-0000-0000-0000-0000000000e1');
+
+insert into submission_comments (id, submission_id, author_id, body, quote, start_offset, end_offset)
+values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'Cite this.', 'Teens are tired.', 0, 16);
+
+set local role authenticated;
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000b1';
+
+select throws_ok(
+  $$ insert into submission_comments (submission_id, author_id, parent_id, body)
+     values ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000f1', 'Early reply') $$,
+  '42501',
+  null,
+  'A student cannot reply before the submission is returned'
+);
+
+reset role;
+update submission_reviews set returned_at = now() where submission_id = '00000000-0000-0000-0000-0000000000e1';
+set local role authenticated;
+
+select lives_ok(
+  $$ insert into submission_comments (submission_id, author_id, parent_id, body)
+     values ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000f1', 'I added a citation.') $$,
+  'A student can reply to a comment on a returned submission'
+);
+
+select throws_ok(
+  $$ insert into submission_comments (submission_id, author_id, body, quote, start_offset, end_offset)
+     values ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000b1', 'New thread', 'Teens are tired.', 0, 16) $$,
+  '42501',
+  null,
+  'A student cannot start a thread'
+);
+
+select * from finish();
+rollback;
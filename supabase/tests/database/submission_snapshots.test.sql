@@ -0,0 +1,60 @@
+/**
+ * A submission's title, content and word count are copied from the
+ * student's document, whatever the client sends. Run with `supabase test db`.
+ */
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(4);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'teacher@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'student@example.com');
+
+insert into classes (id, teacher_id, name)
+values ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', 'English 9');
+
+insert into class_enrollments (class_id, student_id)
+values ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1');
+
+insert into assignments (id, class_id, title, prompt, due_at)
+values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000c1', 'Sleep', 'Should school start later?', now() + interval '1 day');
+
+insert into documents (id, user_id, title, assignment_id, content)
+values (
+  '00000000-0000-0000-0000-0000000000e2',
+  '00000000-0000-0000-0000-0000000000b1',
+  'Later starts',
+  '00000000-0000-0000-0000-0000000000d1',
+  '{"type": "doc", "content": [
+    {"type": "heading", "attrs": {"level": 1}, "content": [{"type": "text", "text": "Sleep"}]},
+    {"type": "paragraph", "content": [
+      {"type": "text", "text": "Teens need "},
+      {"type": "text", "text": "more", "marks": [{"type": "bold"}]},
+      {"type": "text", "text": " sleep"},
+      {"type": "citation", "attrs": {"label": "(Walker 3)"}},
+      {"type": "text", "text": "."}
+    ]},
+    {"type": "paragraph", "content": [{"type": "text", "text": "Schools"}, {"type": "hardBreak"}, {"type": "text", "text": "agree."}]}
+  ]}'
+);
+
+set local role authenticated;
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000b1';
+
+select lives_ok(
+  $$ insert into submissions (id, assignment_id, document_id, student_id, title, content, word_count)
+     values ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000e2',
+       '00000000-0000-0000-0000-0000000000b1', 'Forged', '{"type": "doc", "content": []}', 5000) $$,
+  'A student can submit their assignment document'
+);
+
+select is((select title from submissions), 'Later starts', 'The title comes from the document');
+select is(
+  (select content from submissions),
+  (select content from documents where id = '00000000-0000-0000-0000-0000000000e2'),
+  'The content comes from the document'
+);
+select is((select word_count from submissions), 8, 'The word count is counted from the document');
+
+select * from finish();
+rollback;
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'node:url';
+
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: /^@\//, replacement: fileURLToPath(new URL('./src/', import.meta.url)) },
+      // Edge Functions import the OpenAI client from deno.land; tests never call it
+      {
+        find: /^https:\/\/deno\.land\/x\/openai@[^/]+\/mod\.ts$/,
+        replacement: fileURLToPath(new URL('./supabase/functions/tests/openai-client-stub.ts', import.meta.url)),
+      },
+    ],
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts', 'supabase/functions/tests/**/*.test.ts'],
+  },
+});